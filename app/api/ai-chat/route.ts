@@ -1,11 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getGeminiAI } from '@/lib/gemini-ai'
 import { getFarmerDataAggregator } from '@/lib/farmer-data-aggregator'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+    const userId = auth.user.id
+
     const body = await request.json()
-    const { message, userId, context, history } = body
+    const { message, context, history } = body
 
     console.log('[AI Chat API] Request summary:', {
       messageLength: message.length,
@@ -1,20 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getGeminiAI } from '@/lib/gemini-ai'
 import { getFarmerDataAggregator } from '@/lib/farmer-data-aggregator'
+import { getIrrigationPlannerService } from '@/lib/irrigation-planner'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+    const userId = auth.user.id
+
     const body = await request.json()
-    const { userId, question, includeHistoricalData = true } = body
+    const { question, includeHistoricalData = true } = body
 
     // Validate required fields
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
-      )
-    }
-
     if (!question || question.trim().length === 0) {
       return NextResponse.json(
         { error: 'Question is required' },
@@ -135,17 +136,15 @@ export async function POST(request: NextRequest) {
 // GET endpoint for predefined insights
 export async function GET(request: NextRequest) {
   try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+    const userId = auth.user.id
+
     const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
     const type = searchParams.get('type') || 'general'
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
-      )
-    }
-
     console.log('[AI Insights API] Generating predefined insights:', type)
 
     // Get comprehensive farmer data
@@ -168,6 +167,13 @@ export async function GET(request: NextRequest) {
         insights = await geminiAI.generateWeatherBasedRecommendations(farmerData)
         break
       case 'irrigation':
+        // The schedule is computed, the AI only explains it
+        try {
+          const { plans } = await getIrrigationPlannerService().getPlansForUser(userId)
+          farmerData.irrigationPlans = plans
+        } catch (planError) {
+          console.warn('[AI Insights API] Irrigation plan unavailable:', planError)
+        }
         insights = await geminiAI.generateIrrigationRecommendations(farmerData)
         break
       default:
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
+import { getCropHealthService } from '@/lib/crop-health'
+import { getWeatherAlertService } from '@/lib/weather-alerts'
+import { getDiseaseRiskService } from '@/lib/disease-risk'
+import { ALERT_CHANNELS, isAlertChannel } from '@/lib/alert-notifications'
+
+function errorResponse(error: any, fallback: string) {
+  console.error('[Alerts API] Error:', error)
+  return NextResponse.json(
+    {
+      error: fallback,
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    },
+    { status: 500 }
+  )
+}
+
+// GET /api/alerts?fieldId=&includeResolved=true - Crop-health, weather and disease risk alerts on the user's fields, plus their notification channels
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const { searchParams } = request.nextUrl
+    const [alerts, subscription] = await Promise.all([
+      getCropHealthService().getAlertsForUser(auth.user.id, {
+        fieldId: searchParams.get('fieldId') || undefined,
+        includeResolved: searchParams.get('includeResolved') === 'true'
+      }),
+      prisma.telegramSubscription.findUnique({ where: { userId: auth.user.id }, select: { isActive: true } })
+    ])
+
+    return NextResponse.json({
+      alerts,
+      channels: auth.user.alertChannels.filter(isAlertChannel),
+      // Whether each channel can reach the user at all
+      reachable: {
+        telegram: !!subscription?.isActive,
+        sms: !!auth.user.phone
+      }
+    })
+  } catch (error: any) {
+    return errorResponse(error, 'Failed to fetch alerts')
+  }
+}
+
+// POST /api/alerts - Check a field now instead of waiting for the scheduled run: { fieldId, category?: "crop_health" | "weather" | "disease" }
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const { fieldId, category = 'crop_health' } = await request.json()
+    if (category !== 'crop_health' && category !== 'weather' && category !== 'disease') {
+      return NextResponse.json({ error: 'Category must be "crop_health", "weather" or "disease"' }, { status: 400 })
+    }
+    const field = fieldId
+      ? await prisma.field.findFirst({ where: { id: fieldId, farm: { userId: auth.user.id } }, select: { id: true } })
+      : null
+    if (!field) {
+      return NextResponse.json({ error: 'Field not found' }, { status: 404 })
+    }
+
+    const result = category === 'weather'
+      ? await getWeatherAlertService().checkField(field.id)
+      : category === 'disease'
+        ? await getDiseaseRiskService().checkField(field.id)
+        : await getCropHealthService().checkField(field.id)
+    return NextResponse.json(result)
+  } catch (error: any) {
+    return errorResponse(error, 'Failed to check field')
+  }
+}
+
+// PATCH /api/alerts - Acknowledge or resolve an alert: { id, action: "acknowledge" | "resolve" }
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const { id, action } = await request.json()
+    if (action !== 'acknowledge' && action !== 'resolve') {
+      return NextResponse.json({ error: 'Action must be "acknowledge" or "resolve"' }, { status: 400 })
+    }
+
+    const alert = id
+      ? await prisma.fieldAlert.findFirst({ where: { id, field: { farm: { userId: auth.user.id } } } })
+      : null
+    if (!alert) {
+      return NextResponse.json({ error: 'Alert not found' }, { status: 404 })
+    }
+
+    const updated = await prisma.fieldAlert.update({
+      where: { id: alert.id },
+      data: action === 'acknowledge'
+        ? { status: 'acknowledged', acknowledgedAt: new Date() }
+        : { status: 'resolved', resolvedAt: new Date() }
+    })
+    return NextResponse.json(updated)
+  } catch (error: any) {
+    return errorResponse(error, 'Failed to update alert')
+  }
+}
+
+// PUT /api/alerts - Choose where alerts are sent besides the dashboard: { channels: ["telegram", "sms"] }
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const { channels } = await request.json()
+    if (!Array.isArray(channels) || !channels.every((channel) => typeof channel === 'string' && isAlertChannel(channel))) {
+      return NextResponse.json({ error: `Channels must be a list of: ${ALERT_CHANNELS.join(', ')}` }, { status: 400 })
+    }
+
+    const user = await prisma.user.update({
+      where: { id: auth.user.id },
+      data: { alertChannels: [...new Set(channels as string[])] },
+      select: { alertChannels: true }
+    })
+    return NextResponse.json({ channels: user.alertChannels })
+  } catch (error: any) {
+    return errorResponse(error, 'Failed to update alert channels')
+  }
+}
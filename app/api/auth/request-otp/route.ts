@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getAuthService } from '@/lib/auth'
+
+// POST /api/auth/request-otp - Send a login OTP to a mobile number
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { phone } = body
+
+    if (!phone) {
+      return NextResponse.json(
+        { error: 'Mobile number is required' },
+        { status: 400 }
+      )
+    }
+
+    const { phone: normalizedPhone, expiresAt } = await getAuthService().requestOtp(phone)
+
+    return NextResponse.json({
+      success: true,
+      phone: normalizedPhone,
+      expiresAt,
+      message: 'OTP sent successfully'
+    })
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('[Auth API] Error sending OTP:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to send OTP. Please try again.',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    )
+  }
+}
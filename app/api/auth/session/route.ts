@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { clearSessionCookie, getAuthService, getSessionUser, unauthorizedResponse } from '@/lib/auth'
+import { SESSION_COOKIE_NAME } from '@/lib/session-cookie'
+
+// GET /api/auth/session - Get the logged-in user
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return clearSessionCookie(unauthorizedResponse())
+    }
+
+    const farmerProfile = await prisma.farmerProfile.findUnique({
+      where: { userId: auth.user.id },
+      select: { isOnboardingComplete: true }
+    })
+
+    return NextResponse.json({
+      user: {
+        id: auth.user.id,
+        name: auth.user.name,
+        phone: auth.user.phone,
+        location: auth.user.location
+      },
+      isOnboardingComplete: farmerProfile?.isOnboardingComplete || false,
+      expiresAt: auth.session.expiresAt
+    })
+  } catch (error) {
+    console.error('[Auth API] Error fetching session:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/auth/session - Log out
+export async function DELETE(request: NextRequest) {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE_NAME)?.value
+    if (token) {
+      await getAuthService().revokeSession(token)
+    }
+
+    return clearSessionCookie(NextResponse.json({ success: true }))
+  } catch (error) {
+    console.error('[Auth API] Error logging out:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
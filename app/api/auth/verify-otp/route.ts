@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthError, getAuthService, setSessionCookie } from '@/lib/auth'
+
+// POST /api/auth/verify-otp - Verify the OTP and start a session
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { phone, code } = body
+
+    if (!phone || !code) {
+      return NextResponse.json(
+        { error: 'Mobile number and OTP are required' },
+        { status: 400 }
+      )
+    }
+
+    const { token, user } = await getAuthService().verifyOtp(phone, String(code), request.headers.get('user-agent'))
+
+    const response = NextResponse.json({
+      success: true,
+      user: {
+        id: user.id,
+        name: user.name,
+        phone: user.phone,
+        location: user.location
+      },
+      isOnboardingComplete: user.farmerProfile?.isOnboardingComplete || false
+    })
+
+    return setSessionCookie(response, token)
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      )
+    }
+
+    console.error('[Auth API] Error verifying OTP:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to verify OTP. Please try again.',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    )
+  }
+}
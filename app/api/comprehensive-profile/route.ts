@@ -2,23 +2,33 @@ import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@prisma/client'
 import { getFarmerDataAggregator } from '@/lib/farmer-data-aggregator'
 import { getGeminiAI } from '@/lib/gemini-ai'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
+import { fieldBoundariesForUser, getPolygonSyncService, parseFieldRing } from '@/lib/polygon-sync'
+import { checkFieldBoundary, toPolygonGeoJSON, type NamedBoundary } from '@/lib/field-geometry'
+import { CropSeasonError, daysSinceSowing, getCropSeasonService, parseNewSeason } from '@/lib/crop-seasons'
 
 const prisma = new PrismaClient()
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+    const userId = auth.user.id
+
     const body = await request.json()
     const {
-      userId,
       fullName,
-      mobile,
       pincode,
       location,
       pincodeLocation,
-      farmFields,
+      farmFields: submittedFields,
       primaryCrop,
+      cropVariety,
       soilType,
       sowingDate,
+      expectedHarvestDate,
       hasStorageCapacity,
       storageCapacity,
       irrigationMethod,
@@ -31,33 +41,58 @@ export async function POST(request: NextRequest) {
     console.log('[Comprehensive Profile API] Creating complete profile for user:', userId)
 
     // Validate required fields
-    if (!userId || !fullName || !mobile || !pincode || !primaryCrop || !soilType || !sowingDate || !irrigationMethod) {
+    if (!fullName || !pincode || !primaryCrop || !soilType || !sowingDate || !irrigationMethod) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       )
     }
 
-    if (!farmFields || farmFields.length === 0) {
+    if (!submittedFields || submittedFields.length === 0) {
       return NextResponse.json(
         { error: 'At least one farm field is required' },
         { status: 400 }
       )
     }
 
-    // Create or update user
-    const userData = await prisma.user.upsert({
+    // Boundaries are checked against each other and the user's existing fields, and their
+    // area is computed here rather than trusted from the client
+    const boundaries: NamedBoundary[] = await fieldBoundariesForUser(userId)
+    const farmFields: any[] = []
+    for (const field of submittedFields) {
+      const points = parseFieldRing(typeof field.coordinates === 'string' ? field.coordinates : JSON.stringify(field.coordinates))
+      const check = checkFieldBoundary(points || [], boundaries)
+      if (!check.valid) {
+        return NextResponse.json(
+          { error: `${field.name}: ${check.issues.find((issue) => issue.severity === 'error')!.message}`, issues: check.issues },
+          { status: 422 }
+        )
+      }
+      boundaries.push({ name: field.name, points: check.points })
+      farmFields.push({ ...field, coordinates: toPolygonGeoJSON(check.points), area: Number(check.areaHa.toFixed(2)) })
+    }
+
+    // Current season on every field; checked before anything is written
+    const seasonInput = {
+      cropName: primaryCrop,
+      variety: cropVariety,
+      sowingDate,
+      expectedHarvestDate
+    }
+    try {
+      parseNewSeason(seasonInput)
+    } catch (seasonError) {
+      if (seasonError instanceof CropSeasonError) {
+        return NextResponse.json({ error: seasonError.message }, { status: 400 })
+      }
+      throw seasonError
+    }
+
+    // Update user (phone is already set from the OTP login)
+    const userData = await prisma.user.update({
       where: { id: userId },
-      update: {
-        name: fullName,
-        phone: mobile,
-        location: `${pincode}${location ? ` (${location.lat},${location.lng})` : ''}`
-      },
-      create: {
-        id: userId,
-        email: `${userId}@farmsat.temp`, // Temporary email
+      data: {
         name: fullName,
-        phone: mobile,
         location: `${pincode}${location ? ` (${location.lat},${location.lng})` : ''}`
       }
     })
@@ -95,41 +130,33 @@ export async function POST(request: NextRequest) {
         }
       })
 
-      // Create fields and polygons in agromonitoring
-      try {
-        const { getAgromonitoringAPI } = await import('@/lib/agromonitoring-api')
-        const agroAPI = getAgromonitoringAPI()
-
-        for (const field of farmFields) {
-          // Create field in database
-          const dbField = await prisma.field.create({
-            data: {
-              name: field.name,
-              coordinates: field.coordinates, // GeoJSON polygon
-              cropType: primaryCrop,
-              area: field.area,
-              farmId: farm.id
-            }
-          })
+      // Create fields, start their current season and link each to a polygon in agromonitoring for satellite data
+      const polygonSync = getPolygonSyncService()
+      const cropSeasons = getCropSeasonService()
 
-          // Create polygon in agromonitoring for satellite data
-          try {
-            const coordsData = JSON.parse(field.coordinates)
-            if (coordsData.type === 'Polygon' && coordsData.coordinates[0]) {
-              const points = coordsData.coordinates[0].map((coord: number[]) => ({
-                lat: coord[1],
-                lng: coord[0]
-              }))
-
-              const polygon = await agroAPI.createPolygon(field.name, points)
-              console.log(`[Comprehensive Profile] Created agromonitoring polygon: ${polygon.id} for field: ${field.name}`)
-            }
-          } catch (polygonError) {
-            console.warn(`[Comprehensive Profile] Could not create polygon for field ${field.name}:`, polygonError)
+      for (const field of farmFields) {
+        const dbField = await prisma.field.create({
+          data: {
+            name: field.name,
+            coordinates: field.coordinates, // GeoJSON polygon
+            cropType: field.cropType || primaryCrop,
+            area: field.area,
+            farmId: farm.id
           }
+        })
+
+        await cropSeasons.startSeason(dbField.id, {
+          ...seasonInput,
+          cropName: field.cropType || primaryCrop
+        })
+
+        try {
+          const polygonId = await polygonSync.ensurePolygonForField(dbField.id)
+          console.log(`[Comprehensive Profile] Linked agromonitoring polygon: ${polygonId} to field: ${field.name}`)
+        } catch (polygonError) {
+          // The reconciliation job retries fields left without a polygon
+          console.warn(`[Comprehensive Profile] Could not create polygon for field ${field.name}:`, polygonError)
         }
-      } catch (agroError) {
-        console.warn('[Comprehensive Profile] Agromonitoring polygon creation failed:', agroError)
       }
     }
 
@@ -184,7 +211,7 @@ export async function POST(request: NextRequest) {
 
         aiInsights = await geminiAI.generateCropInsights({
           name: fullName,
-          phone: mobile,
+          phone: userData.phone || undefined,
           location: `${pincode}${coordinates ? ` (${coordinates.lat}, ${coordinates.lng})` : ''}`,
           cropName: primaryCrop,
           soilType,
@@ -194,7 +221,14 @@ export async function POST(request: NextRequest) {
           irrigationMethod,
           farmingExperience: farmingExperience ? parseInt(farmingExperience) : undefined,
           farmSize: profileContext.farm.totalArea,
-          previousYield: previousYield ? parseFloat(previousYield) : undefined
+          previousYield: previousYield ? parseFloat(previousYield) : undefined,
+          activeSeason: {
+            cropName: primaryCrop,
+            variety: cropVariety || undefined,
+            sowingDate: new Date(sowingDate).toISOString().split('T')[0],
+            expectedHarvestDate: expectedHarvestDate ? new Date(expectedHarvestDate).toISOString().split('T')[0] : undefined,
+            daysSinceSowing: daysSinceSowing({ sowingDate: new Date(sowingDate) })
+          }
         })
       }
     } catch (error) {
@@ -240,15 +274,11 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
-
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
-      )
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
     }
+    const userId = auth.user.id
 
     // Get comprehensive user data
     const user = await prisma.user.findUnique({
@@ -262,6 +292,9 @@ export async function GET(request: NextRequest) {
                 ndviData: {
                   orderBy: { date: 'desc' },
                   take: 10 // Get latest 10 NDVI readings
+                },
+                cropSeasons: {
+                  orderBy: { sowingDate: 'desc' } // Active season first, past seasons kept for yield comparison
                 }
               }
             }
@@ -309,6 +342,10 @@ export async function GET(request: NextRequest) {
       },
       farmerProfile: user.farmerProfile,
       farms: user.farms,
+      activeSeasons: user.farms.flatMap((farm) => farm.fields.flatMap((field) => {
+        const active = field.cropSeasons.find((season) => !season.actualHarvestDate)
+        return active ? [{ ...active, fieldName: field.name }] : []
+      })),
       weatherData
     })
 
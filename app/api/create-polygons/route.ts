@@ -1,111 +1,76 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { PrismaClient } from '@prisma/client'
-import { getAgromonitoringAPI } from '@/lib/agromonitoring-api'
-
-const prisma = new PrismaClient()
+import { prisma } from '@/lib/prisma'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
+import { getPolygonSyncService } from '@/lib/polygon-sync'
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
-    const { userId } = body
-
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
-      )
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
     }
+    const userId = auth.user.id
 
-    console.log('[Create Polygons API] Creating polygons for user:', userId)
+    // Optional: limit to one farm or one field; by default every field on every farm
+    const body = await request.json().catch(() => ({}))
+    const { farmId, fieldId } = body as { farmId?: string; fieldId?: string }
 
-    // Get user's fields
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: {
-        farms: {
-          include: {
-            fields: true
-          }
-        }
-      }
-    })
+    const where = {
+      farm: { userId },
+      ...(farmId && { farmId }),
+      ...(fieldId && { id: fieldId })
+    }
+
+    console.log('[Create Polygons API] Creating polygons for user:', userId, { farmId, fieldId })
 
-    if (!user?.farms.length || !user.farms[0].fields.length) {
+    if (await prisma.field.count({ where }) === 0) {
       return NextResponse.json(
-        { error: 'No fields found for user' },
+        { error: farmId || fieldId ? 'Farm or field not found' : 'No fields found for user' },
         { status: 404 }
       )
     }
 
-    const fields = user.farms[0].fields
-    const agroAPI = getAgromonitoringAPI()
-    const createdPolygons = []
+    // Link or create a polygon for every field that does not have a working one
+    const result = await getPolygonSyncService().reconcile(userId, { farmId, fieldId })
 
-    // Check existing polygons first
-    const existingPolygons = await agroAPI.getPolygons()
-    
-    for (const field of fields) {
-      try {
-        // Check if polygon already exists
-        const existingPolygon = existingPolygons.find((p: any) => 
-          p.name.includes(field.name) || p.name.includes(user.name || 'Farm')
-        )
-
-        if (existingPolygon) {
-          console.log(`[Create Polygons] Polygon already exists: ${existingPolygon.id} for field: ${field.name}`)
-          createdPolygons.push({
-            fieldId: field.id,
-            fieldName: field.name,
-            polygonId: existingPolygon.id,
-            status: 'existing'
-          })
-          continue
-        }
-
-        // Create new polygon
-        if (field.coordinates) {
-          const coordsData = JSON.parse(field.coordinates)
-          if (coordsData.type === 'Polygon' && coordsData.coordinates[0]) {
-            const points = coordsData.coordinates[0].map((coord: number[]) => ({
-              lat: coord[1],
-              lng: coord[0]
-            }))
-            
-            const polygon = await agroAPI.createPolygon(field.name, points)
-            console.log(`[Create Polygons] Created new polygon: ${polygon.id} for field: ${field.name}`)
-            
-            createdPolygons.push({
-              fieldId: field.id,
-              fieldName: field.name,
-              polygonId: polygon.id,
-              status: 'created'
-            })
-          }
+    const farms = await prisma.farm.findMany({
+      where: { userId, ...(farmId && { id: farmId }) },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        fields: {
+          where: fieldId ? { id: fieldId } : undefined,
+          orderBy: { createdAt: 'asc' },
+          select: { id: true, name: true, polygonId: true }
         }
-      } catch (error) {
-        console.error(`[Create Polygons] Error creating polygon for field ${field.name}:`, error)
-        createdPolygons.push({
-          fieldId: field.id,
-          fieldName: field.name,
-          polygonId: null,
-          status: 'failed',
-          error: error instanceof Error ? error.message : 'Unknown error'
-        })
       }
-    }
+    })
+    const fieldCount = farms.reduce((sum, farm) => sum + farm.fields.length, 0)
 
     return NextResponse.json({
       success: true,
       userId,
-      totalFields: fields.length,
-      createdPolygons,
-      message: `Processed ${fields.length} fields for polygon creation`
+      totalFarms: farms.filter((farm) => farm.fields.length > 0).length,
+      totalFields: fieldCount,
+      farms: farms
+        .filter((farm) => farm.fields.length > 0)
+        .map((farm) => ({
+          farmId: farm.id,
+          farmName: farm.name,
+          fields: farm.fields.map((field) => ({
+            fieldId: field.id,
+            fieldName: field.name,
+            polygonId: field.polygonId,
+            status: field.polygonId ? 'linked' : 'failed'
+          }))
+        })),
+      result,
+      message: `Processed ${fieldCount} fields for polygon creation`
     })
 
   } catch (error: any) {
     console.error('[Create Polygons API] Error:', error)
     return NextResponse.json(
-      { 
+      {
         error: 'Failed to create polygons',
         details: process.env.NODE_ENV === 'development' ? error.message : undefined
       },
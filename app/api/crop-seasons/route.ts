@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
+import { CropSeasonError, getCropSeasonService } from '@/lib/crop-seasons'
+
+function errorResponse(error: any, fallback: string) {
+  if (error instanceof CropSeasonError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+
+  console.error('[Crop Seasons API] Error:', error)
+  return NextResponse.json(
+    {
+      error: fallback,
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    },
+    { status: 500 }
+  )
+}
+
+async function findUserSeason(userId: string, seasonId: string | null | undefined) {
+  if (!seasonId) return null
+  return prisma.cropSeason.findFirst({
+    where: { id: seasonId, field: { farm: { userId } } }
+  })
+}
+
+// GET /api/crop-seasons?fieldId= - Seasons of one field, or of every field when no fieldId is given
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const fieldId = request.nextUrl.searchParams.get('fieldId')
+    const fields = await prisma.field.findMany({
+      where: { farm: { userId: auth.user.id }, ...(fieldId && { id: fieldId }) },
+      orderBy: { createdAt: 'asc' },
+      include: { cropSeasons: { orderBy: { sowingDate: 'desc' } } }
+    })
+
+    if (fieldId && fields.length === 0) {
+      return NextResponse.json({ error: 'Field not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      fields: fields.map((field) => ({
+        fieldId: field.id,
+        fieldName: field.name,
+        farmId: field.farmId,
+        area: field.area,
+        activeSeason: field.cropSeasons.find((season) => !season.actualHarvestDate) || null,
+        seasons: field.cropSeasons
+      }))
+    })
+  } catch (error: any) {
+    return errorResponse(error, 'Failed to fetch crop seasons')
+  }
+}
+
+// POST /api/crop-seasons - Start a season on a field (or record a past one with its harvest)
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const { fieldId, ...input } = await request.json()
+    const field = fieldId
+      ? await prisma.field.findFirst({ where: { id: fieldId, farm: { userId: auth.user.id } } })
+      : null
+
+    if (!field) {
+      return NextResponse.json({ error: 'Field not found' }, { status: 404 })
+    }
+
+    const season = await getCropSeasonService().startSeason(field.id, input)
+    return NextResponse.json(season, { status: 201 })
+  } catch (error: any) {
+    return errorResponse(error, 'Failed to create crop season')
+  }
+}
+
+// PUT /api/crop-seasons - Update a season, e.g. record its harvest and yield
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const { id, fieldId: _fieldId, ...input } = await request.json()
+    const season = await findUserSeason(auth.user.id, id)
+    if (!season) {
+      return NextResponse.json({ error: 'Crop season not found' }, { status: 404 })
+    }
+
+    const updated = await getCropSeasonService().updateSeason(season.id, input)
+    return NextResponse.json(updated)
+  } catch (error: any) {
+    return errorResponse(error, 'Failed to update crop season')
+  }
+}
+
+// DELETE /api/crop-seasons?id= - Remove a season entered by mistake
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const season = await findUserSeason(auth.user.id, request.nextUrl.searchParams.get('id'))
+    if (!season) {
+      return NextResponse.json({ error: 'Crop season not found' }, { status: 404 })
+    }
+
+    await getCropSeasonService().deleteSeason(season.id)
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    return errorResponse(error, 'Failed to delete crop season')
+  }
+}
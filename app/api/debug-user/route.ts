@@ -1,17 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getFarmerDataAggregator } from '@/lib/farmer-data-aggregator'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
-
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'UserId parameter is required' },
-        { status: 400 }
-      )
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
     }
+    const userId = auth.user.id
 
     console.log('[Debug API] Fetching data for user:', userId)
 
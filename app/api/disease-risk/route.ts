@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getDiseaseRiskService } from '@/lib/disease-risk'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
+
+// GET /api/disease-risk?fieldId= - daily disease risk for the crop in the farmer's profile over the
+// last week and the forecast, for one field or every field
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const fieldId = request.nextUrl.searchParams.get('fieldId') || undefined
+    if (fieldId) {
+      const field = await prisma.field.findFirst({
+        where: { id: fieldId, farm: { userId: auth.user.id } },
+        select: { id: true }
+      })
+      if (!field) {
+        return NextResponse.json({ error: 'Field not found' }, { status: 404 })
+      }
+    }
+
+    const result = await getDiseaseRiskService().getRisksForUser(auth.user.id, fieldId)
+    return NextResponse.json(result)
+  } catch (error: any) {
+    console.error('[Disease Risk API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to work out disease risk',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,16 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getFarmerDataAggregator } from '@/lib/farmer-data-aggregator'
 import { PrismaClient } from '@prisma/client'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
 
 const prisma = new PrismaClient()
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+    const userId = auth.user.id
+
     const body = await request.json()
     const {
-      userId,
       name,
-      phone,
       location,
       cropName,
       soilType,
@@ -25,13 +30,6 @@ export async function POST(request: NextRequest) {
     } = body
 
     // Validate required fields
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
-      )
-    }
-
     if (!cropName || !soilType || !sowingDate || !irrigationMethod) {
       return NextResponse.json(
         { error: 'Missing required fields: cropName, soilType, sowingDate, irrigationMethod' },
@@ -41,19 +39,11 @@ export async function POST(request: NextRequest) {
 
     console.log('[Farmer Profile API] Creating/updating profile for user:', userId)
 
-    // Create or update user basic info
-    await prisma.user.upsert({
+    // Update user basic info (phone is the login identifier and is not editable here)
+    await prisma.user.update({
       where: { id: userId },
-      update: {
-        name,
-        phone,
-        location
-      },
-      create: {
-        id: userId,
-        email: `${userId}@temp.com`, // Temporary email, will be updated later
+      data: {
         name,
-        phone,
         location
       }
     })
@@ -111,21 +101,28 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
-
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
-      )
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
     }
+    const userId = auth.user.id
 
     // Get user with farmer profile
     const user = await prisma.user.findUnique({
       where: { id: userId },
       include: {
-        farmerProfile: true
+        farmerProfile: true,
+        farms: {
+          include: {
+            fields: {
+              select: {
+                id: true,
+                name: true,
+                cropSeasons: { where: { actualHarvestDate: null }, orderBy: { sowingDate: 'desc' }, take: 1 }
+              }
+            }
+          }
+        }
       }
     })
 
@@ -144,7 +141,11 @@ export async function GET(request: NextRequest) {
         phone: user.phone,
         location: user.location
       },
-      farmerProfile: user.farmerProfile
+      farmerProfile: user.farmerProfile,
+      // What is in the ground now on each field; the profile's crop is only the onboarding default
+      activeSeasons: user.farms.flatMap((farm) => farm.fields.flatMap((field) =>
+        field.cropSeasons.map((season) => ({ ...season, fieldName: field.name }))
+      ))
     })
 
   } catch (error: any) {
@@ -161,35 +162,28 @@ export async function GET(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
-    const body = await request.json()
-    const { userId, ...updateData } = body
-
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
-      )
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
     }
+    const userId = auth.user.id
+
+    const body = await request.json()
+    // The session decides which user is updated, and phone is the login identifier
+    delete body.userId
+    delete body.phone
 
     console.log('[Farmer Profile API] Updating profile for user:', userId)
 
     // Separate user data from farmer profile data
-    const { name, phone, location, ...profileData } = updateData
+    const { name, location, ...profileData } = body
 
     // Update user basic info if provided
-    if (name !== undefined || phone !== undefined || location !== undefined) {
-      await prisma.user.upsert({
+    if (name !== undefined || location !== undefined) {
+      await prisma.user.update({
         where: { id: userId },
-        update: {
-          ...(name !== undefined && { name }),
-          ...(phone !== undefined && { phone }),
-          ...(location !== undefined && { location })
-        },
-        create: {
-          id: userId,
-          email: `${userId}@temp.com`, // Temporary email, will be updated later
+        data: {
           ...(name !== undefined && { name }),
-          ...(phone !== undefined && { phone }),
           ...(location !== undefined && { location })
         }
       })
@@ -1,18 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
 
-// GET /api/farms - Get all farms for a user
+// GET /api/farms - Get all farms for the logged-in user
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
-
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
-      )
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
     }
+    const userId = auth.user.id
 
     const farms = await prisma.farm.findMany({
       where: {
@@ -51,12 +48,18 @@ export async function GET(request: NextRequest) {
 // POST /api/farms - Create a new farm
 export async function POST(request: NextRequest) {
   try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
     const body = await request.json()
-    const { name, description, location, area, userId } = body
+    const { name, description, location, area } = body
+    const userId = auth.user.id
 
-    if (!name || !userId) {
+    if (!name) {
       return NextResponse.json(
-        { error: 'Name and User ID are required' },
+        { error: 'Name is required' },
         { status: 400 }
       )
     }
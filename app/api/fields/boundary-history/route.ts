@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
+import { getFieldGeometryVersionService } from '@/lib/field-geometry-versions'
+
+// GET /api/fields/boundary-history?fieldId= - Boundaries the field has had, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const fieldId = request.nextUrl.searchParams.get('fieldId')
+    const field = fieldId
+      ? await prisma.field.findFirst({ where: { id: fieldId, farm: { userId: auth.user.id } }, select: { id: true } })
+      : null
+    if (!field) {
+      return NextResponse.json({ error: 'Field not found' }, { status: 404 })
+    }
+
+    const versions = await getFieldGeometryVersionService().getHistory(field.id)
+    return NextResponse.json({ fieldId: field.id, versions })
+  } catch (error: any) {
+    console.error('[Boundary History API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load boundary history',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
+import { BOUNDARY_FORMATS, getFieldBoundaryService, type BoundaryFormat } from '@/lib/field-boundaries'
+
+// GET /api/fields/export?format=geojson|kml|kmz|shapefile&farmId= - Boundaries of all the user's
+// fields (or one farm's) as a download
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const { searchParams } = request.nextUrl
+    const format = (searchParams.get('format') || 'geojson') as BoundaryFormat
+    const farmId = searchParams.get('farmId') || undefined
+
+    if (!(BOUNDARY_FORMATS as readonly string[]).includes(format)) {
+      return NextResponse.json({ error: `Format must be one of ${BOUNDARY_FORMATS.join(', ')}` }, { status: 400 })
+    }
+    if (farmId) {
+      const farm = await prisma.farm.findFirst({ where: { id: farmId, userId: auth.user.id }, select: { id: true } })
+      if (!farm) {
+        return NextResponse.json({ error: 'Farm not found' }, { status: 404 })
+      }
+    }
+
+    const file = await getFieldBoundaryService().exportBoundaries(auth.user.id, format, farmId)
+    return new NextResponse(typeof file.data === 'string' ? file.data : new Uint8Array(file.data), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`
+      }
+    })
+  } catch (error: any) {
+    console.error('[Field Export API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to export fields',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    )
+  }
+}
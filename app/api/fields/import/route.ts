@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
+import { BoundaryImportError, getFieldBoundaryService, parseBoundaryFile } from '@/lib/field-boundaries'
+
+const MAX_FILE_BYTES = 10 * 1024 * 1024
+
+// POST /api/fields/import - multipart form with file (KML, KMZ, GeoJSON or zipped shapefile),
+// optional farmId and preview=true.
+// A preview returns the boundaries found and the user's farms without saving anything; otherwise
+// every valid boundary becomes a field with its satellite polygon.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const form = await request.formData()
+    const file = form.get('file')
+    const farmId = form.get('farmId')
+    const preview = form.get('preview') === 'true'
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'A boundary file is required' }, { status: 400 })
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json({ error: 'The file is larger than 10 MB' }, { status: 413 })
+    }
+
+    const parsed = parseBoundaryFile(file.name, Buffer.from(await file.arrayBuffer()))
+
+    if (preview) {
+      const farms = await prisma.farm.findMany({
+        where: { userId: auth.user.id },
+        select: { id: true, name: true },
+        orderBy: { createdAt: 'asc' }
+      })
+      return NextResponse.json({ ...parsed, farms })
+    }
+
+    if (parsed.boundaries.length === 0) {
+      return NextResponse.json(
+        { error: 'None of the boundaries in the file can be imported', rejected: parsed.rejected },
+        { status: 422 }
+      )
+    }
+
+    const result = await getFieldBoundaryService().importBoundaries(
+      auth.user,
+      parsed.boundaries,
+      typeof farmId === 'string' && farmId ? farmId : undefined
+    )
+
+    // Created polygons are named after their fields, as GET /api/polygons returns them
+    return NextResponse.json(
+      {
+        created: result.created.map(({ field, polygon }) => ({
+          ...polygon,
+          name: field.name,
+          fieldId: field.id,
+          farmId: field.farmId
+        })),
+        failed: result.failed,
+        rejected: parsed.rejected,
+        warnings: parsed.warnings
+      },
+      { status: result.created.length ? 201 : 200 }
+    )
+  } catch (error: any) {
+    if (error instanceof BoundaryImportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('[Field Import API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to import fields',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,9 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
+import { fieldBoundariesForUser, getPolygonSyncService, parseFieldRing } from '@/lib/polygon-sync'
+import { checkFieldBoundary, toPolygonGeoJSON } from '@/lib/field-geometry'
+import { FieldGeometryError, getFieldGeometryVersionService } from '@/lib/field-geometry-versions'
 
 // GET /api/fields - Get all fields for a farm
 export async function GET(request: NextRequest) {
   try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
     const { searchParams } = new URL(request.url)
     const farmId = searchParams.get('farmId')
 
@@ -17,6 +26,7 @@ export async function GET(request: NextRequest) {
     const fields = await prisma.field.findMany({
       where: {
         farmId: farmId,
+        farm: { userId: auth.user.id },
       },
       include: {
         ndviData: {
@@ -47,8 +57,13 @@ export async function GET(request: NextRequest) {
 // POST /api/fields - Create a new field
 export async function POST(request: NextRequest) {
   try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
     const body = await request.json()
-    const { name, coordinates, cropType, area, farmId } = body
+    const { name, coordinates, cropType, farmId } = body
 
     if (!name || !coordinates || !farmId) {
       return NextResponse.json(
@@ -57,12 +72,40 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const farm = await prisma.farm.findFirst({
+      where: { id: farmId, userId: auth.user.id },
+    })
+
+    if (!farm) {
+      return NextResponse.json(
+        { error: 'Farm not found' },
+        { status: 404 }
+      )
+    }
+
+    // GeoJSON polygon, as a string or an object; area is computed here, not taken from the client
+    const points = parseFieldRing(typeof coordinates === 'string' ? coordinates : JSON.stringify(coordinates))
+    if (!points) {
+      return NextResponse.json(
+        { error: 'Coordinates must be a GeoJSON polygon' },
+        { status: 400 }
+      )
+    }
+
+    const check = checkFieldBoundary(points, await fieldBoundariesForUser(auth.user.id))
+    if (!check.valid) {
+      return NextResponse.json(
+        { error: check.issues.find((issue) => issue.severity === 'error')!.message, issues: check.issues },
+        { status: 422 }
+      )
+    }
+
     const field = await prisma.field.create({
       data: {
         name,
-        coordinates,
+        coordinates: toPolygonGeoJSON(check.points),
         cropType,
-        area: area ? parseFloat(area) : null,
+        area: check.areaHa,
         farmId,
       },
       include: {
@@ -75,6 +118,13 @@ export async function POST(request: NextRequest) {
       },
     })
 
+    // Link a polygon in agromonitoring for satellite data; the reconciliation job retries on failure
+    try {
+      field.polygonId = await getPolygonSyncService().ensurePolygonForField(field.id)
+    } catch (polygonError) {
+      console.warn(`Could not create polygon for field ${field.id}:`, polygonError)
+    }
+
     return NextResponse.json(field, { status: 201 })
   } catch (error) {
     console.error('Error creating field:', error)
@@ -84,3 +134,45 @@ export async function POST(request: NextRequest) {
     )
   }
 }
+
+// PUT /api/fields - Change a field's boundary; the old one is kept as history and the
+// Agromonitoring polygon is replaced
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const { fieldId, coordinates } = (await request.json()) as {
+      fieldId?: string
+      coordinates?: Array<{ lat: number; lng: number }>
+    }
+
+    if (!fieldId || !Array.isArray(coordinates) || coordinates.length < 3) {
+      return NextResponse.json(
+        { error: 'Field ID and at least 3 boundary points are required' },
+        { status: 400 }
+      )
+    }
+
+    const update = await getFieldGeometryVersionService().updateBoundary(auth.user.id, fieldId, coordinates)
+
+    // Polygon named after its field, as GET /api/polygons returns it
+    return NextResponse.json({
+      polygon: { ...update.polygon, name: update.field.name, fieldId: update.field.id, farmId: update.field.farmId },
+      version: update.version,
+      issues: update.issues
+    })
+  } catch (error: any) {
+    if (error instanceof FieldGeometryError) {
+      return NextResponse.json({ error: error.message, issues: error.issues }, { status: error.status })
+    }
+
+    console.error('Error updating field boundary:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
+import { ZoningError, getFieldZoningService } from '@/lib/field-zoning'
+import { createPolygonShapefile } from '@/lib/shapefile'
+import {
+  DEFAULT_STRATEGY,
+  DEFAULT_ZONE_COUNT,
+  PRESCRIPTION_DBF_FIELDS,
+  RATE_UNITS,
+  ZONE_COUNTS,
+  buildPrescription,
+  prescriptionRates,
+  type PrescriptionProduct,
+  type RateStrategy,
+  type RateUnit
+} from '@/lib/management-zones'
+
+const MAX_SPREAD = 50 // %
+
+function fileName(fieldName: string, date: string): string {
+  const slug = fieldName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'field'
+  return `${slug}-prescription-${date}`
+}
+
+// GET /api/fields/zones/prescription?fieldId=&zones=3&scene=&product=fertiliser&productName=&unit=kg/ha
+//   &baseRate=&strategy=&spread=20&rates=&format=geojson|shapefile
+// Variable-rate prescription over a field's management zones. Rates are spread around baseRate by
+// strategy, unless explicit per-zone rates (lowest zone first) are given.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const { searchParams } = request.nextUrl
+    const fieldId = searchParams.get('fieldId')
+    const zoneCount = parseInt(searchParams.get('zones') || String(DEFAULT_ZONE_COUNT))
+    const scene = searchParams.get('scene')
+    const product = (searchParams.get('product') || 'fertiliser') as PrescriptionProduct
+    const unit = (searchParams.get('unit') || 'kg/ha') as RateUnit
+    const baseRate = parseFloat(searchParams.get('baseRate') || '')
+    const strategy = (searchParams.get('strategy') || DEFAULT_STRATEGY[product]) as RateStrategy
+    const spread = parseFloat(searchParams.get('spread') || '20')
+    const explicitRates = searchParams.get('rates')?.split(',').map((rate) => parseFloat(rate))
+    const format = searchParams.get('format') || 'geojson'
+    const productName = (searchParams.get('productName') || (product === 'seed' ? 'Seed' : 'Fertiliser')).slice(0, 40)
+
+    if (!(ZONE_COUNTS as readonly number[]).includes(zoneCount)) {
+      return NextResponse.json({ error: `Zones must be one of ${ZONE_COUNTS.join(', ')}` }, { status: 400 })
+    }
+    if (product !== 'fertiliser' && product !== 'seed') {
+      return NextResponse.json({ error: 'Product must be "fertiliser" or "seed"' }, { status: 400 })
+    }
+    if (!(RATE_UNITS as readonly string[]).includes(unit)) {
+      return NextResponse.json({ error: `Unit must be one of ${RATE_UNITS.join(', ')}` }, { status: 400 })
+    }
+    if (strategy !== 'compensate' && strategy !== 'productivity') {
+      return NextResponse.json({ error: 'Strategy must be "compensate" or "productivity"' }, { status: 400 })
+    }
+    if (!explicitRates && !(baseRate > 0)) {
+      return NextResponse.json({ error: 'A base rate above zero is required' }, { status: 400 })
+    }
+    if (!(spread >= 0 && spread <= MAX_SPREAD)) {
+      return NextResponse.json({ error: `Spread must be between 0 and ${MAX_SPREAD}%` }, { status: 400 })
+    }
+    if (explicitRates?.some((rate) => !(rate >= 0))) {
+      return NextResponse.json({ error: 'Rates must be numbers of zero or more' }, { status: 400 })
+    }
+    if (format !== 'geojson' && format !== 'shapefile') {
+      return NextResponse.json({ error: 'Format must be "geojson" or "shapefile"' }, { status: 400 })
+    }
+
+    const field = fieldId
+      ? await prisma.field.findFirst({ where: { id: fieldId, farm: { userId: auth.user.id } }, select: { id: true } })
+      : null
+    if (!field) {
+      return NextResponse.json({ error: 'Field not found' }, { status: 404 })
+    }
+
+    const zoneMap = await getFieldZoningService().getZoneMap(field.id, {
+      zoneCount,
+      sceneTimestamp: scene ? parseInt(scene) : undefined
+    })
+    if (zoneMap.zones.length === 0) {
+      return NextResponse.json({ error: zoneMap.warnings[0] || 'No zones could be delineated' }, { status: 422 })
+    }
+
+    // Explicit rates are given per zone number, lowest first
+    const rates = explicitRates
+      ? zoneMap.zones.map((zone) => explicitRates[zone.zone - 1])
+      : prescriptionRates(zoneMap.zones, zoneCount, { baseRate, strategy, spread })
+    if (rates.some((rate) => rate === undefined)) {
+      return NextResponse.json({ error: `Give one rate for each of the ${zoneCount} zones` }, { status: 400 })
+    }
+
+    const prescription = buildPrescription(zoneMap.zones, rates, { productName, unit })
+    const name = fileName(zoneMap.fieldName, zoneMap.scene.date)
+
+    if (format === 'shapefile') {
+      const zip = createPolygonShapefile(
+        name,
+        prescription.features.map((feature) => ({ coordinates: feature.geometry.coordinates, properties: feature.properties })),
+        PRESCRIPTION_DBF_FIELDS
+      )
+      return new NextResponse(new Uint8Array(zip), {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="${name}.zip"`
+        }
+      })
+    }
+
+    return new NextResponse(JSON.stringify(prescription), {
+      headers: {
+        'Content-Type': 'application/geo+json',
+        'Content-Disposition': `attachment; filename="${name}.geojson"`
+      }
+    })
+  } catch (error: any) {
+    if (error instanceof ZoningError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('[Prescription API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to build prescription',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
+import { ZoningError, getFieldZoningService } from '@/lib/field-zoning'
+import { DEFAULT_ZONE_COUNT, ZONE_COUNTS } from '@/lib/management-zones'
+
+// GET /api/fields/zones?fieldId=&zones=3&scene= - Management zones within a field from one satellite scene's NDVI
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const { searchParams } = request.nextUrl
+    const fieldId = searchParams.get('fieldId')
+    const zoneCount = parseInt(searchParams.get('zones') || String(DEFAULT_ZONE_COUNT))
+    const scene = searchParams.get('scene')
+
+    if (!(ZONE_COUNTS as readonly number[]).includes(zoneCount)) {
+      return NextResponse.json({ error: `Zones must be one of ${ZONE_COUNTS.join(', ')}` }, { status: 400 })
+    }
+
+    const field = fieldId
+      ? await prisma.field.findFirst({ where: { id: fieldId, farm: { userId: auth.user.id } }, select: { id: true } })
+      : null
+    if (!field) {
+      return NextResponse.json({ error: 'Field not found' }, { status: 404 })
+    }
+
+    const zoneMap = await getFieldZoningService().getZoneMap(field.id, {
+      zoneCount,
+      sceneTimestamp: scene ? parseInt(scene) : undefined
+    })
+    return NextResponse.json(zoneMap)
+  } catch (error: any) {
+    if (error instanceof ZoningError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('[Zones API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to build management zones',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    )
+  }
+}
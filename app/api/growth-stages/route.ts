@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getGrowthStageService } from '@/lib/growth-stages'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
+
+// GET /api/growth-stages?fieldId= - Current growth stage of the active season on one field, or on every field
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const fieldId = request.nextUrl.searchParams.get('fieldId') || undefined
+    if (fieldId) {
+      const field = await prisma.field.findFirst({
+        where: { id: fieldId, farm: { userId: auth.user.id } },
+        select: { id: true }
+      })
+      if (!field) {
+        return NextResponse.json({ error: 'Field not found' }, { status: 404 })
+      }
+    }
+
+    const fields = await getGrowthStageService().getStagesForUser(auth.user.id, fieldId)
+    return NextResponse.json({ fields })
+  } catch (error: any) {
+    console.error('[Growth Stages API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to calculate growth stages',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    )
+  }
+}
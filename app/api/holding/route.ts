@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getFarmerDataAggregator } from '@/lib/farmer-data-aggregator'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
+
+// GET /api/holding?days=30 - Area-weighted NDVI and soil moisture across all of the user's farms and fields
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const days = parseInt(request.nextUrl.searchParams.get('days') || '30')
+    if (isNaN(days) || days < 1 || days > 365) {
+      return NextResponse.json(
+        { error: 'days must be between 1 and 365' },
+        { status: 400 }
+      )
+    }
+
+    const summary = await getFarmerDataAggregator().getHoldingSummary(auth.user.id, days)
+    return NextResponse.json(summary)
+  } catch (error: any) {
+    console.error('[Holding API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load holding summary',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    )
+  }
+}
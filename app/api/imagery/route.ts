@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
+import { getAgromonitoringAPI } from '@/lib/agromonitoring-api'
+import { getNDVIIngestionService } from '@/lib/ndvi-ingestion'
+
+// GET /api/imagery - Satellite scenes over a field (by fieldId or polygonId) with tile URLs for map overlays
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const fieldId = searchParams.get('fieldId')
+    const polygonId = searchParams.get('polygonId')
+    const daysBack = Math.min(parseInt(searchParams.get('days') || '90'), 365)
+    const cloudsMax = searchParams.get('cloudsMax')
+
+    if (!fieldId && !polygonId) {
+      return NextResponse.json(
+        { error: 'Field ID or polygon ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const field = fieldId
+      ? await prisma.field.findFirst({ where: { id: fieldId, farm: { userId: auth.user.id } } })
+      : await getNDVIIngestionService().findFieldForPolygon(auth.user.id, polygonId!)
+
+    if (!field) {
+      return NextResponse.json(
+        { error: 'Field not found' },
+        { status: 404 }
+      )
+    }
+    if (!field.polygonId) {
+      return NextResponse.json(
+        { error: 'Field is not linked to a satellite monitoring polygon yet' },
+        { status: 409 }
+      )
+    }
+
+    const api = getAgromonitoringAPI()
+    const end = new Date()
+    const start = new Date(end.getTime() - daysBack * 24 * 60 * 60 * 1000)
+    const scenes = await api.searchSatelliteImagery(
+      field.polygonId,
+      api.dateToUnixTimestamp(start),
+      api.dateToUnixTimestamp(end),
+      { clouds_max: cloudsMax ? parseFloat(cloudsMax) : undefined }
+    )
+
+    return NextResponse.json({
+      fieldId: field.id,
+      polygonId: field.polygonId,
+      scenes: api.processImageryScenes(scenes)
+    })
+  } catch (error: any) {
+    console.error('[Imagery API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load satellite imagery',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    )
+  }
+}
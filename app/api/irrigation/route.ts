@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { IrrigationPlanError, getIrrigationPlannerService } from '@/lib/irrigation-planner'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
+
+// GET /api/irrigation?fieldId= - 7-day irrigation schedule for one field, or for every field with an active season
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const fieldId = request.nextUrl.searchParams.get('fieldId') || undefined
+    if (fieldId) {
+      const field = await prisma.field.findFirst({
+        where: { id: fieldId, farm: { userId: auth.user.id } },
+        select: { id: true }
+      })
+      if (!field) {
+        return NextResponse.json({ error: 'Field not found' }, { status: 404 })
+      }
+    }
+
+    const result = await getIrrigationPlannerService().getPlansForUser(auth.user.id, fieldId)
+    return NextResponse.json(result)
+  } catch (error: any) {
+    if (error instanceof IrrigationPlanError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('[Irrigation API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to plan irrigation',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
+import { getNDVIIngestionService } from '@/lib/ndvi-ingestion'
+import { isVegetationIndex } from '@/lib/vegetation-indices'
+import type { NDVICleaningOptions, SmoothingMethod } from '@/lib/ndvi-cleaning'
+
+const SATELLITES: Record<string, string> = {
+  l8: 'Landsat-8',
+  s2: 'Sentinel-2'
+}
+
+const SMOOTHING_METHODS: SmoothingMethod[] = ['whittaker', 'savitzky-golay', 'none']
+
+const DEFAULT_DAYS = 90
+const MAX_DAYS = 730
+const MAX_LAMBDA = 1e6
+const MAX_WINDOW_DAYS = 91
+
+/**
+ * Cleaning overrides from the query string. Missing or malformed cloud, coverage and smoothing
+ * values keep the default; a lambda or window the smoother can't work with is an error, since it
+ * would otherwise come back as NaN.
+ */
+function cleaningOptions(searchParams: URLSearchParams): { options: Partial<NDVICleaningOptions> } | { error: string } {
+  const number = (param: string) => {
+    const value = parseFloat(searchParams.get(param) || '')
+    return Number.isFinite(value) && value >= 0 ? value : undefined
+  }
+
+  const lambdaParam = searchParams.get('lambda')
+  const lambda = lambdaParam !== null ? Number(lambdaParam) : undefined
+  if (lambda !== undefined && !(Number.isFinite(lambda) && lambda > 0 && lambda <= MAX_LAMBDA)) {
+    return { error: `lambda must be a number above 0 and at most ${MAX_LAMBDA}` }
+  }
+  const windowParam = searchParams.get('window')
+  const windowDays = windowParam !== null ? Number(windowParam) : undefined
+  if (windowDays !== undefined && !(Number.isInteger(windowDays) && windowDays >= 3 && windowDays % 2 === 1 && windowDays <= MAX_WINDOW_DAYS)) {
+    return { error: `window must be an odd whole number of days from 3 to ${MAX_WINDOW_DAYS}` }
+  }
+
+  const smoothing = searchParams.get('smoothing')
+  const options: Partial<NDVICleaningOptions> = {
+    maxCloudCover: number('maxCloud'),
+    minDataCoverage: number('minCoverage'),
+    lambda,
+    windowDays,
+    smoothing: smoothing && (SMOOTHING_METHODS as string[]).includes(smoothing) ? (smoothing as SmoothingMethod) : undefined
+  }
+  // Drop unset keys so they don't override the defaults when spread
+  return { options: Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) }
+}
+
+// GET /api/ndvi/history - NDVI (or ?index=EVI|NDWI|SAVI|NDRE) history for a field (by fieldId or polygonId) from stored readings,
+// plus a cleaned series (?maxCloud, minCoverage, smoothing=whittaker|savitzky-golay|none, lambda, window)
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const fieldId = searchParams.get('fieldId')
+    const polygonId = searchParams.get('polygonId')
+    const daysParam = searchParams.get('days')
+    const days = daysParam !== null ? Number(daysParam) : DEFAULT_DAYS
+    const cloudsMax = searchParams.get('cloudsMax')
+    const satellite = searchParams.get('satellite')
+    const index = searchParams.get('index') || 'NDVI'
+
+    if (!fieldId && !polygonId) {
+      return NextResponse.json(
+        { error: 'Field ID or polygon ID is required' },
+        { status: 400 }
+      )
+    }
+    if (!isVegetationIndex(index)) {
+      return NextResponse.json(
+        { error: `Unknown vegetation index: ${index}` },
+        { status: 400 }
+      )
+    }
+    if (!Number.isFinite(days) || days <= 0) {
+      return NextResponse.json(
+        { error: 'days must be a positive number' },
+        { status: 400 }
+      )
+    }
+    const daysBack = Math.min(Math.ceil(days), MAX_DAYS)
+    const cleaning = cleaningOptions(searchParams)
+    if ('error' in cleaning) {
+      return NextResponse.json({ error: cleaning.error }, { status: 400 })
+    }
+
+    const ingestion = getNDVIIngestionService()
+    const field = fieldId
+      ? await prisma.field.findFirst({ where: { id: fieldId, farm: { userId: auth.user.id } } })
+      : await ingestion.findFieldForPolygon(auth.user.id, polygonId!)
+
+    if (!field) {
+      return NextResponse.json(
+        { error: 'Field not found' },
+        { status: 404 }
+      )
+    }
+
+    await ingestion.syncFieldIfStale(field)
+
+    // The cleaner sees every scene; cloudsMax only narrows the raw readings returned
+    const { readings: history, cleaned } = await ingestion.getCleanedHistory(
+      field.id,
+      { index, daysBack, satellite: satellite ? SATELLITES[satellite] || satellite : undefined },
+      cleaning.options
+    )
+    const readings = cloudsMax
+      ? history.filter((reading) => reading.cloudCover <= parseFloat(cloudsMax))
+      : history
+
+    const [synced, availableIndices, boundaryVersions] = await Promise.all([
+      prisma.field.findUnique({
+        where: { id: field.id },
+        select: { ndviSyncedAt: true }
+      }),
+      ingestion.getAvailableIndices(field.id),
+      // Boundary edits within the window, so the chart can mark where the measured area changed
+      prisma.fieldGeometryVersion.findMany({
+        where: { fieldId: field.id, version: { gt: 1 }, validFrom: { gte: new Date(Date.now() - daysBack * 24 * 60 * 60 * 1000) } },
+        orderBy: { validFrom: 'asc' }
+      })
+    ])
+
+    return NextResponse.json({
+      fieldId: field.id,
+      index,
+      availableIndices,
+      syncedAt: synced?.ndviSyncedAt || null,
+      readings,
+      cleaned,
+      boundaryChanges: boundaryVersions.map((version) => ({
+        date: version.validFrom.toISOString().split('T')[0],
+        version: version.version,
+        areaHa: version.area
+      }))
+    })
+  } catch (error: any) {
+    console.error('[NDVI History API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load NDVI history',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    )
+  }
+}
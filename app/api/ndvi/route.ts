@@ -1,13 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
+import { isVegetationIndex } from '@/lib/vegetation-indices'
 
-// GET /api/ndvi - Get NDVI readings for a field
+// GET /api/ndvi - Get NDVI (or another index's) readings for a field
 export async function GET(request: NextRequest) {
   try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
     const { searchParams } = new URL(request.url)
     const fieldId = searchParams.get('fieldId')
     const startDate = searchParams.get('startDate')
     const endDate = searchParams.get('endDate')
+    const index = searchParams.get('index') || 'NDVI'
 
     if (!fieldId) {
       return NextResponse.json(
@@ -15,9 +23,17 @@ export async function GET(request: NextRequest) {
         { status: 400 }
       )
     }
+    if (!isVegetationIndex(index)) {
+      return NextResponse.json(
+        { error: `Unknown vegetation index: ${index}` },
+        { status: 400 }
+      )
+    }
 
     const whereClause: any = {
       fieldId: fieldId,
+      index,
+      field: { farm: { userId: auth.user.id } },
     }
 
     // Add date filtering if provided
@@ -59,8 +75,13 @@ export async function GET(request: NextRequest) {
 // POST /api/ndvi - Store new NDVI reading
 export async function POST(request: NextRequest) {
   try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
     const body = await request.json()
-    const { value, date, source, fieldId } = body
+    const { value, date, source, fieldId, satellite, index = 'NDVI' } = body
 
     if (!value || !date || !source || !fieldId) {
       return NextResponse.json(
@@ -69,19 +90,51 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Validate NDVI value range
+    if (!isVegetationIndex(index)) {
+      return NextResponse.json(
+        { error: `Unknown vegetation index: ${index}` },
+        { status: 400 }
+      )
+    }
+
+    // Validate index value range (all supported indices are normalised differences)
     const ndviValue = parseFloat(value)
     if (ndviValue < -1 || ndviValue > 1) {
       return NextResponse.json(
-        { error: 'NDVI value must be between -1 and 1' },
+        { error: `${index} value must be between -1 and 1` },
         { status: 400 }
       )
     }
 
-    const ndviReading = await prisma.nDVIReading.create({
-      data: {
+    const field = await prisma.field.findFirst({
+      where: { id: fieldId, farm: { userId: auth.user.id } },
+    })
+
+    if (!field) {
+      return NextResponse.json(
+        { error: 'Field not found' },
+        { status: 404 }
+      )
+    }
+
+    // Readings are stored per acquisition day, satellite and index; posting the same day again replaces it
+    const readingDate = new Date(date)
+    const day = new Date(Date.UTC(readingDate.getUTCFullYear(), readingDate.getUTCMonth(), readingDate.getUTCDate()))
+    const readingSatellite = satellite || 'unknown'
+
+    const ndviReading = await prisma.nDVIReading.upsert({
+      where: {
+        fieldId_date_satellite_index: { fieldId, date: day, satellite: readingSatellite, index },
+      },
+      update: {
+        value: ndviValue,
+        source,
+      },
+      create: {
         value: ndviValue,
-        date: new Date(date),
+        date: day,
+        satellite: readingSatellite,
+        index,
         source,
         fieldId,
       },
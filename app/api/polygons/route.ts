@@ -0,0 +1,230 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Field } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
+import { getAgromonitoringAPI, type PolygonResponse } from '@/lib/agromonitoring-api'
+import { fieldBoundariesForUser, getPolygonSyncService, polygonNameForField } from '@/lib/polygon-sync'
+import { checkFieldBoundary, toPolygonGeoJSON } from '@/lib/field-geometry'
+
+// Remote polygon as the dashboard sees it: named after its field
+function toFieldPolygon(field: Field, polygon: PolygonResponse) {
+  return { ...polygon, name: field.name, fieldId: field.id, farmId: field.farmId }
+}
+
+async function findUserField(userId: string, polygonId: string | null) {
+  if (!polygonId) return null
+  return prisma.field.findFirst({
+    where: { polygonId, farm: { userId } }
+  })
+}
+
+// GET /api/polygons - Polygons linked to the logged-in user's fields
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const agroAPI = getAgromonitoringAPI()
+    let [fields, polygons] = await Promise.all([
+      prisma.field.findMany({ where: { farm: { userId: auth.user.id } }, orderBy: { createdAt: 'asc' } }),
+      agroAPI.getPolygons()
+    ])
+
+    // Repair missing or broken links before showing the list
+    const polygonIds = new Set(polygons.map((polygon) => polygon.id))
+    if (fields.some((field) => !field.polygonId || !polygonIds.has(field.polygonId))) {
+      await getPolygonSyncService().reconcile(auth.user.id)
+      ;[fields, polygons] = await Promise.all([
+        prisma.field.findMany({ where: { farm: { userId: auth.user.id } }, orderBy: { createdAt: 'asc' } }),
+        agroAPI.getPolygons()
+      ])
+    }
+
+    const polygonsById = new Map(polygons.map((polygon) => [polygon.id, polygon]))
+    const fieldPolygons = fields
+      .filter((field) => field.polygonId && polygonsById.has(field.polygonId))
+      .map((field) => toFieldPolygon(field, polygonsById.get(field.polygonId!)!))
+
+    return NextResponse.json(fieldPolygons)
+  } catch (error: any) {
+    console.error('[Polygons API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch polygons',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/polygons - Create a field from a drawn boundary and link its polygon
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+    const userId = auth.user.id
+
+    const body = await request.json()
+    const { name, coordinates, farmId } = body as {
+      name?: string
+      coordinates?: Array<{ lat: number; lng: number }>
+      farmId?: string
+    }
+
+    if (!name?.trim() || !Array.isArray(coordinates) || coordinates.length < 3) {
+      return NextResponse.json(
+        { error: 'Name and at least 3 boundary points are required' },
+        { status: 400 }
+      )
+    }
+
+    // Checked against the user's other fields; area comes from the boundary, not the client
+    const check = checkFieldBoundary(coordinates, await fieldBoundariesForUser(userId))
+    if (!check.valid) {
+      return NextResponse.json(
+        { error: check.issues.find((issue) => issue.severity === 'error')!.message, issues: check.issues },
+        { status: 422 }
+      )
+    }
+
+    let farm = farmId
+      ? await prisma.farm.findFirst({ where: { id: farmId, userId } })
+      : await prisma.farm.findFirst({ where: { userId }, orderBy: { createdAt: 'asc' } })
+
+    if (farmId && !farm) {
+      return NextResponse.json(
+        { error: 'Farm not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!farm) {
+      farm = await prisma.farm.create({
+        data: {
+          name: `${auth.user.name || 'My'}'s Farm`,
+          location: auth.user.location || '',
+          userId
+        }
+      })
+    }
+
+    const field = await prisma.field.create({
+      data: {
+        name: name.trim(),
+        coordinates: toPolygonGeoJSON(check.points),
+        area: check.areaHa,
+        farmId: farm.id
+      }
+    })
+
+    let polygonId: string | null
+    try {
+      polygonId = await getPolygonSyncService().ensurePolygonForField(field.id)
+    } catch (polygonError) {
+      // Without a polygon the field has no satellite data, so don't keep it half-created
+      await prisma.field.delete({ where: { id: field.id } })
+      throw polygonError
+    }
+
+    if (!polygonId) {
+      await prisma.field.delete({ where: { id: field.id } })
+      return NextResponse.json(
+        { error: 'Field boundary is not a valid polygon' },
+        { status: 400 }
+      )
+    }
+
+    const polygon = await getAgromonitoringAPI().getPolygon(polygonId)
+    return NextResponse.json(toFieldPolygon(field, polygon), { status: 201 })
+  } catch (error: any) {
+    console.error('[Polygons API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to create field',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/polygons - Rename a field and its polygon
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const { polygonId, name } = await request.json()
+    if (!name?.trim()) {
+      return NextResponse.json(
+        { error: 'Name is required' },
+        { status: 400 }
+      )
+    }
+
+    const field = await findUserField(auth.user.id, polygonId)
+    if (!field) {
+      return NextResponse.json(
+        { error: 'Field not found' },
+        { status: 404 }
+      )
+    }
+
+    const renamed = await prisma.field.update({
+      where: { id: field.id },
+      data: { name: name.trim() }
+    })
+    const polygon = await getAgromonitoringAPI().updatePolygon(polygonId, polygonNameForField(renamed))
+
+    return NextResponse.json(toFieldPolygon(renamed, polygon))
+  } catch (error: any) {
+    console.error('[Polygons API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to update field',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/polygons?polygonId=... - Delete a field and its polygon
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const field = await findUserField(auth.user.id, searchParams.get('polygonId'))
+    if (!field) {
+      return NextResponse.json(
+        { error: 'Field not found' },
+        { status: 404 }
+      )
+    }
+
+    await prisma.field.delete({ where: { id: field.id } })
+    await getPolygonSyncService().deletePolygonForField(field)
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('[Polygons API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to delete field',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { SPRAY_PRODUCTS, SprayWindowError, getSprayWindowService } from '@/lib/spray-windows'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
+
+// GET /api/spray-windows?fieldId=&product=&rainfastHours= - spray windows over the next 72 hours for one
+// field or every field, for a product type (see SPRAY_PRODUCTS) or a custom rainfast period
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const { searchParams } = request.nextUrl
+    const fieldId = searchParams.get('fieldId') || undefined
+    if (fieldId) {
+      const field = await prisma.field.findFirst({
+        where: { id: fieldId, farm: { userId: auth.user.id } },
+        select: { id: true }
+      })
+      if (!field) {
+        return NextResponse.json({ error: 'Field not found' }, { status: 404 })
+      }
+    }
+
+    const rainfastHours = searchParams.get('rainfastHours')
+    const result = await getSprayWindowService().getPlansForUser(auth.user.id, fieldId, {
+      product: searchParams.get('product') || undefined,
+      rainfastHours: rainfastHours ? Number(rainfastHours) : undefined
+    })
+    return NextResponse.json({ ...result, products: SPRAY_PRODUCTS })
+  } catch (error: any) {
+    if (error instanceof SprayWindowError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('[Spray Windows API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to work out spray windows',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,77 +1,110 @@
+import { randomInt } from 'crypto'
 import { NextRequest, NextResponse } from 'next/server'
-
-// Telegram Bot API configuration
-const TELEGRAM_BOT_TOKEN = process.env.NEXT_PUBLIC_TELEGRAM_BOT_TOKEN
-const TELEGRAM_API_URL = `https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}`
-
-// In-memory storage for subscriptions (in production, use database)
-export let telegramSubscriptions: { [userId: string]: { chatId: string; subscribed: boolean; location?: string } } = {}
+import { prisma } from '@/lib/prisma'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
+import { isTelegramConfigured, parseCoordinates, sendTelegramMessage } from '@/lib/telegram'
+import { getJobQueue } from '@/lib/job-queue'
+import { DAILY_DIGEST_JOB } from '@/lib/telegram-digest'
+import { isValidTimezone } from '@/lib/weather-forecast'
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+const LINK_CODE_TTL_MS = 10 * 60 * 1000 // 10 minutes
+const LINK_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789' // no 0/O or 1/I to misread
+const LINK_CODE_LENGTH = 8
+const LINK_CODE_TRIES = 5 // fresh codes to try when one collides with another user's live code
+
+function generateLinkCode(): string {
+  return Array.from({ length: LINK_CODE_LENGTH }, () => LINK_CODE_ALPHABET[randomInt(LINK_CODE_ALPHABET.length)]).join('')
+}
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+    const userId = auth.user.id
+
     const body = await request.json()
-    const { action, userId, chatId, location } = body
+    const { action, location, preferredTime, language, timezone } = body
 
-    if (!TELEGRAM_BOT_TOKEN) {
+    if (!isTelegramConfigured()) {
       return NextResponse.json(
         { error: 'Telegram bot not configured' },
         { status: 500 }
       )
     }
 
-    switch (action) {
-      case 'subscribe':
-        if (!chatId || !userId) {
-          return NextResponse.json(
-            { error: 'Chat ID and User ID are required' },
-            { status: 400 }
-          )
-        }
+    if (preferredTime !== undefined && !TIME_PATTERN.test(preferredTime)) {
+      return NextResponse.json(
+        { error: 'Preferred time must be in HH:mm format, e.g. 07:00' },
+        { status: 400 }
+      )
+    }
+
+    if (timezone !== undefined && !isValidTimezone(timezone)) {
+      return NextResponse.json(
+        { error: 'Unknown time zone: ' + timezone },
+        { status: 400 }
+      )
+    }
 
-        // Validate chat ID is numeric
-        if (isNaN(Number(chatId))) {
+    switch (action) {
+      case 'subscribe': {
+        // Only a chat the user linked with a one-time code (/link in the bot) can be subscribed
+        const subscription = await prisma.telegramSubscription.findUnique({
+          where: { userId }
+        })
+        if (!subscription) {
           return NextResponse.json(
-            { error: 'Chat ID must be numeric. You provided: ' + chatId + '. Please get your numeric Chat ID from @userinfobot on Telegram.' },
-            { status: 400 }
+            { error: 'Link your Telegram chat first: get a link code and send /link <code> to @farmsat_bot' },
+            { status: 409 }
           )
         }
 
-        try {
-          // Send welcome message first to verify chat ID is valid
-          await sendTelegramMessage(chatId, `🌱 Welcome to FarmSat Weather Updates!\n\nYou'll receive daily weather updates for your farming location: ${location || 'Default Location'}\n\nUse /unsubscribe to stop receiving updates.`)
+        const sendTime = preferredTime || subscription.preferredTime
+        const coordinates = parseCoordinates(auth.user.location)
+        const farmerProfile = await prisma.farmerProfile.findUnique({
+          where: { userId },
+          select: { preferredLanguage: true }
+        })
 
-          // Only save subscription if message was sent successfully
-          telegramSubscriptions[userId] = {
-            chatId,
-            subscribed: true,
-            location: location || 'Default Location'
+        await prisma.telegramSubscription.update({
+          where: { id: subscription.id },
+          data: {
+            location: location || subscription.location || 'Default Location',
+            latitude: coordinates?.lat ?? subscription.latitude,
+            longitude: coordinates?.lng ?? subscription.longitude,
+            preferredTime: sendTime,
+            ...(timezone !== undefined && { timezone }),
+            language: language || farmerProfile?.preferredLanguage || subscription.language,
+            isActive: true,
+            failureCount: 0
           }
-        } catch (error: any) {
-          console.error('[Telegram Subscribe] Error:', error)
-          return NextResponse.json(
-            { error: 'Failed to send message to Telegram ChatID. Error: ' + error.message + '. Make sure the Chat ID is correct and you\'ve started a conversation with @farmsat_bot.' },
-            { status: 400 }
-          )
-        }
+        })
+
+        await sendTelegramMessage(subscription.chatId, `🌱 Welcome to FarmSat Weather Updates!\n\nYou'll receive daily weather updates at ${sendTime} for your farming location: ${location || subscription.location || 'Default Location'}\n\nUse /unsubscribe to stop receiving updates.`)
+          .catch((error) => console.warn('[Telegram Subscribe] Could not send welcome message:', error))
 
         return NextResponse.json({
           success: true,
           message: 'Successfully subscribed to daily weather updates'
         })
+      }
 
-      case 'unsubscribe':
-        if (!userId) {
-          return NextResponse.json(
-            { error: 'User ID is required' },
-            { status: 400 }
-          )
-        }
+      case 'unsubscribe': {
+        const subscription = await prisma.telegramSubscription.findUnique({
+          where: { userId }
+        })
 
-        if (telegramSubscriptions[userId]) {
-          const chatId = telegramSubscriptions[userId].chatId
-          telegramSubscriptions[userId].subscribed = false
+        if (subscription) {
+          await prisma.telegramSubscription.update({
+            where: { id: subscription.id },
+            data: { isActive: false }
+          })
 
-          await sendTelegramMessage(chatId, '❌ You have unsubscribed from FarmSat weather updates. Send /subscribe to start receiving updates again.')
+          await sendTelegramMessage(subscription.chatId, '❌ You have unsubscribed from FarmSat weather updates. Send /subscribe to start receiving updates again.')
+            .catch((error) => console.warn('[Telegram Unsubscribe] Could not send confirmation:', error))
 
           return NextResponse.json({
             success: true,
@@ -83,29 +116,83 @@ export async function POST(request: NextRequest) {
           { error: 'User not found in subscriptions' },
           { status: 404 }
         )
+      }
+
+      case 'update_preferences': {
+        const subscription = await prisma.telegramSubscription.findUnique({
+          where: { userId }
+        })
 
-      case 'send_weather_update':
-        if (!userId) {
+        if (!subscription) {
           return NextResponse.json(
-            { error: 'User ID is required' },
-            { status: 400 }
+            { error: 'User not found in subscriptions' },
+            { status: 404 }
           )
         }
 
-        const subscription = telegramSubscriptions[userId]
-        if (!subscription || !subscription.subscribed) {
+        await prisma.telegramSubscription.update({
+          where: { id: subscription.id },
+          data: {
+            ...(preferredTime !== undefined && { preferredTime }),
+            ...(language !== undefined && { language }),
+            ...(timezone !== undefined && { timezone }),
+            ...(location !== undefined && { location })
+          }
+        })
+
+        return NextResponse.json({
+          success: true,
+          message: 'Telegram preferences updated'
+        })
+      }
+
+      case 'create_link_code': {
+        // One outstanding code per user; expired codes are cleared so codes can be reused
+        await prisma.telegramLinkCode.deleteMany({
+          where: { OR: [{ userId }, { expiresAt: { lt: new Date() } }] }
+        })
+
+        let linkCode = null
+        for (let attempt = 1; !linkCode; attempt++) {
+          try {
+            linkCode = await prisma.telegramLinkCode.create({
+              data: {
+                userId,
+                code: generateLinkCode(),
+                expiresAt: new Date(Date.now() + LINK_CODE_TTL_MS)
+              }
+            })
+          } catch (error: any) {
+            if (error.code !== 'P2002' || attempt >= LINK_CODE_TRIES) throw error
+          }
+        }
+
+        return NextResponse.json({
+          success: true,
+          code: linkCode.code,
+          expiresAt: linkCode.expiresAt
+        })
+      }
+
+      case 'send_weather_update': {
+        const subscription = await prisma.telegramSubscription.findUnique({
+          where: { userId }
+        })
+        if (!subscription || !subscription.isActive) {
           return NextResponse.json(
             { error: 'User not subscribed or subscription inactive' },
             { status: 404 }
           )
         }
 
-        // This would be called by a cron job or scheduled task
-        // For now, just acknowledge
+        // Send now through the job queue so failures get the same retries as scheduled digests
+        await getJobQueue().enqueue(DAILY_DIGEST_JOB, { subscriptionId: subscription.id }, { maxAttempts: 3 })
+
         return NextResponse.json({
           success: true,
           message: 'Weather update queued for sending'
         })
+      }
 
       default:
         return NextResponse.json(
@@ -124,22 +211,35 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
-
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
-      )
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
     }
 
-    const subscription = telegramSubscriptions[userId]
+    const subscription = await prisma.telegramSubscription.findUnique({
+      where: { userId: auth.user.id },
+      include: {
+        deliveries: {
+          orderBy: { createdAt: 'desc' },
+          take: 5
+        }
+      }
+    })
 
     return NextResponse.json({
-      subscribed: subscription?.subscribed || false,
+      subscribed: subscription?.isActive || false,
+      linked: !!subscription,
       chatId: subscription?.chatId || null,
-      location: subscription?.location || null
+      location: subscription?.location || null,
+      preferredTime: subscription?.preferredTime || null,
+      timezone: subscription?.timezone || null,
+      language: subscription?.language || null,
+      lastSentAt: subscription?.lastSentAt || null,
+      recentDeliveries: subscription?.deliveries.map((delivery) => ({
+        status: delivery.status,
+        error: delivery.error,
+        createdAt: delivery.createdAt
+      })) || []
     })
   } catch (error: any) {
     console.error('[Telegram API] Error:', error)
@@ -149,36 +249,3 @@ export async function GET(request: NextRequest) {
     )
   }
 }
-
-// Helper function to send Telegram messages
-async function sendTelegramMessage(chatId: string, text: string) {
-  try {
-    const response = await fetch(`${TELEGRAM_API_URL}/sendMessage`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        chat_id: chatId,
-        text: text,
-        parse_mode: 'Markdown'
-      })
-    })
-
-    const responseData = await response.json()
-
-    if (!response.ok) {
-      const errorMsg = responseData.description || `HTTP ${response.status}`
-      console.error('[Telegram API Response]:', responseData)
-      throw new Error(`Telegram API error: ${errorMsg}`)
-    }
-
-    return responseData
-  } catch (error) {
-    console.error('[Telegram] Failed to send message:', error)
-    throw error
-  }
-}
-
-// Export for use in other parts of the app
-export { sendTelegramMessage }
\ No newline at end of file
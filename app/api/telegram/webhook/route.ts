@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTelegramBot, type TelegramUpdate } from '@/lib/telegram-bot'
+
+// Set when registering the webhook: setWebhook?url=...&secret_token=<TELEGRAM_WEBHOOK_SECRET>
+const TELEGRAM_WEBHOOK_SECRET = process.env.TELEGRAM_WEBHOOK_SECRET
+
+export async function POST(request: NextRequest) {
+  if (!TELEGRAM_WEBHOOK_SECRET) {
+    console.error('[Telegram Webhook] TELEGRAM_WEBHOOK_SECRET is not configured')
+    return NextResponse.json(
+      { error: 'Telegram webhook not configured' },
+      { status: 500 }
+    )
+  }
+
+  if (request.headers.get('x-telegram-bot-api-secret-token') !== TELEGRAM_WEBHOOK_SECRET) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const update: TelegramUpdate = await request.json()
+    await getTelegramBot().handleUpdate(update)
+  } catch (error) {
+    // Telegram retries non-2xx responses, so failures are logged rather than returned
+    console.error('[Telegram Webhook] Error:', error)
+  }
+
+  return NextResponse.json({ ok: true })
+}
@@ -1,19 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
 
 const prisma = new PrismaClient();
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
-
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
-      );
+    const auth = await getSessionUser(request);
+    if (!auth) {
+      return unauthorizedResponse();
     }
+    const userId = auth.user.id;
 
     // Fetch user with farmer profile
     const user = await prisma.user.findUnique({
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { WeatherReportError, getWeatherReportService } from '@/lib/weather-report'
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth'
+
+// GET /api/weather?fieldId= - current conditions, 48-hour and 5-day forecast with alerts for a field,
+// or for the farmer's first field (or profile location) when no field is given
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await getSessionUser(request)
+    if (!auth) {
+      return unauthorizedResponse()
+    }
+
+    const fieldId = request.nextUrl.searchParams.get('fieldId') || undefined
+    const report = await getWeatherReportService().getReport(auth.user.id, fieldId)
+    return NextResponse.json(report)
+  } catch (error: any) {
+    if (error instanceof WeatherReportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('[Weather API] Error:', error)
+    return NextResponse.json(
+      {
+        error: 'Failed to load weather',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -8,10 +8,12 @@ import { Home, User, Menu, Calendar, Activity, Languages, MessageSquare, Phone }
 import { useRouter } from "next/navigation"
 
 import IntegratedDashboardWithChat from "@/components/integrated-dashboard-with-chat"
+import OfflineStatus from "@/components/offline-status"
 import { KisanCallCenter } from "@/components/kisan-call-center"
 import { TelegramBot } from "@/components/telegram-bot"
 import { getAgromonitoringAPI, type PolygonResponse } from "@/lib/agromonitoring-api"
 import { useUserPolygons } from "@/hooks/use-agromonitoring-comprehensive"
+import { OUTBOX_EVENT, clearOfflineData, readSnapshot, saveSnapshot, takeReplies } from "@/lib/offline-store"
 import type { GeocodingResult } from "@/lib/geocoding-api"
 import { LanguageProvider, useLanguage, type Language } from "@/lib/profile-translations"
 
@@ -50,7 +52,6 @@ function DashboardContent() {
     fullName: string
     mobile: string
     pincode: string
-    userId?: string
     browserLocation?: { lat: number; lng: number } | null
     pincodeLocation?: GeocodingResult | null
     farmerProfile?: {
@@ -65,6 +66,45 @@ function DashboardContent() {
     }
   } | null>(null)
 
+  // Load the logged-in user's profile from the server; the session cookie identifies the user
+  useEffect(() => {
+    const applyProfile = (user: any) => {
+      setUserData((previous) => ({
+        ...previous,
+        fullName: user.name || previous?.fullName || '',
+        mobile: user.phone || previous?.mobile || '',
+        pincode: user.pincode || previous?.pincode || '',
+        browserLocation: previous?.browserLocation || user.coordinates,
+        farmerProfile: user.farmerProfile || previous?.farmerProfile,
+      }))
+    }
+
+    const loadProfile = async () => {
+      try {
+        const response = await fetch('/api/user-profile')
+        if (response.status === 401) {
+          router.replace('/')
+          return
+        }
+        if (!response.ok) return
+
+        const { user } = await response.json()
+        applyProfile(user)
+        saveSnapshot('user-profile', user)
+      } catch (error) {
+        // Offline: carry on with the profile from the last visit
+        const snapshot = await readSnapshot<any>('user-profile')
+        if (snapshot) {
+          applyProfile(snapshot.data)
+        } else {
+          console.error("[Dashboard] Failed to load user profile:", error)
+        }
+      }
+    }
+
+    loadProfile()
+  }, [router])
+
   // Use the comprehensive polygon management hook - only after API is configured
   const { polygons, loading: polygonsLoading, refetch: refetchPolygons } = useUserPolygons(isAPIConfigured)
 
@@ -115,22 +155,50 @@ function DashboardContent() {
     }
   }, [polygons, selectedPolygon])
 
+  // Fields drawn and profile changes made while offline are saved when the queue is sent; show
+  // new fields once they exist
+  useEffect(() => {
+    const handleOutboxChange = async () => {
+      const fieldReplies = await takeReplies('field')
+      const replies = [...fieldReplies, ...(await takeReplies('profile'))]
+      replies
+        .filter((reply) => reply.status >= 400)
+        .forEach((reply) => console.warn(`[Dashboard] ${reply.label} was refused:`, reply.response?.error))
+      if (fieldReplies.some((reply) => reply.status < 400)) refetchPolygons()
+    }
+    window.addEventListener(OUTBOX_EVENT, handleOutboxChange)
+    return () => window.removeEventListener(OUTBOX_EVENT, handleOutboxChange)
+  }, [refetchPolygons])
+
   const handlePolygonCreated = (newPolygon: PolygonResponse) => {
     console.log("[Dashboard] New polygon created:", newPolygon)
     refetchPolygons() // Refresh the polygons list
     setSelectedPolygon(newPolygon) // Auto-select the new polygon
   }
 
+  const handlePolygonUpdated = (polygon: PolygonResponse) => {
+    console.log("[Dashboard] Field boundary updated:", polygon)
+    refetchPolygons() // The field now points at a new polygon
+    setSelectedPolygon(polygon)
+  }
+
   const handlePolygonSelected = (polygon: PolygonResponse) => {
     console.log("[Dashboard] Polygon selected:", polygon)
     setSelectedPolygon(polygon)
   }
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/session', { method: 'DELETE' })
+    } catch (error) {
+      console.error("[Dashboard] Failed to end session:", error)
+    }
     try {
       localStorage.removeItem('userData')
       localStorage.removeItem('farmFields')
     } catch { }
+    // Saved data and queued changes belong to this farmer only
+    await clearOfflineData()
     setUserData(null)
     setSelectedPolygon(null)
     router.replace('/')
@@ -313,10 +381,12 @@ function DashboardContent() {
 
         {/* Dashboard Content */}
         <main className="flex-1 p-4 lg:p-6">
+          <OfflineStatus />
           {activeSection === 'home' && (
             <IntegratedDashboardWithChat
               selectedPolygon={selectedPolygon}
               onPolygonCreated={handlePolygonCreated}
+              onPolygonUpdated={handlePolygonUpdated}
               onPolygonSelected={handlePolygonSelected}
               existingPolygons={polygons}
               userLocation={userLocation}
@@ -416,7 +486,7 @@ function DashboardContent() {
 
           {activeSection === 'telegram' && (
             <div className="max-w-2xl mx-auto">
-              <TelegramBot userId={userData?.userId || ''} userLocation={userData?.pincodeLocation?.formatted_address} />
+              <TelegramBot userLocation={userData?.pincodeLocation?.formatted_address} />
             </div>
           )}
 
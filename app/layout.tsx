@@ -1,9 +1,10 @@
 import type React from "react"
-import type { Metadata } from "next"
+import type { Metadata, Viewport } from "next"
 import { Geist } from "next/font/google"
 import { Manrope } from "next/font/google"
 import "./globals.css"
 import { GoogleTranslate } from "@/components/google-translate"
+import { ServiceWorkerRegistration } from "@/components/service-worker-registration"
 
 const geist = Geist({
   subsets: ["latin"],
@@ -21,6 +22,14 @@ export const metadata: Metadata = {
   title: "KisanMitr - Intelligent Farming Companion",
   description: "Professional satellite data dashboard for modern agriculture",
   generator: "v0.app",
+  appleWebApp: {
+    capable: true,
+    title: "KisanMitr",
+  },
+}
+
+export const viewport: Viewport = {
+  themeColor: "#15803d",
 }
 
 export default function RootLayout({
@@ -32,6 +41,7 @@ export default function RootLayout({
     <html lang="en" className={`${geist.variable} ${manrope.variable} antialiased`}>
       <body className="font-sans">
         <GoogleTranslate />
+        <ServiceWorkerRegistration />
         {children}
       </body>
     </html>
@@ -0,0 +1,18 @@
+import type { MetadataRoute } from 'next'
+
+// Installable app; the service worker in public/sw.js keeps it usable without a network
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'KisanMitr - Intelligent Farming Companion',
+    short_name: 'KisanMitr',
+    description: 'Professional satellite data dashboard for modern agriculture',
+    start_url: '/dashboard',
+    display: 'standalone',
+    background_color: '#ffffff',
+    theme_color: '#15803d',
+    icons: [
+      { src: '/icons/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+      { src: '/icons/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'maskable' },
+    ],
+  }
+}
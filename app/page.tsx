@@ -4,16 +4,38 @@ import type React from "react"
 import { useState } from "react"
 import { useRouter } from "next/navigation"
 import { ComprehensiveOnboarding } from "@/components/comprehensive-onboarding"
+import { PhoneLogin, type LoggedInUser } from "@/components/phone-login"
 import { Hero } from "@/components/landing-page/Hero"
 import { Features } from "@/components/landing-page/Features"
 import { Footer } from "@/components/landing-page/Footer"
 
 export default function LandingPage() {
   const router = useRouter()
-  const [showOnboarding, setShowOnboarding] = useState(false)
+  const [view, setView] = useState<'landing' | 'login' | 'onboarding'>('landing')
+  const [loggedInUser, setLoggedInUser] = useState<LoggedInUser | null>(null)
 
-  const handleStartOnboarding = () => {
-    setShowOnboarding(true)
+  const handleLoggedIn = (user: LoggedInUser, isOnboardingComplete: boolean) => {
+    setLoggedInUser(user)
+    if (isOnboardingComplete) {
+      router.push('/dashboard')
+    } else {
+      setView('onboarding')
+    }
+  }
+
+  const handleStartOnboarding = async () => {
+    // Skip the OTP step if there is already a valid session
+    try {
+      const response = await fetch('/api/auth/session')
+      if (response.ok) {
+        const session = await response.json()
+        handleLoggedIn(session.user, session.isOnboardingComplete)
+        return
+      }
+    } catch (error) {
+      console.warn('Could not check existing session:', error)
+    }
+    setView('login')
   }
 
   const handleOnboardingComplete = async (data: any) => {
@@ -32,9 +54,8 @@ export default function LandingPage() {
       const result = await response.json()
 
       const userData = {
-        userId: data.userId,
         fullName: data.fullName,
-        mobile: data.mobile,
+        mobile: loggedInUser?.phone || data.mobile,
         pincode: data.pincode,
         location: data.location,
         pincodeLocation: data.pincodeLocation,
@@ -58,9 +79,20 @@ export default function LandingPage() {
     }
   }
 
-  if (showOnboarding) {
+  if (view === 'login') {
+    return (
+      <PhoneLogin
+        onLoggedIn={handleLoggedIn}
+        onBack={() => setView('landing')}
+      />
+    )
+  }
+
+  if (view === 'onboarding') {
     return (
       <ComprehensiveOnboarding
+        defaultMobile={loggedInUser?.phone || undefined}
+        defaultName={loggedInUser?.name || undefined}
         onComplete={handleOnboardingComplete}
       />
     )
@@ -62,11 +62,10 @@ const PRESET_QUESTIONS: PresetQuestion[] = [
 ]
 
 interface AIFarmingAssistantProps {
-  userId: string
   className?: string
 }
 
-export function AIFarmingAssistant({ userId, className }: AIFarmingAssistantProps) {
+export function AIFarmingAssistant({ className }: AIFarmingAssistantProps) {
   const [messages, setMessages] = useState<Message[]>([])
   const [inputMessage, setInputMessage] = useState('')
   const [isLoading, setIsLoading] = useState(false)
@@ -130,7 +129,6 @@ export function AIFarmingAssistant({ userId, className }: AIFarmingAssistantProp
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
-          userId, 
           question,
           includeHistoricalData: true 
         })
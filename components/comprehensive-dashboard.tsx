@@ -1,6 +1,5 @@
 "use client"
 
-import { useState, useEffect } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -18,6 +17,8 @@ import {
 } from "lucide-react"
 import { usePolygonData } from "@/hooks/use-agromonitoring-comprehensive"
 import type { PolygonResponse } from "@/lib/agromonitoring-api"
+import type { DataFreshness } from "@/lib/offline-store"
+import LastUpdatedBadge from "@/components/last-updated-badge"
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart } from "recharts"
 import MandiPrices from "./mandi-prices"
 import VendorBids from "./vendor-bids"
@@ -25,23 +26,15 @@ import VendorBids from "./vendor-bids"
 interface ComprehensiveDashboardProps {
   selectedPolygon: PolygonResponse | null
   cropName?: string // Primary crop for market price lookup
-  userId?: string // User ID for fetching profile data
 }
 
-export default function ComprehensiveDashboard({ selectedPolygon, cropName, userId }: ComprehensiveDashboardProps) {
-  const [lastUpdate, setLastUpdate] = useState<Date | null>(null)
-  const [isClient, setIsClient] = useState(false)
-
-  useEffect(() => {
-    setIsClient(true)
-    setLastUpdate(new Date())
-  }, [])
-  
+export default function ComprehensiveDashboard({ selectedPolygon, cropName }: ComprehensiveDashboardProps) {
   const {
     weatherData,
     ndviData,
     soilData,
     uviData,
+    freshness,
     loading,
     error,
     refetch,
@@ -52,10 +45,14 @@ export default function ComprehensiveDashboard({ selectedPolygon, cropName, user
     soilStatus
   } = usePolygonData(selectedPolygon?.id || null)
 
-  const handleRefresh = async () => {
-    await refetch()
-    setLastUpdate(new Date())
-  }
+  // The header shows the oldest data on the page, and whether any of it is a saved copy
+  const sourceFreshness = Object.values(freshness).filter((entry): entry is DataFreshness => !!entry)
+  const overallFreshness: DataFreshness | null = sourceFreshness.length
+    ? {
+        savedAt: new Date(Math.min(...sourceFreshness.map((entry) => entry.savedAt.getTime()))),
+        stale: sourceFreshness.some((entry) => entry.stale),
+      }
+    : null
 
   if (!selectedPolygon) {
     return (
@@ -88,13 +85,8 @@ export default function ComprehensiveDashboard({ selectedPolygon, cropName, user
               </p>
             </div>
             <div className="flex items-center gap-4">
-              <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <div className="w-3 h-3 bg-green-500 rounded-full animate-pulse" />
-                <span suppressHydrationWarning>
-                  Last updated: {isClient && lastUpdate ? lastUpdate.toLocaleTimeString() : '--:--:--'}
-                </span>
-              </div>
-              <Button onClick={handleRefresh} disabled={loading} size="sm" variant="outline">
+              <LastUpdatedBadge freshness={overallFreshness} />
+              <Button onClick={refetch} disabled={loading} size="sm" variant="outline">
                 <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
                 Refresh
               </Button>
@@ -122,6 +114,11 @@ export default function ComprehensiveDashboard({ selectedPolygon, cropName, user
               </div>
               <Cloud className="w-8 h-8 text-muted-foreground" />
             </div>
+            {freshness.weather && (
+              <div className="mt-3">
+                <LastUpdatedBadge freshness={freshness.weather} />
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -147,6 +144,11 @@ export default function ComprehensiveDashboard({ selectedPolygon, cropName, user
               </div>
               <TreePine className="w-8 h-8 text-muted-foreground" />
             </div>
+            {freshness.ndvi && (
+              <div className="mt-3">
+                <LastUpdatedBadge freshness={freshness.ndvi} />
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -172,6 +174,11 @@ export default function ComprehensiveDashboard({ selectedPolygon, cropName, user
               </div>
               <Droplets className="w-8 h-8 text-muted-foreground" />
             </div>
+            {freshness.soil && (
+              <div className="mt-3">
+                <LastUpdatedBadge freshness={freshness.soil} />
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -195,6 +202,11 @@ export default function ComprehensiveDashboard({ selectedPolygon, cropName, user
               </div>
               <Sun className="w-8 h-8 text-muted-foreground" />
             </div>
+            {freshness.uvi && (
+              <div className="mt-3">
+                <LastUpdatedBadge freshness={freshness.uvi} />
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -258,18 +270,30 @@ export default function ComprehensiveDashboard({ selectedPolygon, cropName, user
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <Activity className="w-5 h-5" />
-                  7-Day Forecast
+                  Daily Forecast
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 {weatherData && weatherData.forecast.length > 0 ? (
                   <div className="space-y-2">
-                    {weatherData.forecast.slice(0, 7).map((day, index) => (
-                      <div key={index} className="flex items-center justify-between py-1">
-                        <span className="text-sm">{day.date}</span>
+                    {weatherData.forecast.map((day) => (
+                      <div key={day.date} className="flex items-center justify-between py-1">
+                        <span className="text-sm">
+                          {new Date(`${day.date}T00:00:00Z`).toLocaleDateString("en-IN", {
+                            weekday: "short",
+                            day: "numeric",
+                            month: "short",
+                            timeZone: "UTC",
+                          })}
+                        </span>
                         <div className="flex items-center gap-2">
                           <span className="text-sm font-medium">{day.high}°</span>
                           <span className="text-sm text-muted-foreground">{day.low}°</span>
+                          {day.precipitation > 0 && (
+                            <span className="text-xs text-blue-600">
+                              {day.precipitation} mm ({day.rainProbability}%)
+                            </span>
+                          )}
                           <span className="text-xs text-muted-foreground capitalize">{day.description}</span>
                         </div>
                       </div>
@@ -449,7 +473,7 @@ export default function ComprehensiveDashboard({ selectedPolygon, cropName, user
               lng: selectedPolygon.geo_json.geometry.coordinates[0][0][0]
             } : undefined}
             crop={cropName}
-            userId={userId}
+            useProfile
           />
         </TabsContent>
 
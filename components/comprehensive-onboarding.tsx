@@ -43,8 +43,10 @@ const comprehensiveOnboardingSchema = z.object({
 
   // Farming Information
   primaryCrop: z.string().min(1, 'Please select your primary crop'),
+  cropVariety: z.string().optional(),
   soilType: z.string().min(1, 'Please select your soil type'),
   sowingDate: z.date({ required_error: 'Please select the sowing date' }),
+  expectedHarvestDate: z.date().optional(),
 
   // Farm Infrastructure
   hasStorageCapacity: z.boolean(),
@@ -58,13 +60,18 @@ const comprehensiveOnboardingSchema = z.object({
 
   // Preferences
   preferredLanguage: z.string().default('en')
-})
+}).refine(
+  (data) => !data.expectedHarvestDate || data.expectedHarvestDate > data.sowingDate,
+  { message: 'Expected harvest must be after the sowing date', path: ['expectedHarvestDate'] }
+)
 
 type ComprehensiveOnboardingData = z.infer<typeof comprehensiveOnboardingSchema>
 
 interface ComprehensiveOnboardingProps {
-  onComplete: (data: ComprehensiveOnboardingData & { userId: string }) => void
+  onComplete: (data: ComprehensiveOnboardingData) => void
   onSkip?: () => void
+  defaultMobile?: string // Verified phone from the OTP login
+  defaultName?: string
 }
 
 const STEPS = [
@@ -105,7 +112,7 @@ const LANGUAGES = [
   { value: 'ar', label: 'Arabic' }
 ]
 
-export function ComprehensiveOnboarding({ onComplete, onSkip }: ComprehensiveOnboardingProps) {
+export function ComprehensiveOnboarding({ onComplete, onSkip, defaultMobile, defaultName }: ComprehensiveOnboardingProps) {
   const [currentStep, setCurrentStep] = useState(0)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isLoadingLocation, setIsLoadingLocation] = useState(false)
@@ -116,11 +123,12 @@ export function ComprehensiveOnboarding({ onComplete, onSkip }: ComprehensiveOnb
   const form = useForm<ComprehensiveOnboardingData>({
     resolver: zodResolver(comprehensiveOnboardingSchema),
     defaultValues: {
-      fullName: '',
-      mobile: '',
+      fullName: defaultName || '',
+      mobile: defaultMobile || '',
       pincode: '',
       farmFields: [],
       primaryCrop: '',
+      cropVariety: '',
       soilType: '',
       hasStorageCapacity: false,
       storageCapacity: '',
@@ -137,9 +145,6 @@ export function ComprehensiveOnboarding({ onComplete, onSkip }: ComprehensiveOnb
   const watchPincode = watch('pincode')
   const watchFarmFields = watch('farmFields')
 
-  // Generate a unique user ID
-  const [userId] = useState(() => `user-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`)
-
   const handleLocationAccess = () => {
     setIsLoadingLocation(true)
     if (navigator.geolocation) {
@@ -209,7 +214,7 @@ export function ComprehensiveOnboarding({ onComplete, onSkip }: ComprehensiveOnb
     switch (step) {
       case 0: return ['fullName', 'mobile', 'pincode']
       case 1: return ['farmFields']
-      case 2: return ['primaryCrop', 'soilType', 'sowingDate']
+      case 2: return ['primaryCrop', 'cropVariety', 'soilType', 'sowingDate', 'expectedHarvestDate']
       case 3: return ['irrigationMethod', 'hasStorageCapacity']
       case 4: return [] // Optional fields
       default: return []
@@ -225,7 +230,6 @@ export function ComprehensiveOnboarding({ onComplete, onSkip }: ComprehensiveOnb
       // Prepare data for submission
       const submissionData = {
         ...data,
-        userId,
         totalFarmSize: totalArea.toString(),
         pincodeLocation
       }
@@ -333,7 +337,7 @@ export function ComprehensiveOnboarding({ onComplete, onSkip }: ComprehensiveOnb
                             Mobile Number *
                           </FormLabel>
                           <FormControl>
-                            <Input placeholder="Enter your mobile number" {...field} />
+                            <Input placeholder="Enter your mobile number" readOnly={!!defaultMobile} {...field} />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
@@ -499,6 +503,23 @@ export function ComprehensiveOnboarding({ onComplete, onSkip }: ComprehensiveOnb
                       )}
                     />
 
+                    <FormField
+                      control={form.control}
+                      name="cropVariety"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Variety</FormLabel>
+                          <FormControl>
+                            <Input placeholder="e.g. Pusa Basmati 1121, HD-2967" {...field} />
+                          </FormControl>
+                          <FormDescription>
+                            Optional - helps us give variety-specific advice
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
                     <FormField
                       control={form.control}
                       name="soilType"
@@ -532,7 +553,7 @@ export function ComprehensiveOnboarding({ onComplete, onSkip }: ComprehensiveOnb
                       name="sowingDate"
                       render={({ field }) => (
                         <FormItem className="flex flex-col">
-                          <FormLabel>Last Sowing Date *</FormLabel>
+                          <FormLabel>Sowing Date (current season) *</FormLabel>
                           <Popover>
                             <PopoverTrigger asChild>
                               <FormControl>
@@ -565,7 +586,53 @@ export function ComprehensiveOnboarding({ onComplete, onSkip }: ComprehensiveOnb
                             </PopoverContent>
                           </Popover>
                           <FormDescription>
-                            When did you last sow/plant your crop?
+                            When did you sow/plant the crop that is in your fields now?
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="expectedHarvestDate"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-col">
+                          <FormLabel>Expected Harvest Date</FormLabel>
+                          <Popover>
+                            <PopoverTrigger asChild>
+                              <FormControl>
+                                <Button
+                                  variant="outline"
+                                  className={cn(
+                                    "w-full pl-3 text-left font-normal",
+                                    !field.value && "text-muted-foreground"
+                                  )}
+                                >
+                                  {field.value ? (
+                                    format(field.value, "PPP")
+                                  ) : (
+                                    <span>Pick a date</span>
+                                  )}
+                                  <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                                </Button>
+                              </FormControl>
+                            </PopoverTrigger>
+                            <PopoverContent className="w-auto p-0" align="start">
+                              <Calendar
+                                mode="single"
+                                selected={field.value}
+                                onSelect={field.onChange}
+                                disabled={(date) => {
+                                  const sowingDate = form.getValues('sowingDate')
+                                  return sowingDate ? date <= sowingDate : date < new Date("1900-01-01")
+                                }}
+                                initialFocus
+                              />
+                            </PopoverContent>
+                          </Popover>
+                          <FormDescription>
+                            Optional - when do you expect to harvest this crop?
                           </FormDescription>
                           <FormMessage />
                         </FormItem>
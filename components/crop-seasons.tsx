@@ -0,0 +1,204 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Sprout, AlertCircle } from "lucide-react"
+import { useCropSeasons, type CropSeasonForm, type CropSeasonRecord } from "@/hooks/use-crop-seasons"
+
+interface CropSeasonsProps {
+  fieldId: string | null
+  fieldName?: string
+}
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric" }) : "--"
+}
+
+// Average yield of earlier harvests of the same crop, for comparison
+function previousAverageYield(season: CropSeasonRecord, pastSeasons: CropSeasonRecord[]) {
+  const earlier = pastSeasons.filter(
+    (other) =>
+      other.id !== season.id &&
+      other.cropName === season.cropName &&
+      other.yield !== null &&
+      new Date(other.sowingDate) < new Date(season.sowingDate)
+  )
+  if (earlier.length === 0) return null
+  return earlier.reduce((sum, other) => sum + (other.yield || 0), 0) / earlier.length
+}
+
+export default function CropSeasons({ fieldId, fieldName }: CropSeasonsProps) {
+  const { activeSeason, pastSeasons, loading, error, startSeason, updateSeason } = useCropSeasons(fieldId)
+  const [harvestForm, setHarvestForm] = useState<CropSeasonForm>({})
+  const [newSeasonForm, setNewSeasonForm] = useState<CropSeasonForm>({})
+  const [saving, setSaving] = useState(false)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  if (!fieldId) return null
+
+  const submit = async (action: () => Promise<void>, reset: () => void) => {
+    setSaving(true)
+    setFormError(null)
+    try {
+      await action()
+      reset()
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save crop season")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sprout className="w-5 h-5" />
+          Crop Seasons
+        </CardTitle>
+        <CardDescription>
+          Planting cycles{fieldName ? ` on ${fieldName}` : ""} - record each harvest to compare yields across seasons
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {(error || formError) && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{formError || error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading && !activeSeason && pastSeasons.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Loading seasons...</p>
+        ) : activeSeason ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-medium">
+                  {activeSeason.cropName}
+                  {activeSeason.variety && <span className="text-muted-foreground"> • {activeSeason.variety}</span>}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Sown {formatDate(activeSeason.sowingDate)}
+                  {activeSeason.expectedHarvestDate && ` • Expected harvest ${formatDate(activeSeason.expectedHarvestDate)}`}
+                </p>
+              </div>
+              <Badge variant="secondary">Active</Badge>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="harvest-date">Harvest date</Label>
+                <Input
+                  id="harvest-date"
+                  type="date"
+                  value={harvestForm.actualHarvestDate || ""}
+                  onChange={(e) => setHarvestForm({ ...harvestForm, actualHarvestDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="harvest-yield">Yield (tons/ha)</Label>
+                <Input
+                  id="harvest-yield"
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={harvestForm.yield || ""}
+                  onChange={(e) => setHarvestForm({ ...harvestForm, yield: e.target.value })}
+                />
+              </div>
+              <Button
+                disabled={saving || !harvestForm.actualHarvestDate}
+                onClick={() => submit(() => updateSeason(activeSeason.id, harvestForm), () => setHarvestForm({}))}
+              >
+                Record harvest
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">No active season on this field. Start the next one:</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="season-crop">Crop</Label>
+                <Input
+                  id="season-crop"
+                  placeholder="e.g. Wheat"
+                  value={newSeasonForm.cropName || ""}
+                  onChange={(e) => setNewSeasonForm({ ...newSeasonForm, cropName: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="season-variety">Variety</Label>
+                <Input
+                  id="season-variety"
+                  placeholder="Optional"
+                  value={newSeasonForm.variety || ""}
+                  onChange={(e) => setNewSeasonForm({ ...newSeasonForm, variety: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="season-sowing">Sowing date</Label>
+                <Input
+                  id="season-sowing"
+                  type="date"
+                  value={newSeasonForm.sowingDate || ""}
+                  onChange={(e) => setNewSeasonForm({ ...newSeasonForm, sowingDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="season-expected">Expected harvest</Label>
+                <Input
+                  id="season-expected"
+                  type="date"
+                  value={newSeasonForm.expectedHarvestDate || ""}
+                  onChange={(e) => setNewSeasonForm({ ...newSeasonForm, expectedHarvestDate: e.target.value })}
+                />
+              </div>
+            </div>
+            <Button
+              disabled={saving || !newSeasonForm.cropName || !newSeasonForm.sowingDate}
+              onClick={() => submit(() => startSeason(newSeasonForm), () => setNewSeasonForm({}))}
+            >
+              Start season
+            </Button>
+          </div>
+        )}
+
+        {pastSeasons.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Past seasons</p>
+            {pastSeasons.map((season) => {
+              const average = previousAverageYield(season, pastSeasons)
+              const change = average && season.yield !== null ? ((season.yield - average) / average) * 100 : null
+              return (
+                <div key={season.id} className="flex items-center justify-between text-sm">
+                  <span>
+                    {season.cropName}
+                    {season.variety && <span className="text-muted-foreground"> ({season.variety})</span>}
+                    <span className="text-muted-foreground">
+                      {" "}• {formatDate(season.sowingDate)} – {formatDate(season.actualHarvestDate)}
+                    </span>
+                  </span>
+                  <span>
+                    {season.yield !== null ? `${season.yield} t/ha` : "No yield recorded"}
+                    {change !== null && (
+                      <span className={change >= 0 ? "text-green-600" : "text-red-600"}>
+                        {" "}({change >= 0 ? "+" : ""}{change.toFixed(0)}% vs earlier {season.cropName})
+                      </span>
+                    )}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -78,11 +78,10 @@ interface UserProfile {
 }
 
 interface DashboardWithChatProps {
-  userId: string
   userProfile: UserProfile | null
 }
 
-export function DashboardWithChat({ userId, userProfile }: DashboardWithChatProps) {
+export function DashboardWithChat({ userProfile }: DashboardWithChatProps) {
   const [messages, setMessages] = useState<Message[]>([])
   const [inputMessage, setInputMessage] = useState('')
   const [isLoading, setIsLoading] = useState(false)
@@ -137,7 +136,6 @@ export function DashboardWithChat({ userId, userProfile }: DashboardWithChatProp
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
-          userId, 
           question,
           includeHistoricalData: true 
         })
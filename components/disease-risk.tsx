@@ -0,0 +1,167 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Bug, AlertCircle } from "lucide-react"
+import LastUpdatedBadge from "@/components/last-updated-badge"
+import { useDiseaseRisk } from "@/hooks/use-disease-risk"
+import type { DiseaseRiskAssessment, DiseaseRiskDay, RiskLevel } from "@/lib/disease-risk"
+
+interface DiseaseRiskProps {
+  fieldId: string | null
+  fieldName?: string
+}
+
+const LEVELS: RiskLevel[] = ["low", "moderate", "high", "very_high"]
+
+const LEVEL_STYLES: Record<RiskLevel, { label: string; color: string; chip: string; text: string }> = {
+  low: { label: "Low", color: "#22c55e", chip: "bg-green-500", text: "text-green-700" },
+  moderate: { label: "Moderate", color: "#facc15", chip: "bg-yellow-400", text: "text-yellow-700" },
+  high: { label: "High", color: "#f97316", chip: "bg-orange-500", text: "text-orange-700" },
+  very_high: { label: "Very high", color: "#dc2626", chip: "bg-red-600", text: "text-red-700" },
+}
+
+function formatDay(value: string) {
+  return new Date(`${value}T00:00:00Z`).toLocaleDateString("en-IN", { weekday: "short", day: "numeric", timeZone: "UTC" })
+}
+
+// Point on the gauge's arc; 0 degrees is the right end, 180 the left
+function arcPoint(angle: number, radius: number) {
+  const radians = (angle * Math.PI) / 180
+  return { x: 50 + radius * Math.cos(radians), y: 50 - radius * Math.sin(radians) }
+}
+
+// Half-circle gauge with a band per risk level and the needle on the current one
+function RiskGauge({ level }: { level: RiskLevel }) {
+  const step = 180 / LEVELS.length
+  const needle = arcPoint(180 - (LEVELS.indexOf(level) + 0.5) * step, 32)
+
+  return (
+    <svg viewBox="0 0 100 56" className="w-36 h-auto" role="img" aria-label={`${LEVEL_STYLES[level].label} risk`}>
+      {LEVELS.map((band, index) => {
+        const from = arcPoint(180 - index * step, 40)
+        const to = arcPoint(180 - (index + 1) * step, 40)
+        return (
+          <path
+            key={band}
+            d={`M ${from.x} ${from.y} A 40 40 0 0 1 ${to.x} ${to.y}`}
+            stroke={LEVEL_STYLES[band].color}
+            strokeWidth={10}
+            fill="none"
+            opacity={band === level ? 1 : 0.35}
+          />
+        )
+      })}
+      <line x1={50} y1={50} x2={needle.x} y2={needle.y} stroke="currentColor" strokeWidth={2.5} strokeLinecap="round" />
+      <circle cx={50} cy={50} r={3.5} fill="currentColor" />
+    </svg>
+  )
+}
+
+function dayTitle(day: DiseaseRiskDay) {
+  const source = day.forecast ? "forecast" : "observed"
+  return `${formatDay(day.date)} - ${LEVEL_STYLES[day.level].label} (${source}${day.partial ? ", part of the day" : ""})\n${day.summary}`
+}
+
+function AssessmentPanel({ assessment, today }: { assessment: DiseaseRiskAssessment; today: string }) {
+  const todayResult = assessment.days.find((day) => day.date === today)
+  const rising = LEVELS.indexOf(assessment.peakLevel) > LEVELS.indexOf(assessment.level)
+
+  return (
+    <div className="p-4 rounded-lg border space-y-3">
+      <div className="flex flex-wrap items-center gap-4">
+        <RiskGauge level={assessment.level} />
+        <div className="space-y-1 flex-1 min-w-48">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium">{assessment.disease}</span>
+            <span className={`text-sm font-semibold ${LEVEL_STYLES[assessment.level].text}`}>
+              {LEVEL_STYLES[assessment.level].label} today
+            </span>
+            {rising && (
+              <Badge variant="destructive">
+                {LEVEL_STYLES[assessment.peakLevel].label} on {formatDay(assessment.peakDate)}
+              </Badge>
+            )}
+          </div>
+          {todayResult && <p className="text-sm text-muted-foreground">{todayResult.summary}</p>}
+          <p className="text-sm">{assessment.advice}</p>
+          <p className="text-xs text-muted-foreground">Model: {assessment.method}</p>
+        </div>
+      </div>
+
+      <div className="flex gap-1">
+        {assessment.days.map((day) => (
+          <div key={day.date} className="flex-1 min-w-0 text-center" title={dayTitle(day)}>
+            <div
+              className={`h-3 rounded-sm ${LEVEL_STYLES[day.level].chip} ${day.forecast ? "opacity-60" : ""} ${
+                day.date === today ? "ring-2 ring-offset-1 ring-foreground" : ""
+              }`}
+            />
+            <span className="text-[10px] text-muted-foreground">{formatDay(day.date)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// Daily disease risk gauges for the selected field's crop, from its recent weather and the forecast
+export default function DiseaseRisk({ fieldId, fieldName }: DiseaseRiskProps) {
+  const { risk, skipped, freshness, loading, error } = useDiseaseRisk(fieldId)
+
+  if (!fieldId) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Bug className="w-5 h-5" />
+              Disease Risk
+            </CardTitle>
+            <CardDescription>
+              {risk ? `${risk.cropName}${fieldName ? ` in ${fieldName}` : ""}` : fieldName || "This field"} - daily risk
+              from humidity, leaf wetness, rain and temperature over the last week and the forecast
+            </CardDescription>
+          </div>
+          <LastUpdatedBadge freshness={freshness} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading && !risk ? (
+          <p className="text-sm text-muted-foreground">Working out disease risk...</p>
+        ) : !risk ? (
+          skipped && <p className="text-sm text-muted-foreground">{skipped.reason}</p>
+        ) : (
+          <>
+            {risk.assessments.map((assessment) => (
+              <AssessmentPanel key={assessment.model} assessment={assessment} today={risk.today} />
+            ))}
+
+            <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+              {LEVELS.map((level) => (
+                <span key={level} className="flex items-center gap-1">
+                  <span className={`inline-block h-3 w-3 rounded-sm ${LEVEL_STYLES[level].chip}`} />
+                  {LEVEL_STYLES[level].label}
+                </span>
+              ))}
+              <span>Faded days are forecast.</span>
+              {risk.observedHours === 0 && (
+                <span>No recorded hourly weather for this field yet, so the last week is left out until the next daily sync.</span>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
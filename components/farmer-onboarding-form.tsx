@@ -19,6 +19,7 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Progress } from '@/components/ui/progress'
 import { Badge } from '@/components/ui/badge'
 import { cn } from '@/lib/utils'
+import { sendOrQueue } from '@/lib/offline-store'
 
 // Form validation schema
 const farmerOnboardingSchema = z.object({
@@ -49,7 +50,6 @@ const farmerOnboardingSchema = z.object({
 type FarmerOnboardingData = z.infer<typeof farmerOnboardingSchema>
 
 interface FarmerOnboardingFormProps {
-  userId: string
   onComplete: (data: FarmerOnboardingData) => void
   onSkip?: () => void
 }
@@ -91,7 +91,7 @@ const LANGUAGES = [
   { value: 'ar', label: 'Arabic' }
 ]
 
-export function FarmerOnboardingForm({ userId, onComplete, onSkip }: FarmerOnboardingFormProps) {
+export function FarmerOnboardingForm({ onComplete, onSkip }: FarmerOnboardingFormProps) {
   const [currentStep, setCurrentStep] = useState(0)
   const [isSubmitting, setIsSubmitting] = useState(false)
 
@@ -153,13 +153,15 @@ export function FarmerOnboardingForm({ userId, onComplete, onSkip }: FarmerOnboa
         previousYield: data.previousYield ? parseFloat(data.previousYield) : undefined
       }
 
-      const response = await fetch('/api/farmer-profile', {
+      // Offline, the profile is queued and saved when the network returns
+      const response = await sendOrQueue('profile', 'Farmer profile', '/api/farmer-profile', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId, ...formattedData })
+        body: formattedData
       })
 
-      if (!response.ok) {
+      if (!response) {
+        alert('You are offline. Your profile will be saved as soon as you are back online.')
+      } else if (!response.ok) {
         const error = await response.json()
         throw new Error(error.error || 'Failed to save profile')
       }
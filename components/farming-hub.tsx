@@ -12,7 +12,6 @@ import FarmerOnboardingForm from './farmer-onboarding-form'
 import DashboardWithChat from './dashboard-with-chat'
 
 interface FarmingHubProps {
-  userId: string
   initialOnboardingStatus?: boolean
 }
 
@@ -39,7 +38,7 @@ interface UserProfile {
   }
 }
 
-export function FarmingHub({ userId, initialOnboardingStatus = false }: FarmingHubProps) {
+export function FarmingHub({ initialOnboardingStatus = false }: FarmingHubProps) {
   const [isOnboardingComplete, setIsOnboardingComplete] = useState(initialOnboardingStatus)
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null)
   const [isLoading, setIsLoading] = useState(true)
@@ -49,12 +48,12 @@ export function FarmingHub({ userId, initialOnboardingStatus = false }: FarmingH
   // Load user profile on component mount
   useEffect(() => {
     loadUserProfile()
-  }, [userId])
+  }, [])
 
   const loadUserProfile = async () => {
     try {
       setIsLoading(true)
-      const response = await fetch(`/api/farmer-profile?userId=${userId}`)
+      const response = await fetch('/api/farmer-profile')
       
       if (response.ok) {
         const profileData = await response.json()
@@ -116,7 +115,6 @@ export function FarmingHub({ userId, initialOnboardingStatus = false }: FarmingH
     return (
       <div className="container mx-auto py-8">
         <FarmerOnboardingForm
-          userId={userId}
           onComplete={handleOnboardingComplete}
           onSkip={() => setIsOnboardingComplete(true)}
         />
@@ -152,7 +150,7 @@ export function FarmingHub({ userId, initialOnboardingStatus = false }: FarmingH
 
         {/* Dashboard Tab with Integrated Chat */}
         <TabsContent value="dashboard">
-          <DashboardWithChat userId={userId} userProfile={userProfile} />
+          <DashboardWithChat userProfile={userProfile} />
         </TabsContent>
 
         {/* Profile Tab */}
@@ -0,0 +1,147 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, AlertTriangle, BellRing, Bug, CheckCircle, CloudLightning } from "lucide-react"
+import { useFieldAlerts } from "@/hooks/use-field-alerts"
+import type { AlertChannelName } from "@/lib/alert-notifications"
+
+interface FieldAlertsProps {
+  selectedFieldId?: string | null // alerts on this field are listed first
+}
+
+const CHANNEL_LABELS: Record<AlertChannelName, { label: string; unreachable: string }> = {
+  telegram: { label: "Telegram", unreachable: "link your Telegram chat first" },
+  sms: { label: "SMS", unreachable: "no phone number on your account" },
+}
+
+function formatDay(value: string) {
+  return new Date(value).toLocaleDateString("en-IN", { day: "numeric", month: "short" })
+}
+
+function formatTime(value: string) {
+  return new Date(value).toLocaleString("en-IN", { weekday: "short", day: "numeric", month: "short", hour: "numeric" })
+}
+
+// Crop-health alerts raised from NDVI trends, weather alerts from the forecast and disease risk alerts, with the channels they are also sent to
+export default function FieldAlerts({ selectedFieldId }: FieldAlertsProps) {
+  const { alerts, channels, reachable, loading, error, updateAlert, updateChannels } = useFieldAlerts()
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  const sorted = [...alerts].sort((a, b) =>
+    Number(b.field.id === selectedFieldId) - Number(a.field.id === selectedFieldId) ||
+    Number(b.status === "open") - Number(a.status === "open")
+  )
+
+  const run = async (action: () => Promise<void>) => {
+    setActionError(null)
+    try {
+      await action()
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : "Something went wrong")
+    }
+  }
+
+  const toggleChannel = (channel: AlertChannelName, enabled: boolean) =>
+    run(() => updateChannels(enabled ? [...channels, channel] : channels.filter((item) => item !== channel)))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="w-5 h-5" />
+          Field Alerts
+          {alerts.some((alert) => alert.status === "open") && (
+            <Badge variant="destructive">{alerts.filter((alert) => alert.status === "open").length} new</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Crop health problems in your fields' NDVI, frost, heat, heavy rain, wind, humidity and dry spells in the forecast, and weather-driven disease risk
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(error || actionError) && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error || actionError}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading && alerts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Loading alerts...</p>
+        ) : sorted.length === 0 ? (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle className="w-4 h-4 text-green-600" />
+            No crop-health problems in the latest satellite scenes and no weather or disease risks in the forecast.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {sorted.map((alert) => {
+              const Icon = alert.category === "weather" ? CloudLightning : alert.category === "disease" ? Bug : AlertTriangle
+              return (
+                <div
+                  key={alert.id}
+                  className={`p-3 rounded-lg border ${alert.status === "open" ? "" : "opacity-70"} ${
+                    alert.severity === "critical" ? "border-red-300 bg-red-50" : "border-orange-200 bg-orange-50"
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="space-y-1">
+                      <div className="flex flex-wrap items-center gap-2 text-sm font-medium">
+                        <Icon className={`w-4 h-4 ${alert.severity === "critical" ? "text-red-600" : "text-orange-500"}`} />
+                        {alert.title}
+                        <Badge variant="outline">{alert.field.name}</Badge>
+                        {alert.status === "acknowledged" && <Badge variant="secondary">Acknowledged</Badge>}
+                      </div>
+                      <p className="text-sm text-muted-foreground">{alert.message}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {alert.category !== "crop_health" && alert.startsAt
+                          ? `${alert.category === "disease" ? "Risk" : "Forecast"} from ${formatTime(alert.startsAt)}${
+                              alert.expiresAt ? ` until ${formatTime(alert.expiresAt)}` : ""
+                            }`
+                          : `Satellite scene of ${formatDay(alert.observedAt)}`}
+                      </p>
+                    </div>
+                    <div className="flex flex-col gap-1 shrink-0">
+                      {alert.status === "open" && (
+                        <Button variant="outline" size="sm" onClick={() => run(() => updateAlert(alert.id, "acknowledge"))}>
+                          Acknowledge
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => run(() => updateAlert(alert.id, "resolve"))}>
+                        Dismiss
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-6 pt-2 border-t">
+          {(Object.keys(CHANNEL_LABELS) as AlertChannelName[]).map((channel) => (
+            <div key={channel} className="flex items-center gap-2 pt-2">
+              <Switch
+                id={`alert-channel-${channel}`}
+                checked={channels.includes(channel)}
+                onCheckedChange={(checked) => toggleChannel(channel, checked)}
+              />
+              <Label htmlFor={`alert-channel-${channel}`} className="text-sm">
+                Send to {CHANNEL_LABELS[channel].label}
+                {channels.includes(channel) && !reachable[channel] && (
+                  <span className="ml-1 text-xs text-muted-foreground">({CHANNEL_LABELS[channel].unreachable})</span>
+                )}
+              </Label>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,208 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { AlertTriangle, History, PencilRuler, Wrench } from "lucide-react"
+import { useFieldBoundary } from "@/hooks/use-field-boundary"
+import { checkFieldBoundary, repairFieldBoundary, type LatLng, type NamedBoundary } from "@/lib/field-geometry"
+import type { PolygonResponse } from "@/lib/agromonitoring-api"
+
+interface FieldBoundaryEditorProps {
+  map: google.maps.Map | null
+  fieldId: string | null
+  boundary: LatLng[] // current boundary, as drawn on the map
+  otherFields: NamedBoundary[]
+  onActiveChange?: (active: boolean) => void
+  onSaved?: (polygon: PolygonResponse) => void
+}
+
+// The editable polygon closes itself, so drop a repeated closing point
+function openRing(points: LatLng[]): LatLng[] {
+  const [first, last] = [points[0], points[points.length - 1]]
+  return points.length > 1 && first.lat === last.lat && first.lng === last.lng ? points.slice(0, -1) : points
+}
+
+function formatDay(date: string) {
+  return new Date(date).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric" })
+}
+
+// Drag, add or remove the selected field's corners, and go back to an earlier boundary
+export default function FieldBoundaryEditor({
+  map,
+  fieldId,
+  boundary,
+  otherFields,
+  onActiveChange,
+  onSaved,
+}: FieldBoundaryEditorProps) {
+  const { versions, saving, error, saveBoundary } = useFieldBoundary(fieldId)
+  // Shape the editable polygon starts from; replaced on repair or restore
+  const [startPoints, setStartPoints] = useState<LatLng[] | null>(null)
+  const [points, setPoints] = useState<LatLng[]>([])
+  const [repairNotes, setRepairNotes] = useState<string[]>([])
+  const [showHistory, setShowHistory] = useState(false)
+
+  const editing = startPoints !== null
+  const check = useMemo(() => (editing ? checkFieldBoundary(points, otherFields) : null), [editing, points, otherFields])
+
+  useEffect(() => {
+    setStartPoints(null)
+    setShowHistory(false)
+  }, [fieldId])
+
+  useEffect(() => {
+    onActiveChange?.(editing)
+  }, [editing, onActiveChange])
+
+  useEffect(() => {
+    if (!map || !startPoints || !window.google) return
+
+    const polygon = new window.google.maps.Polygon({
+      map,
+      paths: startPoints,
+      strokeColor: "#f59e0b",
+      strokeOpacity: 1,
+      strokeWeight: 3,
+      fillColor: "#f59e0b",
+      fillOpacity: 0.2,
+      editable: true,
+      zIndex: 10,
+    })
+    const path = polygon.getPath()
+    const readPath = () => setPoints(path.getArray().map((point) => ({ lat: point.lat(), lng: point.lng() })))
+    const listeners = [
+      path.addListener("set_at", readPath),
+      path.addListener("insert_at", readPath),
+      path.addListener("remove_at", readPath),
+      // Right-click a corner to remove it
+      polygon.addListener("rightclick", (e: google.maps.PolyMouseEvent) => {
+        if (e.vertex !== undefined && path.getLength() > 3) path.removeAt(e.vertex)
+      }),
+    ]
+
+    return () => {
+      listeners.forEach((listener) => listener.remove())
+      polygon.setMap(null)
+    }
+  }, [map, startPoints])
+
+  const startEditing = (from: LatLng[]) => {
+    setStartPoints(from)
+    setPoints(from)
+    setRepairNotes([])
+  }
+
+  const repair = () => {
+    const result = repairFieldBoundary(points)
+    setStartPoints(result.points)
+    setPoints(result.points)
+    setRepairNotes(result.repairs)
+  }
+
+  const save = async () => {
+    if (!check?.valid) return
+    const polygon = await saveBoundary(points)
+    if (polygon) {
+      setStartPoints(null)
+      onSaved?.(polygon)
+    }
+  }
+
+  if (!fieldId) return null
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <PencilRuler className="w-4 h-4 text-muted-foreground" />
+          <span className="text-sm font-medium mr-2">Field boundary</span>
+          {!editing ? (
+            <Button variant="outline" size="sm" onClick={() => startEditing(openRing(boundary))}>
+              Edit Boundary
+            </Button>
+          ) : (
+            <>
+              <Button size="sm" onClick={save} disabled={!check?.valid || saving}>
+                {saving ? "Saving..." : "Save Boundary"}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setStartPoints(null)} disabled={saving}>
+                Cancel
+              </Button>
+            </>
+          )}
+          {versions.length > 1 && (
+            <Button variant="ghost" size="sm" onClick={() => setShowHistory(!showHistory)} className="flex items-center gap-1">
+              <History className="w-4 h-4" />
+              {versions.length} versions
+            </Button>
+          )}
+        </div>
+
+        {editing && (
+          <div className="text-sm space-y-1">
+            <p className="text-muted-foreground">
+              Drag a corner to move it, drag a midpoint to add one, right-click a corner to remove it.
+            </p>
+            {check && (
+              <p>
+                {check.points.length} points • {check.areaHa.toFixed(2)} hectares
+              </p>
+            )}
+            {check?.issues.map((issue, index) => (
+              <p
+                key={index}
+                className={`flex items-start gap-2 ${issue.severity === "error" ? "text-red-600" : "text-amber-600"}`}
+              >
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                {issue.message}
+              </p>
+            ))}
+            {check?.issues.some((issue) => issue.severity === "error" && issue.repairable) && (
+              <Button variant="outline" size="sm" onClick={repair} className="flex items-center gap-2">
+                <Wrench className="w-4 h-4" />
+                Repair Boundary
+              </Button>
+            )}
+            {repairNotes.length > 0 && <p className="text-green-700">Repaired: {repairNotes.join(", ")}</p>}
+            <p className="text-xs text-muted-foreground">
+              Saving keeps the current boundary in the history. Earlier NDVI readings stay with the field and are marked
+              with the boundary they were measured over.
+            </p>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {showHistory && (
+          <div className="rounded-lg border divide-y text-sm">
+            {versions.map((version) => (
+              <div key={version.version} className="flex items-center justify-between gap-2 px-3 py-2">
+                <span>
+                  v{version.version} • {formatDay(version.validFrom)}
+                  {version.validTo ? ` – ${formatDay(version.validTo)}` : " – now"}
+                  {version.areaHa !== null && (
+                    <span className="text-muted-foreground"> • {version.areaHa.toFixed(2)} ha</span>
+                  )}
+                </span>
+                {version.current ? (
+                  <Badge variant="secondary">Current</Badge>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => startEditing(openRing(version.coordinates.map(([lng, lat]) => ({ lat, lng }))))}
+                    disabled={saving}
+                  >
+                    Restore
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,247 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { AlertTriangle, Download, Upload } from "lucide-react"
+import type { PolygonResponse } from "@/lib/agromonitoring-api"
+import type { BoundaryFormat, ParsedBoundaryFile, RejectedBoundary } from "@/lib/field-boundaries"
+
+interface FieldBoundaryTransferProps {
+  hasFields: boolean
+  onImported?: (polygon: PolygonResponse) => void
+}
+
+type ImportPreview = ParsedBoundaryFile & { farms: Array<{ id: string; name: string }> }
+
+// Farm named in the file, or the first farm, unless one is picked
+const FARM_FROM_FILE = "from-file"
+
+const EXPORT_FORMATS: Array<{ format: BoundaryFormat; label: string }> = [
+  { format: "kml", label: "KML (Google Earth)" },
+  { format: "kmz", label: "KMZ" },
+  { format: "geojson", label: "GeoJSON" },
+  { format: "shapefile", label: "Shapefile (.zip)" },
+]
+
+// Import field boundaries from KML/KMZ, GeoJSON or shapefiles, and download all fields in those formats
+export default function FieldBoundaryTransfer({ hasFields, onImported }: FieldBoundaryTransferProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [farmId, setFarmId] = useState(FARM_FROM_FILE)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [failed, setFailed] = useState<RejectedBoundary[]>([])
+
+  const upload = async (selected: File, commit: boolean) => {
+    const form = new FormData()
+    form.append("file", selected)
+    if (!commit) form.append("preview", "true")
+    if (commit && farmId !== FARM_FROM_FILE) form.append("farmId", farmId)
+
+    const response = await fetch("/api/fields/import", { method: "POST", body: form })
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(result.error || "Failed to read the boundary file")
+    }
+    return result
+  }
+
+  const handleFileChosen = async (selected: File | undefined) => {
+    if (!selected) return
+    setFile(selected)
+    setPreview(null)
+    setFailed([])
+    setFarmId(FARM_FROM_FILE)
+    setError(null)
+    setBusy(true)
+    try {
+      setPreview(await upload(selected, false))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read the boundary file")
+    } finally {
+      setBusy(false)
+      if (inputRef.current) inputRef.current.value = ""
+    }
+  }
+
+  const handleImport = async () => {
+    if (!file) return
+    setBusy(true)
+    setError(null)
+    try {
+      const result: { created: PolygonResponse[]; failed: RejectedBoundary[] } = await upload(file, true)
+      if (result.created.length) onImported?.(result.created[0])
+      if (result.failed.length) {
+        setFailed(result.failed)
+      } else {
+        closeDialog()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import fields")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const closeDialog = () => {
+    setFile(null)
+    setPreview(null)
+    setFailed([])
+    setError(null)
+  }
+
+  const handleExport = async (format: BoundaryFormat) => {
+    try {
+      const response = await fetch(`/api/fields/export?format=${format}`)
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || "Failed to export fields")
+      }
+
+      const fileName = response.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] || `fields.${format}`
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement("a")
+      link.href = url
+      link.download = fileName
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export fields")
+    }
+  }
+
+  const totalArea = preview?.boundaries.reduce((sum, boundary) => sum + boundary.areaHa, 0) || 0
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".kml,.kmz,.geojson,.json,.zip"
+        className="hidden"
+        onChange={(e) => handleFileChosen(e.target.files?.[0])}
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={busy}
+        className="flex items-center gap-2"
+      >
+        <Upload className="w-4 h-4" />
+        {busy && !preview ? "Reading..." : "Import Fields"}
+      </Button>
+
+      {hasFields && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="flex items-center gap-2">
+              <Download className="w-4 h-4" />
+              Export Fields
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+                {label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      {error && !file && (
+        <span className="flex items-center gap-1 text-sm text-red-600">
+          <AlertTriangle className="w-4 h-4" />
+          {error}
+        </span>
+      )}
+
+      <Dialog open={file !== null && (preview !== null || error !== null)} onOpenChange={(open) => !open && !busy && closeDialog()}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Import Fields</DialogTitle>
+            <DialogDescription>{file?.name}</DialogDescription>
+          </DialogHeader>
+
+          {preview && (
+            <div className="space-y-4">
+              <p className="text-sm">
+                {preview.boundaries.length} field{preview.boundaries.length === 1 ? "" : "s"} found
+                {preview.boundaries.length > 0 && `, ${totalArea.toFixed(1)} ha in total`}
+              </p>
+
+              {preview.boundaries.length > 0 && (
+                <div className="max-h-48 overflow-y-auto rounded-lg border divide-y text-sm">
+                  {preview.boundaries.map((boundary, index) => (
+                    <div key={index} className="flex justify-between gap-2 px-3 py-2">
+                      <span className="truncate">
+                        {boundary.name}
+                        {boundary.farmName && <span className="text-muted-foreground"> · {boundary.farmName}</span>}
+                      </span>
+                      <span className="text-muted-foreground whitespace-nowrap">{boundary.areaHa.toFixed(2)} ha</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {preview.boundaries.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Add to farm</Label>
+                  <Select value={farmId} onValueChange={setFarmId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={FARM_FROM_FILE}>Farm named in the file</SelectItem>
+                      {preview.farms.map((farm) => (
+                        <SelectItem key={farm.id} value={farm.id}>
+                          {farm.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {[...preview.rejected, ...failed].length > 0 && (
+                <div className="text-sm bg-amber-50 border border-amber-200 p-3 rounded-lg space-y-1">
+                  <p className="font-medium text-amber-800">Not imported</p>
+                  {[...preview.rejected, ...failed].map((item, index) => (
+                    <p key={index} className="text-amber-700">
+                      • {item.name}: {item.reason}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {preview.warnings.map((warning, index) => (
+                <p key={index} className="text-xs text-muted-foreground">
+                  {warning}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={closeDialog} disabled={busy}>
+              {failed.length ? "Close" : "Cancel"}
+            </Button>
+            {!failed.length && (
+              <Button onClick={handleImport} disabled={busy || !preview?.boundaries.length}>
+                {busy ? "Creating fields..." : `Import ${preview?.boundaries.length || 0} Fields`}
+              </Button>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useRef, useState } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
@@ -8,14 +8,20 @@ import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { AlertTriangle, MapPin, Trash2, Layers, Satellite, PentagonIcon as PolygonIcon } from "lucide-react"
-import { getAgromonitoringAPI } from "@/lib/agromonitoring-api"
+import { AlertTriangle, MapPin, Trash2, Layers, Satellite, Wrench, PentagonIcon as PolygonIcon } from "lucide-react"
 import type { PolygonResponse } from "@/lib/agromonitoring-api"
 import { googleMapsLoader } from "@/lib/google-maps-loader"
+import { sendOrQueue } from "@/lib/offline-store"
+import { checkFieldBoundary, repairFieldBoundary } from "@/lib/field-geometry"
 import type { GeocodingResult } from "@/lib/geocoding-api"
+import SatelliteOverlay from "@/components/satellite-overlay"
+import ManagementZones from "@/components/management-zones"
+import FieldBoundaryTransfer from "@/components/field-boundary-transfer"
+import FieldBoundaryEditor from "@/components/field-boundary-editor"
 
 interface GoogleMapsFieldCreatorProps {
   onPolygonCreated?: (polygon: PolygonResponse) => void
+  onPolygonUpdated?: (polygon: PolygonResponse) => void
   onPolygonSelected?: (polygon: PolygonResponse) => void
   existingPolygons?: PolygonResponse[]
   selectedPolygon?: PolygonResponse | null
@@ -31,6 +37,7 @@ declare global {
 
 export default function GoogleMapsFieldCreator({ 
   onPolygonCreated, 
+  onPolygonUpdated,
   onPolygonSelected,
   existingPolygons = [], 
   selectedPolygon,
@@ -49,9 +56,43 @@ export default function GoogleMapsFieldCreator({
   const [showNameDialog, setShowNameDialog] = useState(false)
   const [fieldName, setFieldName] = useState("")
   const [drawnCoordinates, setDrawnCoordinates] = useState<Array<{ lat: number; lng: number }>>([])
+  const [repairNotes, setRepairNotes] = useState<string[]>([])
   const [isCreating, setIsCreating] = useState(false)
   const [mapType, setMapType] = useState<"satellite" | "hybrid">("satellite")
   const [selectedFieldForZoom, setSelectedFieldForZoom] = useState<string>("")
+  const [overlayActive, setOverlayActive] = useState(false)
+  const handleOverlayActiveChange = useCallback((active: boolean) => setOverlayActive(active), [])
+  const [zonesActive, setZonesActive] = useState(false)
+  const handleZonesActiveChange = useCallback((active: boolean) => setZonesActive(active), [])
+  const [editingActive, setEditingActive] = useState(false)
+  const handleEditingActiveChange = useCallback((active: boolean) => setEditingActive(active), [])
+
+  const existingBoundaries = useMemo(
+    () =>
+      existingPolygons.map(polygon => ({
+        name: polygon.name,
+        points: polygon.geo_json.geometry.coordinates[0].map(coord => ({ lat: coord[1], lng: coord[0] })),
+      })),
+    [existingPolygons]
+  )
+  const otherBoundaries = useMemo(
+    () => existingBoundaries.filter((_, index) => existingPolygons[index].id !== selectedPolygon?.id),
+    [existingBoundaries, existingPolygons, selectedPolygon]
+  )
+
+  // Same checks the server runs before saving: crossings, duplicates, area limits, overlap
+  const boundaryCheck = useMemo(
+    () =>
+      drawnCoordinates.length
+        ? checkFieldBoundary(drawnCoordinates, existingBoundaries)
+        : null,
+    [drawnCoordinates, existingBoundaries]
+  )
+
+  const selectedBoundary = useMemo(
+    () => selectedPolygon?.geo_json.geometry.coordinates[0].map(coord => ({ lat: coord[1], lng: coord[0] })) || [],
+    [selectedPolygon]
+  )
 
   // Load Google Maps API using shared loader
   useEffect(() => {
@@ -103,7 +144,7 @@ export default function GoogleMapsFieldCreator({
     if (mapInstanceRef.current && isLoaded) {
       displayExistingPolygons()
     }
-  }, [existingPolygons, selectedPolygon, isLoaded])
+  }, [existingPolygons, selectedPolygon, isLoaded, overlayActive, zonesActive, editingActive])
 
   const initializeMap = () => {
     if (!mapRef.current || !window.google) return
@@ -200,12 +241,10 @@ export default function GoogleMapsFieldCreator({
       })
     }
 
-    // Calculate area using Google Maps geometry library
-    const area = window.google.maps.geometry.spherical.computeArea(path) / 10000 // Convert to hectares
-
-    console.log(`[GoogleMaps] Polygon drawn with ${coordinates.length} points, area: ${area.toFixed(2)} ha`)
+    console.log(`[GoogleMaps] Polygon drawn with ${coordinates.length} points`)
 
     setDrawnCoordinates(coordinates)
+    setRepairNotes([])
     setShowNameDialog(true)
 
     // Temporarily hide the drawn polygon
@@ -232,6 +271,8 @@ export default function GoogleMapsFieldCreator({
       }))
 
       const isSelected = selectedPolygon?.id === polygonData.id
+      // The boundary editor draws its own editable copy
+      if (isSelected && editingActive) return
 
       const polygon = new window.google.maps.Polygon({
         paths: coordinates,
@@ -239,7 +280,7 @@ export default function GoogleMapsFieldCreator({
         strokeOpacity: 0.8,
         strokeWeight: isSelected ? 4 : 2,
         fillColor: isSelected ? "#ef4444" : "#10b981",
-        fillOpacity: isSelected ? 0.4 : 0.25,
+        fillOpacity: isSelected ? (overlayActive || zonesActive ? 0 : 0.4) : 0.25, // keep the satellite layer and zones untinted
         clickable: true
       })
 
@@ -293,19 +334,30 @@ export default function GoogleMapsFieldCreator({
   }
 
   const handleCreateField = async () => {
-    if (!fieldName.trim() || drawnCoordinates.length < 3) return
+    if (!fieldName.trim() || !boundaryCheck?.valid) return
 
     setIsCreating(true)
     try {
       console.log(`[GoogleMaps] Creating field "${fieldName}" with coordinates:`, drawnCoordinates)
       
-      const api = getAgromonitoringAPI()
-      const newPolygon = await api.createPolygon(fieldName.trim(), drawnCoordinates)
-      
-      console.log("[GoogleMaps] Successfully created polygon in Agromonitoring:", newPolygon)
-      
-      // Notify parent component
-      onPolygonCreated?.(newPolygon)
+      // Creates the field and its linked Agromonitoring polygon in one step; offline, the field is
+      // queued and created when the network returns
+      const response = await sendOrQueue("field", `New field "${fieldName.trim()}"`, "/api/polygons", {
+        method: "POST",
+        body: { name: fieldName.trim(), coordinates: drawnCoordinates },
+      })
+      if (response) {
+        if (!response.ok) {
+          const body: { error?: string } = await response.json()
+          throw new Error(body.error || "Failed to create field")
+        }
+        const newPolygon: PolygonResponse = await response.json()
+
+        console.log("[GoogleMaps] Successfully created field with polygon:", newPolygon)
+
+        // Notify parent component
+        onPolygonCreated?.(newPolygon)
+      }
       
       // Reset state
       setFieldName("")
@@ -429,6 +481,8 @@ export default function GoogleMapsFieldCreator({
           {mapType === "satellite" ? "Hybrid View" : "Satellite View"}
         </Button>
 
+        <FieldBoundaryTransfer hasFields={existingPolygons.length > 0} onImported={onPolygonCreated} />
+
         {existingPolygons.length > 0 && (
           <Select 
             value={selectedFieldForZoom} 
@@ -482,6 +536,37 @@ export default function GoogleMapsFieldCreator({
         </CardContent>
       </Card>
 
+      {/* Satellite imagery over the selected field */}
+      {selectedPolygon && (
+        <SatelliteOverlay
+          map={isLoaded ? mapInstanceRef.current : null}
+          fieldId={(selectedPolygon as PolygonResponse & { fieldId?: string }).fieldId || null}
+          boundary={selectedBoundary}
+          onActiveChange={handleOverlayActiveChange}
+        />
+      )}
+
+      {/* Management zones and variable-rate prescription for the selected field */}
+      {selectedPolygon && (
+        <ManagementZones
+          map={isLoaded ? mapInstanceRef.current : null}
+          fieldId={(selectedPolygon as PolygonResponse & { fieldId?: string }).fieldId || null}
+          onActiveChange={handleZonesActiveChange}
+        />
+      )}
+
+      {/* Boundary editing and version history for the selected field */}
+      {selectedPolygon && (
+        <FieldBoundaryEditor
+          map={isLoaded ? mapInstanceRef.current : null}
+          fieldId={(selectedPolygon as PolygonResponse & { fieldId?: string }).fieldId || null}
+          boundary={selectedBoundary}
+          otherFields={otherBoundaries}
+          onActiveChange={handleEditingActiveChange}
+          onSaved={onPolygonUpdated}
+        />
+      )}
+
       {/* Selected Field Coordinates */}
       {selectedPolygon && (
         <Card className="bg-blue-50 border-blue-200">
@@ -530,10 +615,44 @@ export default function GoogleMapsFieldCreator({
             
             <div className="text-sm text-muted-foreground bg-muted p-3 rounded-lg">
               <p className="font-medium mb-1">Field Details:</p>
-              <p>• Boundary points: {drawnCoordinates.length}</p>
+              <p>• Boundary points: {boundaryCheck?.points.length ?? drawnCoordinates.length}</p>
+              {boundaryCheck && <p>• Area: {boundaryCheck.areaHa.toFixed(2)} hectares</p>}
               <p>• Will be created in Agromonitoring for satellite monitoring</p>
               <p>• You'll be able to track NDVI, soil, weather, and UV data</p>
             </div>
+
+            {boundaryCheck && boundaryCheck.issues.length > 0 && (
+              <div className="text-sm space-y-1">
+                {boundaryCheck.issues.map((issue, index) => (
+                  <p
+                    key={index}
+                    className={`flex items-start gap-2 ${issue.severity === "error" ? "text-red-600" : "text-amber-600"}`}
+                  >
+                    <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                    {issue.message}
+                  </p>
+                ))}
+                {boundaryCheck.issues.some(issue => issue.severity === "error" && issue.repairable) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      const repair = repairFieldBoundary(drawnCoordinates)
+                      setDrawnCoordinates(repair.points)
+                      setRepairNotes(repair.repairs)
+                    }}
+                    className="flex items-center gap-2"
+                  >
+                    <Wrench className="w-4 h-4" />
+                    Repair Boundary
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {repairNotes.length > 0 && (
+              <p className="text-sm text-green-700">Repaired: {repairNotes.join(", ")}</p>
+            )}
           </div>
           
           <div className="flex justify-end gap-2">
@@ -551,7 +670,7 @@ export default function GoogleMapsFieldCreator({
             </Button>
             <Button 
               onClick={handleCreateField}
-              disabled={!fieldName.trim() || isCreating}
+              disabled={!fieldName.trim() || !boundaryCheck?.valid || isCreating}
             >
               {isCreating ? "Creating in Agromonitoring..." : "Create Field"}
             </Button>
@@ -1,12 +1,13 @@
 "use client"
 
-import { useEffect, useRef, useState, useCallback } from "react"
+import { useEffect, useMemo, useRef, useState, useCallback } from "react"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent } from "@/components/ui/card"
 import { PentagonIcon as PolygonIcon, Trash2, Layers, Satellite, MapPin } from "lucide-react"
 import type { google } from "google-maps"
 import { googleMapsLoader } from "@/lib/google-maps-loader"
+import SatelliteOverlay from "@/components/satellite-overlay"
 
 interface PolygonData {
   id: string
@@ -20,6 +21,7 @@ interface PolygonData {
 interface GoogleMapsIntegrationProps {
   onPolygonSelect?: (polygon: PolygonData | null) => void
   selectedPolygon?: string | null
+  fieldId?: string | null // saved field behind the selected polygon, for its satellite scenes
 }
 
 declare global {
@@ -28,7 +30,7 @@ declare global {
   }
 }
 
-export default function GoogleMapsIntegration({ onPolygonSelect, selectedPolygon }: GoogleMapsIntegrationProps) {
+export default function GoogleMapsIntegration({ onPolygonSelect, selectedPolygon, fieldId = null }: GoogleMapsIntegrationProps) {
   const mapRef = useRef<HTMLDivElement>(null)
   const [map, setMap] = useState<google.maps.Map | null>(null)
   const [drawingManager, setDrawingManager] = useState<google.maps.drawing.DrawingManager | null>(null)
@@ -37,6 +39,12 @@ export default function GoogleMapsIntegration({ onPolygonSelect, selectedPolygon
   const [isDrawing, setIsDrawing] = useState(false)
   const [mapType, setMapType] = useState<"satellite" | "hybrid">("satellite")
   const [selectedPolygonCoords, setSelectedPolygonCoords] = useState<google.maps.LatLng[] | null>(null)
+  const [overlayActive, setOverlayActive] = useState(false)
+
+  const selectedBoundary = useMemo(
+    () => (selectedPolygonCoords || []).map((coord) => ({ lat: coord.lat(), lng: coord.lng() })),
+    [selectedPolygonCoords]
+  )
 
   const initializeMap = useCallback(() => {
     if (!mapRef.current || !window.google) return
@@ -136,6 +144,13 @@ export default function GoogleMapsIntegration({ onPolygonSelect, selectedPolygon
     loadGoogleMaps()
   }, [initializeMap])
 
+  // Clear the selected field's fill while satellite imagery is drawn over it
+  useEffect(() => {
+    mapPolygons.forEach((polygon, index) => {
+      polygon.setOptions({ fillOpacity: overlayActive && polygons[index]?.id === selectedPolygon ? 0 : 0.3 })
+    })
+  }, [mapPolygons, polygons, selectedPolygon, overlayActive])
+
   const startDrawing = () => {
     if (drawingManager) {
       drawingManager.setDrawingMode(window.google.maps.drawing.OverlayType.POLYGON)
@@ -287,6 +302,16 @@ export default function GoogleMapsIntegration({ onPolygonSelect, selectedPolygon
         </CardContent>
       </Card>
 
+      {/* Satellite imagery over the selected field */}
+      {selectedPolygonCoords && (
+        <SatelliteOverlay
+          map={map}
+          fieldId={fieldId}
+          boundary={selectedBoundary}
+          onActiveChange={setOverlayActive}
+        />
+      )}
+
       {/* Drawing Instructions */}
       {isDrawing && (
         <div className="text-sm text-muted-foreground bg-muted p-3 rounded-lg">
@@ -0,0 +1,109 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Leaf, AlertCircle } from "lucide-react"
+import { useGrowthStage } from "@/hooks/use-growth-stage"
+
+interface GrowthStageProps {
+  fieldId: string | null
+  fieldName?: string
+}
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleDateString("en-IN", { day: "numeric", month: "short" }) : "--"
+}
+
+// Current growth stage of the active season, from growing degree days since sowing
+export default function GrowthStage({ fieldId, fieldName }: GrowthStageProps) {
+  const { fieldStage, growthStage, loading, error } = useGrowthStage(fieldId)
+
+  if (!fieldId) return null
+  // Nothing to show until a season is started on the field
+  if (!loading && !error && !fieldStage) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Leaf className="w-5 h-5" />
+          Growth Stage
+        </CardTitle>
+        <CardDescription>
+          {fieldStage
+            ? `${fieldStage.cropName}${fieldStage.variety ? ` (${fieldStage.variety})` : ""}${fieldName ? ` on ${fieldName}` : ""}`
+            : "Crop development from sowing date and accumulated heat units"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading && !fieldStage ? (
+          <p className="text-sm text-muted-foreground">Calculating growth stage...</p>
+        ) : fieldStage && !growthStage ? (
+          <p className="text-sm text-muted-foreground">
+            No crop calendar for {fieldStage.cropName} yet, so its growth stage cannot be estimated.
+          </p>
+        ) : growthStage ? (
+          <>
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-lg font-semibold">{growthStage.stage}</p>
+                <p className="text-sm text-muted-foreground">
+                  Day {growthStage.daysSinceSowing} after sowing • stage {growthStage.stageIndex + 1} of {growthStage.totalStages}
+                </p>
+              </div>
+              <Badge variant={growthStage.mature ? "default" : "secondary"}>
+                {growthStage.mature ? "Ready for harvest" : `${growthStage.stageProgress}% through`}
+              </Badge>
+            </div>
+
+            <Progress value={growthStage.stageProgress} />
+
+            <p className="text-sm">{growthStage.focus}</p>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+              <div>
+                <p className="text-muted-foreground">Next stage</p>
+                <p className="font-medium">
+                  {growthStage.nextStage
+                    ? `${growthStage.nextStage}${growthStage.daysToNextStage !== null ? ` in ~${growthStage.daysToNextStage} days (${formatDate(growthStage.nextStageDate)})` : ""}`
+                    : "--"}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Expected maturity</p>
+                <p className="font-medium">
+                  {growthStage.mature
+                    ? "Reached"
+                    : growthStage.daysToMaturity !== null
+                      ? `${formatDate(growthStage.expectedMaturityDate)} (~${growthStage.daysToMaturity} days)`
+                      : "--"}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Heat units</p>
+                <p className="font-medium">
+                  {growthStage.accumulatedGdd} GDD (base {growthStage.baseTemp}°C)
+                </p>
+              </div>
+            </div>
+
+            {growthStage.method === "calendar" && (
+              <p className="text-xs text-muted-foreground">
+                Estimated from the typical crop calendar - not enough weather history is stored for this field yet.
+              </p>
+            )}
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
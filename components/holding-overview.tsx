@@ -0,0 +1,133 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Layers, RefreshCw } from "lucide-react"
+import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart } from "recharts"
+import { useHoldingSummary } from "@/hooks/use-agromonitoring-comprehensive"
+
+interface HoldingOverviewProps {
+  enabled?: boolean
+}
+
+function formatNDVI(value: number | null | undefined) {
+  return value === null || value === undefined ? "--" : value.toFixed(3)
+}
+
+function formatMoisture(value: number | null | undefined) {
+  return value === null || value === undefined ? "--" : `${value}%`
+}
+
+// Whole-holding view: area-weighted NDVI and soil moisture across all farms and fields
+export default function HoldingOverview({ enabled = true }: HoldingOverviewProps) {
+  const { summary, loading, error, refetch } = useHoldingSummary(30, enabled)
+
+  if (!enabled || (!summary && !loading && !error)) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="w-5 h-5" />
+              Whole Holding
+            </CardTitle>
+            <CardDescription>
+              {summary
+                ? `${summary.fieldCount} fields on ${summary.farms.length} farm(s)${summary.totalArea ? ` • ${summary.totalArea.toFixed(2)} ha` : ""} • values weighted by field area`
+                : "Area-weighted crop health and soil moisture across all your fields"}
+            </CardDescription>
+          </div>
+          <Button onClick={refetch} disabled={loading} size="sm" variant="outline">
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {summary && (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">NDVI (weighted)</p>
+                <p className="text-2xl font-bold">{formatNDVI(summary.latestNdvi)}</p>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Soil Moisture (weighted)</p>
+                <p className="text-2xl font-bold">{formatMoisture(summary.soilMoisture)}</p>
+              </div>
+            </div>
+
+            {summary.ndviHistory.length > 0 && (
+              <div className="h-48 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={summary.ndviHistory}>
+                    <defs>
+                      <linearGradient id="holdingNdviGradient" x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="5%" stopColor="#10b981" stopOpacity={0.3} />
+                        <stop offset="95%" stopColor="#10b981" stopOpacity={0.1} />
+                      </linearGradient>
+                    </defs>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                    <XAxis dataKey="date" stroke="#6b7280" fontSize={12} />
+                    <YAxis domain={["dataMin - 0.1", "dataMax + 0.1"]} stroke="#6b7280" fontSize={12} />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: "#ffffff",
+                        border: "1px solid #e5e7eb",
+                        borderRadius: "8px",
+                        fontSize: "12px",
+                      }}
+                      formatter={(value: number) => [value.toFixed(3), "NDVI"]}
+                      labelFormatter={(label, payload) => {
+                        const data = payload?.[0]?.payload
+                        return data ? `${data.date} (${Math.round(data.areaCoverage * 100)}% of area observed)` : label
+                      }}
+                    />
+                    <Area type="monotone" dataKey="ndviMean" stroke="#10b981" strokeWidth={2} fill="url(#holdingNdviGradient)" />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+
+            <div className="space-y-4">
+              {summary.farms.filter((farm) => farm.fieldCount > 0).map((farm) => (
+                <div key={farm.id} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="font-medium">
+                      {farm.name}
+                      {farm.area ? <span className="text-sm text-muted-foreground"> • {farm.area.toFixed(2)} ha</span> : null}
+                    </p>
+                    <div className="flex gap-2">
+                      <Badge variant="secondary">NDVI {formatNDVI(farm.latestNdvi)}</Badge>
+                      <Badge variant="secondary">Moisture {formatMoisture(farm.soilMoisture)}</Badge>
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    {summary.fields.filter((field) => field.farmId === farm.id).map((field) => (
+                      <div key={field.id} className="flex items-center justify-between text-sm pl-4">
+                        <span>
+                          {field.name}
+                          {field.area ? <span className="text-muted-foreground"> • {field.area} ha</span> : null}
+                        </span>
+                        <span className="text-muted-foreground">
+                          NDVI {formatNDVI(field.latestNdvi)}
+                          {field.ndviStatus ? ` (${field.ndviStatus})` : ""} • {formatMoisture(field.soilMoisture)}
+                          {field.growthStage ? ` • ${field.growthStage}` : ""}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
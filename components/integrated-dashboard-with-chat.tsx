@@ -26,8 +26,17 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 
 import GoogleMapsFieldCreator from "@/components/google-maps-field-creator"
 import ComprehensiveDashboard from "@/components/comprehensive-dashboard"
+import HoldingOverview from "@/components/holding-overview"
+import CropSeasons from "@/components/crop-seasons"
+import GrowthStage from "@/components/growth-stage"
+import IrrigationSchedule from "@/components/irrigation-schedule"
+import FieldAlerts from "@/components/field-alerts"
+import WeatherDashboard from "@/components/weather-dashboard"
+import SprayWindows from "@/components/spray-windows"
+import DiseaseRisk from "@/components/disease-risk"
 import type { PolygonResponse } from "@/lib/agromonitoring-api"
 import type { GeocodingResult } from "@/lib/geocoding-api"
+import { OUTBOX_EVENT, sendOrQueue, takeReplies } from "@/lib/offline-store"
 
 interface Message {
   id: string
@@ -60,6 +69,41 @@ interface Message {
   isLoading?: boolean
 }
 
+// Polygons from /api/polygons also carry the field and farm they belong to
+type FieldPolygon = PolygonResponse & { fieldId?: string; farmId?: string }
+
+// What the AI assistant looks at: the selected field, its farm, or all fields
+type ChatScope = "field" | "farm" | "holding"
+
+const CHAT_SCOPE_LABELS: Record<ChatScope, string> = {
+  field: "This field",
+  farm: "This farm",
+  holding: "All fields",
+}
+
+function assistantMessageFrom(data: any, id: string): Message {
+  return {
+    id,
+    type: "assistant",
+    content: data.response || "I apologize, but I was unable to process your request at this time.",
+    timestamp: new Date(),
+    insights: {
+      answer: data.response,
+      recommendations: data.recommendations || [],
+      urgentAlerts: data.urgentAlerts || [],
+      confidence: data.confidence || 0.8,
+      sources: data.sources || ["AI Analysis"],
+      dataUsed: data.dataUsed,
+    },
+  }
+}
+
+// How a queued question is listed while it waits to be sent
+function questionLabel(question: string) {
+  const trimmed = question.trim()
+  return `Question "${trimmed.length > 40 ? `${trimmed.slice(0, 40)}...` : trimmed}"`
+}
+
 interface PresetQuestion {
   id: string
   question: string
@@ -97,6 +141,7 @@ const PRESET_QUESTIONS: PresetQuestion[] = [
 interface IntegratedDashboardProps {
   selectedPolygon: PolygonResponse | null
   onPolygonCreated: (polygon: PolygonResponse) => void
+  onPolygonUpdated: (polygon: PolygonResponse) => void
   onPolygonSelected: (polygon: PolygonResponse) => void
   existingPolygons: PolygonResponse[]
   userLocation: GeocodingResult | null
@@ -105,6 +150,7 @@ interface IntegratedDashboardProps {
 export function IntegratedDashboardWithChat({
   selectedPolygon,
   onPolygonCreated,
+  onPolygonUpdated,
   onPolygonSelected,
   existingPolygons,
   userLocation,
@@ -117,6 +163,11 @@ export function IntegratedDashboardWithChat({
   const [activeTab, setActiveTab] = useState("fields")
   const [userData, setUserData] = useState<any>(null)
   const [isClient, setIsClient] = useState(false)
+  const [chatScope, setChatScope] = useState<ChatScope>("field")
+
+  const hasSeveralFields = existingPolygons.length > 1
+  // Without a selected field the assistant always looks at the whole holding
+  const effectiveScope: ChatScope = selectedPolygon ? chatScope : "holding"
 
   useEffect(() => {
     setIsClient(true)
@@ -130,6 +181,26 @@ export function IntegratedDashboardWithChat({
     }
   }, [])
 
+  // Answers to questions asked while offline arrive once the queue has been sent
+  useEffect(() => {
+    const handleOutboxChange = async () => {
+      const answered = (await takeReplies("chat")).filter((reply) => reply.status < 400 && reply.response)
+      if (answered.length === 0) return
+
+      const answers = answered.map((reply) => {
+        const message = assistantMessageFrom(reply.response, `queued-${reply.id}`)
+        const question = JSON.parse(reply.requestBody).message
+        return { ...message, content: `You asked while offline: "${question}"\n\n${message.content}` }
+      })
+      setMessages((prev) => [...prev, ...answers])
+      setShowChat(true)
+    }
+
+    handleOutboxChange()
+    window.addEventListener(OUTBOX_EVENT, handleOutboxChange)
+    return () => window.removeEventListener(OUTBOX_EVENT, handleOutboxChange)
+  }, [])
+
   const scrollAreaRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
 
@@ -144,7 +215,7 @@ export function IntegratedDashboardWithChat({
   useEffect(() => {
     if (showChat && messages.length === 0) {
       const userData = JSON.parse(localStorage.getItem("userData") || "{}")
-      const hasUserId = !!userData.userId
+      const hasProfile = !!userData.profileComplete
 
       const welcomeMessage: Message = {
         id: "welcome",
@@ -153,14 +224,14 @@ export function IntegratedDashboardWithChat({
 
 I provide real-time insights using:
 ${
-  hasUserId
+  hasProfile
     ? `✅ Your live weather data
 ✅ Real-time soil moisture & temperature  
 ✅ NDVI satellite crop health monitoring
 ✅ UV index for optimal work timing
 ✅ Your specific crop and soil information
 
-🔍 Profile: ${userData.userId ? `Linked (${userData.userId.substring(0, 8)}...)` : "Not Found"}`
+🔍 Profile: Linked`
     : `• Weather-based farming decisions
 • Irrigation scheduling guidance
 • Crop health analysis
@@ -173,11 +244,11 @@ ${
     ? `📍 Active Field: "${selectedPolygon.name}" (${selectedPolygon.area} hectares)
 `
     : ""
-}${hasUserId ? `💡 Ask me about your current conditions, soil moisture, crop health, or any farming question!` : `💡 Complete your profile for personalized insights based on real satellite and weather data!`}
+}${hasProfile ? `💡 Ask me about your current conditions, soil moisture, crop health, or any farming question!` : `💡 Complete your profile for personalized insights based on real satellite and weather data!`}
 
 What would you like to know about your farming operations?`,
         timestamp: new Date(),
-        insights: hasUserId
+        insights: hasProfile
           ? {
               answer: "",
               recommendations: [],
@@ -219,21 +290,19 @@ What would you like to know about your farming operations?`,
       const userData = JSON.parse(localStorage.getItem("userData") || "{}")
       const farmFields = JSON.parse(localStorage.getItem("farmFields") || "[]")
 
-      // Validate user data for debugging
-      if (!userData.userId) {
-        console.warn("[Chat] No userId found in localStorage. User may need to complete onboarding.")
-      }
-
       // Prepare context for AI
       const context = {
         selectedField: selectedPolygon
           ? {
               id: selectedPolygon.id, // Add the polygon ID!
+              fieldId: (selectedPolygon as FieldPolygon).fieldId,
+              farmId: (selectedPolygon as FieldPolygon).farmId,
               name: selectedPolygon.name,
               area: selectedPolygon.area,
               center: selectedPolygon.center,
             }
           : null,
+        scope: effectiveScope,
         userLocation: userLocation,
         userData: {
           ...userData,
@@ -248,7 +317,6 @@ What would you like to know about your farming operations?`,
 
       const requestBody = {
         message: content.trim(),
-        userId: userData.userId || null, // Ensure we send null if no userId
         context,
         history: messages
           .filter((m) => !m.isLoading && m.id !== "welcome" && (m.type === "user" || m.type === "assistant"))
@@ -261,40 +329,32 @@ What would you like to know about your farming operations?`,
 
       // Log request summary (not full body for security)
       console.log("[Chat] Sending AI request:", {
-        hasUserId: !!requestBody.userId,
         messageLength: requestBody.message.length,
       })
 
-      const response = await fetch("/api/ai-chat", {
+      // Offline, the question is queued and answered once the network returns
+      const response = await sendOrQueue("chat", questionLabel(content), "/api/ai-chat", {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(requestBody),
+        body: requestBody,
       })
 
+      if (!response) {
+        const queuedMessage: Message = {
+          id: (Date.now() + 2).toString(),
+          type: "assistant",
+          content: "You are offline. Your question is saved and will be answered as soon as you are back online.",
+          timestamp: new Date(),
+        }
+        setMessages((prev) => prev.slice(0, -1).concat([queuedMessage]))
+        return
+      }
+
       if (!response.ok) {
         throw new Error(`AI service error: ${response.status}`)
       }
 
       const data = await response.json()
-
-      const assistantMessage: Message = {
-        id: (Date.now() + 2).toString(),
-        type: "assistant",
-        content: data.response || "I apologize, but I was unable to process your request at this time.",
-        timestamp: new Date(),
-        insights: {
-          answer: data.response,
-          recommendations: data.recommendations || [],
-          urgentAlerts: data.urgentAlerts || [],
-          confidence: data.confidence || 0.8,
-          sources: data.sources || ["AI Analysis"],
-          dataUsed: data.dataUsed,
-        },
-      }
-
-      setMessages((prev) => prev.slice(0, -1).concat([assistantMessage]))
+      setMessages((prev) => prev.slice(0, -1).concat([assistantMessageFrom(data, (Date.now() + 2).toString())]))
     } catch (error: any) {
       console.error("Error sending message:", error)
 
@@ -370,6 +430,7 @@ What would you like to know about your farming operations?`,
               <div className="h-96 w-full">
                 <GoogleMapsFieldCreator
                   onPolygonCreated={onPolygonCreated}
+                  onPolygonUpdated={onPolygonUpdated}
                   onPolygonSelected={onPolygonSelected}
                   existingPolygons={existingPolygons}
                   selectedPolygon={selectedPolygon}
@@ -381,11 +442,36 @@ What would you like to know about your farming operations?`,
         </TabsContent>
 
         {/* Data Dashboard Tab */}
-        <TabsContent value="dashboard" className="flex-1 mt-4">
+        <TabsContent value="dashboard" className="flex-1 mt-4 space-y-6">
+          <FieldAlerts selectedFieldId={(selectedPolygon as FieldPolygon | null)?.fieldId || null} />
+          <HoldingOverview enabled={hasSeveralFields} />
           <ComprehensiveDashboard
             selectedPolygon={selectedPolygon}
             cropName={userData?.farmerProfile?.cropName || userData?.primaryCrop}
-            userId={userData?.userId}
+          />
+          <WeatherDashboard
+            fieldId={(selectedPolygon as FieldPolygon | null)?.fieldId || null}
+            fieldName={selectedPolygon?.name}
+          />
+          <SprayWindows
+            fieldId={(selectedPolygon as FieldPolygon | null)?.fieldId || null}
+            fieldName={selectedPolygon?.name}
+          />
+          <DiseaseRisk
+            fieldId={(selectedPolygon as FieldPolygon | null)?.fieldId || null}
+            fieldName={selectedPolygon?.name}
+          />
+          <GrowthStage
+            fieldId={(selectedPolygon as FieldPolygon | null)?.fieldId || null}
+            fieldName={selectedPolygon?.name}
+          />
+          <IrrigationSchedule
+            fieldId={(selectedPolygon as FieldPolygon | null)?.fieldId || null}
+            fieldName={selectedPolygon?.name}
+          />
+          <CropSeasons
+            fieldId={(selectedPolygon as FieldPolygon | null)?.fieldId || null}
+            fieldName={selectedPolygon?.name}
           />
         </TabsContent>
 
@@ -406,6 +492,21 @@ What would you like to know about your farming operations?`,
                       <span className="block mt-1 text-primary font-medium">Active Field: {selectedPolygon.name}</span>
                     )}
                   </CardDescription>
+                  {hasSeveralFields && (
+                    <div className="flex gap-2 pt-2">
+                      {(Object.keys(CHAT_SCOPE_LABELS) as ChatScope[]).map((scope) => (
+                        <Button
+                          key={scope}
+                          size="sm"
+                          variant={effectiveScope === scope ? "default" : "outline"}
+                          disabled={!selectedPolygon && scope !== "holding"}
+                          onClick={() => setChatScope(scope)}
+                        >
+                          {CHAT_SCOPE_LABELS[scope]}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
                 </CardHeader>
 
                 <CardContent className="flex-1 flex flex-col p-0">
@@ -2,11 +2,13 @@
 
 import type React from "react"
 
-import { useState, useRef, useCallback, useEffect } from "react"
+import { useState, useRef, useCallback, useEffect, useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent } from "@/components/ui/card"
 import { BoldIcon as Polygon, Trash2, Save, RotateCcw } from "lucide-react"
+import { googleMapsLoader } from "@/lib/google-maps-loader"
+import SatelliteOverlay from "@/components/satellite-overlay"
 
 interface Point {
   x: number
@@ -25,10 +27,15 @@ interface PolygonData {
 interface InteractiveMapProps {
   onPolygonSelect?: (polygon: PolygonData | null) => void
   selectedPolygon?: string | null
+  fieldId?: string | null // saved field behind the selected polygon, for its satellite scenes
 }
 
-export default function InteractiveMap({ onPolygonSelect, selectedPolygon }: InteractiveMapProps) {
+export default function InteractiveMap({ onPolygonSelect, selectedPolygon, fieldId = null }: InteractiveMapProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
+  const mapRef = useRef<HTMLDivElement>(null)
+  const [map, setMap] = useState<google.maps.Map | null>(null)
+  const [mapView, setMapView] = useState(0) // bumped when the map settles, so canvas points are re-projected
+  const [overlayActive, setOverlayActive] = useState(false)
   const [isDrawing, setIsDrawing] = useState(false)
   const [drawingMode, setDrawingMode] = useState<"none" | "polygon">("none")
   const [currentPolygon, setCurrentPolygon] = useState<Point[]>([])
@@ -70,27 +77,9 @@ export default function InteractiveMap({ onPolygonSelect, selectedPolygon }: Int
     const ctx = canvas.getContext("2d")
     if (!ctx) return
 
-    // Clear canvas
+    // Clear canvas; the Google satellite map underneath shows through
     ctx.clearRect(0, 0, canvas.width, canvas.height)
 
-    // Draw satellite imagery background (simulated with gradient)
-    const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height)
-    gradient.addColorStop(0, "#4ade80")
-    gradient.addColorStop(0.3, "#22c55e")
-    gradient.addColorStop(0.6, "#16a34a")
-    gradient.addColorStop(1, "#15803d")
-    ctx.fillStyle = gradient
-    ctx.fillRect(0, 0, canvas.width, canvas.height)
-
-    // Add some texture patterns to simulate satellite imagery
-    ctx.fillStyle = "rgba(0, 0, 0, 0.1)"
-    for (let i = 0; i < 20; i++) {
-      const x = Math.random() * canvas.width
-      const y = Math.random() * canvas.height
-      const size = Math.random() * 30 + 10
-      ctx.fillRect(x, y, size, size)
-    }
-
     // Draw existing polygons
     polygons.forEach((polygon) => {
       if (polygon.points.length < 3) return
@@ -118,7 +107,8 @@ export default function InteractiveMap({ onPolygonSelect, selectedPolygon }: Int
       }
 
       ctx.lineWidth = isSelected ? 3 : 2
-      ctx.fill()
+      // Leave the satellite layer untinted
+      if (!(isSelected && overlayActive)) ctx.fill()
       ctx.stroke()
 
       // Draw polygon label
@@ -159,12 +149,80 @@ export default function InteractiveMap({ onPolygonSelect, selectedPolygon }: Int
         ctx.fill()
       })
     }
-  }, [polygons, currentPolygon, selectedPolygon])
+  }, [polygons, currentPolygon, selectedPolygon, overlayActive])
 
   useEffect(() => {
     drawMap()
   }, [drawMap])
 
+  // Satellite base map under the canvas. It can't be panned or zoomed, so the canvas
+  // polygons stay over the ground they were drawn on.
+  useEffect(() => {
+    let cancelled = false
+
+    const loadMap = async () => {
+      try {
+        await googleMapsLoader.load({ libraries: ["geometry"] })
+        if (cancelled || !mapRef.current || !window.google) return
+
+        const mapInstance = new window.google.maps.Map(mapRef.current, {
+          center: { lat: 40.7128, lng: -74.006 }, // Default to NYC, will be updated with user location
+          zoom: 15,
+          mapTypeId: window.google.maps.MapTypeId.SATELLITE,
+          disableDefaultUI: true,
+          gestureHandling: "none",
+          keyboardShortcuts: false,
+        })
+        mapInstance.addListener("idle", () => setMapView((view) => view + 1))
+        setMap(mapInstance)
+
+        if (navigator.geolocation) {
+          navigator.geolocation.getCurrentPosition(
+            (position) => {
+              mapInstance.setCenter({ lat: position.coords.latitude, lng: position.coords.longitude })
+              mapInstance.setZoom(16)
+            },
+            () => {
+              console.log("Geolocation failed, using default location")
+            }
+          )
+        }
+      } catch (error) {
+        console.error("Failed to load Google Maps:", error)
+      }
+    }
+
+    loadMap()
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // Selected polygon in map coordinates, for the satellite overlay
+  const selectedBoundary = useMemo(() => {
+    const polygon = polygons.find((item) => item.id === selectedPolygon)
+    const projection = map?.getProjection()
+    const bounds = map?.getBounds()
+    const canvas = canvasRef.current
+    if (!map || !polygon || !projection || !bounds || !canvas || !window.google) return []
+
+    const northEast = projection.fromLatLngToPoint(bounds.getNorthEast())
+    const southWest = projection.fromLatLngToPoint(bounds.getSouthWest())
+    if (!northEast || !southWest) return []
+
+    // Canvas units to screen pixels, then screen pixels to world coordinates at the current zoom
+    const pixels = canvas.clientWidth / canvas.width
+    const scale = Math.pow(2, map.getZoom() ?? 0)
+    return polygon.points.flatMap((point) => {
+      const latLng = projection.fromPointToLatLng(
+        new window.google.maps.Point(southWest.x + (point.x * pixels) / scale, northEast.y + (point.y * pixels) / scale)
+      )
+      return latLng ? [{ lat: latLng.lat(), lng: latLng.lng() }] : []
+    })
+    // mapView changes whenever the map's bounds do
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [map, mapView, polygons, selectedPolygon])
+
   const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current
     if (!canvas) return
@@ -300,19 +358,27 @@ export default function InteractiveMap({ onPolygonSelect, selectedPolygon }: Int
         </div>
       </div>
 
-      {/* Map Canvas */}
+      {/* Map Canvas over the satellite base map */}
       <Card>
         <CardContent className="p-0">
-          <canvas
-            ref={canvasRef}
-            width={600}
-            height={400}
-            className="w-full h-auto border rounded-lg cursor-crosshair"
-            onClick={handleCanvasClick}
-          />
+          <div className="relative">
+            <div ref={mapRef} className="absolute inset-0 rounded-lg bg-muted" />
+            <canvas
+              ref={canvasRef}
+              width={600}
+              height={400}
+              className="relative w-full h-auto border rounded-lg cursor-crosshair"
+              onClick={handleCanvasClick}
+            />
+          </div>
         </CardContent>
       </Card>
 
+      {/* Satellite imagery over the selected field */}
+      {selectedPolygon && (
+        <SatelliteOverlay map={map} fieldId={fieldId} boundary={selectedBoundary} onActiveChange={setOverlayActive} />
+      )}
+
       {/* Drawing Instructions */}
       {drawingMode === "polygon" && (
         <div className="text-sm text-muted-foreground bg-muted p-3 rounded-lg">
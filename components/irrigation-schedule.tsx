@@ -0,0 +1,100 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Droplets, AlertCircle } from "lucide-react"
+import { useIrrigationPlan } from "@/hooks/use-irrigation-plan"
+
+interface IrrigationScheduleProps {
+  fieldId: string | null
+  fieldName?: string
+}
+
+function formatDay(value: string) {
+  return new Date(value).toLocaleDateString("en-IN", { weekday: "short", day: "numeric", month: "short" })
+}
+
+// Seven-day irrigation schedule from the FAO-56 water balance of the selected field
+export default function IrrigationSchedule({ fieldId, fieldName }: IrrigationScheduleProps) {
+  const { plan, skipped, loading, error } = useIrrigationPlan(fieldId)
+
+  if (!fieldId) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Droplets className="w-5 h-5" />
+          Irrigation Schedule
+        </CardTitle>
+        <CardDescription>
+          Next 7 days{fieldName ? ` for ${fieldName}` : ""} - crop water use from the forecast, rain and soil moisture
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading && !plan ? (
+          <p className="text-sm text-muted-foreground">Calculating irrigation needs...</p>
+        ) : !plan ? (
+          skipped && <p className="text-sm text-muted-foreground">No schedule: {skipped.reason}</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{plan.cropName} • {plan.stage}</Badge>
+              <Badge variant="secondary">
+                {plan.irrigationMethod.toLowerCase()} • {Math.round(plan.efficiency * 100)}% efficient
+              </Badge>
+              <Badge variant="secondary">
+                {plan.initialDepletion} mm below field capacity ({plan.soilMoistureSource})
+              </Badge>
+              {plan.totalVolume !== null && <Badge>{plan.totalVolume} m³ this week</Badge>}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Day</TableHead>
+                  <TableHead className="text-right">Crop ET (mm)</TableHead>
+                  <TableHead className="text-right">Rain (mm)</TableHead>
+                  <TableHead className="text-right">Deficit (mm)</TableHead>
+                  <TableHead className="text-right">Irrigate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plan.days.map((day) => (
+                  <TableRow key={day.date} className={day.estimated ? "text-muted-foreground" : undefined}>
+                    <TableCell>{formatDay(day.date)}{day.estimated ? " *" : ""}</TableCell>
+                    <TableCell className="text-right">{day.etc}</TableCell>
+                    <TableCell className="text-right">{day.rainfall}</TableCell>
+                    <TableCell className="text-right">{day.depletion}</TableCell>
+                    <TableCell className="text-right font-medium">
+                      {day.irrigate
+                        ? `${day.grossDepth} mm${day.volume !== null ? ` • ${day.volume} m³` : ""}`
+                        : "--"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {plan.notes.length > 0 && (
+              <ul className="text-xs text-muted-foreground space-y-1">
+                {plan.notes.map((note) => (
+                  <li key={note}>• {note}</li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
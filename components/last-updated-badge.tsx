@@ -0,0 +1,41 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Clock, CloudOff } from "lucide-react"
+import type { DataFreshness } from "@/lib/offline-store"
+
+function describeAge(savedAt: Date, now: number) {
+  const minutes = Math.max(0, Math.round((now - savedAt.getTime()) / 60000))
+  if (minutes < 1) return "just now"
+  if (minutes < 60) return `${minutes} min ago`
+  const hours = Math.round(minutes / 60)
+  if (hours < 24) return `${hours} h ago`
+  const days = Math.round(hours / 24)
+  return `${days} ${days === 1 ? "day" : "days"} ago`
+}
+
+// When the data on a card was fetched; amber when it is a saved copy shown because the network failed
+export default function LastUpdatedBadge({ freshness }: { freshness: DataFreshness | null | undefined }) {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  if (!freshness) return null
+
+  const exact = freshness.savedAt.toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" })
+  return freshness.stale ? (
+    <Badge variant="outline" className="gap-1 border-amber-300 bg-amber-50 text-amber-800" title={`Saved ${exact}`}>
+      <CloudOff className="w-3 h-3" />
+      Offline copy · {describeAge(freshness.savedAt, now)}
+    </Badge>
+  ) : (
+    <Badge variant="outline" className="gap-1 text-muted-foreground" title={exact}>
+      <Clock className="w-3 h-3" />
+      Updated {describeAge(freshness.savedAt, now)}
+    </Badge>
+  )
+}
@@ -0,0 +1,330 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Download, Grid3X3 } from "lucide-react"
+import { useManagementZones } from "@/hooks/use-management-zones"
+import {
+  DEFAULT_STRATEGY,
+  RATE_UNITS,
+  ZONE_COUNTS,
+  prescriptionRates,
+  type PrescriptionProduct,
+  type RateStrategy,
+  type RateUnit,
+} from "@/lib/management-zones"
+
+interface ManagementZonesProps {
+  map: google.maps.Map | null
+  fieldId: string | null
+  onActiveChange?: (active: boolean) => void
+}
+
+// Weakest to most vigorous, matching the NDVI overlay palette
+const ZONE_PALETTE = ["#a50026", "#f46d43", "#fee08b", "#a6d96a", "#1a9850"]
+
+const DEFAULT_BASE_RATE: Record<PrescriptionProduct, number> = {
+  fertiliser: 100,
+  seed: 25,
+}
+
+function zoneColor(zone: number, zoneCount: number) {
+  return ZONE_PALETTE[Math.round(((zone - 1) * (ZONE_PALETTE.length - 1)) / Math.max(1, zoneCount - 1))]
+}
+
+function formatScene(date: string) {
+  return new Date(date).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric" })
+}
+
+// Management zones drawn over the selected field, with a variable-rate prescription to export
+export default function ManagementZones({ map, fieldId, onActiveChange }: ManagementZonesProps) {
+  const [zoneCount, setZoneCount] = useState<number | null>(null)
+  const { zoneMap, loading, error } = useManagementZones(fieldId, zoneCount)
+
+  const [product, setProduct] = useState<PrescriptionProduct>("fertiliser")
+  const [productName, setProductName] = useState("Urea")
+  const [unit, setUnit] = useState<RateUnit>("kg/ha")
+  const [baseRate, setBaseRate] = useState(String(DEFAULT_BASE_RATE.fertiliser))
+  const [strategy, setStrategy] = useState<RateStrategy>(DEFAULT_STRATEGY.fertiliser)
+  const [spread, setSpread] = useState(20)
+  const [rateOverrides, setRateOverrides] = useState<Record<number, string>>({})
+  const [exporting, setExporting] = useState<"geojson" | "shapefile" | null>(null)
+  const [exportError, setExportError] = useState<string | null>(null)
+
+  const zones = zoneMap?.zones || []
+  const suggestedRates = useMemo(
+    () =>
+      zoneMap && parseFloat(baseRate) > 0
+        ? prescriptionRates(zoneMap.zones, zoneMap.zoneCount, { baseRate: parseFloat(baseRate), strategy, spread })
+        : (zoneMap?.zones || []).map(() => 0),
+    [zoneMap, baseRate, strategy, spread]
+  )
+  const rates = zones.map((zone, index) => {
+    const override = rateOverrides[zone.zone]
+    return override !== undefined && override !== "" ? Math.max(0, parseFloat(override) || 0) : suggestedRates[index]
+  })
+  const totalAmount = zones.reduce((sum, zone, index) => sum + zone.areaHa * rates[index], 0)
+
+  // Start each field with zones off
+  useEffect(() => {
+    setZoneCount(null)
+  }, [fieldId])
+
+  useEffect(() => {
+    setRateOverrides({})
+  }, [zoneMap])
+
+  useEffect(() => {
+    onActiveChange?.(zones.length > 0)
+  }, [zones.length, onActiveChange])
+
+  useEffect(() => {
+    if (!map || !zoneMap || !window.google) return
+
+    const polygons = zoneMap.zones.flatMap((zone) =>
+      zone.geometry.coordinates.map(
+        (polygon) =>
+          new window.google.maps.Polygon({
+            map,
+            paths: polygon.map((ring) => ring.map(([lng, lat]) => ({ lat, lng }))),
+            strokeColor: "#ffffff",
+            strokeOpacity: 0.6,
+            strokeWeight: 1,
+            fillColor: zoneColor(zone.zone, zoneMap.zoneCount),
+            fillOpacity: 0.65,
+            clickable: false,
+          })
+      )
+    )
+
+    return () => polygons.forEach((polygon) => polygon.setMap(null))
+  }, [map, zoneMap])
+
+  const changeProduct = (value: PrescriptionProduct) => {
+    setProduct(value)
+    setProductName(value === "seed" ? "Seed" : "Urea")
+    setBaseRate(String(DEFAULT_BASE_RATE[value]))
+    setStrategy(DEFAULT_STRATEGY[value])
+    setRateOverrides({})
+  }
+
+  const exportPrescription = async (format: "geojson" | "shapefile") => {
+    if (!zoneMap || !fieldId) return
+    setExporting(format)
+    setExportError(null)
+
+    try {
+      // One rate per zone number, lowest zone first, exactly as shown
+      const byZone = Array.from({ length: zoneMap.zoneCount }, (_, index) => {
+        const position = zones.findIndex((zone) => zone.zone === index + 1)
+        return position === -1 ? 0 : rates[position]
+      })
+      const params = new URLSearchParams({
+        fieldId,
+        zones: String(zoneMap.zoneCount),
+        scene: String(zoneMap.scene.timestamp),
+        product,
+        productName,
+        unit,
+        strategy,
+        spread: String(spread),
+        rates: byZone.join(","),
+        format,
+      })
+      const response = await fetch(`/api/fields/zones/prescription?${params}`)
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || "Failed to export prescription")
+      }
+
+      const fileName =
+        response.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ||
+        `prescription.${format === "shapefile" ? "zip" : "geojson"}`
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement("a")
+      link.href = url
+      link.download = fileName
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : "Failed to export prescription")
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  if (!fieldId) return null
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Grid3X3 className="w-4 h-4 text-muted-foreground" />
+          <span className="text-sm font-medium mr-2">Management zones</span>
+          <Button variant={zoneCount === null ? "default" : "outline"} size="sm" onClick={() => setZoneCount(null)}>
+            Off
+          </Button>
+          {ZONE_COUNTS.map((count) => (
+            <Button
+              key={count}
+              variant={zoneCount === count ? "default" : "outline"}
+              size="sm"
+              onClick={() => setZoneCount(count)}
+            >
+              {count} zones
+            </Button>
+          ))}
+        </div>
+
+        {zoneCount === null ? (
+          <p className="text-sm text-muted-foreground">
+            Split the field into zones by crop vigour to vary fertiliser or seed rates with a VRT spreader.
+          </p>
+        ) : loading ? (
+          <p className="text-sm text-muted-foreground">Reading the satellite NDVI raster...</p>
+        ) : error ? (
+          <p className="text-sm text-muted-foreground">{error}</p>
+        ) : zoneMap && zones.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{zoneMap.warnings[0] || "No zones could be found in this field."}</p>
+        ) : zoneMap ? (
+          <>
+            <p className="text-xs text-muted-foreground">
+              From the {zoneMap.scene.satellite} scene of {formatScene(zoneMap.scene.date)} • {zoneMap.pixelSizeM} m pixels •{" "}
+              {zoneMap.scene.cloudCover.toFixed(0)}% cloud
+            </p>
+            {zoneMap.warnings.map((warning) => (
+              <p key={warning} className="text-xs text-orange-600">
+                {warning}
+              </p>
+            ))}
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <div className="space-y-2">
+                <Label>Product</Label>
+                <Select value={product} onValueChange={(value) => changeProduct(value as PrescriptionProduct)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="fertiliser">Fertiliser</SelectItem>
+                    <SelectItem value="seed">Seed</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="zone-product-name">Name</Label>
+                <Input id="zone-product-name" value={productName} maxLength={40} onChange={(e) => setProductName(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="zone-base-rate">Average rate</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="zone-base-rate"
+                    type="number"
+                    min={0}
+                    value={baseRate}
+                    onChange={(e) => {
+                      setBaseRate(e.target.value)
+                      setRateOverrides({})
+                    }}
+                  />
+                  <Select value={unit} onValueChange={(value) => setUnit(value as RateUnit)}>
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RATE_UNITS.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {option}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Strategy</Label>
+                <Select
+                  value={strategy}
+                  onValueChange={(value) => {
+                    setStrategy(value as RateStrategy)
+                    setRateOverrides({})
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="compensate">More on weak zones</SelectItem>
+                    <SelectItem value="productivity">More on strong zones</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2 max-w-sm">
+              <Label>Variation between zones: ±{spread}%</Label>
+              <Slider
+                value={[spread]}
+                min={0}
+                max={50}
+                step={5}
+                onValueChange={([value]) => {
+                  setSpread(value)
+                  setRateOverrides({})
+                }}
+              />
+            </div>
+
+            <div className="space-y-2">
+              {zones.map((zone, index) => (
+                <div key={zone.zone} className="flex flex-wrap items-center gap-3 text-sm">
+                  <span
+                    className="w-4 h-4 rounded-sm border"
+                    style={{ backgroundColor: zoneColor(zone.zone, zoneMap.zoneCount) }}
+                  />
+                  <span className="w-28 font-medium">
+                    {zone.zone}. {zone.label}
+                  </span>
+                  <span className="w-28 text-muted-foreground">NDVI {zone.meanNDVI.toFixed(2)}</span>
+                  <span className="w-36 text-muted-foreground">
+                    {zone.areaHa.toFixed(2)} ha ({zone.share.toFixed(0)}%)
+                  </span>
+                  <Input
+                    type="number"
+                    min={0}
+                    className="w-24 h-8"
+                    aria-label={`Rate for zone ${zone.zone}`}
+                    value={rateOverrides[zone.zone] ?? String(rates[index])}
+                    onChange={(e) => setRateOverrides((current) => ({ ...current, [zone.zone]: e.target.value }))}
+                  />
+                  <span className="text-muted-foreground">{unit}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 pt-2 border-t">
+              <span className="text-sm text-muted-foreground mr-auto">
+                Total: {totalAmount.toFixed(1)} {unit.split("/")[0]} over {zones.reduce((sum, zone) => sum + zone.areaHa, 0).toFixed(2)} ha
+              </span>
+              <Button variant="outline" size="sm" disabled={exporting !== null} onClick={() => exportPrescription("geojson")}>
+                <Download className="w-4 h-4 mr-1" />
+                {exporting === "geojson" ? "Exporting..." : "GeoJSON"}
+              </Button>
+              <Button variant="outline" size="sm" disabled={exporting !== null} onClick={() => exportPrescription("shapefile")}>
+                <Download className="w-4 h-4 mr-1" />
+                {exporting === "shapefile" ? "Exporting..." : "Shapefile"}
+              </Button>
+            </div>
+            {exportError && <p className="text-sm text-red-600">{exportError}</p>}
+          </>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
@@ -11,6 +11,8 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { AlertCircle, MapPin, Search, RefreshCw, IndianRupee } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import LastUpdatedBadge from "@/components/last-updated-badge"
+import { withOfflineCopy, type DataFreshness } from "@/lib/offline-store"
 
 interface MandiPriceRecord {
   state: string;
@@ -43,16 +45,20 @@ interface MandiPricesResponse {
   error?: string;
 }
 
+// The mandi API answered with an error, so show its message rather than the network one
+class MandiPricesError extends Error {}
+
 interface MandiPricesProps {
   location?: { lat: number; lng: number };
   crop?: string;
-  userId?: string; // Add userId prop to fetch user profile automatically
+  useProfile?: boolean; // Auto-fill crop and location from the logged-in user's profile
 }
 
-export default function MandiPrices({ location, crop, userId }: MandiPricesProps) {
+export default function MandiPrices({ location, crop, useProfile }: MandiPricesProps) {
   const [priceData, setPriceData] = useState<MandiPricesResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [freshness, setFreshness] = useState<DataFreshness | null>(null);
   const [searchCommodity, setSearchCommodity] = useState(crop || "");
   const [selectedState, setSelectedState] = useState<string>("");
   const [selectedDistrict, setSelectedDistrict] = useState<string>("");
@@ -70,30 +76,33 @@ export default function MandiPrices({ location, crop, userId }: MandiPricesProps
   ];
 
   // Fetch user profile data
-  const fetchUserProfile = async (userIdToFetch: string) => {
+  const fetchUserProfile = async () => {
     setLoadingProfile(true);
     try {
-      const response = await fetch(`/api/user-profile?userId=${userIdToFetch}`);
-      const data = await response.json();
-      
-      if (data.success && data.user) {
-        setUserProfile(data.user);
-        
-        // Auto-populate crop name from farmer profile
-        if (data.user.farmerProfile?.cropName && !autoCrop) {
-          setAutoCrop(data.user.farmerProfile.cropName);
-          setSearchCommodity(data.user.farmerProfile.cropName);
-        }
-        
-        // Auto-populate location coordinates
-        if (data.user.coordinates && !autoLocation) {
-          setAutoLocation(data.user.coordinates);
+      // Offline, the profile saved on the last visit still fills in crop and location
+      const { data: user } = await withOfflineCopy('user-profile', async () => {
+        const response = await fetch('/api/user-profile');
+        const data = await response.json();
+        if (!data.success || !data.user) {
+          throw new Error(data.error || 'Failed to fetch user profile');
         }
-        
         return data.user;
-      } else {
-        console.warn('Failed to fetch user profile:', data.error);
+      });
+
+      setUserProfile(user);
+
+      // Auto-populate crop name from farmer profile
+      if (user.farmerProfile?.cropName && !autoCrop) {
+        setAutoCrop(user.farmerProfile.cropName);
+        setSearchCommodity(user.farmerProfile.cropName);
       }
+
+      // Auto-populate location coordinates
+      if (user.coordinates && !autoLocation) {
+        setAutoLocation(user.coordinates);
+      }
+
+      return user;
     } catch (err) {
       console.error('Error fetching user profile:', err);
     } finally {
@@ -104,8 +113,8 @@ export default function MandiPrices({ location, crop, userId }: MandiPricesProps
 
   // Auto-fetch user profile and trigger price search
   useEffect(() => {
-    if (userId) {
-      fetchUserProfile(userId).then((profile) => {
+    if (useProfile) {
+      fetchUserProfile().then((profile) => {
         if (profile && profile.farmerProfile?.cropName) {
           // Auto-trigger price search with user's crop and location
           setTimeout(() => {
@@ -114,7 +123,7 @@ export default function MandiPrices({ location, crop, userId }: MandiPricesProps
         }
       });
     }
-  }, [userId]);
+  }, [useProfile]);
 
   // Update auto states when props change
   useEffect(() => {
@@ -154,16 +163,19 @@ export default function MandiPrices({ location, crop, userId }: MandiPricesProps
         params.append('district', selectedDistrict);
       }
 
-      const response = await fetch(`/api/mandi-prices?${params.toString()}`);
-      const data: MandiPricesResponse = await response.json();
+      const { data, ...pricesFreshness } = await withOfflineCopy(`mandi-prices:${params.toString()}`, async () => {
+        const response = await fetch(`/api/mandi-prices?${params.toString()}`);
+        const data: MandiPricesResponse = await response.json();
+        if (!data.success) {
+          throw new MandiPricesError(data.error || 'Failed to fetch mandi prices');
+        }
+        return data;
+      });
 
-      if (data.success) {
-        setPriceData(data);
-      } else {
-        setError(data.error || 'Failed to fetch mandi prices');
-      }
+      setPriceData(data);
+      setFreshness(pricesFreshness);
     } catch (err) {
-      setError('Network error. Please check your connection and try again.');
+      setError(err instanceof MandiPricesError ? err.message : 'Network error. Please check your connection and try again.');
     } finally {
       setLoading(false);
     }
@@ -178,9 +190,9 @@ export default function MandiPrices({ location, crop, userId }: MandiPricesProps
     fetchMandiPrices(commodity);
   };
 
-  // Auto-fetch if crop is provided (for backward compatibility when used without userId)
+  // Auto-fetch if crop is provided (for backward compatibility when used without a profile)
   useEffect(() => {
-    if (crop && !userId) {
+    if (crop && !useProfile) {
       fetchMandiPrices(crop);
     }
   }, [crop, location]);
@@ -213,7 +225,7 @@ export default function MandiPrices({ location, crop, userId }: MandiPricesProps
           </CardTitle>
           <CardDescription>
             Get current market prices for agricultural commodities from mandis across India. 
-            {userId ? "Your crop is auto-filled, but you can search for any other crop too!" : "Search for any Indian crop or commodity."}
+            {useProfile ? "Your crop is auto-filled, but you can search for any other crop too!" : "Search for any Indian crop or commodity."}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -236,18 +248,18 @@ export default function MandiPrices({ location, crop, userId }: MandiPricesProps
           </div>
 
           {/* Search Form */}
-          <div className={`grid grid-cols-1 ${userId ? 'md:grid-cols-2' : 'md:grid-cols-4'} gap-4 items-end`}>
+          <div className={`grid grid-cols-1 ${useProfile ? 'md:grid-cols-2' : 'md:grid-cols-4'} gap-4 items-end`}>
             <div>
               <Label htmlFor="commodity">Commodity</Label>
               <Input
                 id="commodity"
                 value={searchCommodity}
                 onChange={(e) => setSearchCommodity(e.target.value)}
-                placeholder={userId ? "Auto-filled from your profile - edit to search other crops" : "Enter commodity name..."}
+                placeholder={useProfile ? "Auto-filled from your profile - edit to search other crops" : "Enter commodity name..."}
                 onKeyPress={(e) => e.key === 'Enter' && handleSearch()}
                 disabled={loadingProfile}
               />
-              {userId && userProfile?.farmerProfile?.cropName && (
+              {useProfile && userProfile?.farmerProfile?.cropName && (
                 <p className="text-xs text-muted-foreground mt-1">
                   From your profile: {userProfile.farmerProfile.cropName} 
                   <span className="text-blue-600">• You can edit this to search any other crop</span>
@@ -255,8 +267,8 @@ export default function MandiPrices({ location, crop, userId }: MandiPricesProps
               )}
             </div>
             
-            {/* Only show manual location inputs if no userId provided */}
-            {!userId && (
+            {/* Only show manual location inputs if not using the profile */}
+            {!useProfile && (
               <>
                 <div>
                   <Label htmlFor="state">State (Optional)</Label>
@@ -294,7 +306,7 @@ export default function MandiPrices({ location, crop, userId }: MandiPricesProps
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <MapPin className="w-4 h-4" />
               <span>Showing prices for: {getLocationDisplay()}</span>
-              {userId && userProfile?.name && (
+              {useProfile && userProfile?.name && (
                 <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded">
                   Auto-detected from your profile
                 </span>
@@ -344,7 +356,10 @@ export default function MandiPrices({ location, crop, userId }: MandiPricesProps
           {priceData.data.length > 0 ? (
             <Card>
               <CardHeader>
-                <CardTitle>Market Prices</CardTitle>
+                <CardTitle className="flex flex-wrap items-center justify-between gap-2">
+                  Market Prices
+                  <LastUpdatedBadge freshness={freshness} />
+                </CardTitle>
                 <CardDescription>
                   Current prices from different mandis sorted by latest arrival date
                 </CardDescription>
@@ -1,67 +1,119 @@
 "use client"
 
+import { useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { TrendingUp, TrendingDown, Activity, Calendar, RefreshCw, AlertTriangle } from "lucide-react"
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart } from "recharts"
+import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, ComposedChart, Scatter, ReferenceLine } from "recharts"
 import { useAgromonitoringNDVI } from "@/hooks/use-agromonitoring-data"
+import LastUpdatedBadge from "@/components/last-updated-badge"
 import { Button } from "@/components/ui/button"
+import { VEGETATION_INDICES, VEGETATION_INDEX_KEYS } from "@/lib/vegetation-indices"
+import type { VegetationIndex } from "@/lib/data-providers"
+import type { SmoothingMethod } from "@/lib/ndvi-cleaning"
 
 interface NDVIChartProps {
   selectedField?: string | null
   polygonId?: string | null
 }
 
+// Status badge colours by grade, worst to best
+const STATUS_COLORS = [
+  { color: "bg-red-500", textColor: "text-red-600" },
+  { color: "bg-orange-500", textColor: "text-orange-600" },
+  { color: "bg-yellow-500", textColor: "text-yellow-600" },
+  { color: "bg-green-400", textColor: "text-green-500" },
+  { color: "bg-green-500", textColor: "text-green-600" },
+]
+
+const SMOOTHING_OPTIONS: Array<{ value: SmoothingMethod; label: string }> = [
+  { value: "whittaker", label: "Whittaker" },
+  { value: "savitzky-golay", label: "Savitzky-Golay" },
+  { value: "none", label: "Linear" },
+]
+
+const REJECTION_LABELS = { cloud: "cloudy", coverage: "partial coverage", outlier: "outlier" }
+
+function shortDate(date: string) {
+  return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
 export default function NDVIChart({ selectedField, polygonId }: NDVIChartProps) {
-  // Use real NDVI data from Agromonitoring API
+  const [index, setIndex] = useState<VegetationIndex>("NDVI")
+  const [smoothing, setSmoothing] = useState<SmoothingMethod>("whittaker")
+  const [showRaw, setShowRaw] = useState(true)
+  const indexInfo = VEGETATION_INDICES[index]
+
+  // Stored readings of the selected index (NDVI by default); cloudy scenes are rejected by the
+  // server-side cleaning rather than filtered out, so they can still be shown on the chart
   const { 
     data: ndviData, 
     loading, 
     error, 
     refetch, 
     currentNDVI,
-    ndviStatus 
-  } = useAgromonitoringNDVI(polygonId, 90, { clouds_max: 30 })
+    ndviStatus,
+    smoothedNDVI,
+    cleaned,
+    availableIndices,
+    boundaryChanges,
+    freshness
+  } = useAgromonitoringNDVI(polygonId, 90, { index, smoothing })
+  const daily = cleaned?.daily || []
 
-  // Calculate statistics from real data
-  const stats = ndviData.length > 0 ? {
-    max: Math.max(...ndviData.map(d => d.ndviMax)),
-    mean: ndviData.reduce((acc, d) => acc + d.ndviMean, 0) / ndviData.length,
-    min: Math.min(...ndviData.map(d => d.ndviMin)),
-    latest: currentNDVI?.ndviMean || 0
+  // NDVI is always offered; other indices once readings have been stored for the field
+  const selectableIndices = VEGETATION_INDEX_KEYS.filter(
+    (key) => key === "NDVI" || key === index || availableIndices.includes(key)
+  )
+  const scaleGrades = [...indexInfo.thresholds].reverse()
+
+  // Statistics from the smoothed daily series; raw scenes only when nothing survived cleaning
+  const series = daily.length > 0 ? daily.map(d => d.value) : ndviData.map(d => d.ndviMean)
+  const stats = series.length > 0 ? {
+    max: Math.max(...series),
+    mean: series.reduce((acc, value) => acc + value, 0) / series.length,
+    min: Math.min(...series),
+    latest: smoothedNDVI?.value ?? currentNDVI?.ndviMean ?? 0
   } : { max: 0, mean: 0, min: 0, latest: 0 }
 
-  // Calculate trend
-  const trend = ndviData.length > 1 ? 
-    (ndviData[ndviData.length - 1].ndviMean > ndviData[ndviData.length - 2].ndviMean ? "up" : "down") :
-    "up"
-  
-  const trendPercentage = ndviData.length > 1 ? 
-    Math.abs(((ndviData[ndviData.length - 1].ndviMean - ndviData[ndviData.length - 2].ndviMean) / ndviData[ndviData.length - 2].ndviMean) * 100).toFixed(1) :
+  // Trend over the last week of the smoothed series, so a single noisy scene doesn't flip it
+  const trendBase = series.length > 1 ? series[Math.max(0, series.length - 8)] : 0
+  const trend = series.length > 1 && series[series.length - 1] < trendBase ? "down" : "up"
+  const trendPercentage = series.length > 1 && trendBase !== 0 ? 
+    Math.abs(((series[series.length - 1] - trendBase) / trendBase) * 100).toFixed(1) :
     "0.0"
 
-  // Format data for chart (convert date format for better display)
-  const chartData = ndviData.map(item => ({
-    date: new Date(item.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-    fullDate: item.date,
-    ndvi: item.ndviMean,
-    satellite: item.satellite,
-    cloudCover: item.cloudCover,
-    dataCoverage: item.dataCoverage
-  }))
-
-  const getNDVIStatusColors = (status: string) => {
-    switch (status) {
-      case "Excellent": return { color: "bg-green-500", textColor: "text-green-600" }
-      case "Good": return { color: "bg-green-400", textColor: "text-green-500" }
-      case "Fair": return { color: "bg-yellow-500", textColor: "text-yellow-600" }
-      case "Poor": return { color: "bg-orange-500", textColor: "text-orange-600" }
-      case "Very Poor": return { color: "bg-red-500", textColor: "text-red-600" }
-      default: return { color: "bg-gray-500", textColor: "text-gray-600" }
-    }
+  // One row per day: the smoothed value plus any raw scenes, kept or rejected, on that day
+  const rows = new Map<string, {
+    date: string
+    fullDate: string
+    smoothed?: number
+    kept?: number
+    rejected?: number
+    scenes: string[]
+  }>()
+  const rowFor = (date: string) => {
+    if (!rows.has(date)) rows.set(date, { date: shortDate(date), fullDate: date, scenes: [] })
+    return rows.get(date)!
   }
+  daily.forEach((point) => {
+    rowFor(point.date).smoothed = point.value
+  })
+  cleaned?.observations.forEach((observation) => {
+    const row = rowFor(observation.date)
+    if (observation.kept) row.kept = observation.value
+    else row.rejected = observation.value
+    row.scenes.push(
+      `${observation.satellite}${observation.reason ? `, rejected: ${REJECTION_LABELS[observation.reason]}` : ""}`
+    )
+  })
+  // Boundary edits get a row of their own so the marker lands on the right day
+  boundaryChanges.forEach((change) => rowFor(change.date))
+  const chartData = [...rows.values()].sort((a, b) => a.fullDate.localeCompare(b.fullDate))
+  const recentScenes = (cleaned?.observations || []).slice(-5)
+  const rejectedCount = cleaned ? cleaned.summary.total - cleaned.summary.kept : 0
 
-  const statusColors = ndviStatus ? getNDVIStatusColors(ndviStatus.status) : { color: "bg-gray-500", textColor: "text-gray-600" }
+  const statusColors = ndviStatus ? STATUS_COLORS[ndviStatus.level] : { color: "bg-gray-500", textColor: "text-gray-600" }
 
   return (
     <div className="space-y-6">
@@ -72,7 +124,7 @@ export default function NDVIChart({ selectedField, polygonId }: NDVIChartProps)
             <div>
               <CardTitle className="flex items-center gap-2">
                 <Activity className="w-5 h-5" />
-                NDVI Analysis
+                {index} Analysis
                 {loading && <RefreshCw className="w-4 h-4 animate-spin" />}
               </CardTitle>
               <CardDescription>
@@ -81,6 +133,7 @@ export default function NDVIChart({ selectedField, polygonId }: NDVIChartProps)
               </CardDescription>
             </div>
             <div className="flex items-center gap-2">
+              <LastUpdatedBadge freshness={freshness} />
               {ndviStatus && (
                 <Badge className={`${statusColors.color} text-white`}>
                   {ndviStatus.status}
@@ -91,6 +144,21 @@ export default function NDVIChart({ selectedField, polygonId }: NDVIChartProps)
               </Button>
             </div>
           </div>
+          {selectableIndices.length > 1 && (
+            <div className="flex flex-wrap gap-2 pt-2">
+              {selectableIndices.map((key) => (
+                <Button
+                  key={key}
+                  variant={key === index ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setIndex(key)}
+                  title={VEGETATION_INDICES[key].name}
+                >
+                  {key}
+                </Button>
+              ))}
+            </div>
+          )}
         </CardHeader>
         <CardContent>
           {error ? (
@@ -108,7 +176,7 @@ export default function NDVIChart({ selectedField, polygonId }: NDVIChartProps)
               <div className="space-y-2">
                 <Activity className="w-8 h-8 text-muted-foreground mx-auto" />
                 <p className="text-sm text-muted-foreground">
-                  Select a field to view NDVI data
+                  Select a field to view {index} data
                 </p>
                 <p className="text-xs text-muted-foreground">
                   NDVI analysis requires a polygon ID from Agromonitoring
@@ -122,7 +190,7 @@ export default function NDVIChart({ selectedField, polygonId }: NDVIChartProps)
                   <div className="text-2xl font-bold text-foreground">
                     {loading ? "..." : stats.latest.toFixed(3)}
                   </div>
-                  <div className="text-sm text-muted-foreground">Current NDVI</div>
+                  <div className="text-sm text-muted-foreground">Current {index}</div>
                   {!loading && ndviData.length > 1 && (
                     <div
                       className={`flex items-center justify-center gap-1 text-xs mt-1 ${
@@ -158,28 +226,35 @@ export default function NDVIChart({ selectedField, polygonId }: NDVIChartProps)
                 <div className="mb-6 p-3 bg-muted rounded-lg">
                   <div className="text-sm font-medium">{ndviStatus.description}</div>
                   <div className="text-xs text-muted-foreground mt-1">
-                    Based on latest NDVI reading of {currentNDVI?.ndviMean.toFixed(3)}
+                    Based on the latest clear {index} scene ({currentNDVI?.ndviMean.toFixed(3)} on {currentNDVI?.date})
+                    {smoothedNDVI && `, smoothed ${smoothedNDVI.value.toFixed(3)}`}. {indexInfo.name} measures {indexInfo.measures}.
                   </div>
                 </div>
               )}
             </>
           )}
 
-          {/* NDVI Scale */}
+          {/* Index Scale */}
           <div className="mb-6">
-            <div className="text-sm font-medium mb-2">NDVI Health Scale</div>
+            <div className="text-sm font-medium mb-2">{index} Scale</div>
             <div className="flex items-center gap-2 text-xs">
-              <div className="flex-1 h-4 bg-gradient-to-r from-chart-4 via-chart-2 to-chart-3 rounded-full"></div>
+              <div
+                className="flex-1 h-4 rounded-full"
+                style={{ background: `linear-gradient(to right, ${scaleGrades.map((grade) => grade.color).join(", ")})` }}
+              ></div>
               <div className="flex justify-between w-full text-muted-foreground">
-                <span>0.0</span>
-                <span>0.5</span>
-                <span>1.0</span>
+                <span>{indexInfo.range[0].toFixed(1)}</span>
+                <span>{((indexInfo.range[0] + indexInfo.range[1]) / 2).toFixed(1)}</span>
+                <span>{indexInfo.range[1].toFixed(1)}</span>
               </div>
             </div>
             <div className="flex justify-between text-xs mt-1">
-              <span className="text-chart-4">Poor</span>
-              <span className="text-chart-2">Healthy</span>
-              <span className="text-chart-3">Excellent</span>
+              {scaleGrades.map((grade) => (
+                <span key={grade.status} style={{ color: grade.color }}>
+                  {grade.status}
+                  {Number.isFinite(grade.min) && ` ≥ ${grade.min}`}
+                </span>
+              ))}
             </div>
           </div>
         </CardContent>
@@ -190,12 +265,27 @@ export default function NDVIChart({ selectedField, polygonId }: NDVIChartProps)
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Calendar className="w-5 h-5" />
-            Historical NDVI Trends
+            Historical {index} Trends
           </CardTitle>
           <CardDescription>
-            Vegetation health over time from Landsat and Sentinel satellite data
-            {chartData.length > 0 && ` (${chartData.length} data points)`}
+            {indexInfo.name} over time from Landsat and Sentinel satellite data, cleaned and smoothed daily
+            {cleaned && cleaned.summary.total > 0 && ` (${cleaned.summary.kept} of ${cleaned.summary.total} scenes used)`}
           </CardDescription>
+          <div className="flex flex-wrap gap-2 pt-2">
+            {SMOOTHING_OPTIONS.map((option) => (
+              <Button
+                key={option.value}
+                variant={smoothing === option.value ? "default" : "outline"}
+                size="sm"
+                onClick={() => setSmoothing(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+            <Button variant={showRaw ? "default" : "outline"} size="sm" onClick={() => setShowRaw(!showRaw)}>
+              Raw scenes
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           {!polygonId ? (
@@ -211,7 +301,7 @@ export default function NDVIChart({ selectedField, polygonId }: NDVIChartProps)
             <div className="flex items-center justify-center h-64">
               <div className="text-center space-y-2">
                 <RefreshCw className="w-8 h-8 animate-spin text-muted-foreground mx-auto" />
-                <p className="text-sm text-muted-foreground">Loading NDVI history...</p>
+                <p className="text-sm text-muted-foreground">Loading {index} history...</p>
               </div>
             </div>
           ) : chartData.length === 0 ? (
@@ -219,7 +309,7 @@ export default function NDVIChart({ selectedField, polygonId }: NDVIChartProps)
               <div className="space-y-2">
                 <AlertTriangle className="w-8 h-8 text-orange-500 mx-auto" />
                 <p className="text-sm text-muted-foreground">
-                  No NDVI data available for this polygon
+                  No {index} data available for this polygon
                 </p>
                 <p className="text-xs text-muted-foreground">
                   Try adjusting the date range or check polygon ID
@@ -230,7 +320,7 @@ export default function NDVIChart({ selectedField, polygonId }: NDVIChartProps)
             <>
               <div className="h-64 w-full">
                 <ResponsiveContainer width="100%" height="100%">
-                  <AreaChart data={chartData}>
+                  <ComposedChart data={chartData}>
                     <defs>
                       <linearGradient id="ndviGradient" x1="0" y1="0" x2="0" y2="1">
                         <stop offset="5%" stopColor="#10b981" stopOpacity={0.3} />
@@ -247,26 +337,64 @@ export default function NDVIChart({ selectedField, polygonId }: NDVIChartProps)
                         borderRadius: "8px",
                         fontSize: "12px",
                       }}
-                      formatter={(value: number) => [value.toFixed(3), "NDVI"]}
+                      formatter={(value: number, name: string) => [value.toFixed(3), name]}
                       labelFormatter={(label, payload) => {
                         const data = payload?.[0]?.payload
-                        return `${data?.fullDate} (${data?.satellite})`
+                        return data?.scenes.length ? `${data.fullDate} (${data.scenes.join("; ")})` : data?.fullDate
                       }}
                     />
-                    <Area type="monotone" dataKey="ndvi" stroke="#10b981" strokeWidth={2} fill="url(#ndviGradient)" />
-                  </AreaChart>
+                    <Area
+                      type="monotone"
+                      dataKey="smoothed"
+                      name={`${index} (smoothed)`}
+                      stroke="#10b981"
+                      strokeWidth={2}
+                      fill="url(#ndviGradient)"
+                      dot={false}
+                      connectNulls
+                    />
+                    {showRaw && <Scatter dataKey="kept" name={`${index} (scene)`} fill="#047857" />}
+                    {showRaw && <Scatter dataKey="rejected" name={`${index} (rejected)`} fill="#9ca3af" shape="cross" />}
+                    {boundaryChanges.map((change) => (
+                      <ReferenceLine
+                        key={change.version}
+                        x={shortDate(change.date)}
+                        stroke="#6366f1"
+                        strokeDasharray="4 4"
+                        label={{ value: "Boundary changed", position: "insideTopLeft", fontSize: 10, fill: "#6366f1" }}
+                      />
+                    ))}
+                  </ComposedChart>
                 </ResponsiveContainer>
               </div>
 
+              {cleaned && rejectedCount > 0 && (
+                <p className="mt-2 text-xs text-muted-foreground">
+                  {rejectedCount} of {cleaned.summary.total} scenes left out:{" "}
+                  {(Object.keys(REJECTION_LABELS) as Array<keyof typeof REJECTION_LABELS>)
+                    .filter((reason) => cleaned.summary.rejected[reason] > 0)
+                    .map((reason) => `${cleaned.summary.rejected[reason]} ${REJECTION_LABELS[reason]}`)
+                    .join(", ")}
+                </p>
+              )}
+
+              {boundaryChanges.length > 0 && (
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Field boundary changed on {boundaryChanges.map((change) => shortDate(change.date)).join(", ")};
+                  earlier scenes were measured over the previous boundary.
+                </p>
+              )}
+
               {/* Recent Satellite Data Points */}
               <div className="mt-4 space-y-2">
                 <div className="text-sm font-medium">Recent Acquisitions</div>
                 <div className="flex flex-wrap gap-2">
-                  {chartData.slice(-5).map((point, index) => (
-                    <Badge key={index} variant="outline" className="text-xs">
-                      {point.date} - {point.satellite} 
+                  {recentScenes.map((scene, index) => (
+                    <Badge key={index} variant="outline" className={`text-xs ${scene.kept ? "" : "opacity-60"}`}>
+                      {shortDate(scene.date)} - {scene.satellite} 
                       <span className="ml-1 text-muted-foreground">
-                        ({point.cloudCover}% cloud, {point.dataCoverage}% coverage)
+                        ({scene.cloudCover}% cloud, {scene.dataCoverage}% coverage
+                        {scene.reason && `, ${REJECTION_LABELS[scene.reason]}`})
                       </span>
                     </Badge>
                   ))}
@@ -0,0 +1,30 @@
+"use client"
+
+import { CloudOff, RefreshCw } from "lucide-react"
+import { useOfflineStatus } from "@/hooks/use-offline-status"
+
+// Banner shown while offline or while changes are waiting to be sent
+export default function OfflineStatus() {
+  const { online, queued } = useOfflineStatus()
+
+  if (online && queued.length === 0) return null
+
+  return (
+    <div
+      className={`mb-4 flex flex-wrap items-center gap-2 rounded-lg border px-4 py-2 text-sm ${
+        online ? "border-blue-200 bg-blue-50 text-blue-800" : "border-amber-200 bg-amber-50 text-amber-800"
+      }`}
+    >
+      {online ? <RefreshCw className="w-4 h-4 animate-spin" /> : <CloudOff className="w-4 h-4" />}
+      <span className="font-medium">
+        {online ? "Back online, sending saved changes" : "You are offline. Showing the last saved data."}
+      </span>
+      {queued.length > 0 && (
+        <span>
+          {queued.length} {queued.length === 1 ? "change" : "changes"} waiting to send:{" "}
+          {queued.map((item) => item.label).join(", ")}
+        </span>
+      )}
+    </div>
+  )
+}
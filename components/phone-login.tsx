@@ -0,0 +1,169 @@
+"use client"
+
+import React, { useState } from "react"
+import { AlertCircle, Smartphone, ArrowLeft } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+
+export interface LoggedInUser {
+  id: string
+  name: string | null
+  phone: string | null
+  location: string | null
+}
+
+interface PhoneLoginProps {
+  onLoggedIn: (user: LoggedInUser, isOnboardingComplete: boolean) => void
+  onBack?: () => void
+}
+
+export function PhoneLogin({ onLoggedIn, onBack }: PhoneLoginProps) {
+  const [phone, setPhone] = useState("")
+  const [code, setCode] = useState("")
+  const [step, setStep] = useState<"phone" | "otp">("phone")
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleRequestOtp = async () => {
+    if (!phone.trim()) {
+      setError("Please enter your mobile number")
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/auth/request-otp", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ phone: phone.trim() }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setPhone(data.phone)
+        setStep("otp")
+      } else {
+        setError(data.error || "Failed to send OTP")
+      }
+    } catch {
+      setError("Failed to connect. Please check your internet connection.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleVerifyOtp = async (otp: string = code) => {
+    if (otp.length !== 6) {
+      setError("Please enter the 6-digit OTP")
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/auth/verify-otp", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ phone, code: otp }),
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        onLoggedIn(data.user, data.isOnboardingComplete)
+      } else {
+        setError(data.error || "Failed to verify OTP")
+        setCode("")
+      }
+    } catch {
+      setError("Failed to connect. Please check your internet connection.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-cyan-50 to-amber-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md mx-auto">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Smartphone className="w-5 h-5 text-green-600" />
+            Login with Mobile Number
+          </CardTitle>
+          <CardDescription>
+            {step === "phone"
+              ? "We'll send a one-time code to your mobile number"
+              : `Enter the 6-digit code sent to ${phone}`}
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {step === "phone" ? (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="phone">Mobile Number</Label>
+                <Input
+                  id="phone"
+                  type="tel"
+                  placeholder="Example: 9876543210"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleRequestOtp()}
+                  className="mt-1"
+                />
+              </div>
+              <Button onClick={handleRequestOtp} disabled={isLoading} className="w-full bg-green-600 hover:bg-green-700">
+                {isLoading ? "Sending OTP..." : "Send OTP"}
+              </Button>
+              {onBack && (
+                <Button variant="ghost" onClick={onBack} className="w-full">
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back
+                </Button>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex justify-center">
+                <InputOTP maxLength={6} value={code} onChange={setCode} onComplete={(value: string) => handleVerifyOtp(value)}>
+                  <InputOTPGroup>
+                    {[0, 1, 2, 3, 4, 5].map((index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+              <Button onClick={() => handleVerifyOtp()} disabled={isLoading} className="w-full bg-green-600 hover:bg-green-700">
+                {isLoading ? "Verifying..." : "Verify & Continue"}
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={() => {
+                  setStep("phone")
+                  setCode("")
+                  setError(null)
+                }}
+                className="w-full"
+              >
+                Change mobile number
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -29,7 +29,7 @@ export default function RealTimeDashboard({ selectedField, coordinates }: RealTi
     loading: fieldLoading,
     error: fieldError,
     refetch: refetchField,
-  } = useFarmonautField(selectedField?.id)
+  } = useFarmonautField(selectedField?.id, coordinates)
 
   const {
     data: weatherData,
@@ -38,7 +38,7 @@ export default function RealTimeDashboard({ selectedField, coordinates }: RealTi
     refetch: refetchWeather,
   } = useAgromonitoringWeather(coordinates.lat, coordinates.lng)
 
-  const { data: historicalData, loading: historicalLoading } = useFarmonautHistorical(selectedField?.id)
+  const { data: historicalData, loading: historicalLoading } = useFarmonautHistorical(selectedField?.id, 30, coordinates)
 
   // Add NDVI data from Agromonitoring
   const { 
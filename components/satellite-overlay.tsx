@@ -0,0 +1,179 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Satellite } from "lucide-react"
+import { useSatelliteImagery } from "@/hooks/use-satellite-imagery"
+import type { OverlayLayer } from "@/lib/agromonitoring-api"
+
+interface SatelliteOverlayProps {
+  map: google.maps.Map | null
+  fieldId: string | null
+  boundary: Array<{ lat: number; lng: number }> // field polygon, used to skip tiles outside it
+  onActiveChange?: (active: boolean) => void
+}
+
+const LAYERS: Array<{ value: OverlayLayer; label: string }> = [
+  { value: "ndvi", label: "NDVI" },
+  { value: "evi", label: "EVI" },
+  { value: "truecolor", label: "True colour" },
+]
+
+// Agromonitoring's default vegetation palette, low to high
+const INDEX_LEGEND = ["#a50026", "#f46d43", "#fee08b", "#a6d96a", "#1a9850", "#006837"]
+
+function tileRange(boundary: Array<{ lat: number; lng: number }>, zoom: number) {
+  const scale = Math.pow(2, zoom)
+  const tileX = (lng: number) => Math.floor(((lng + 180) / 360) * scale)
+  const tileY = (lat: number) => {
+    const rad = (lat * Math.PI) / 180
+    return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * scale)
+  }
+  const lats = boundary.map((point) => point.lat)
+  const lngs = boundary.map((point) => point.lng)
+  return {
+    minX: tileX(Math.min(...lngs)),
+    maxX: tileX(Math.max(...lngs)),
+    minY: tileY(Math.max(...lats)),
+    maxY: tileY(Math.min(...lats)),
+  }
+}
+
+function formatScene(date: string) {
+  return new Date(date).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric" })
+}
+
+// NDVI/EVI/true-colour scenes drawn over the selected field. Agromonitoring tiles are already
+// clipped to the field polygon, so the rest of the map keeps the normal satellite base layer.
+export default function SatelliteOverlay({ map, fieldId, boundary, onActiveChange }: SatelliteOverlayProps) {
+  const { scenes, loading, error } = useSatelliteImagery(fieldId)
+  const [layer, setLayer] = useState<OverlayLayer | null>(null)
+  const [sceneId, setSceneId] = useState<string>("")
+  const [opacity, setOpacity] = useState(80)
+  const overlayRef = useRef<google.maps.ImageMapType | null>(null)
+
+  const scene = useMemo(
+    () => scenes.find((item) => String(item.timestamp) === sceneId) || scenes[0] || null,
+    [scenes, sceneId]
+  )
+  const tileTemplate = layer && scene ? scene.tiles[layer] : null
+
+  // Start each field on its latest scene with the overlay off
+  useEffect(() => {
+    setSceneId("")
+    setLayer(null)
+  }, [fieldId])
+
+  useEffect(() => {
+    onActiveChange?.(Boolean(tileTemplate))
+  }, [tileTemplate, onActiveChange])
+
+  useEffect(() => {
+    if (!map || !tileTemplate || boundary.length < 3 || !window.google) return
+
+    const overlay = new window.google.maps.ImageMapType({
+      getTileUrl: (coord, zoom) => {
+        const range = tileRange(boundary, zoom)
+        if (coord.x < range.minX || coord.x > range.maxX || coord.y < range.minY || coord.y > range.maxY) {
+          // Maps skips tiles without a URL; the typings don't allow null
+          return null as unknown as string
+        }
+        return tileTemplate
+          .replace("{z}", String(zoom))
+          .replace("{x}", String(coord.x))
+          .replace("{y}", String(coord.y))
+      },
+      tileSize: new window.google.maps.Size(256, 256),
+      opacity: opacity / 100,
+      name: "Field imagery",
+    })
+
+    map.overlayMapTypes.push(overlay)
+    overlayRef.current = overlay
+
+    return () => {
+      const index = map.overlayMapTypes.getArray().indexOf(overlay)
+      if (index !== -1) map.overlayMapTypes.removeAt(index)
+      overlayRef.current = null
+    }
+    // Opacity is applied below without rebuilding the tiles
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [map, tileTemplate, boundary])
+
+  useEffect(() => {
+    overlayRef.current?.setOpacity(opacity / 100)
+  }, [opacity])
+
+  if (!fieldId) return null
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Satellite className="w-4 h-4 text-muted-foreground" />
+          <span className="text-sm font-medium mr-2">Satellite layer</span>
+          <Button variant={layer === null ? "default" : "outline"} size="sm" onClick={() => setLayer(null)}>
+            Off
+          </Button>
+          {LAYERS.map((option) => (
+            <Button
+              key={option.value}
+              variant={layer === option.value ? "default" : "outline"}
+              size="sm"
+              onClick={() => setLayer(option.value)}
+              disabled={scenes.length === 0}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Searching satellite passes...</p>
+        ) : error ? (
+          <p className="text-sm text-muted-foreground">{error}</p>
+        ) : scenes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No satellite scenes over this field in the last 90 days.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Scene</Label>
+              <Select value={scene ? String(scene.timestamp) : ""} onValueChange={setSceneId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a scene" />
+                </SelectTrigger>
+                <SelectContent>
+                  {scenes.map((item) => (
+                    <SelectItem key={item.timestamp} value={String(item.timestamp)}>
+                      {formatScene(item.date)} • {item.satellite} • {item.cloudCover.toFixed(0)}% cloud
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Opacity: {opacity}%</Label>
+              <Slider value={[opacity]} min={10} max={100} step={5} onValueChange={([value]) => setOpacity(value)} />
+            </div>
+          </div>
+        )}
+
+        {layer && layer !== "truecolor" && scene && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span>Stressed</span>
+            <div
+              className="h-2 flex-1 max-w-48 rounded"
+              style={{ background: `linear-gradient(to right, ${INDEX_LEGEND.join(", ")})` }}
+            />
+            <span>Vigorous</span>
+            {scene.dataCoverage < 100 && <span className="ml-2">{scene.dataCoverage.toFixed(0)}% of field visible</span>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
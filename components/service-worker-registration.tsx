@@ -0,0 +1,35 @@
+"use client"
+
+import { useEffect } from "react"
+import { OUTBOX_EVENT, flushOutbox, hasBackgroundSync } from "@/lib/offline-store"
+
+// Registers public/sw.js and makes sure queued writes go out when the network returns
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    // A service worker caching dev builds gets in the way of hot reload
+    if (process.env.NODE_ENV === "production" && "serviceWorker" in navigator) {
+      navigator.serviceWorker.register("/sw.js").catch((error) => {
+        console.error("[Offline] Service worker registration failed:", error)
+      })
+    }
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === "outbox-flushed") window.dispatchEvent(new Event(OUTBOX_EVENT))
+    }
+    // Without Background Sync the page sends the queue itself
+    const handleOnline = () => {
+      if (!hasBackgroundSync()) flushOutbox()
+    }
+
+    navigator.serviceWorker?.addEventListener("message", handleMessage)
+    window.addEventListener("online", handleOnline)
+    if (navigator.onLine) handleOnline()
+
+    return () => {
+      navigator.serviceWorker?.removeEventListener("message", handleMessage)
+      window.removeEventListener("online", handleOnline)
+    }
+  }, [])
+
+  return null
+}
@@ -1,12 +1,13 @@
 "use client"
 
-import { useEffect, useRef, useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
-import { MapPin, Trash2, Satellite, PentagonIcon as PolygonIcon } from "lucide-react"
+import { AlertTriangle, MapPin, Trash2, Satellite, Wrench, PentagonIcon as PolygonIcon } from "lucide-react"
 import { googleMapsLoader } from "@/lib/google-maps-loader"
+import { checkFieldBoundary, repairFieldBoundary, toPolygonGeoJSON } from "@/lib/field-geometry"
 
 interface FarmField {
   id: string
@@ -44,6 +45,21 @@ export function SimpleFieldCreator({ onFieldsCreated, initialCenter }: SimpleFie
   const [fields, setFields] = useState<FarmField[]>([])
   const [mapType, setMapType] = useState<"satellite" | "hybrid">("satellite")
 
+  // Checked against the fields already drawn, as the server will when the profile is saved
+  const boundaryCheck = useMemo(
+    () =>
+      drawnCoordinates.length
+        ? checkFieldBoundary(
+            drawnCoordinates,
+            fields.map(field => ({
+              name: field.name,
+              points: JSON.parse(field.coordinates).coordinates[0].map((coord: number[]) => ({ lat: coord[1], lng: coord[0] })),
+            }))
+          )
+        : null,
+    [drawnCoordinates, fields]
+  )
+
   // Load Google Maps API
   useEffect(() => {
     if (googleMapsLoader.isGoogleMapsLoaded()) {
@@ -148,37 +164,14 @@ export function SimpleFieldCreator({ onFieldsCreated, initialCenter }: SimpleFie
     }
   }
 
-  const convertToGeoJSON = (coordinates: Array<{ lat: number; lng: number }>): string => {
-    // Close the polygon by adding the first point at the end
-    const closedCoordinates = [...coordinates, coordinates[0]]
-    
-    return JSON.stringify({
-      type: "Polygon",
-      coordinates: [closedCoordinates.map(coord => [coord.lng, coord.lat])]
-    })
-  }
-
-  const calculateArea = (coordinates: Array<{ lat: number; lng: number }>): number => {
-    if (!window.google || coordinates.length < 3) return 0
-
-    const path = coordinates.map(coord => new window.google.maps.LatLng(coord.lat, coord.lng))
-    const polygon = new window.google.maps.Polygon({ paths: path })
-    const area = window.google.maps.geometry.spherical.computeArea(polygon.getPath()) / 10000 // Convert to hectares
-    
-    return Math.round(area * 100) / 100
-  }
-
   const handleCreateField = () => {
-    if (!fieldName.trim() || drawnCoordinates.length < 3) return
-
-    const area = calculateArea(drawnCoordinates)
-    const geoJSON = convertToGeoJSON(drawnCoordinates)
+    if (!fieldName.trim() || !boundaryCheck?.valid) return
 
     const newField: FarmField = {
       id: `field-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       name: fieldName.trim(),
-      coordinates: geoJSON,
-      area
+      coordinates: toPolygonGeoJSON(boundaryCheck.points),
+      area: Math.round(boundaryCheck.areaHa * 100) / 100
     }
 
     setFields(prev => [...prev, newField])
@@ -189,6 +182,13 @@ export function SimpleFieldCreator({ onFieldsCreated, initialCenter }: SimpleFie
     setShowNameDialog(false)
   }
 
+  const repairBoundary = () => {
+    const repair = repairFieldBoundary(drawnCoordinates)
+    setDrawnCoordinates(repair.points)
+    // Show the repaired outline in place of the drawn one
+    polygonRefs.current[polygonRefs.current.length - 1]?.setPath(repair.points)
+  }
+
   const cancelFieldCreation = () => {
     // Remove the last drawn polygon
     const lastPolygon = polygonRefs.current.pop()
@@ -321,7 +321,7 @@ export function SimpleFieldCreator({ onFieldsCreated, initialCenter }: SimpleFie
           <DialogHeader>
             <DialogTitle>Name Your Field</DialogTitle>
             <DialogDescription>
-              Give a name to the field you just drew ({drawnCoordinates.length > 0 ? `${calculateArea(drawnCoordinates)} hectares` : ''})
+              Give a name to the field you just drew ({boundaryCheck ? `${boundaryCheck.areaHa.toFixed(2)} hectares` : ''})
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
@@ -331,11 +331,30 @@ export function SimpleFieldCreator({ onFieldsCreated, initialCenter }: SimpleFie
               onChange={(e) => setFieldName(e.target.value)}
               onKeyPress={(e) => e.key === 'Enter' && handleCreateField()}
             />
+            {boundaryCheck && boundaryCheck.issues.length > 0 && (
+              <div className="text-sm space-y-1">
+                {boundaryCheck.issues.map((issue, index) => (
+                  <p
+                    key={index}
+                    className={`flex items-start gap-2 ${issue.severity === "error" ? "text-red-600" : "text-amber-600"}`}
+                  >
+                    <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                    {issue.message}
+                  </p>
+                ))}
+              </div>
+            )}
             <div className="flex justify-end gap-2">
               <Button variant="outline" onClick={cancelFieldCreation}>
                 Cancel
               </Button>
-              <Button onClick={handleCreateField} disabled={!fieldName.trim()}>
+              {boundaryCheck?.issues.some(issue => issue.severity === "error" && issue.repairable) && (
+                <Button variant="outline" onClick={repairBoundary}>
+                  <Wrench className="w-4 h-4 mr-2" />
+                  Repair Boundary
+                </Button>
+              )}
+              <Button onClick={handleCreateField} disabled={!fieldName.trim() || !boundaryCheck?.valid}>
                 Create Field
               </Button>
             </div>
@@ -0,0 +1,180 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { SprayCan, AlertCircle, CheckCircle } from "lucide-react"
+import LastUpdatedBadge from "@/components/last-updated-badge"
+import { useSprayWindows } from "@/hooks/use-spray-windows"
+import type { SprayHour, SprayProduct, SprayRating, SprayWindow } from "@/lib/spray-windows"
+
+interface SprayWindowsProps {
+  fieldId: string | null
+  fieldName?: string
+}
+
+const RATING_STYLES: Record<SprayRating, { cell: string; label: string }> = {
+  good: { cell: "bg-green-500", label: "Good" },
+  marginal: { cell: "bg-yellow-400", label: "Marginal" },
+  unsuitable: { cell: "bg-red-300", label: "Don't spray" },
+}
+
+function formatHour(hour: number) {
+  return `${String(hour).padStart(2, "0")}:00`
+}
+
+function formatDay(value: string) {
+  return new Date(`${value}T00:00:00Z`).toLocaleDateString("en-IN", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    timeZone: "UTC",
+  })
+}
+
+function describeWindow(window: SprayWindow) {
+  return `${formatDay(window.localDate)}, ${formatHour(window.startHour)}-${formatHour(window.endHour)}`
+}
+
+function hourTitle(hour: SprayHour) {
+  const conditions = `${hour.temperature}°C, ${hour.humidity}% RH, wind ${hour.windSpeed} km/h, delta-T ${hour.deltaT}°C, rain ${hour.rainProbability}%`
+  return `${formatHour(hour.localHour)} - ${RATING_STYLES[hour.rating].label}\n${conditions}${
+    hour.reasons.length > 0 ? `\n${hour.reasons.join("\n")}` : ""
+  }`
+}
+
+// Hour-by-hour spray timeline for the next 72 hours of the selected field, with the best windows
+export default function SprayWindows({ fieldId, fieldName }: SprayWindowsProps) {
+  const [product, setProduct] = useState<SprayProduct>("general")
+  const { plan, skipped, products, freshness, loading, error } = useSprayWindows(fieldId, product)
+
+  if (!fieldId) return null
+
+  const days = plan
+    ? Array.from(new Set(plan.hours.map((hour) => hour.localDate))).map((date) => ({
+        date,
+        hours: new Map(plan.hours.filter((hour) => hour.localDate === date).map((hour) => [hour.localHour, hour])),
+      }))
+    : []
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <SprayCan className="w-5 h-5" />
+              Spray Windows
+            </CardTitle>
+            <CardDescription>
+              Next 72 hours{fieldName ? ` for ${fieldName}` : ""} - wind, rain before the spray is rainfast, heat and delta-T
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <LastUpdatedBadge freshness={freshness} />
+            <Select value={product} onValueChange={(value) => setProduct(value as SprayProduct)}>
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="Product type" />
+              </SelectTrigger>
+              <SelectContent>
+                {products &&
+                  (Object.keys(products) as SprayProduct[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {products[key].label} • rainfast {products[key].rainfastHours} h
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading && !plan ? (
+          <p className="text-sm text-muted-foreground">Checking the forecast for spray windows...</p>
+        ) : !plan ? (
+          skipped && <p className="text-sm text-muted-foreground">No spray windows: {skipped.reason}</p>
+        ) : (
+          <>
+            {plan.best.length > 0 ? (
+              <div className="space-y-2">
+                <p className="flex items-center gap-2 text-sm font-medium">
+                  <CheckCircle className="w-4 h-4 text-green-600" />
+                  Best times to spray
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {plan.best.map((window) => (
+                    <Badge
+                      key={window.start}
+                      variant={window.rating === "good" ? "default" : "secondary"}
+                      title={window.reasons.join("\n") || undefined}
+                    >
+                      {describeWindow(window)} • {window.hours} h{window.rating === "marginal" ? " (marginal)" : ""}
+                    </Badge>
+                  ))}
+                </div>
+                {plan.best.every((window) => window.rating === "marginal") && (
+                  <p className="text-xs text-muted-foreground">
+                    No fully good window in the next 72 hours. Watch for: {plan.best[0].reasons.join(", ").toLowerCase()}.
+                  </p>
+                )}
+              </div>
+            ) : (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>No spray window of two hours or more in the next 72 hours.</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-1.5">
+              <div className="flex gap-2 pl-24 text-[10px] text-muted-foreground">
+                {[0, 6, 12, 18].map((hour) => (
+                  <span key={hour} className="flex-1">
+                    {formatHour(hour)}
+                  </span>
+                ))}
+              </div>
+              {days.map((day) => (
+                <div key={day.date} className="flex items-center gap-2">
+                  <span className="w-22 shrink-0 text-xs text-muted-foreground">{formatDay(day.date)}</span>
+                  <div className="grid flex-1 grid-cols-24 gap-px">
+                    {Array.from({ length: 24 }, (_, hour) => {
+                      const rated = day.hours.get(hour)
+                      return (
+                        <div
+                          key={hour}
+                          className={`h-6 rounded-sm ${rated ? RATING_STYLES[rated.rating].cell : "bg-muted"}`}
+                          title={rated ? hourTitle(rated) : undefined}
+                        />
+                      )
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+              {(Object.keys(RATING_STYLES) as SprayRating[]).map((rating) => (
+                <span key={rating} className="flex items-center gap-1">
+                  <span className={`inline-block h-3 w-3 rounded-sm ${RATING_STYLES[rating].cell}`} />
+                  {RATING_STYLES[rating].label}
+                </span>
+              ))}
+              <span>
+                Times in {plan.timezone}. Rain must stay off for {plan.rainfastHours} h after spraying.
+              </span>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,7 +1,7 @@
 "use client"
 
 import React, { useState, useEffect } from "react"
-import { MessageSquare, Bell, BellOff, CheckCircle, AlertCircle } from "lucide-react"
+import { MessageSquare, Bell, BellOff, CheckCircle, AlertCircle, Link2 } from "lucide-react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -10,32 +10,35 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Badge } from "@/components/ui/badge"
 
 interface TelegramBotProps {
-  userId: string
   userLocation?: string
   className?: string
 }
 
-export function TelegramBot({ userId, userLocation, className }: TelegramBotProps) {
-  const [chatId, setChatId] = useState("")
+export function TelegramBot({ userLocation, className }: TelegramBotProps) {
+  const [preferredTime, setPreferredTime] = useState("07:00")
   const [isSubscribed, setIsSubscribed] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
   const [subscriptionStatus, setSubscriptionStatus] = useState<any>(null)
+  const [linkCode, setLinkCode] = useState<{ code: string; expiresAt: string } | null>(null)
 
   // Check subscription status on mount
   useEffect(() => {
     checkSubscriptionStatus()
-  }, [userId])
+  }, [])
 
   const checkSubscriptionStatus = async () => {
     try {
-      const response = await fetch(`/api/telegram?userId=${userId}`)
+      const response = await fetch('/api/telegram')
       const data = await response.json()
 
       if (response.ok) {
         setIsSubscribed(data.subscribed)
         setSubscriptionStatus(data)
+        if (data.preferredTime) {
+          setPreferredTime(data.preferredTime)
+        }
       }
     } catch (error) {
       console.error("Failed to check subscription status:", error)
@@ -43,11 +46,6 @@ export function TelegramBot({ userId, userLocation, className }: TelegramBotProp
   }
 
   const handleSubscribe = async () => {
-    if (!chatId.trim()) {
-      setError("Please enter your Telegram Chat ID")
-      return
-    }
-
     setIsLoading(true)
     setError(null)
     setSuccess(null)
@@ -60,9 +58,9 @@ export function TelegramBot({ userId, userLocation, className }: TelegramBotProp
         },
         body: JSON.stringify({
           action: "subscribe",
-          userId,
-          chatId: chatId.trim(),
           location: userLocation || "Default Location",
+          preferredTime,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
         }),
       })
 
@@ -71,7 +69,7 @@ export function TelegramBot({ userId, userLocation, className }: TelegramBotProp
       if (response.ok) {
         setIsSubscribed(true)
         setSuccess(data.message)
-        setSubscriptionStatus({ chatId: chatId.trim(), subscribed: true, location: userLocation })
+        checkSubscriptionStatus()
       } else {
         setError(data.error || "Failed to subscribe")
       }
@@ -82,6 +80,36 @@ export function TelegramBot({ userId, userLocation, className }: TelegramBotProp
     }
   }
 
+  const handleCreateLinkCode = async () => {
+    setIsLoading(true)
+    setError(null)
+    setSuccess(null)
+
+    try {
+      const response = await fetch("/api/telegram", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          action: "create_link_code",
+        }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        setLinkCode({ code: data.code, expiresAt: data.expiresAt })
+      } else {
+        setError(data.error || "Failed to create link code")
+      }
+    } catch (error: any) {
+      setError("Failed to connect to Telegram service")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   const handleUnsubscribe = async () => {
     setIsLoading(true)
     setError(null)
@@ -95,7 +123,6 @@ export function TelegramBot({ userId, userLocation, className }: TelegramBotProp
         },
         body: JSON.stringify({
           action: "unsubscribe",
-          userId,
         }),
       })
 
@@ -160,30 +187,47 @@ export function TelegramBot({ userId, userLocation, className }: TelegramBotProp
           </Alert>
         )}
 
-        {/* Important Warning */}
-        <Alert className="bg-amber-50 border-amber-300">
-          <AlertCircle className="h-4 w-4 text-amber-600" />
-          <AlertDescription className="text-amber-800">
-            <strong>Important:</strong> Your Chat ID is a number (like 123456789), NOT your Telegram username (like
-            @username)
-          </AlertDescription>
-        </Alert>
+        {/* Link via bot */}
+        {!subscriptionStatus?.linked && (
+          <div className="p-3 bg-blue-50 rounded-lg border border-blue-200 space-y-3">
+            <div className="text-sm">
+              <div className="font-medium text-blue-900">Connect with @farmsat_bot</div>
+              <div className="text-blue-800 mt-1">
+                Link your account to use /weather, /ndvi, /mandi and /ask right from Telegram
+              </div>
+            </div>
+            {linkCode ? (
+              <div className="text-sm text-blue-900">
+                Open <strong>@farmsat_bot</strong> and send:
+                <div className="font-mono text-lg bg-white rounded px-2 py-1 my-2 text-center">/link {linkCode.code}</div>
+                <div className="text-xs text-blue-700">
+                  Code expires at {new Date(linkCode.expiresAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}.{" "}
+                  <button onClick={checkSubscriptionStatus} className="underline">
+                    I've sent it
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <Button onClick={handleCreateLinkCode} disabled={isLoading} variant="outline" className="w-full">
+                <Link2 className="w-4 h-4 mr-2" />
+                Get link code
+              </Button>
+            )}
+          </div>
+        )}
 
-        {/* Subscription Form */}
-        {!isSubscribed ? (
+        {/* Subscription Form, once the chat is linked */}
+        {!subscriptionStatus?.linked ? null : !isSubscribed ? (
           <div className="space-y-4">
             <div>
-              <Label htmlFor="chatId">Your Telegram Chat ID (Numeric Only)</Label>
+              <Label htmlFor="preferredTime">Send daily update at</Label>
               <Input
-                id="chatId"
-                placeholder="Example: 123456789"
-                value={chatId}
-                onChange={(e) => setChatId(e.target.value)}
+                id="preferredTime"
+                type="time"
+                value={preferredTime}
+                onChange={(e) => setPreferredTime(e.target.value)}
                 className="mt-1"
-                type="number"
               />
-              <p className="text-xs text-muted-foreground mt-1">❌ Do NOT enter: @username or @user_me02</p>
-              <p className="text-xs text-muted-foreground">✅ Enter numbers only: 123456789</p>
             </div>
 
             <Button onClick={handleSubscribe} disabled={isLoading} className="w-full bg-blue-600 hover:bg-blue-700">
@@ -199,6 +243,22 @@ export function TelegramBot({ userId, userLocation, className }: TelegramBotProp
                   Daily weather updates for: {subscriptionStatus?.location || userLocation || "Your Location"}
                 </div>
                 <div className="text-xs text-green-600 mt-1">Chat ID: {subscriptionStatus?.chatId}</div>
+                {subscriptionStatus?.preferredTime && (
+                  <div className="text-xs text-green-600">
+                    Sent daily at {subscriptionStatus.preferredTime}
+                    {subscriptionStatus.timezone && ` (${subscriptionStatus.timezone})`}
+                  </div>
+                )}
+                {subscriptionStatus?.lastSentAt && (
+                  <div className="text-xs text-green-600">
+                    Last delivered {new Date(subscriptionStatus.lastSentAt).toLocaleString()}
+                  </div>
+                )}
+                {subscriptionStatus?.recentDeliveries?.[0]?.status === "failed" && (
+                  <div className="text-xs text-red-600 mt-1">
+                    Last delivery failed: {subscriptionStatus.recentDeliveries[0].error}
+                  </div>
+                )}
               </div>
             </div>
 
@@ -227,37 +287,18 @@ export function TelegramBot({ userId, userLocation, className }: TelegramBotProp
             </div>
             <div className="flex items-center gap-2">
               <div className="w-1.5 h-1.5 bg-blue-500 rounded-full"></div>
-              Crop health alerts and farming tips
+              Crop health and weather alerts, and farming tips
             </div>
             <div className="flex items-center gap-2">
               <div className="w-1.5 h-1.5 bg-blue-500 rounded-full"></div>
               Market price updates and recommendations
             </div>
+            <div className="flex items-center gap-2">
+              <div className="w-1.5 h-1.5 bg-blue-500 rounded-full"></div>
+              Answers to your farming questions with /ask
+            </div>
           </div>
         </div>
-
-        {/* Instructions */}
-        <div className="bg-blue-50 border border-blue-300 p-3 rounded-lg">
-          <p className="font-medium mb-2 text-blue-900">📱 How to find your numeric Chat ID:</p>
-          <ol className="list-decimal list-inside space-y-1 text-xs text-blue-800">
-            <li>Open Telegram app on your phone</li>
-            <li>
-              Search for and open <strong>@userinfobot</strong>
-            </li>
-            <li>
-              Send the command <code className="bg-white px-1 rounded">/start</code>
-            </li>
-            <li>
-              The bot will show your <strong>"Your user id:"</strong> - this is a number like <strong>123456789</strong>
-            </li>
-            <li>
-              Copy this <strong>number</strong> and paste it in the field above
-            </li>
-          </ol>
-          <p className="text-xs text-blue-700 mt-2 italic">
-            ⚠️ The number you get from @userinfobot is what you need. Do NOT use your Telegram @username.
-          </p>
-        </div>
       </CardContent>
     </Card>
   )
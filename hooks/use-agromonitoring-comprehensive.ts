@@ -9,10 +9,27 @@ import {
   type ProcessedSoilData,
   type ProcessedUVIData
 } from "@/lib/agromonitoring-api"
+import type { HoldingSummary } from "@/lib/farmer-data-aggregator"
+import { readSnapshot, saveSnapshot, withOfflineCopy, type DataFreshness } from "@/lib/offline-store"
+
+// Parse a JSON API response, turning error bodies into exceptions
+async function readJSON<T>(response: Response, fallbackError: string): Promise<T> {
+  const result = await response.json()
+  if (!response.ok) {
+    throw new Error(result.error || fallbackError)
+  }
+  return result
+}
+
+// Forecast days are grouped by the farmer's local date; the browser knows their zone
+function browserTimezone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
 
-// Hook to fetch and manage all user polygons
+// Hook to fetch and manage the polygons linked to the user's fields
 export function useUserPolygons(enabled: boolean = true) {
   const [polygons, setPolygons] = useState<PolygonResponse[]>([])
+  const [freshness, setFreshness] = useState<DataFreshness | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -23,17 +40,15 @@ export function useUserPolygons(enabled: boolean = true) {
     setError(null)
 
     try {
-      const api = getAgromonitoringAPI()
-      const userPolygons = await api.getPolygons()
+      const { data: userPolygons, ...polygonsFreshness } = await withOfflineCopy("polygons", async () =>
+        readJSON<PolygonResponse[]>(await fetch("/api/polygons"), "Failed to fetch polygons")
+      )
       setPolygons(userPolygons)
+      setFreshness(polygonsFreshness)
       console.log(`[Polygons] Fetched ${userPolygons.length} polygons`)
     } catch (err) {
       console.error("Failed to fetch polygons:", err)
-      if (err instanceof Error && err.message.includes("not initialized")) {
-        setError("Agromonitoring API not configured. Please configure your API key first.")
-      } else {
-        setError(err instanceof Error ? err.message : "Failed to fetch polygons")
-      }
+      setError(err instanceof Error ? err.message : "Failed to fetch polygons")
     } finally {
       setLoading(false)
     }
@@ -43,8 +58,12 @@ export function useUserPolygons(enabled: boolean = true) {
     if (!enabled) throw new Error("API not configured")
     
     try {
-      const api = getAgromonitoringAPI()
-      const newPolygon = await api.createPolygon(name, coordinates)
+      const response = await fetch("/api/polygons", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, coordinates }),
+      })
+      const newPolygon = await readJSON<PolygonResponse>(response, "Failed to create polygon")
       setPolygons(prev => [...prev, newPolygon])
       return newPolygon
     } catch (err) {
@@ -55,8 +74,12 @@ export function useUserPolygons(enabled: boolean = true) {
 
   const updatePolygon = useCallback(async (polygonId: string, name: string) => {
     try {
-      const api = getAgromonitoringAPI()
-      const updatedPolygon = await api.updatePolygon(polygonId, name)
+      const response = await fetch("/api/polygons", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ polygonId, name }),
+      })
+      const updatedPolygon = await readJSON<PolygonResponse>(response, "Failed to update polygon")
       setPolygons(prev => prev.map(p => p.id === polygonId ? updatedPolygon : p))
       return updatedPolygon
     } catch (err) {
@@ -67,8 +90,8 @@ export function useUserPolygons(enabled: boolean = true) {
 
   const deletePolygon = useCallback(async (polygonId: string) => {
     try {
-      const api = getAgromonitoringAPI()
-      await api.deletePolygon(polygonId)
+      const response = await fetch(`/api/polygons?polygonId=${encodeURIComponent(polygonId)}`, { method: "DELETE" })
+      await readJSON(response, "Failed to delete polygon")
       setPolygons(prev => prev.filter(p => p.id !== polygonId))
     } catch (err) {
       console.error("Failed to delete polygon:", err)
@@ -84,6 +107,7 @@ export function useUserPolygons(enabled: boolean = true) {
 
   return {
     polygons,
+    freshness,
     loading,
     error,
     refetch: fetchPolygons,
@@ -93,12 +117,54 @@ export function useUserPolygons(enabled: boolean = true) {
   }
 }
 
+// NDVI comes from stored readings (synced server-side) rather than the live API
+async function fetchStoredNDVIHistory(polygonId: string, daysBack: number): Promise<ProcessedNDVIData[]> {
+  const response = await fetch(`/api/ndvi/history?polygonId=${encodeURIComponent(polygonId)}&days=${daysBack}`)
+  const result = await response.json()
+  if (!response.ok) {
+    throw new Error(result.error || "Failed to fetch NDVI history")
+  }
+  return result.readings
+}
+
+interface PolygonSources {
+  weather: ProcessedWeatherData | null
+  ndvi: ProcessedNDVIData[] | null
+  soil: ProcessedSoilData[] | null
+  uvi: ProcessedUVIData[] | null
+}
+
+type SourceFreshness = Partial<Record<keyof PolygonSources, DataFreshness>>
+
+// Save what was fetched and fill in what failed (null) from the last saved copy, so each card
+// can say how old its data is
+async function keepOfflineCopies(polygonId: string, fetched: PolygonSources) {
+  const sources: PolygonSources = { ...fetched }
+  const freshness: SourceFreshness = {}
+
+  for (const source of Object.keys(fetched) as Array<keyof PolygonSources>) {
+    const key = `${source}:${polygonId}`
+    if (fetched[source] !== null) {
+      await saveSnapshot(key, fetched[source])
+      freshness[source] = { savedAt: new Date(), stale: false }
+    } else {
+      const snapshot = await readSnapshot<any>(key)
+      if (snapshot) {
+        sources[source] = snapshot.data
+        freshness[source] = { savedAt: new Date(snapshot.savedAt), stale: true }
+      }
+    }
+  }
+  return { sources, freshness }
+}
+
 // Comprehensive hook to fetch all data for a polygon
 export function usePolygonData(polygonId: string | null, daysBack: number = 30) {
   const [weatherData, setWeatherData] = useState<ProcessedWeatherData | null>(null)
   const [ndviData, setNdviData] = useState<ProcessedNDVIData[]>([])
   const [soilData, setSoilData] = useState<ProcessedSoilData[]>([])
   const [uviData, setUviData] = useState<ProcessedUVIData[]>([])
+  const [freshness, setFreshness] = useState<SourceFreshness>({})
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -124,14 +190,6 @@ export function usePolygonData(polygonId: string | null, daysBack: number = 30)
       const polygon = await api.getPolygon(polygonId)
       const center = polygon.center // [lon, lat]
       
-      // Calculate date range
-      const endDate = new Date()
-      const startDate = new Date()
-      startDate.setDate(endDate.getDate() - daysBack)
-      
-      const startTimestamp = api.dateToUnixTimestamp(startDate)
-      const endTimestamp = api.dateToUnixTimestamp(endDate)
-
       console.log(`[PolygonData] Fetching all data for polygon ${polygonId}`)
 
       // Fetch all data in parallel
@@ -146,7 +204,7 @@ export function usePolygonData(polygonId: string | null, daysBack: number = 30)
       ] = await Promise.allSettled([
         api.getCurrentWeather(center[1], center[0]), // lat, lon
         api.getWeatherForecast(center[1], center[0]),
-        api.getNDVIHistory(polygonId, startTimestamp, endTimestamp),
+        fetchStoredNDVIHistory(polygonId, daysBack),
         api.getCurrentSoilData(polygonId),
         api.getCurrentUVI(polygonId)
       ])
@@ -163,7 +221,7 @@ export function usePolygonData(polygonId: string | null, daysBack: number = 30)
       let processedWeather: ProcessedWeatherData | null = null
       if (currentWeather.status === "fulfilled" || weatherForecast.status === "fulfilled") {
         if (weatherForecast.status === "fulfilled") {
-          processedWeather = api.processWeatherForecast(weatherForecast.value)
+          processedWeather = api.processWeatherForecast(weatherForecast.value, browserTimezone())
           dataStatus.weather = true
         } else if (currentWeather.status === "fulfilled") {
           processedWeather = api.processWeatherData(currentWeather.value)
@@ -182,7 +240,7 @@ export function usePolygonData(polygonId: string | null, daysBack: number = 30)
       // Process NDVI data
       let processedNDVI: ProcessedNDVIData[] = []
       if (ndviHistory.status === "fulfilled") {
-        processedNDVI = api.processNDVIData(ndviHistory.value)
+        processedNDVI = ndviHistory.value
         dataStatus.ndvi = true
         console.log(`[PolygonData] NDVI: ${processedNDVI.length} data points`)
       } else {
@@ -230,11 +288,18 @@ export function usePolygonData(polygonId: string | null, daysBack: number = 30)
         }
       }
 
-      // Update state
-      setWeatherData(processedWeather)
-      setNdviData(processedNDVI)
-      setSoilData(processedSoil)
-      setUviData(processedUVI)
+      // Update state, with saved copies for whatever could not be fetched
+      const { sources, freshness: sourceFreshness } = await keepOfflineCopies(polygonId, {
+        weather: processedWeather,
+        ndvi: dataStatus.ndvi ? processedNDVI : null,
+        soil: dataStatus.soil ? processedSoil : null,
+        uvi: dataStatus.uvi ? processedUVI : null
+      })
+      setWeatherData(sources.weather)
+      setNdviData(sources.ndvi || [])
+      setSoilData(sources.soil || [])
+      setUviData(sources.uvi || [])
+      setFreshness(sourceFreshness)
 
       console.log(`[PolygonData] Data fetch summary:`, {
         ...dataStatus,
@@ -255,7 +320,21 @@ export function usePolygonData(polygonId: string | null, daysBack: number = 30)
 
     } catch (err) {
       console.error("Failed to fetch polygon data:", err)
-      if (err instanceof Error && err.message.includes("not initialized")) {
+
+      // Offline: show everything saved for this field instead of an error
+      const { sources, freshness: sourceFreshness } = await keepOfflineCopies(polygonId, {
+        weather: null,
+        ndvi: null,
+        soil: null,
+        uvi: null
+      })
+      if (Object.keys(sourceFreshness).length > 0) {
+        setWeatherData(sources.weather)
+        setNdviData(sources.ndvi || [])
+        setSoilData(sources.soil || [])
+        setUviData(sources.uvi || [])
+        setFreshness(sourceFreshness)
+      } else if (err instanceof Error && err.message.includes("not initialized")) {
         setError("Agromonitoring API not configured.")
       } else {
         setError(err instanceof Error ? err.message : "Failed to fetch data")
@@ -275,6 +354,7 @@ export function usePolygonData(polygonId: string | null, daysBack: number = 30)
     setNdviData([])
     setSoilData([])
     setUviData([])
+    setFreshness({})
     setError(null)
   }, [polygonId])
 
@@ -294,6 +374,7 @@ export function usePolygonData(polygonId: string | null, daysBack: number = 30)
     ndviData,
     soilData,
     uviData,
+    freshness,
     loading,
     error,
     refetch: fetchAllData,
@@ -319,7 +400,7 @@ export function useWeatherForecast(lat: number, lon: number) {
     try {
       const api = getAgromonitoringAPI()
       const rawForecast = await api.getWeatherForecast(lat, lon)
-      const processedForecast = api.processWeatherForecast(rawForecast)
+      const processedForecast = api.processWeatherForecast(rawForecast, browserTimezone())
       setForecast(processedForecast)
     } catch (err) {
       console.error("Failed to fetch weather forecast:", err)
@@ -335,3 +416,36 @@ export function useWeatherForecast(lat: number, lon: number) {
 
   return { forecast, loading, error, refetch: fetchForecast }
 }
+
+// Hook for the area-weighted view across all of the user's farms and fields
+export function useHoldingSummary(daysBack: number = 30, enabled: boolean = true) {
+  const [summary, setSummary] = useState<HoldingSummary | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSummary = useCallback(async () => {
+    if (!enabled) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const holding = await readJSON<HoldingSummary>(
+        await fetch(`/api/holding?days=${daysBack}`),
+        "Failed to fetch holding summary"
+      )
+      setSummary(holding)
+    } catch (err) {
+      console.error("Failed to fetch holding summary:", err)
+      setError(err instanceof Error ? err.message : "Failed to fetch holding summary")
+    } finally {
+      setLoading(false)
+    }
+  }, [daysBack, enabled])
+
+  useEffect(() => {
+    fetchSummary()
+  }, [fetchSummary])
+
+  return { summary, loading, error, refetch: fetchSummary }
+}
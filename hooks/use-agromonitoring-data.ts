@@ -2,6 +2,10 @@
 
 import { useState, useEffect, useCallback } from "react"
 import { getAgromonitoringAPI, type ProcessedWeatherData, type ProcessedNDVIData } from "@/lib/agromonitoring-api"
+import { getIndexStatus } from "@/lib/vegetation-indices"
+import type { VegetationIndex } from "@/lib/data-providers"
+import type { CleanedNDVISeries, SmoothingMethod } from "@/lib/ndvi-cleaning"
+import { withOfflineCopy, type DataFreshness } from "@/lib/offline-store"
 
 export function useAgromonitoringWeather(latitude: number, longitude: number) {
   const [data, setData] = useState<ProcessedWeatherData | null>(null)
@@ -42,6 +46,13 @@ export function useAgromonitoringWeather(latitude: number, longitude: number) {
   return { data, loading, error, refetch: fetchWeatherData }
 }
 
+// Day a field's boundary was edited; readings before it were measured over the old boundary
+interface BoundaryChange {
+  date: string
+  version: number
+  areaHa: number | null
+}
+
 export function useAgromonitoringNDVI(
   polygonId: string | null, 
   daysBack: number = 90,
@@ -49,9 +60,16 @@ export function useAgromonitoringNDVI(
     type?: 'l8' | 's2'
     zoom?: number
     clouds_max?: number
+    index?: VegetationIndex // NDVI when omitted; values are still in the ndvi* fields
+    smoothing?: SmoothingMethod // server default (Whittaker) when omitted
   }
 ) {
+  const index = options?.index || "NDVI"
   const [data, setData] = useState<ProcessedNDVIData[]>([])
+  const [cleaned, setCleaned] = useState<CleanedNDVISeries | null>(null)
+  const [availableIndices, setAvailableIndices] = useState<VegetationIndex[]>([])
+  const [boundaryChanges, setBoundaryChanges] = useState<BoundaryChange[]>([])
+  const [freshness, setFreshness] = useState<DataFreshness | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -62,29 +80,30 @@ export function useAgromonitoringNDVI(
     setError(null)
 
     try {
-      const api = getAgromonitoringAPI()
-      
-      // Calculate date range
-      const endDate = new Date()
-      const startDate = new Date()
-      startDate.setDate(endDate.getDate() - daysBack)
-
-      const startTimestamp = api.dateToUnixTimestamp(startDate)
-      const endTimestamp = api.dateToUnixTimestamp(endDate)
-
-      console.log(`[NDVI] Fetching data for polygon ${polygonId} from ${startDate.toISOString()} to ${endDate.toISOString()}`)
-
-      const rawNDVIData = await api.getNDVIHistory(
-        polygonId, 
-        startTimestamp, 
-        endTimestamp,
-        options
-      )
-      
-      const processedData = api.processNDVIData(rawNDVIData)
-      setData(processedData)
+      // Served from stored readings; the server syncs from Agromonitoring when they are stale
+      const params = new URLSearchParams({ polygonId, days: String(daysBack), index })
+      if (options?.clouds_max !== undefined) params.set("cloudsMax", String(options.clouds_max))
+      if (options?.type) params.set("satellite", options.type)
+      if (options?.smoothing) params.set("smoothing", options.smoothing)
+
+      console.log(`[NDVI] Fetching stored ${index} history for polygon ${polygonId} (${daysBack} days)`)
+
+      const { data: result, ...historyFreshness } = await withOfflineCopy(`ndvi-history:${params}`, async () => {
+        const response = await fetch(`/api/ndvi/history?${params}`)
+        const result = await response.json()
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to fetch NDVI data")
+        }
+        return result
+      })
+
+      setData(result.readings)
+      setCleaned(result.cleaned || null)
+      setAvailableIndices(result.availableIndices || [])
+      setBoundaryChanges(result.boundaryChanges || [])
+      setFreshness(historyFreshness)
       
-      console.log(`[NDVI] Fetched ${processedData.length} data points`)
+      console.log(`[NDVI] Loaded ${result.readings.length} data points (${result.source})`)
     } catch (err) {
       console.error("Agromonitoring NDVI error:", err)
       if (err instanceof Error && err.message.includes("not initialized")) {
@@ -95,16 +114,19 @@ export function useAgromonitoringNDVI(
     } finally {
       setLoading(false)
     }
-  }, [polygonId, daysBack, options])
+  }, [polygonId, daysBack, index, options?.clouds_max, options?.type, options?.smoothing])
 
   useEffect(() => {
     fetchNDVIData()
   }, [fetchNDVIData])
 
-  // Calculate current NDVI status from latest data point
-  const currentNDVI = data.length > 0 ? data[data.length - 1] : null
+  // Current status comes from the latest scene that survived cleaning, so one cloudy pass
+  // doesn't flip the field to "stressed"; fall back to the latest raw scene
+  const keptDates = new Set(cleaned?.observations.filter((observation) => observation.kept).map((observation) => observation.date))
+  const currentNDVI = [...data].reverse().find((reading) => keptDates.has(reading.date)) || data[data.length - 1] || null
   const ndviStatus = currentNDVI ? 
-    getAgromonitoringAPI().getNDVIStatus(currentNDVI.ndviMean) : null
+    getIndexStatus(index, currentNDVI.ndviMean) : null
+  const smoothedNDVI = cleaned?.daily.length ? cleaned.daily[cleaned.daily.length - 1] : null
 
   return { 
     data, 
@@ -112,6 +134,11 @@ export function useAgromonitoringNDVI(
     error, 
     refetch: fetchNDVIData,
     currentNDVI,
-    ndviStatus
+    ndviStatus,
+    smoothedNDVI,
+    cleaned,
+    availableIndices,
+    boundaryChanges,
+    freshness
   }
 }
@@ -0,0 +1,95 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type { CropSeason } from "@prisma/client"
+
+// Dates arrive as ISO strings over JSON
+type CropSeasonRecord = Omit<CropSeason, "sowingDate" | "expectedHarvestDate" | "actualHarvestDate" | "createdAt" | "updatedAt"> & {
+  sowingDate: string
+  expectedHarvestDate: string | null
+  actualHarvestDate: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+interface CropSeasonForm {
+  cropName?: string
+  variety?: string
+  sowingDate?: string
+  expectedHarvestDate?: string
+  actualHarvestDate?: string
+  yield?: string
+}
+
+async function readJSON<T>(response: Response, fallbackError: string): Promise<T> {
+  const result = await response.json()
+  if (!response.ok) {
+    throw new Error(result.error || fallbackError)
+  }
+  return result
+}
+
+// Hook for the crop seasons of one field: the active season plus past harvests
+export function useCropSeasons(fieldId: string | null) {
+  const [seasons, setSeasons] = useState<CropSeasonRecord[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSeasons = useCallback(async () => {
+    if (!fieldId) {
+      setSeasons([])
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const result = await readJSON<{ fields: Array<{ seasons: CropSeasonRecord[] }> }>(
+        await fetch(`/api/crop-seasons?fieldId=${encodeURIComponent(fieldId)}`),
+        "Failed to fetch crop seasons"
+      )
+      setSeasons(result.fields[0]?.seasons || [])
+    } catch (err) {
+      console.error("Failed to fetch crop seasons:", err)
+      setError(err instanceof Error ? err.message : "Failed to fetch crop seasons")
+    } finally {
+      setLoading(false)
+    }
+  }, [fieldId])
+
+  const startSeason = useCallback(async (form: CropSeasonForm) => {
+    await readJSON<CropSeasonRecord>(
+      await fetch("/api/crop-seasons", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...form, fieldId })
+      }),
+      "Failed to start crop season"
+    )
+    await fetchSeasons()
+  }, [fieldId, fetchSeasons])
+
+  const updateSeason = useCallback(async (id: string, form: CropSeasonForm) => {
+    await readJSON<CropSeasonRecord>(
+      await fetch("/api/crop-seasons", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...form, id })
+      }),
+      "Failed to update crop season"
+    )
+    await fetchSeasons()
+  }, [fetchSeasons])
+
+  useEffect(() => {
+    fetchSeasons()
+  }, [fetchSeasons])
+
+  const activeSeason = seasons.find((season) => !season.actualHarvestDate) || null
+  const pastSeasons = seasons.filter((season) => !!season.actualHarvestDate)
+
+  return { seasons, activeSeason, pastSeasons, loading, error, refetch: fetchSeasons, startSeason, updateSeason }
+}
+
+export type { CropSeasonRecord, CropSeasonForm }
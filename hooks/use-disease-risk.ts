@@ -0,0 +1,56 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { withOfflineCopy, type DataFreshness } from "@/lib/offline-store"
+import type { FieldDiseaseRisk, SkippedDiseaseField } from "@/lib/disease-risk"
+
+interface DiseaseRiskResponse {
+  risks: FieldDiseaseRisk[]
+  skipped: SkippedDiseaseField[]
+}
+
+// Hook for the daily disease risk on one field, for the crop in the farmer's profile
+export function useDiseaseRisk(fieldId: string | null) {
+  const [risk, setRisk] = useState<FieldDiseaseRisk | null>(null)
+  const [skipped, setSkipped] = useState<SkippedDiseaseField | null>(null)
+  const [freshness, setFreshness] = useState<DataFreshness | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchRisk = useCallback(async () => {
+    if (!fieldId) {
+      setRisk(null)
+      setSkipped(null)
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const query = `fieldId=${encodeURIComponent(fieldId)}`
+      const { data, ...riskFreshness } = await withOfflineCopy(`disease-risk:${query}`, async () => {
+        const response = await fetch(`/api/disease-risk?${query}`)
+        const result = await response.json()
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to fetch disease risk")
+        }
+        return result as DiseaseRiskResponse
+      })
+      setRisk(data.risks[0] || null)
+      setSkipped(data.skipped[0] || null)
+      setFreshness(riskFreshness)
+    } catch (err) {
+      console.error("Failed to fetch disease risk:", err)
+      setError(err instanceof Error ? err.message : "Failed to fetch disease risk")
+    } finally {
+      setLoading(false)
+    }
+  }, [fieldId])
+
+  useEffect(() => {
+    fetchRisk()
+  }, [fetchRisk])
+
+  return { risk, skipped, freshness, loading, error, refetch: fetchRisk }
+}
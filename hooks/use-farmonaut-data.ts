@@ -1,9 +1,15 @@
 "use client"
 
 import { useState, useEffect, useCallback } from "react"
-import { farmonautAPI, processNDVIData, processSoilData, processWeatherData } from "@/lib/farmonaut-api"
+import { processNDVIData } from "@/lib/farmonaut-api"
+import { getProviderRegistry } from "@/lib/provider-registry"
+import type { CurrentWeather, VegetationIndexReading } from "@/lib/data-providers"
 
-export function useFarmonautField(fieldId: string | null) {
+// Farmonaut stays first choice for these hooks; the registry falls back to the other providers
+const PREFER_FARMONAUT = { prefer: "farmonaut" }
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function useFarmonautField(fieldId: string | null, location?: { lat: number; lng: number }) {
   const [data, setData] = useState<any>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -15,23 +21,32 @@ export function useFarmonautField(fieldId: string | null) {
     setError(null)
 
     try {
-      const [satelliteData, analysisData] = await Promise.all([
-        farmonautAPI.getSatelliteData(fieldId, "NDVI"),
-        farmonautAPI.getFieldAnalysis(fieldId),
+      const registry = getProviderRegistry()
+      const field = { lat: location?.lat ?? 0, lng: location?.lng ?? 0, externalId: fieldId }
+      const to = new Date()
+      const [readings, soil] = await Promise.all([
+        registry.getVegetationIndices(field, { index: "NDVI", from: new Date(to.getTime() - 30 * DAY_MS), to }, PREFER_FARMONAUT),
+        registry.getSoil(field, PREFER_FARMONAUT),
       ])
+      const latest = readings[readings.length - 1]
 
       setData({
-        satellite: satelliteData,
-        analysis: analysisData,
-        ndvi: processNDVIData(satelliteData),
-        soil: processSoilData(analysisData),
+        ndvi: processNDVIData({ ndviValue: latest?.mean ?? 0 }),
+        ndviDate: latest?.date,
+        soil: {
+          moisture: soil.moisture,
+          organicCarbon: soil.organicCarbon ?? 0,
+          temperature: soil.temperature ?? soil.surfaceTemp ?? 0,
+          ph: soil.ph ?? 0,
+        },
+        source: soil.source,
       })
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to fetch field data")
     } finally {
       setLoading(false)
     }
-  }, [fieldId])
+  }, [fieldId, location?.lat, location?.lng])
 
   useEffect(() => {
     fetchFieldData()
@@ -45,7 +60,7 @@ export function useFarmonautField(fieldId: string | null) {
 }
 
 export function useFarmonautWeather(latitude: number, longitude: number) {
-  const [data, setData] = useState<any>(null)
+  const [data, setData] = useState<CurrentWeather | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -56,8 +71,7 @@ export function useFarmonautWeather(latitude: number, longitude: number) {
     setError(null)
 
     try {
-      const weatherData = await farmonautAPI.getWeatherData(latitude, longitude)
-      setData(processWeatherData(weatherData))
+      setData(await getProviderRegistry().getCurrentWeather({ lat: latitude, lng: longitude }, PREFER_FARMONAUT))
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to fetch weather data")
     } finally {
@@ -76,8 +90,8 @@ export function useFarmonautWeather(latitude: number, longitude: number) {
   return { data, loading, error, refetch: fetchWeatherData }
 }
 
-export function useFarmonautHistorical(fieldId: string | null, days = 30) {
-  const [data, setData] = useState<any[]>([])
+export function useFarmonautHistorical(fieldId: string | null, days = 30, location?: { lat: number; lng: number }) {
+  const [data, setData] = useState<VegetationIndexReading[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -88,17 +102,19 @@ export function useFarmonautHistorical(fieldId: string | null, days = 30) {
     setError(null)
 
     try {
-      const endDate = new Date().toISOString().split("T")[0]
-      const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split("T")[0]
-
-      const historicalData = await farmonautAPI.getHistoricalData(fieldId, startDate, endDate)
+      const to = new Date()
+      const historicalData = await getProviderRegistry().getVegetationIndices(
+        { lat: location?.lat ?? 0, lng: location?.lng ?? 0, externalId: fieldId },
+        { index: "NDVI", from: new Date(to.getTime() - days * DAY_MS), to },
+        PREFER_FARMONAUT
+      )
       setData(historicalData)
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to fetch historical data")
     } finally {
       setLoading(false)
     }
-  }, [fieldId, days])
+  }, [fieldId, days, location?.lat, location?.lng])
 
   useEffect(() => {
     fetchHistoricalData()
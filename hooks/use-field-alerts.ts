@@ -0,0 +1,93 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type { FieldAlert } from "@prisma/client"
+import type { AlertChannelName } from "@/lib/alert-notifications"
+
+// Dates arrive as ISO strings over JSON
+type FieldAlertRecord = Omit<FieldAlert, "observedAt" | "startsAt" | "expiresAt" | "notifiedAt" | "acknowledgedAt" | "resolvedAt" | "createdAt" | "updatedAt" | "metrics"> & {
+  metrics: Record<string, number | string | null> | null
+  observedAt: string
+  startsAt: string | null
+  expiresAt: string | null
+  notifiedAt: string | null
+  acknowledgedAt: string | null
+  resolvedAt: string | null
+  createdAt: string
+  updatedAt: string
+  field: { id: string; name: string }
+}
+
+interface AlertsResponse {
+  alerts: FieldAlertRecord[]
+  channels: AlertChannelName[]
+  reachable: Record<AlertChannelName, boolean>
+}
+
+async function readJSON<T>(response: Response, fallbackError: string): Promise<T> {
+  const result = await response.json()
+  if (!response.ok) {
+    throw new Error(result.error || fallbackError)
+  }
+  return result
+}
+
+// Hook for the crop-health and weather alerts on the user's fields and the channels they are sent to
+export function useFieldAlerts(enabled: boolean = true) {
+  const [alerts, setAlerts] = useState<FieldAlertRecord[]>([])
+  const [channels, setChannels] = useState<AlertChannelName[]>([])
+  const [reachable, setReachable] = useState<Record<AlertChannelName, boolean>>({ telegram: false, sms: false })
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchAlerts = useCallback(async () => {
+    if (!enabled) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const result = await readJSON<AlertsResponse>(await fetch("/api/alerts"), "Failed to fetch alerts")
+      setAlerts(result.alerts)
+      setChannels(result.channels)
+      setReachable(result.reachable)
+    } catch (err) {
+      console.error("Failed to fetch alerts:", err)
+      setError(err instanceof Error ? err.message : "Failed to fetch alerts")
+    } finally {
+      setLoading(false)
+    }
+  }, [enabled])
+
+  const updateAlert = useCallback(async (id: string, action: "acknowledge" | "resolve") => {
+    await readJSON<FieldAlertRecord>(
+      await fetch("/api/alerts", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id, action })
+      }),
+      "Failed to update alert"
+    )
+    await fetchAlerts()
+  }, [fetchAlerts])
+
+  const updateChannels = useCallback(async (next: AlertChannelName[]) => {
+    const result = await readJSON<{ channels: AlertChannelName[] }>(
+      await fetch("/api/alerts", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ channels: next })
+      }),
+      "Failed to update alert channels"
+    )
+    setChannels(result.channels)
+  }, [])
+
+  useEffect(() => {
+    fetchAlerts()
+  }, [fetchAlerts])
+
+  return { alerts, channels, reachable, loading, error, refetch: fetchAlerts, updateAlert, updateChannels }
+}
+
+export type { FieldAlertRecord }
@@ -0,0 +1,86 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type { PolygonResponse } from "@/lib/agromonitoring-api"
+import type { GeometryIssue } from "@/lib/field-geometry"
+
+// Dates arrive as ISO strings
+interface BoundaryVersion {
+  version: number
+  coordinates: number[][]
+  areaHa: number | null
+  polygonId: string | null
+  validFrom: string
+  validTo: string | null
+  current: boolean
+}
+
+async function readJSON<T>(response: Response, fallbackError: string): Promise<T> {
+  const result = await response.json()
+  if (!response.ok) {
+    throw new Error(result.error || fallbackError)
+  }
+  return result
+}
+
+// Hook for a field's boundary history and for saving an edited boundary
+export function useFieldBoundary(fieldId: string | null) {
+  const [versions, setVersions] = useState<BoundaryVersion[]>([])
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchHistory = useCallback(async () => {
+    if (!fieldId) {
+      setVersions([])
+      return
+    }
+
+    setLoading(true)
+    try {
+      const result = await readJSON<{ versions: BoundaryVersion[] }>(
+        await fetch(`/api/fields/boundary-history?fieldId=${encodeURIComponent(fieldId)}`),
+        "Failed to load boundary history"
+      )
+      setVersions(result.versions)
+    } catch (err) {
+      console.error("Failed to fetch boundary history:", err)
+      setVersions([])
+    } finally {
+      setLoading(false)
+    }
+  }, [fieldId])
+
+  useEffect(() => {
+    fetchHistory()
+  }, [fetchHistory])
+
+  const saveBoundary = useCallback(
+    async (coordinates: Array<{ lat: number; lng: number }>) => {
+      if (!fieldId) return null
+
+      setSaving(true)
+      setError(null)
+      try {
+        const result = await readJSON<{ polygon: PolygonResponse; version: number; issues: GeometryIssue[] }>(
+          await fetch("/api/fields", {
+            method: "PUT",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ fieldId, coordinates }),
+          }),
+          "Failed to save the boundary"
+        )
+        await fetchHistory()
+        return result.polygon
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to save the boundary")
+        return null
+      } finally {
+        setSaving(false)
+      }
+    },
+    [fieldId, fetchHistory]
+  )
+
+  return { versions, loading, saving, error, saveBoundary, refetch: fetchHistory }
+}
@@ -0,0 +1,41 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type { FieldGrowthStage } from "@/lib/growth-stages"
+
+// Hook for the growth stage of the active crop season on one field
+export function useGrowthStage(fieldId: string | null) {
+  const [fieldStage, setFieldStage] = useState<FieldGrowthStage | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchStage = useCallback(async () => {
+    if (!fieldId) {
+      setFieldStage(null)
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/growth-stages?fieldId=${encodeURIComponent(fieldId)}`)
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to fetch growth stage")
+      }
+      setFieldStage((result.fields as FieldGrowthStage[])[0] || null)
+    } catch (err) {
+      console.error("Failed to fetch growth stage:", err)
+      setError(err instanceof Error ? err.message : "Failed to fetch growth stage")
+    } finally {
+      setLoading(false)
+    }
+  }, [fieldId])
+
+  useEffect(() => {
+    fetchStage()
+  }, [fetchStage])
+
+  return { fieldStage, growthStage: fieldStage?.growthStage || null, loading, error, refetch: fetchStage }
+}
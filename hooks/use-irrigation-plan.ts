@@ -0,0 +1,44 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type { FieldIrrigationPlan, SkippedField } from "@/lib/irrigation-planner"
+
+// Hook for the computed 7-day irrigation schedule of one field
+export function useIrrigationPlan(fieldId: string | null) {
+  const [plan, setPlan] = useState<FieldIrrigationPlan | null>(null)
+  const [skipped, setSkipped] = useState<SkippedField | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchPlan = useCallback(async () => {
+    if (!fieldId) {
+      setPlan(null)
+      setSkipped(null)
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/irrigation?fieldId=${encodeURIComponent(fieldId)}`)
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to fetch irrigation plan")
+      }
+      setPlan((result.plans as FieldIrrigationPlan[])[0] || null)
+      setSkipped((result.skipped as SkippedField[])[0] || null)
+    } catch (err) {
+      console.error("Failed to fetch irrigation plan:", err)
+      setError(err instanceof Error ? err.message : "Failed to fetch irrigation plan")
+    } finally {
+      setLoading(false)
+    }
+  }, [fieldId])
+
+  useEffect(() => {
+    fetchPlan()
+  }, [fetchPlan])
+
+  return { plan, skipped, loading, error, refetch: fetchPlan }
+}
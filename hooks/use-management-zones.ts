@@ -0,0 +1,46 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type { FieldZoneMap } from "@/lib/field-zoning"
+
+async function readJSON<T>(response: Response, fallbackError: string): Promise<T> {
+  const result = await response.json()
+  if (!response.ok) {
+    throw new Error(result.error || fallbackError)
+  }
+  return result
+}
+
+// Hook for the management zones of one field; nothing is fetched until a zone count is chosen
+export function useManagementZones(fieldId: string | null, zoneCount: number | null) {
+  const [zoneMap, setZoneMap] = useState<FieldZoneMap | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchZones = useCallback(async () => {
+    if (!fieldId || !zoneCount) {
+      setZoneMap(null)
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const params = new URLSearchParams({ fieldId, zones: String(zoneCount) })
+      setZoneMap(await readJSON<FieldZoneMap>(await fetch(`/api/fields/zones?${params}`), "Failed to build management zones"))
+    } catch (err) {
+      console.error("Failed to fetch management zones:", err)
+      setZoneMap(null)
+      setError(err instanceof Error ? err.message : "Failed to build management zones")
+    } finally {
+      setLoading(false)
+    }
+  }, [fieldId, zoneCount])
+
+  useEffect(() => {
+    fetchZones()
+  }, [fetchZones])
+
+  return { zoneMap, loading, error, refetch: fetchZones }
+}
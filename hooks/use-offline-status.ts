@@ -0,0 +1,31 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { OUTBOX_EVENT, listQueued, type QueuedRequest } from "@/lib/offline-store"
+
+// Hook for the network state and the writes waiting to be sent
+export function useOfflineStatus() {
+  const [online, setOnline] = useState(true)
+  const [queued, setQueued] = useState<QueuedRequest[]>([])
+
+  const refreshQueue = useCallback(async () => {
+    setQueued(await listQueued())
+  }, [])
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine)
+    update()
+    refreshQueue()
+
+    window.addEventListener("online", update)
+    window.addEventListener("offline", update)
+    window.addEventListener(OUTBOX_EVENT, refreshQueue)
+    return () => {
+      window.removeEventListener("online", update)
+      window.removeEventListener("offline", update)
+      window.removeEventListener(OUTBOX_EVENT, refreshQueue)
+    }
+  }, [refreshQueue])
+
+  return { online, queued }
+}
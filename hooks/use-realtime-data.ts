@@ -1,10 +1,14 @@
 "use client"
 
 import { useState, useEffect, useCallback } from "react"
-import { getAgroAPI, type WeatherData, type NDVIData, type FieldData } from "@/lib/agrofarming-api"
+import { getAgroAPI, type FieldData } from "@/lib/agrofarming-api"
+import { getProviderRegistry } from "@/lib/provider-registry"
+import type { CurrentWeather, ForecastPeriod, VegetationIndex, VegetationIndexReading } from "@/lib/data-providers"
+
+const DAY_MS = 24 * 60 * 60 * 1000
 
 export function useWeatherData(lat: number, lng: number, refreshInterval = 300000) {
-  const [weatherData, setWeatherData] = useState<WeatherData | null>(null)
+  const [weatherData, setWeatherData] = useState<{ current: CurrentWeather; forecast: ForecastPeriod[] } | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -12,9 +16,12 @@ export function useWeatherData(lat: number, lng: number, refreshInterval = 30000
     try {
       setLoading(true)
       setError(null)
-      const api = getAgroAPI()
-      const data = await api.getWeatherData(lat, lng)
-      setWeatherData(data)
+      const registry = getProviderRegistry()
+      const [current, forecast] = await Promise.all([
+        registry.getCurrentWeather({ lat, lng }),
+        registry.getForecast({ lat, lng }).catch(() => []),
+      ])
+      setWeatherData({ current, forecast })
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to fetch weather data")
       console.error("[v0] Weather data fetch error:", err)
@@ -34,17 +41,32 @@ export function useWeatherData(lat: number, lng: number, refreshInterval = 30000
   return { weatherData, loading, error, refetch: fetchWeatherData }
 }
 
-export function useNDVIData(fieldId: string, refreshInterval = 86400000) {
-  const [ndviData, setNdviData] = useState<NDVIData[]>([])
+export function useNDVIData(
+  field: { lat: number; lng: number; polygonId?: string | null; externalId?: string | null } | null,
+  index: VegetationIndex = "NDVI",
+  days = 90,
+  refreshInterval = 86400000
+) {
+  const [ndviData, setNdviData] = useState<VegetationIndexReading[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
+  const lat = field?.lat
+  const lng = field?.lng
+  const polygonId = field?.polygonId
+  const externalId = field?.externalId
+
   const fetchNDVIData = useCallback(async () => {
+    if (lat === undefined || lng === undefined) return
+
     try {
       setLoading(true)
       setError(null)
-      const api = getAgroAPI()
-      const data = await api.getNDVIData(fieldId)
+      const to = new Date()
+      const data = await getProviderRegistry().getVegetationIndices(
+        { lat, lng, polygonId, externalId },
+        { index, from: new Date(to.getTime() - days * DAY_MS), to }
+      )
       setNdviData(data)
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to fetch NDVI data")
@@ -52,17 +74,17 @@ export function useNDVIData(fieldId: string, refreshInterval = 86400000) {
     } finally {
       setLoading(false)
     }
-  }, [fieldId])
+  }, [lat, lng, polygonId, externalId, index, days])
 
   useEffect(() => {
-    if (fieldId) {
+    if (lat !== undefined && lng !== undefined) {
       fetchNDVIData()
 
       // Set up automatic refresh (daily for satellite data)
       const interval = setInterval(fetchNDVIData, refreshInterval)
       return () => clearInterval(interval)
     }
-  }, [fetchNDVIData, refreshInterval])
+  }, [fetchNDVIData, refreshInterval, lat, lng])
 
   return { ndviData, loading, error, refetch: fetchNDVIData }
 }
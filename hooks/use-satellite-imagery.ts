@@ -0,0 +1,42 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import type { ProcessedImageryScene } from "@/lib/agromonitoring-api"
+
+// Hook for the satellite scenes available over one field, newest first
+export function useSatelliteImagery(fieldId: string | null, days = 90) {
+  const [scenes, setScenes] = useState<ProcessedImageryScene[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchScenes = useCallback(async () => {
+    if (!fieldId) {
+      setScenes([])
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/imagery?fieldId=${encodeURIComponent(fieldId)}&days=${days}`)
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to fetch satellite imagery")
+      }
+      setScenes(result.scenes as ProcessedImageryScene[])
+    } catch (err) {
+      console.error("Failed to fetch satellite imagery:", err)
+      setScenes([])
+      setError(err instanceof Error ? err.message : "Failed to fetch satellite imagery")
+    } finally {
+      setLoading(false)
+    }
+  }, [fieldId, days])
+
+  useEffect(() => {
+    fetchScenes()
+  }, [fetchScenes])
+
+  return { scenes, loading, error, refetch: fetchScenes }
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { withOfflineCopy, type DataFreshness } from "@/lib/offline-store"
+import type { FieldSprayPlan, SkippedSprayField, SprayProduct } from "@/lib/spray-windows"
+
+interface SprayWindowsResponse {
+  plans: FieldSprayPlan[]
+  skipped: SkippedSprayField[]
+  products: Record<SprayProduct, { label: string; rainfastHours: number }>
+}
+
+// Hook for the next 72 hours of spray windows on one field, for the chosen product type
+export function useSprayWindows(fieldId: string | null, product: SprayProduct) {
+  const [plan, setPlan] = useState<FieldSprayPlan | null>(null)
+  const [skipped, setSkipped] = useState<SkippedSprayField | null>(null)
+  const [products, setProducts] = useState<SprayWindowsResponse["products"] | null>(null)
+  const [freshness, setFreshness] = useState<DataFreshness | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchPlan = useCallback(async () => {
+    if (!fieldId) {
+      setPlan(null)
+      setSkipped(null)
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const query = `fieldId=${encodeURIComponent(fieldId)}&product=${product}`
+      const { data, ...planFreshness } = await withOfflineCopy(`spray-windows:${query}`, async () => {
+        const response = await fetch(`/api/spray-windows?${query}`)
+        const result = await response.json()
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to fetch spray windows")
+        }
+        return result as SprayWindowsResponse
+      })
+      setPlan(data.plans[0] || null)
+      setSkipped(data.skipped[0] || null)
+      setProducts(data.products)
+      setFreshness(planFreshness)
+    } catch (err) {
+      console.error("Failed to fetch spray windows:", err)
+      setError(err instanceof Error ? err.message : "Failed to fetch spray windows")
+    } finally {
+      setLoading(false)
+    }
+  }, [fieldId, product])
+
+  useEffect(() => {
+    fetchPlan()
+  }, [fetchPlan])
+
+  return { plan, skipped, products, freshness, loading, error, refetch: fetchPlan }
+}
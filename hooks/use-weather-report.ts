@@ -0,0 +1,43 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { withOfflineCopy, type DataFreshness } from "@/lib/offline-store"
+import type { WeatherReport } from "@/lib/weather-report"
+
+// Hook for the weather report of one field, or of the farmer's first field when none is selected
+export function useWeatherReport(fieldId: string | null) {
+  const [report, setReport] = useState<WeatherReport | null>(null)
+  const [freshness, setFreshness] = useState<DataFreshness | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      const query = fieldId ? `?fieldId=${encodeURIComponent(fieldId)}` : ""
+      const { data, ...reportFreshness } = await withOfflineCopy(`weather:${fieldId || "default"}`, async () => {
+        const response = await fetch(`/api/weather${query}`)
+        const result = await response.json()
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to fetch weather")
+        }
+        return result as WeatherReport
+      })
+      setReport(data)
+      setFreshness(reportFreshness)
+    } catch (err) {
+      console.error("Failed to fetch weather:", err)
+      setError(err instanceof Error ? err.message : "Failed to fetch weather")
+    } finally {
+      setLoading(false)
+    }
+  }, [fieldId])
+
+  useEffect(() => {
+    fetchReport()
+  }, [fetchReport])
+
+  return { report, freshness, loading, error, refetch: fetchReport }
+}
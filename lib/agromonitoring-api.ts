@@ -1,3 +1,5 @@
+import { buildForecast, type ForecastDay } from './weather-forecast'
+
 interface AgromonitoringConfig {
   apiKey: string
   baseUrl: string
@@ -48,13 +50,7 @@ interface ProcessedWeatherData {
     cloudCover: number
     feelsLike: number
   }
-  forecast: Array<{
-    date: string
-    high: number
-    low: number
-    description: string
-    precipitation: number
-  }>
+  forecast: ForecastDay[] // by the farmer's calendar day
 }
 
 interface NDVIHistoryResponse {
@@ -115,6 +111,7 @@ interface PolygonResponse {
   center: [number, number] // [lon, lat]
   area: number // hectares
   user_id: string
+  created_at: number // unix timestamp
 }
 
 // Soil data interfaces
@@ -159,6 +156,7 @@ interface WeatherForecastItem {
   clouds: {
     all: number
   }
+  pop?: number // probability of precipitation, 0-1
   rain?: {
     "3h": number
   }
@@ -167,6 +165,45 @@ interface WeatherForecastItem {
   }
 }
 
+// Weather history items are hourly, so rain may be reported per hour
+type WeatherHistoryItem = Omit<WeatherForecastItem, "rain"> & {
+  rain?: {
+    "1h"?: number
+    "3h"?: number
+  }
+}
+
+// Satellite imagery search: one scene per satellite pass over the polygon.
+// Image and tile URLs are already clipped to the polygon (transparent outside it).
+type SatelliteImageLayer = "truecolor" | "falsecolor" | "ndvi" | "evi" | "evi2" | "nri" | "dswi" | "ndwi"
+
+interface SatelliteImageryScene {
+  dt: number // unix timestamp of the pass
+  type: string // "Landsat 8", "Sentinel-2"
+  dc: number // valid data coverage of the polygon, %
+  cl: number // cloud coverage, %
+  sun: {
+    elevation: number
+    azimuth: number
+  }
+  image: Partial<Record<SatelliteImageLayer, string>> // PNG of the whole polygon
+  tile: Partial<Record<SatelliteImageLayer, string>> // XYZ template with {z}/{x}/{y}
+  stats: Partial<Record<SatelliteImageLayer, string>> // URL of per-index statistics
+  data: Partial<Record<SatelliteImageLayer, string>> // GeoTIFF
+}
+
+// Per-index statistics of one scene, fetched from its stats URL
+interface ImageryIndexStats {
+  std: number
+  p25: number
+  num: number
+  min: number
+  max: number
+  median: number
+  p75: number
+  mean: number
+}
+
 // Processed data interfaces for easier use
 interface ProcessedSoilData {
   date: string
@@ -183,6 +220,18 @@ interface ProcessedUVIData {
   riskLevel: string
 }
 
+type OverlayLayer = "truecolor" | "ndvi" | "evi"
+
+interface ProcessedImageryScene {
+  date: string
+  timestamp: number
+  satellite: string
+  cloudCover: number
+  dataCoverage: number
+  tiles: Record<OverlayLayer, string | null> // XYZ templates for map overlays
+  images: Record<OverlayLayer, string | null>
+}
+
 interface PolygonData {
   id: string
   name: string
@@ -333,6 +382,46 @@ class AgromonitoringAPI {
     return this.makeRequest<NDVIHistoryResponse[]>("/ndvi/history", params)
   }
 
+  // =============================================================================
+  // SATELLITE IMAGERY APIS
+  // =============================================================================
+
+  async searchSatelliteImagery(
+    polygonId: string,
+    startDate: number,
+    endDate: number,
+    options?: {
+      type?: 'l8' | 's2'
+      coverage_min?: number
+      clouds_max?: number
+    }
+  ): Promise<SatelliteImageryScene[]> {
+    return this.makeRequest<SatelliteImageryScene[]>("/image/search", {
+      polyid: polygonId,
+      start: startDate,
+      end: endDate,
+      ...options
+    })
+  }
+
+  // Stats URLs are absolute and already carry the API key
+  async getImageryStats(statsUrl: string): Promise<ImageryIndexStats> {
+    const response = await fetch(statsUrl.replace(/^http:\/\//, "https://"))
+    if (!response.ok) {
+      throw new Error(`Agromonitoring stats request failed: ${response.status} ${response.statusText}`)
+    }
+    return response.json()
+  }
+
+  // Data URLs serve the scene's index values as a GeoTIFF clipped to the polygon
+  async getImageryRaster(dataUrl: string): Promise<ArrayBuffer> {
+    const response = await fetch(dataUrl.replace(/^http:\/\//, "https://"))
+    if (!response.ok) {
+      throw new Error(`Agromonitoring raster request failed: ${response.status} ${response.statusText}`)
+    }
+    return response.arrayBuffer()
+  }
+
   // =============================================================================
   // POLYGON MANAGEMENT APIS
   // =============================================================================
@@ -434,6 +523,28 @@ class AgromonitoringAPI {
     })
   }
 
+  async getWeatherHistory(
+    lat: number,
+    lon: number,
+    startDate: number,
+    endDate: number,
+    units: string = "metric"
+  ): Promise<WeatherHistoryItem[]> {
+    if (startDate >= endDate) {
+      throw new Error('Start date must be before end date')
+    }
+
+    console.log(`[Agromonitoring] Fetching weather history for ${lat},${lon} from ${new Date(startDate * 1000).toISOString()} to ${new Date(endDate * 1000).toISOString()}`)
+
+    return this.makeRequest<WeatherHistoryItem[]>("/weather/history", {
+      lat,
+      lon,
+      start: startDate,
+      end: endDate,
+      units,
+    })
+  }
+
   // =============================================================================
   // SOIL DATA APIS
   // =============================================================================
@@ -524,6 +635,26 @@ class AgromonitoringAPI {
     }
   }
 
+  // Newest scene first, skipping passes that saw none of the polygon
+  processImageryScenes(rawData: SatelliteImageryScene[]): ProcessedImageryScene[] {
+    const layers: OverlayLayer[] = ["truecolor", "ndvi", "evi"]
+    // URLs come back as http://, which browsers block on an https page
+    const secure = (url?: string) => (url ? url.replace(/^http:\/\//, "https://") : null)
+
+    return rawData
+      .filter(scene => scene.dc > 0)
+      .sort((a, b) => b.dt - a.dt)
+      .map(scene => ({
+        date: new Date(scene.dt * 1000).toISOString().split('T')[0],
+        timestamp: scene.dt,
+        satellite: scene.type,
+        cloudCover: Math.round(scene.cl * 10) / 10,
+        dataCoverage: Math.round(scene.dc * 10) / 10,
+        tiles: Object.fromEntries(layers.map(layer => [layer, secure(scene.tile[layer])])) as Record<OverlayLayer, string | null>,
+        images: Object.fromEntries(layers.map(layer => [layer, secure(scene.image[layer])])) as Record<OverlayLayer, string | null>
+      }))
+  }
+
   processNDVIData(rawData: NDVIHistoryResponse[]): ProcessedNDVIData[] {
     return rawData.map(item => ({
       date: new Date(item.dt * 1000).toISOString().split('T')[0], // Convert unix timestamp to date string
@@ -553,15 +684,9 @@ class AgromonitoringAPI {
   // DATA PROCESSING UTILITIES
   // =============================================================================
 
-  processWeatherForecast(rawData: WeatherForecastItem[]): ProcessedWeatherData {
-    // Process forecast data into our format
-    const forecast = rawData.slice(0, 7).map(item => ({
-      date: new Date(item.dt * 1000).toLocaleDateString(),
-      high: Math.round(item.main.temp_max),
-      low: Math.round(item.main.temp_min),
-      description: item.weather[0]?.description || "Unknown",
-      precipitation: item.rain?.["3h"] || item.snow?.["3h"] || 0
-    }))
+  // Daily forecast grouped by the farmer's local day (DEFAULT_TIMEZONE when not given)
+  processWeatherForecast(rawData: WeatherForecastItem[], timezone?: string | null): ProcessedWeatherData {
+    const forecast = buildForecast(rawData, timezone).days
 
     // Use first item as current weather if available
     const current = rawData[0] ? {
@@ -752,5 +877,11 @@ export type {
   ProcessedSoilData,
   UVIData,
   ProcessedUVIData,
-  WeatherForecastItem
+  WeatherForecastItem,
+  WeatherHistoryItem,
+  SatelliteImageLayer,
+  SatelliteImageryScene,
+  ImageryIndexStats,
+  OverlayLayer,
+  ProcessedImageryScene
 }
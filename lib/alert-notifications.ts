@@ -0,0 +1,152 @@
+import type { FieldAlert, ScheduledJob, User } from '@prisma/client'
+import { prisma } from './prisma'
+import { getJobQueue, JobError } from './job-queue'
+import { getSMSProvider } from './sms-provider'
+import { TelegramAPIError, recordDeliveryFailure, sendTelegramMessage } from './telegram'
+
+export const ALERT_NOTIFY_JOB = 'field_alert_notify'
+
+// Channels a farmer can turn on for field alerts; the dashboard always shows them
+export const ALERT_CHANNELS = ['telegram', 'sms'] as const
+
+type AlertChannelName = (typeof ALERT_CHANNELS)[number]
+
+type AlertWithField = FieldAlert & { field: { name: string } }
+
+interface AlertNotifyJobPayload {
+  alertId: string
+}
+
+interface AlertChannel {
+  readonly name: AlertChannelName
+  /**
+   * Deliver the alert; returns false when the user can't be reached on this channel
+   */
+  send(user: User, alert: AlertWithField, job: ScheduledJob): Promise<boolean>
+}
+
+export function isAlertChannel(value: string): value is AlertChannelName {
+  return (ALERT_CHANNELS as readonly string[]).includes(value)
+}
+
+class TelegramAlertChannel implements AlertChannel {
+  readonly name = 'telegram'
+
+  async send(user: User, alert: AlertWithField, job: ScheduledJob): Promise<boolean> {
+    const subscription = await prisma.telegramSubscription.findUnique({ where: { userId: user.id } })
+    if (!subscription || !subscription.isActive) return false
+
+    const icon = alert.severity === 'critical' ? '🚨' : '⚠️'
+    // Weather and disease alerts are about the days ahead, crop health alerts about the latest satellite scene
+    const date = alert.observedAt.toISOString().split('T')[0]
+    const basis = alert.category === 'weather'
+      ? `Forecast of ${date}`
+      : alert.category === 'disease'
+        ? `Weather and forecast of ${date}`
+        : `Satellite scene of ${date}`
+    const text = `${icon} *${alert.title}* - ${alert.field.name}\n\n${alert.message}\n\n_${basis}. Send /alerts to see all open alerts._`
+
+    try {
+      await sendTelegramMessage(subscription.chatId, text)
+    } catch (error) {
+      await prisma.telegramDelivery.create({
+        data: {
+          kind: 'field_alert',
+          status: 'failed',
+          attempt: job.attempts,
+          error: (error instanceof Error ? error.message : String(error)).slice(0, 1000),
+          subscriptionId: subscription.id,
+          jobId: job.id
+        }
+      })
+      // Like the digest, only a send that won't be retried counts towards deactivating the chat
+      if ((error instanceof TelegramAPIError && error.isPermanent) || job.attempts >= job.maxAttempts) {
+        await recordDeliveryFailure(subscription.id, error)
+      }
+      throw error
+    }
+
+    await prisma.telegramDelivery.create({
+      data: { kind: 'field_alert', status: 'sent', attempt: job.attempts, subscriptionId: subscription.id, jobId: job.id }
+    })
+    return true
+  }
+}
+
+class SMSAlertChannel implements AlertChannel {
+  readonly name = 'sms'
+
+  async send(user: User, alert: AlertWithField): Promise<boolean> {
+    if (!user.phone) return false
+
+    const provider = getSMSProvider()
+    // MSG91 is set up with an OTP-only flow template and can't carry free text
+    if (provider.name === 'msg91') {
+      console.warn('[Alert Notifications] SMS provider msg91 only sends OTPs; skipping SMS alert')
+      return false
+    }
+
+    const text = `FarmSat: ${alert.title} in ${alert.field.name}. ${alert.message}`
+    await provider.sendSMS(user.phone, text.length > 320 ? `${text.slice(0, 317)}...` : text)
+    return true
+  }
+}
+
+const CHANNELS: Record<AlertChannelName, AlertChannel> = {
+  telegram: new TelegramAlertChannel(),
+  sms: new SMSAlertChannel()
+}
+
+/**
+ * Queue delivery of an alert to the farmer's channels. The severity is part of the dedupe key,
+ * so an alert that escalates to critical is sent again.
+ */
+export async function queueAlertNotification(alert: Pick<FieldAlert, 'id' | 'severity'>): Promise<boolean> {
+  return getJobQueue().enqueue(
+    ALERT_NOTIFY_JOB,
+    { alertId: alert.id },
+    { dedupeKey: `${ALERT_NOTIFY_JOB}:${alert.id}:${alert.severity}`, maxAttempts: 3 }
+  )
+}
+
+/**
+ * Job handler for ALERT_NOTIFY_JOB: send the alert through every channel the farmer enabled.
+ * Retried only when no channel delivered it, so nobody gets the same alert twice.
+ */
+export async function runAlertNotifyJob(job: ScheduledJob): Promise<void> {
+  const { alertId } = job.payload as unknown as AlertNotifyJobPayload
+
+  const alert = await prisma.fieldAlert.findUnique({
+    where: { id: alertId },
+    include: { field: { select: { name: true, farm: { select: { user: true } } } } }
+  })
+
+  // Resolved, acknowledged or expired since it was queued
+  if (!alert || alert.status !== 'open') return
+  if (alert.expiresAt && alert.expiresAt <= new Date()) return
+
+  const user = alert.field.farm.user
+  const channels = user.alertChannels.filter(isAlertChannel)
+  const delivered: string[] = []
+  const errors: string[] = []
+
+  for (const name of channels) {
+    try {
+      if (await CHANNELS[name].send(user, alert, job)) delivered.push(name)
+    } catch (error) {
+      console.error(`[Alert Notifications] ${name} delivery failed for alert ${alert.id}:`, error)
+      errors.push(`${name}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  if (delivered.length === 0 && errors.length > 0) {
+    throw new JobError(errors.join('; '))
+  }
+
+  if (delivered.length > 0) {
+    await prisma.fieldAlert.update({ where: { id: alert.id }, data: { notifiedAt: new Date() } })
+    console.log(`[Alert Notifications] Sent alert ${alert.id} via ${delivered.join(', ')}`)
+  }
+}
+
+export type { AlertChannelName, AlertChannel }
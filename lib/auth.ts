@@ -0,0 +1,243 @@
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import type { Session, User } from '@prisma/client'
+import { prisma } from './prisma'
+import { getSMSProvider } from './sms-provider'
+import { SESSION_COOKIE_NAME, SESSION_MAX_AGE_SECONDS, sessionCookieOptions } from './session-cookie'
+
+const OTP_LENGTH = 6
+const OTP_TTL_MS = 10 * 60 * 1000 // 10 minutes
+const OTP_MAX_ATTEMPTS = 5
+const OTP_RESEND_INTERVAL_MS = 60 * 1000 // 1 minute between codes per phone
+const SESSION_TOUCH_INTERVAL_MS = 60 * 60 * 1000 // update lastSeenAt at most hourly
+
+class AuthError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400
+  ) {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
+
+interface SessionWithUser {
+  session: Session
+  user: User
+}
+
+/**
+ * Normalize a phone number to E.164. Bare 10-digit numbers are treated as Indian (+91).
+ */
+export function normalizePhone(phone: string): string | null {
+  const trimmed = phone.trim()
+  const digits = trimmed.replace(/\D/g, '')
+
+  if (trimmed.startsWith('+') && digits.length >= 10 && digits.length <= 15) {
+    return `+${digits}`
+  }
+  if (digits.length === 10) {
+    return `+91${digits}`
+  }
+  if (digits.length === 12 && digits.startsWith('91')) {
+    return `+${digits}`
+  }
+  return null
+}
+
+function hashValue(value: string): string {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+function hashOtp(phone: string, code: string): string {
+  return hashValue(`${phone}:${code}:${process.env.AUTH_SECRET || ''}`)
+}
+
+class AuthService {
+  /**
+   * Generate an OTP for the phone number and send it through the configured SMS provider
+   */
+  async requestOtp(rawPhone: string): Promise<{ phone: string; expiresAt: Date }> {
+    const phone = normalizePhone(rawPhone)
+    if (!phone) {
+      throw new AuthError('Please enter a valid mobile number')
+    }
+
+    const recent = await prisma.otpChallenge.findFirst({
+      where: {
+        phone,
+        createdAt: { gt: new Date(Date.now() - OTP_RESEND_INTERVAL_MS) }
+      }
+    })
+    if (recent) {
+      throw new AuthError('An OTP was sent recently. Please wait a minute before requesting another.', 429)
+    }
+
+    const code = randomInt(0, 10 ** OTP_LENGTH).toString().padStart(OTP_LENGTH, '0')
+    const expiresAt = new Date(Date.now() + OTP_TTL_MS)
+
+    // Any earlier unused codes for this phone stop being valid
+    await prisma.otpChallenge.updateMany({
+      where: { phone, consumedAt: null },
+      data: { consumedAt: new Date() }
+    })
+
+    await prisma.otpChallenge.create({
+      data: {
+        phone,
+        codeHash: hashOtp(phone, code),
+        expiresAt
+      }
+    })
+
+    await getSMSProvider().sendSMS(phone, `${code} is your KisanMitr login code. It expires in 10 minutes.`)
+    console.log('[Auth] OTP sent to:', `${phone.slice(0, -4)}****`)
+
+    return { phone, expiresAt }
+  }
+
+  /**
+   * Check an OTP and, if valid, find or create the user and open a new session.
+   * Returns the raw session token, which is only ever sent to the client as a cookie.
+   */
+  async verifyOtp(rawPhone: string, code: string, userAgent?: string | null) {
+    const phone = normalizePhone(rawPhone)
+    if (!phone || !code) {
+      throw new AuthError('Mobile number and OTP are required')
+    }
+
+    const challenge = await prisma.otpChallenge.findFirst({
+      where: { phone, consumedAt: null },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    if (!challenge || challenge.expiresAt < new Date()) {
+      throw new AuthError('OTP has expired. Please request a new one.', 401)
+    }
+
+    // Every guess takes an attempt before it is compared, so concurrent guesses can't pass the cap together
+    const counted = await prisma.otpChallenge.updateMany({
+      where: { id: challenge.id, consumedAt: null, attempts: { lt: OTP_MAX_ATTEMPTS } },
+      data: { attempts: { increment: 1 } }
+    })
+    if (counted.count === 0) {
+      throw new AuthError('Too many incorrect attempts. Please request a new OTP.', 429)
+    }
+
+    const expected = Buffer.from(challenge.codeHash, 'hex')
+    const actual = Buffer.from(hashOtp(phone, code.trim()), 'hex')
+
+    if (!timingSafeEqual(expected, actual)) {
+      throw new AuthError('Incorrect OTP. Please try again.', 401)
+    }
+
+    // Only one request can consume the code
+    const consumed = await prisma.otpChallenge.updateMany({
+      where: { id: challenge.id, consumedAt: null },
+      data: { consumedAt: new Date() }
+    })
+    if (consumed.count === 0) {
+      throw new AuthError('OTP has already been used. Please request a new one.', 401)
+    }
+
+    const user = await prisma.user.upsert({
+      where: { phone },
+      update: {},
+      create: {
+        phone,
+        email: `${phone.replace(/\D/g, '')}@farmsat.temp` // Temporary email, phone is the login identifier
+      },
+      include: { farmerProfile: true }
+    })
+
+    const token = randomBytes(32).toString('hex')
+    const session = await prisma.session.create({
+      data: {
+        tokenHash: hashValue(token),
+        userId: user.id,
+        userAgent: userAgent || null,
+        expiresAt: new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000)
+      }
+    })
+
+    console.log('[Auth] Session created for user:', user.id)
+    return { token, session, user }
+  }
+
+  /**
+   * Resolve a session token to its user, or null if missing/expired
+   */
+  async getSessionByToken(token: string): Promise<SessionWithUser | null> {
+    const session = await prisma.session.findUnique({
+      where: { tokenHash: hashValue(token) },
+      include: { user: true }
+    })
+
+    if (!session) return null
+
+    if (session.expiresAt < new Date()) {
+      await prisma.session.delete({ where: { id: session.id } }).catch(() => {})
+      return null
+    }
+
+    if (Date.now() - session.lastSeenAt.getTime() > SESSION_TOUCH_INTERVAL_MS) {
+      await prisma.session
+        .update({ where: { id: session.id }, data: { lastSeenAt: new Date() } })
+        .catch(() => {})
+    }
+
+    const { user, ...sessionData } = session
+    return { session: sessionData, user }
+  }
+
+  async revokeSession(token: string): Promise<void> {
+    await prisma.session.deleteMany({
+      where: { tokenHash: hashValue(token) }
+    })
+  }
+}
+
+// Singleton instance
+let authService: AuthService | null = null
+
+export function getAuthService(): AuthService {
+  if (!authService) {
+    authService = new AuthService()
+  }
+  return authService
+}
+
+/**
+ * Resolve the logged-in user for an API request from the session cookie
+ */
+export async function getSessionUser(request: NextRequest): Promise<SessionWithUser | null> {
+  const token = request.cookies.get(SESSION_COOKIE_NAME)?.value
+  if (!token) return null
+
+  try {
+    return await getAuthService().getSessionByToken(token)
+  } catch (error) {
+    console.error('[Auth] Failed to resolve session:', error)
+    return null
+  }
+}
+
+export function unauthorizedResponse() {
+  return NextResponse.json(
+    { error: 'Please log in to continue' },
+    { status: 401 }
+  )
+}
+
+export function setSessionCookie(response: NextResponse, token: string) {
+  response.cookies.set(SESSION_COOKIE_NAME, token, sessionCookieOptions)
+  return response
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE_NAME, '', { ...sessionCookieOptions, maxAge: 0 })
+  return response
+}
+
+export { AuthError }
+export type { SessionWithUser }
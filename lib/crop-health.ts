@@ -0,0 +1,495 @@
+import type { CropSeason, Field, FieldAlert, Prisma, ScheduledJob } from '@prisma/client'
+import { prisma } from './prisma'
+import { getJobQueue } from './job-queue'
+import { getNDVIIngestionService } from './ndvi-ingestion'
+import { cleanNDVISeries, type CleanedNDVISeries } from './ndvi-cleaning'
+import { daysSinceSowing } from './crop-seasons'
+import { findCropCalendar, getGrowthStageService, type CropCalendar, type GrowthStage } from './growth-stages'
+import { queueAlertNotification } from './alert-notifications'
+
+export const CROP_HEALTH_CHECK_JOB = 'crop_health_check'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const CHECK_DELAY_MS = 2 * 60 * 60 * 1000 // after the day's NDVI sync jobs have run
+const FRESH_SCENE_DAYS = 12 // no verdict on a trend whose latest usable scene is older than this
+const NO_SEASON_HISTORY_DAYS = 60
+
+// Sudden drop: fall from the recent peak beyond what the crop curve expects
+const DROP_WINDOW_DAYS = 21
+const DROP_MIN = 0.1
+const DROP_MIN_SHARE = 0.15 // of the recent peak
+const DROP_CRITICAL = 0.2
+
+// Stalled growth: less than this share of the expected green-up over the window
+const STALL_WINDOW_DAYS = 21
+const STALL_MIN_EXPECTED_RISE = 0.08
+const STALL_SHARE = 0.25
+
+// Below the expected curve, once the canopy should have closed
+const EXPECTED_TOLERANCE = 0.2
+const EXPECTED_CRITICAL = 0.3
+
+// Below the field's own past seasons at the same point after sowing
+const PAST_TOLERANCE = 0.12
+const PAST_CRITICAL = 0.25
+const PAST_MATCH_DAYS = 7
+const MAX_PAST_SEASONS = 3
+
+// Field-mean NDVI at canopy peak for a healthy crop; crops not listed use DEFAULT_PEAK_NDVI
+const PEAK_NDVI: Record<string, number> = {
+  Bajra: 0.7,
+  Jowar: 0.72,
+  Cotton: 0.75,
+  Groundnut: 0.72,
+  Tomato: 0.7
+}
+const DEFAULT_PEAK_NDVI = 0.8
+const BARE_SOIL_NDVI = 0.2
+
+type AlertType = 'sudden_drop' | 'stalled_growth' | 'below_expected' | 'below_past_seasons'
+type AlertSeverity = 'warning' | 'critical'
+
+interface CropCurveContext {
+  cropName: string
+  stage: string | null
+  developmentDay: number // days after sowing, scaled by growing degree days when weather allows
+  seasonLength: number // end of the crop calendar's last stage, in days
+  peakNdvi: number
+}
+
+interface PastSeasonSeries {
+  sowingDate: string
+  series: CleanedNDVISeries
+}
+
+interface CropHealthInput {
+  today: string
+  series: CleanedNDVISeries // current season, or the last couple of months without one
+  crop: CropCurveContext | null // null without an active season on a known crop
+  pastSeasons: PastSeasonSeries[] // harvested seasons of the same crop on this field
+  sowingDate: string | null
+}
+
+interface DetectedAnomaly {
+  type: AlertType
+  severity: AlertSeverity
+  title: string
+  message: string
+  metrics: Record<string, number | string | null>
+}
+
+interface CropHealthCheckResult {
+  fieldId: string
+  evaluated: boolean // false when there was no recent usable scene
+  observedAt: string | null
+  anomalies: DetectedAnomaly[]
+  created: number
+  updated: number
+  resolved: number
+}
+
+function dayNumber(date: string): number {
+  return Math.round(new Date(`${date}T00:00:00.000Z`).getTime() / DAY_MS)
+}
+
+function round(value: number, decimals: number = 3): number {
+  return Number(value.toFixed(decimals))
+}
+
+function smoothstep(from: number, to: number, x: number): number {
+  const t = Math.min(1, Math.max(0, (x - from) / (to - from)))
+  return t * t * (3 - 2 * t)
+}
+
+/**
+ * Expected field-mean NDVI for a healthy crop at a point in its season: bare soil at sowing,
+ * green-up to the canopy peak by about half the season, a plateau through flowering, then
+ * senescence down to roughly a third of the way back to bare soil at maturity.
+ */
+export function expectedNDVI(crop: Pick<CropCurveContext, 'seasonLength' | 'peakNdvi'>, developmentDay: number): number {
+  const fraction = developmentDay / crop.seasonLength
+  const amplitude = crop.peakNdvi - BARE_SOIL_NDVI
+  const greenUp = smoothstep(0.05, 0.5, fraction)
+  const senescence = smoothstep(0.75, 1, fraction) * 0.65
+  return BARE_SOIL_NDVI + amplitude * (greenUp - senescence)
+}
+
+/**
+ * Development day on the crop calendar: stage start plus progress through the current stage,
+ * so a season running ahead or behind on heat units is compared with the right part of the curve
+ */
+export function developmentDay(calendar: CropCalendar, growthStage: GrowthStage | null, daysAfterSowing: number): number {
+  if (!growthStage) return daysAfterSowing
+  if (growthStage.mature) return Math.max(daysAfterSowing, calendar.stages[calendar.stages.length - 1].endDay)
+  const start = growthStage.stageIndex > 0 ? calendar.stages[growthStage.stageIndex - 1].endDay : 0
+  const end = calendar.stages[growthStage.stageIndex].endDay
+  return start + ((end - start) * growthStage.stageProgress) / 100
+}
+
+/**
+ * Smoothed value on the given day, or the nearest day within maxDistance
+ */
+function valueNear(series: CleanedNDVISeries, day: number, maxDistance: number): number | null {
+  let best: { distance: number; value: number } | null = null
+  for (const point of series.daily) {
+    const distance = Math.abs(dayNumber(point.date) - day)
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { distance, value: point.value }
+    }
+  }
+  return best ? best.value : null
+}
+
+/**
+ * Compare a field's cleaned NDVI trajectory with the expected crop curve and its own past seasons.
+ * Returns nothing when the latest usable scene is too old to say anything about the crop now.
+ */
+export function detectNDVIAnomalies(input: CropHealthInput): DetectedAnomaly[] {
+  const { series, crop, today } = input
+  const daily = series.daily
+  if (daily.length === 0) return []
+
+  const latest = daily[daily.length - 1]
+  const latestDay = dayNumber(latest.date)
+  if (dayNumber(today) - latestDay > FRESH_SCENE_DAYS) return []
+
+  const anomalies: DetectedAnomaly[] = []
+  const current = latest.value
+  // Development day of any date, assuming the recent pace continues
+  const cropDay = crop ? (day: number) => crop.developmentDay - (dayNumber(today) - day) : null
+  const cropPhrase = crop ? `${crop.cropName}${crop.stage ? ` at ${crop.stage.toLowerCase()}` : ''}` : 'the crop'
+
+  // Sudden drop: recent peak against the latest clear scenes, less any decline the crop curve
+  // expects (senescence). Scenes rather than the smoothed value, which lags behind a sharp fall.
+  const scenes = daily.filter((point) => point.raw !== undefined).map((point) => ({ date: point.date, value: point.raw! }))
+  const window = scenes.filter((point) => {
+    const day = dayNumber(point.date)
+    return day >= latestDay - DROP_WINDOW_DAYS && day <= latestDay - 3
+  })
+  const recentScenes = scenes.filter((point) => dayNumber(point.date) > latestDay - 3)
+  const recent = recentScenes.reduce((sum, point) => sum + point.value, 0) / recentScenes.length
+  if (window.length > 0) {
+    const peak = window.reduce((best, point) => (point.value > best.value ? point : best))
+    const drop = peak.value - recent
+    const expectedDrop = crop && cropDay
+      ? Math.max(0, expectedNDVI(crop, cropDay(dayNumber(peak.date))) - expectedNDVI(crop, cropDay(latestDay)))
+      : 0
+    const excess = drop - expectedDrop
+    if (excess >= DROP_MIN && excess >= DROP_MIN_SHARE * peak.value) {
+      const days = latestDay - dayNumber(peak.date)
+      anomalies.push({
+        type: 'sudden_drop',
+        severity: excess >= DROP_CRITICAL ? 'critical' : 'warning',
+        title: 'Sudden drop in crop health',
+        message: `NDVI fell from ${peak.value.toFixed(2)} to ${recent.toFixed(2)} in ${days} days${expectedDrop > 0.02 ? `, more than the ${expectedDrop.toFixed(2)} expected as the crop matures` : ''}. Check the field for water stress, pest or disease damage, lodging or flooding. If you have harvested, record the harvest in Crop Seasons.`,
+        metrics: {
+          peak: round(peak.value),
+          peakDate: peak.date,
+          current: round(recent),
+          drop: round(drop),
+          expectedDrop: round(expectedDrop),
+          days
+        }
+      })
+    }
+  }
+
+  if (crop && cropDay) {
+    const expectedNow = expectedNDVI(crop, cropDay(latestDay))
+
+    // Stalled growth: the crop should be greening up but the canopy isn't growing
+    const start = daily.find((point) => dayNumber(point.date) >= latestDay - STALL_WINDOW_DAYS)
+    const startDay = start ? dayNumber(start.date) : latestDay
+    const observedScenes = daily.filter((point) => point.observed && dayNumber(point.date) >= startDay).length
+    if (start && latestDay - startDay >= STALL_WINDOW_DAYS - 3 && observedScenes >= 2) {
+      const expectedRise = expectedNow - expectedNDVI(crop, cropDay(startDay))
+      const observedRise = current - start.value
+      if (
+        expectedRise >= STALL_MIN_EXPECTED_RISE &&
+        observedRise < STALL_SHARE * expectedRise &&
+        current < expectedNow - 0.05 &&
+        !anomalies.some((anomaly) => anomaly.type === 'sudden_drop')
+      ) {
+        anomalies.push({
+          type: 'stalled_growth',
+          severity: current < expectedNow - EXPECTED_CRITICAL ? 'critical' : 'warning',
+          title: 'Crop growth has stalled',
+          message: `NDVI changed by ${observedRise >= 0 ? '+' : ''}${observedRise.toFixed(2)} over the last ${latestDay - startDay} days, while ${cropPhrase} normally gains about ${expectedRise.toFixed(2)}. Check for nutrient shortage, water stress, weeds or poor establishment.`,
+          metrics: {
+            current: round(current),
+            startValue: round(start.value),
+            observedRise: round(observedRise),
+            expectedRise: round(expectedRise),
+            expected: round(expectedNow),
+            days: latestDay - startDay
+          }
+        })
+      }
+    }
+
+    // Below the expected curve once the canopy should be established
+    const fraction = cropDay(latestDay) / crop.seasonLength
+    const shortfall = expectedNow - current
+    if (fraction >= 0.3 && fraction <= 0.9 && shortfall >= EXPECTED_TOLERANCE) {
+      anomalies.push({
+        type: 'below_expected',
+        severity: shortfall >= EXPECTED_CRITICAL ? 'critical' : 'warning',
+        title: 'Crop health below expected for this stage',
+        message: `NDVI is ${current.toFixed(2)}; a healthy ${cropPhrase} is usually around ${expectedNow.toFixed(2)}. Look for thin or patchy stands, nutrient deficiency or water stress.`,
+        metrics: {
+          current: round(current),
+          expected: round(expectedNow),
+          shortfall: round(shortfall),
+          developmentDay: Math.round(cropDay(latestDay)),
+          stage: crop.stage
+        }
+      })
+    }
+  }
+
+  // Below this field's own past seasons at the same number of days after sowing
+  if (input.sowingDate && input.pastSeasons.length > 0) {
+    const daysAfterSowing = latestDay - dayNumber(input.sowingDate)
+    const past = input.pastSeasons
+      .map((season) => ({
+        sowingDate: season.sowingDate,
+        value: valueNear(season.series, dayNumber(season.sowingDate) + daysAfterSowing, PAST_MATCH_DAYS)
+      }))
+      .filter((season): season is { sowingDate: string; value: number } => season.value !== null)
+
+    if (daysAfterSowing >= 20 && past.length > 0) {
+      const pastMean = past.reduce((sum, season) => sum + season.value, 0) / past.length
+      const pastMin = Math.min(...past.map((season) => season.value))
+      const gap = pastMean - current
+      if (gap >= PAST_TOLERANCE && current < pastMin - 0.03) {
+        anomalies.push({
+          type: 'below_past_seasons',
+          severity: gap >= PAST_CRITICAL ? 'critical' : 'warning',
+          title: 'Crop behind previous seasons',
+          message: `${daysAfterSowing} days after sowing NDVI is ${current.toFixed(2)}, against ${pastMean.toFixed(2)} at the same point in ${past.length === 1 ? 'the previous season' : `the previous ${past.length} seasons`} on this field.`,
+          metrics: {
+            current: round(current),
+            pastMean: round(pastMean),
+            pastMin: round(pastMin),
+            gap: round(gap),
+            daysAfterSowing,
+            seasons: past.length
+          }
+        })
+      }
+    }
+  }
+
+  return anomalies
+}
+
+class CropHealthService {
+  /**
+   * Run anomaly detection on a field and bring its alerts up to date: new problems raise an
+   * alert (and notify the farmer), ongoing ones are refreshed, and cleared ones are resolved.
+   */
+  async checkField(fieldId: string, now: Date = new Date()): Promise<CropHealthCheckResult> {
+    const field = await prisma.field.findUnique({ where: { id: fieldId } })
+    if (!field) {
+      return { fieldId, evaluated: false, observedAt: null, anomalies: [], created: 0, updated: 0, resolved: 0 }
+    }
+
+    const input = await this.buildInput(field, now)
+    const latest = input.series.daily[input.series.daily.length - 1]
+    const evaluated = !!latest && dayNumber(input.today) - dayNumber(latest.date) <= FRESH_SCENE_DAYS
+    const anomalies = detectNDVIAnomalies(input)
+    const result: CropHealthCheckResult = {
+      fieldId,
+      evaluated,
+      observedAt: latest?.date || null,
+      anomalies,
+      created: 0,
+      updated: 0,
+      resolved: 0
+    }
+    if (!evaluated) return result
+
+    const active = await prisma.fieldAlert.findMany({
+      where: { fieldId, category: 'crop_health', status: { in: ['open', 'acknowledged'] } }
+    })
+    const observedAt = new Date(`${latest.date}T00:00:00.000Z`)
+
+    for (const anomaly of anomalies) {
+      const data = {
+        severity: anomaly.severity,
+        title: anomaly.title,
+        message: anomaly.message,
+        metrics: anomaly.metrics as Prisma.InputJsonValue,
+        observedAt
+      }
+      const existing = active.find((alert) => alert.type === anomaly.type)
+
+      if (!existing) {
+        const alert = await prisma.fieldAlert.create({ data: { ...data, type: anomaly.type, fieldId } })
+        await queueAlertNotification(alert)
+        result.created++
+        continue
+      }
+
+      // A problem that gets worse is reopened and sent again, even if it was acknowledged
+      const escalated = existing.severity === 'warning' && anomaly.severity === 'critical'
+      const alert: FieldAlert = await prisma.fieldAlert.update({
+        where: { id: existing.id },
+        data: { ...data, ...(escalated && { status: 'open', acknowledgedAt: null }) }
+      })
+      if (escalated) await queueAlertNotification(alert)
+      result.updated++
+    }
+
+    const cleared = active.filter((alert) => !anomalies.some((anomaly) => anomaly.type === alert.type))
+    if (cleared.length > 0) {
+      const { count } = await prisma.fieldAlert.updateMany({
+        where: { id: { in: cleared.map((alert) => alert.id) } },
+        data: { status: 'resolved', resolvedAt: now }
+      })
+      result.resolved = count
+    }
+
+    if (result.created || result.updated || result.resolved) {
+      console.log(`[Crop Health] Field ${fieldId}: ${result.created} new, ${result.updated} ongoing, ${result.resolved} resolved alert(s)`)
+    }
+    return result
+  }
+
+  /**
+   * Cleaned NDVI of the active season, the expected crop curve, and the same crop's past seasons
+   */
+  private async buildInput(field: Field, now: Date): Promise<CropHealthInput> {
+    const ingestion = getNDVIIngestionService()
+    const today = now.toISOString().split('T')[0]
+
+    const season = await prisma.cropSeason.findFirst({
+      where: { fieldId: field.id, actualHarvestDate: null },
+      orderBy: { sowingDate: 'desc' }
+    })
+    const calendar = season ? findCropCalendar(season.cropName) : null
+
+    const history = await ingestion.getHistory(field.id, season
+      ? { since: season.sowingDate }
+      : { daysBack: NO_SEASON_HISTORY_DAYS })
+    const series = cleanNDVISeries(history)
+
+    let crop: CropCurveContext | null = null
+    if (season && calendar) {
+      const growthStage = await getGrowthStageService().getStageForSeason(field, season).catch((error) => {
+        console.warn(`[Crop Health] Growth stage unavailable for field ${field.id}, using days after sowing:`, error)
+        return null
+      })
+      crop = {
+        cropName: calendar.crop,
+        stage: growthStage?.stage || null,
+        developmentDay: developmentDay(calendar, growthStage, daysSinceSowing(season, now)),
+        seasonLength: calendar.stages[calendar.stages.length - 1].endDay,
+        peakNdvi: PEAK_NDVI[calendar.crop] ?? DEFAULT_PEAK_NDVI
+      }
+    }
+
+    return {
+      today,
+      series,
+      crop,
+      pastSeasons: season ? await this.getPastSeasonSeries(field.id, season, calendar) : [],
+      sowingDate: season ? season.sowingDate.toISOString().split('T')[0] : null
+    }
+  }
+
+  /**
+   * Cleaned NDVI of the field's harvested seasons of the same crop, most recent first
+   */
+  private async getPastSeasonSeries(
+    fieldId: string,
+    season: CropSeason,
+    calendar: CropCalendar | null
+  ): Promise<PastSeasonSeries[]> {
+    const harvested = await prisma.cropSeason.findMany({
+      where: { fieldId, actualHarvestDate: { not: null }, sowingDate: { lt: season.sowingDate } },
+      orderBy: { sowingDate: 'desc' }
+    })
+    const sameCrop = harvested
+      .filter((past) => calendar
+        ? findCropCalendar(past.cropName)?.crop === calendar.crop
+        : past.cropName.trim().toLowerCase() === season.cropName.trim().toLowerCase())
+      .slice(0, MAX_PAST_SEASONS)
+
+    const ingestion = getNDVIIngestionService()
+    const results = await Promise.all(sameCrop.map(async (past) => ({
+      sowingDate: past.sowingDate.toISOString().split('T')[0],
+      series: cleanNDVISeries(await ingestion.getHistory(fieldId, { since: past.sowingDate, until: past.actualHarvestDate! }))
+    })))
+    return results.filter((past) => past.series.daily.length > 0)
+  }
+
+  /**
+   * Crop health and weather alerts on the user's fields, newest first; open and acknowledged ones
+   * unless includeResolved. Weather alerts whose event is over count as expired even before the
+   * next weather check marks them so.
+   */
+  async getAlertsForUser(userId: string, options: { fieldId?: string; includeResolved?: boolean } = {}) {
+    return prisma.fieldAlert.findMany({
+      where: {
+        field: { farm: { userId } },
+        ...(options.fieldId && { fieldId: options.fieldId }),
+        ...(!options.includeResolved && {
+          status: { in: ['open', 'acknowledged'] },
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }]
+        })
+      },
+      include: { field: { select: { id: true, name: true } } },
+      orderBy: [{ observedAt: 'desc' }, { createdAt: 'desc' }],
+      take: 100
+    })
+  }
+
+  /**
+   * Queue a check per field with NDVI data, a couple of hours after the day's NDVI sync is queued
+   */
+  async scheduleDailyCheck(now: Date = new Date()): Promise<number> {
+    const fields = await prisma.field.findMany({
+      where: { ndviSyncedAt: { not: null } },
+      select: { id: true }
+    })
+    const day = now.toISOString().split('T')[0]
+    const jobQueue = getJobQueue()
+    let queued = 0
+
+    for (const field of fields) {
+      const created = await jobQueue.enqueue(
+        CROP_HEALTH_CHECK_JOB,
+        { fieldId: field.id },
+        {
+          dedupeKey: `${CROP_HEALTH_CHECK_JOB}:${field.id}:${day}`,
+          runAt: new Date(now.getTime() + CHECK_DELAY_MS),
+          maxAttempts: 3
+        }
+      )
+      if (created) queued++
+    }
+
+    return queued
+  }
+}
+
+// Singleton instance
+let cropHealthService: CropHealthService | null = null
+
+export function getCropHealthService(): CropHealthService {
+  if (!cropHealthService) {
+    cropHealthService = new CropHealthService()
+  }
+  return cropHealthService
+}
+
+/**
+ * Job handler for CROP_HEALTH_CHECK_JOB
+ */
+export async function runCropHealthCheckJob(job: ScheduledJob): Promise<void> {
+  const { fieldId } = job.payload as { fieldId: string }
+  await getCropHealthService().checkField(fieldId)
+}
+
+export type { AlertType, AlertSeverity, CropCurveContext, CropHealthInput, DetectedAnomaly, CropHealthCheckResult }
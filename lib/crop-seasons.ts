@@ -0,0 +1,255 @@
+import type { CropSeason } from '@prisma/client'
+import { prisma } from './prisma'
+
+interface CropSeasonInput {
+  cropName?: string
+  variety?: string | null
+  sowingDate?: string | Date
+  expectedHarvestDate?: string | Date | null
+  actualHarvestDate?: string | Date | null
+  yield?: number | string | null
+}
+
+type CropSeasonWithField = CropSeason & { field: { id: string; name: string; area: number | null } }
+
+/**
+ * Thrown for invalid season input or conflicting seasons; status is the HTTP status to return
+ */
+class CropSeasonError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400
+  ) {
+    super(message)
+    this.name = 'CropSeasonError'
+  }
+}
+
+function parseOptionalDate(value: string | Date | null | undefined, label: string): Date | null | undefined {
+  if (value === undefined) return undefined
+  if (value === null || value === '') return null
+
+  const date = new Date(value)
+  if (isNaN(date.getTime())) {
+    throw new CropSeasonError(`${label} is not a valid date`)
+  }
+  return date
+}
+
+function parseOptionalText(value: unknown, label: string): string | null | undefined {
+  if (value === undefined) return undefined
+  if (value === null) return null
+  if (typeof value !== 'string') {
+    throw new CropSeasonError(`${label} must be text`)
+  }
+  return value.trim() || null
+}
+
+function parseOptionalYield(value: number | string | null | undefined): number | null | undefined {
+  if (value === undefined) return undefined
+  if (value === null || value === '') return null
+
+  const parsed = typeof value === 'number' ? value : parseFloat(value)
+  if (isNaN(parsed) || parsed < 0) {
+    throw new CropSeasonError('Yield must be a positive number (tons per hectare)')
+  }
+  return parsed
+}
+
+function checkSeasonDates(sowingDate: Date, expectedHarvestDate?: Date | null, actualHarvestDate?: Date | null) {
+  if (expectedHarvestDate && expectedHarvestDate <= sowingDate) {
+    throw new CropSeasonError('Expected harvest date must be after the sowing date')
+  }
+  if (actualHarvestDate && actualHarvestDate < sowingDate) {
+    throw new CropSeasonError('Harvest date cannot be before the sowing date')
+  }
+  if (actualHarvestDate && actualHarvestDate > new Date()) {
+    throw new CropSeasonError('Harvest date cannot be in the future')
+  }
+}
+
+/**
+ * Validate input for a new season. Throws CropSeasonError, so callers can check input
+ * before writing anything else.
+ */
+export function parseNewSeason(input: CropSeasonInput) {
+  const cropName = parseOptionalText(input.cropName, 'Crop name')
+  if (!cropName) {
+    throw new CropSeasonError('Crop name is required')
+  }
+  const sowingDate = parseOptionalDate(input.sowingDate, 'Sowing date')
+  if (!sowingDate) {
+    throw new CropSeasonError('Sowing date is required')
+  }
+  const expectedHarvestDate = parseOptionalDate(input.expectedHarvestDate, 'Expected harvest date') ?? null
+  const actualHarvestDate = parseOptionalDate(input.actualHarvestDate, 'Actual harvest date') ?? null
+
+  checkSeasonDates(sowingDate, expectedHarvestDate, actualHarvestDate)
+
+  return {
+    cropName,
+    variety: parseOptionalText(input.variety, 'Variety') ?? null,
+    sowingDate,
+    expectedHarvestDate,
+    actualHarvestDate,
+    yield: parseOptionalYield(input.yield) ?? null
+  }
+}
+
+/**
+ * Whole days between sowing and the given date
+ */
+export function daysSinceSowing(season: Pick<CropSeason, 'sowingDate'>, now: Date = new Date()): number {
+  return Math.floor((now.getTime() - season.sowingDate.getTime()) / (24 * 60 * 60 * 1000))
+}
+
+class CropSeasonService {
+  /**
+   * The field's current season: the latest one not harvested yet
+   */
+  async getActiveSeason(fieldId: string): Promise<CropSeason | null> {
+    return prisma.cropSeason.findFirst({
+      where: { fieldId, actualHarvestDate: null },
+      orderBy: { sowingDate: 'desc' }
+    })
+  }
+
+  /**
+   * Active seasons for the given fields, keyed by field ID
+   */
+  async getActiveSeasons(fieldIds: string[]): Promise<Map<string, CropSeason>> {
+    const seasons = await prisma.cropSeason.findMany({
+      where: { fieldId: { in: fieldIds }, actualHarvestDate: null },
+      orderBy: { sowingDate: 'asc' }
+    })
+    // Ordered oldest first, so the latest open season per field wins
+    return new Map(seasons.map((season) => [season.fieldId, season]))
+  }
+
+  /**
+   * Harvested seasons for the given fields, most recent harvest first
+   */
+  async getPastSeasons(fieldIds: string[], limit: number = 10): Promise<CropSeasonWithField[]> {
+    return prisma.cropSeason.findMany({
+      where: { fieldId: { in: fieldIds }, actualHarvestDate: { not: null } },
+      orderBy: { actualHarvestDate: 'desc' },
+      take: limit,
+      include: { field: { select: { id: true, name: true, area: true } } }
+    })
+  }
+
+  /**
+   * All seasons of a field, newest first
+   */
+  async listSeasons(fieldId: string): Promise<CropSeason[]> {
+    return prisma.cropSeason.findMany({
+      where: { fieldId },
+      orderBy: { sowingDate: 'desc' }
+    })
+  }
+
+  /**
+   * Start a new season on a field. The previous season has to be harvested first so the
+   * field never has two crops active at once.
+   */
+  async startSeason(fieldId: string, input: CropSeasonInput): Promise<CropSeason> {
+    const { cropName, variety, sowingDate, expectedHarvestDate, actualHarvestDate, yield: yieldValue } = parseNewSeason(input)
+
+    // Recording an already harvested season (for history) does not conflict with the active one
+    if (!actualHarvestDate) {
+      const active = await this.getActiveSeason(fieldId)
+      if (active) {
+        throw new CropSeasonError(
+          `This field already has an active ${active.cropName} season. Record its harvest before starting a new one.`,
+          409
+        )
+      }
+    }
+
+    const season = await prisma.cropSeason.create({
+      data: {
+        fieldId,
+        cropName,
+        variety,
+        sowingDate,
+        expectedHarvestDate,
+        actualHarvestDate,
+        yield: yieldValue
+      }
+    })
+
+    // Field.cropType mirrors the active season for code that only looks at the field
+    if (!actualHarvestDate) {
+      await prisma.field.update({ where: { id: fieldId }, data: { cropType: cropName } })
+    }
+
+    console.log(`[Crop Seasons] Started ${cropName} season on field ${fieldId}`)
+    return season
+  }
+
+  /**
+   * Update a season, e.g. to record its harvest date and yield
+   */
+  async updateSeason(seasonId: string, input: CropSeasonInput): Promise<CropSeason> {
+    const existing = await prisma.cropSeason.findUnique({ where: { id: seasonId } })
+    if (!existing) {
+      throw new CropSeasonError('Crop season not found', 404)
+    }
+
+    const cropName = parseOptionalText(input.cropName, 'Crop name')
+    const variety = parseOptionalText(input.variety, 'Variety')
+    if (cropName === null) {
+      throw new CropSeasonError('Crop name cannot be empty')
+    }
+    const sowingDate = parseOptionalDate(input.sowingDate, 'Sowing date')
+    if (sowingDate === null) {
+      throw new CropSeasonError('Sowing date cannot be removed')
+    }
+    const expectedHarvestDate = parseOptionalDate(input.expectedHarvestDate, 'Expected harvest date')
+    const actualHarvestDate = parseOptionalDate(input.actualHarvestDate, 'Actual harvest date')
+    const yieldValue = parseOptionalYield(input.yield)
+
+    checkSeasonDates(
+      sowingDate ?? existing.sowingDate,
+      expectedHarvestDate !== undefined ? expectedHarvestDate : existing.expectedHarvestDate,
+      actualHarvestDate !== undefined ? actualHarvestDate : existing.actualHarvestDate
+    )
+
+    // Reopening a harvested season must not create a second active one
+    if (actualHarvestDate === null && existing.actualHarvestDate) {
+      const active = await this.getActiveSeason(existing.fieldId)
+      if (active && active.id !== existing.id) {
+        throw new CropSeasonError(`This field already has an active ${active.cropName} season`, 409)
+      }
+    }
+
+    return prisma.cropSeason.update({
+      where: { id: seasonId },
+      data: {
+        ...(cropName !== undefined && { cropName }),
+        ...(variety !== undefined && { variety }),
+        ...(sowingDate && { sowingDate }),
+        ...(expectedHarvestDate !== undefined && { expectedHarvestDate }),
+        ...(actualHarvestDate !== undefined && { actualHarvestDate }),
+        ...(yieldValue !== undefined && { yield: yieldValue })
+      }
+    })
+  }
+
+  async deleteSeason(seasonId: string): Promise<void> {
+    await prisma.cropSeason.delete({ where: { id: seasonId } })
+  }
+}
+
+// Singleton instance
+let cropSeasonService: CropSeasonService | null = null
+
+export function getCropSeasonService(): CropSeasonService {
+  if (!cropSeasonService) {
+    cropSeasonService = new CropSeasonService()
+  }
+  return cropSeasonService
+}
+
+export { CropSeasonError }
+export type { CropSeasonInput, CropSeasonWithField }
@@ -0,0 +1,150 @@
+// Canonical data types shared by every weather/satellite provider (Agromonitoring, Farmonaut,
+// AgroFarming, the in-memory fake). Adapters in lib/provider-adapters.ts convert each client's
+// own response shapes into these, and lib/provider-registry.ts picks a provider per capability.
+
+type ProviderCapability = 'weather' | 'forecast' | 'vegetation' | 'soil' | 'uv'
+
+type VegetationIndex = 'NDVI' | 'EVI' | 'NDWI' | 'SAVI' | 'NDRE'
+
+interface ProviderLocation {
+  lat: number
+  lng: number
+}
+
+/**
+ * A field as providers see it. Agromonitoring works on its polygon; Farmonaut and AgroFarming
+ * keep their own field list and use externalId.
+ */
+interface ProviderField extends ProviderLocation {
+  polygonId?: string | null
+  externalId?: string | null
+}
+
+interface CurrentWeather {
+  observedAt: string // ISO timestamp
+  temperature: number // Celsius
+  feelsLike?: number
+  humidity: number // %
+  pressure: number // hPa
+  windSpeed: number // km/h
+  windDirection?: number // degrees
+  cloudCover: number // %
+  precipitation?: number // mm in the last reported period
+  description?: string
+  source: string // provider id
+}
+
+interface ForecastPeriod {
+  start: string // ISO timestamp
+  hours: number // 3 for 3-hourly forecasts, 24 for daily ones
+  temperature: number // Celsius, mean over the period
+  tempMin: number
+  tempMax: number
+  humidity: number // %
+  windSpeed: number // km/h
+  precipitation: number // mm over the period
+  pressure?: number // hPa
+  cloudCover?: number // %
+  description?: string
+  source: string
+}
+
+interface VegetationIndexReading {
+  date: string // YYYY-MM-DD acquisition day
+  index: VegetationIndex
+  mean: number
+  median?: number
+  min?: number
+  max?: number
+  std?: number
+  cloudCover?: number // %
+  satellite?: string
+  source: string
+}
+
+interface VegetationQuery {
+  index?: VegetationIndex // NDVI when omitted
+  from: Date
+  to: Date
+}
+
+interface SoilReading {
+  observedAt: string // ISO timestamp
+  moisture: number // %, volumetric
+  surfaceTemp?: number // Celsius
+  temperature?: number // Celsius, at 10 cm
+  organicCarbon?: number // %
+  ph?: number
+  source: string
+}
+
+interface UVReading {
+  observedAt: string // ISO timestamp
+  uvIndex: number
+  source: string
+}
+
+/**
+ * One source of weather and satellite data. Providers implement the methods for the
+ * capabilities they list; the registry never calls the others.
+ */
+interface DataProvider {
+  readonly id: string
+  readonly name: string
+  readonly capabilities: ProviderCapability[]
+
+  /** False when the provider is not configured (e.g. no API key), so the registry skips it */
+  isAvailable?(): boolean
+
+  getCurrentWeather?(location: ProviderLocation): Promise<CurrentWeather>
+  getForecast?(location: ProviderLocation): Promise<ForecastPeriod[]>
+  getVegetationIndices?(field: ProviderField, query: VegetationQuery): Promise<VegetationIndexReading[]>
+  getSoil?(field: ProviderField): Promise<SoilReading>
+  getUV?(field: ProviderField): Promise<UVReading>
+}
+
+/**
+ * The provider cannot serve this particular request (e.g. the field has no polygon there).
+ * The registry moves on to the next provider without counting it as a failure.
+ */
+class ProviderUnsupportedError extends Error {
+  constructor(
+    message: string,
+    public providerId: string
+  ) {
+    super(message)
+    this.name = 'ProviderUnsupportedError'
+  }
+}
+
+/**
+ * Every provider for a capability failed; attempts lists what each one reported
+ */
+class ProviderFailoverError extends Error {
+  constructor(
+    public capability: ProviderCapability,
+    public attempts: Array<{ providerId: string; error: string }>
+  ) {
+    super(
+      attempts.length > 0
+        ? `No provider could serve ${capability}: ${attempts.map((attempt) => `${attempt.providerId} (${attempt.error})`).join(', ')}`
+        : `No provider is registered for ${capability}`
+    )
+    this.name = 'ProviderFailoverError'
+  }
+}
+
+export { ProviderUnsupportedError, ProviderFailoverError }
+export type {
+  ProviderCapability,
+  VegetationIndex,
+  ProviderLocation,
+  ProviderField,
+  CurrentWeather,
+  ForecastPeriod,
+  VegetationIndexReading,
+  VegetationQuery,
+  SoilReading,
+  UVReading,
+  DataProvider
+}
@@ -0,0 +1,678 @@
+import type { Field, FieldAlert, Prisma, ScheduledJob } from '@prisma/client'
+import { prisma } from './prisma'
+import { getJobQueue } from './job-queue'
+import { findCropCalendar } from './growth-stages'
+import { fieldLocation, getWeatherIngestionService } from './weather-ingestion'
+import { buildForecast, forecastTimezone, localClock } from './weather-forecast'
+import { queueAlertNotification } from './alert-notifications'
+
+// Weather-driven disease risk: established epidemiological models run over the field's stored
+// hourly weather and the hourly forecast, for the crop in the farmer's profile. Leaf wetness is not
+// measured, so an hour counts as wet when humidity is at least 90% or it rains.
+
+export const DISEASE_RISK_CHECK_JOB = 'disease_risk_check'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+const CHECK_DELAY_MS = 2 * HOUR_MS // after the day's weather sync jobs have run
+const HISTORY_DAYS = 13 // 7 days shown, plus the week the first of them looks back on
+const SHOWN_PAST_DAYS = 6 // before today
+const ALERT_DAYS = 3 // today and the next two days
+const MIN_DAY_HOURS = 18 // a day with fewer hours of weather is marked partial
+
+const WET_HUMIDITY = 90 // %
+const WET_RAIN_MM = 0.1
+
+// Late blight. Wallin's severity values: hours at 90%+ humidity needed for 1, 2, 3 and 4 values,
+// by the mean temperature over those hours (as used in Blitecast, Krause et al. 1975)
+const WALLIN_BANDS = [
+  { from: 7.2, to: 11.7, hours: [16, 19, 22, 25] },
+  { from: 11.7, to: 15.1, hours: [13, 16, 19, 22] },
+  { from: 15.1, to: 26.7, hours: [10, 13, 16, 19] }
+]
+const BLITECAST_RAIN_MM = 3 // a rain-favourable day
+const BLITECAST_RAIN_DAYS = 5
+// Blitecast's advice from the last 7 days: rows by rain-favourable days (under 5, 5 or more),
+// columns by total severity values (3 or less, 4-5, 6, 7 or more)
+const BLITECAST_LEVELS: RiskLevel[][] = [
+  ['low', 'low', 'moderate', 'high'],
+  ['low', 'moderate', 'high', 'very_high']
+]
+// Smith period: two days in a row with a minimum of 10°C and 11 hours or more at 90%+ humidity
+const SMITH_MIN_TEMP = 10
+const SMITH_HUMID_HOURS = 11
+
+// Rice blast, after BLASTAM (Koshimizu): a wet spell long enough for the temperature during it,
+// following a few days warm enough for the fungus to sporulate
+const BLAST_WETNESS = [
+  { from: 16, to: 20, hours: 13 },
+  { from: 20, to: 24, hours: 10 },
+  { from: 24, to: 29, hours: 8 }
+]
+const BLAST_PRIOR_DAYS = 5
+const BLAST_PRIOR_MIN = 20
+const BLAST_PRIOR_MAX = 28 // BLASTAM uses 25°C; blast epidemics in India run warmer
+
+// Wheat rusts: spores infect during a dew period of 6 hours or more in each rust's temperature range
+const RUSTS = [
+  { name: 'Yellow rust', from: 7, to: 15 },
+  { name: 'Brown rust', from: 15, to: 25 }
+]
+const RUST_WET_HOURS = 6
+const RUST_MARGINAL_HOURS = 4
+
+const LEVELS = ['low', 'moderate', 'high', 'very_high'] as const
+
+type RiskLevel = (typeof LEVELS)[number]
+type DiseaseModelId = 'late_blight' | 'rice_blast' | 'wheat_rust'
+
+interface WeatherHour {
+  time: number // ms, start of the hour
+  localDate: string
+  temperature: number
+  humidity: number
+  rainfall: number // mm
+  forecast: boolean
+}
+
+interface WetSpell {
+  hours: number
+  meanTemp: number
+}
+
+/**
+ * One local day of weather with the measures the models work from
+ */
+interface WeatherDay {
+  date: string
+  hours: WeatherHour[]
+  forecast: boolean // at least partly forecast rather than observed
+  minTemp: number
+  meanTemp: number
+  rainfall: number
+  humidHours: number // hours at 90%+ humidity
+  humidMeanTemp: number | null // mean temperature over those hours
+  wetSpell: WetSpell | null // the longest wet spell ending on this day, which may have begun the evening before
+}
+
+interface ModelDayResult {
+  level: RiskLevel
+  summary: string // what drove the level
+  metrics: Record<string, number | string>
+}
+
+interface DiseaseModel {
+  id: DiseaseModelId
+  disease: string
+  method: string
+  crops: string[] // crop calendar names
+  advice: Record<RiskLevel, string>
+  assess(days: WeatherDay[], index: number): ModelDayResult
+}
+
+interface DiseaseRiskDay extends ModelDayResult {
+  date: string
+  start: string // ISO timestamps of the first hour of weather for the day and the end of the last
+  end: string
+  forecast: boolean
+  partial: boolean // fewer than MIN_DAY_HOURS hours of weather
+}
+
+interface DiseaseRiskAssessment {
+  model: DiseaseModelId
+  disease: string
+  method: string
+  level: RiskLevel // today
+  peakLevel: RiskLevel // highest over today and the next two days
+  peakDate: string
+  advice: string // for the peak level
+  days: DiseaseRiskDay[] // the last week and the forecast days, oldest first
+}
+
+interface FieldDiseaseRisk {
+  fieldId: string
+  fieldName: string
+  cropName: string
+  timezone: string
+  today: string // local date of the assessment
+  observedHours: number // stored hours behind the last week; 0 means the forecast alone was used
+  assessments: DiseaseRiskAssessment[]
+}
+
+interface SkippedDiseaseField {
+  fieldId: string
+  fieldName: string
+  reason: string
+}
+
+interface DiseaseRiskCheckResult {
+  fieldId: string
+  evaluated: boolean // false when the field has no model for its crop or no weather
+  created: number
+  updated: number
+  resolved: number
+  expired: number
+}
+
+function round(value: number, decimals = 1): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+function worst(levels: RiskLevel[]): RiskLevel {
+  return LEVELS[Math.max(0, ...levels.map((level) => LEVELS.indexOf(level)))]
+}
+
+function isWet(hour: WeatherHour): boolean {
+  return hour.humidity >= WET_HUMIDITY || hour.rainfall >= WET_RAIN_MM
+}
+
+/**
+ * Group an hourly series into local days, with each day's longest wet spell. A gap in the series
+ * ends a spell.
+ */
+export function toWeatherDays(hours: WeatherHour[]): WeatherDay[] {
+  const spells = new Map<string, WetSpell>()
+  let run: WeatherHour[] = []
+  const close = () => {
+    if (run.length === 0) return
+    const date = run[run.length - 1].localDate
+    const spell = { hours: run.length, meanTemp: round(mean(run.map((hour) => hour.temperature))) }
+    if (spell.hours > (spells.get(date)?.hours || 0)) spells.set(date, spell)
+    run = []
+  }
+  hours.forEach((hour, index) => {
+    if (index > 0 && hour.time - hours[index - 1].time !== HOUR_MS) close()
+    if (isWet(hour)) {
+      run.push(hour)
+    } else {
+      close()
+    }
+  })
+  close()
+
+  const byDay = new Map<string, WeatherHour[]>()
+  for (const hour of hours) {
+    byDay.set(hour.localDate, [...(byDay.get(hour.localDate) || []), hour])
+  }
+
+  return Array.from(byDay.entries()).map(([date, dayHours]) => {
+    const humid = dayHours.filter((hour) => hour.humidity >= WET_HUMIDITY)
+    return {
+      date,
+      hours: dayHours,
+      forecast: dayHours.some((hour) => hour.forecast),
+      minTemp: Math.min(...dayHours.map((hour) => hour.temperature)),
+      meanTemp: round(mean(dayHours.map((hour) => hour.temperature))),
+      rainfall: round(dayHours.reduce((sum, hour) => sum + hour.rainfall, 0)),
+      humidHours: humid.length,
+      humidMeanTemp: humid.length > 0 ? round(mean(humid.map((hour) => hour.temperature))) : null,
+      wetSpell: spells.get(date) || null
+    }
+  })
+}
+
+/**
+ * The day and up to `count - 1` days before it
+ */
+function lookback(days: WeatherDay[], index: number, count: number): WeatherDay[] {
+  return days.slice(Math.max(0, index - count + 1), index + 1)
+}
+
+function severityValues(day: WeatherDay): number {
+  if (day.humidMeanTemp === null) return 0
+  const temp = day.humidMeanTemp
+  const band = WALLIN_BANDS.find((candidate) => temp >= candidate.from && temp < candidate.to)
+  return band ? band.hours.filter((hours) => day.humidHours >= hours).length : 0
+}
+
+function meetsSmith(day: WeatherDay): boolean {
+  return day.minTemp >= SMITH_MIN_TEMP && day.humidHours >= SMITH_HUMID_HOURS
+}
+
+const lateBlight: DiseaseModel = {
+  id: 'late_blight',
+  disease: 'Late blight',
+  method: 'Blitecast and Smith period',
+  crops: ['Potato', 'Tomato'],
+  advice: {
+    low: 'No spray needed for late blight.',
+    moderate: 'Check the lower leaves for dark, water-soaked patches, especially in low or shaded parts of the field.',
+    high: 'Spray a protectant fungicide such as mancozeb or chlorothalonil before the next wet spell and remove cull piles.',
+    very_high: 'Spray now and repeat every 5 days while the weather stays wet. If blight is already showing, use a systemic mix such as metalaxyl + mancozeb.'
+  },
+  assess(days, index) {
+    const week = lookback(days, index, 7)
+    const severity = week.reduce((sum, day) => sum + severityValues(day), 0)
+    const rainDays = week.filter((day) => day.rainfall >= BLITECAST_RAIN_MM).length
+    const column = severity <= 3 ? 0 : severity <= 5 ? 1 : severity === 6 ? 2 : 3
+    const blitecast = BLITECAST_LEVELS[rainDays >= BLITECAST_RAIN_DAYS ? 1 : 0][column]
+
+    const day = days[index]
+    const smith = meetsSmith(day) && index > 0 && meetsSmith(days[index - 1])
+    const level = worst([blitecast, smith ? 'high' : meetsSmith(day) ? 'moderate' : 'low'])
+
+    const summary = [
+      smith
+        ? `Smith period: two days in a row at ${SMITH_MIN_TEMP}°C or warmer with ${SMITH_HUMID_HOURS}+ hours of 90% humidity`
+        : meetsSmith(day) && `${day.humidHours} humid hours with a low of ${round(day.minTemp)}°C, half a Smith period`,
+      `${severity} blight severity values and ${rainDays} rainy day(s) in the last 7 days`
+    ].filter(Boolean).join('; ')
+
+    return {
+      level,
+      summary,
+      metrics: { severityValues7d: severity, rainDays7d: rainDays, humidHours: day.humidHours, minTemp: round(day.minTemp), smithPeriod: smith ? 'yes' : 'no' }
+    }
+  }
+}
+
+function blastInfection(days: WeatherDay[], index: number): { infection: boolean; quasi: boolean; required: number | null; priorMean: number } {
+  const day = days[index]
+  const prior = days.slice(Math.max(0, index - BLAST_PRIOR_DAYS), index)
+  const priorMean = round(mean((prior.length > 0 ? prior : [day]).map((candidate) => candidate.meanTemp)))
+  const spell = day.wetSpell
+  const band = spell ? BLAST_WETNESS.find((candidate) => spell.meanTemp >= candidate.from && spell.meanTemp < candidate.to) : undefined
+  if (!spell || !band) return { infection: false, quasi: false, required: null, priorMean }
+
+  const longEnough = spell.hours >= band.hours
+  const warmBefore = priorMean >= BLAST_PRIOR_MIN && priorMean <= BLAST_PRIOR_MAX
+  return {
+    infection: longEnough && warmBefore,
+    // BLASTAM's quasi-infection: the wet spell is there but the days before were too cool or hot
+    quasi: longEnough && !warmBefore,
+    required: band.hours,
+    priorMean
+  }
+}
+
+const riceBlast: DiseaseModel = {
+  id: 'rice_blast',
+  disease: 'Rice blast',
+  method: 'BLASTAM leaf wetness model',
+  crops: ['Rice'],
+  advice: {
+    low: 'No spray needed for blast.',
+    moderate: 'Look for spindle-shaped leaf spots with grey centres and hold back extra nitrogen.',
+    high: 'Hold nitrogen top dressing and keep the field flooded; spray tricyclazole if leaf spots appear.',
+    very_high: 'Spray tricyclazole or isoprothiolane now, especially at booting and heading when neck blast can cut the yield.'
+  },
+  assess(days, index) {
+    const today = blastInfection(days, index)
+    const countInfections = (from: number, to: number) => {
+      let count = 0
+      for (let day = Math.max(0, from); day <= to; day++) {
+        if (blastInfection(days, day).infection) count++
+      }
+      return count
+    }
+    const infections = countInfections(index - 6, index)
+    const recent = countInfections(index - 3, index - 1) > 0
+
+    const level: RiskLevel = today.infection
+      ? infections >= 2 ? 'very_high' : 'high'
+      : today.quasi || recent ? 'moderate' : 'low'
+
+    const spell = days[index].wetSpell
+    const summary = [
+      spell
+        ? `${spell.hours} h of leaf wetness at ${spell.meanTemp}°C${today.required ? ` (${today.required} h needed)` : ''}`
+        : 'No wet spell',
+      `${today.priorMean}°C mean over the days before`,
+      infections > 0 && `${infections} infection day(s) in the last 7 days`
+    ].filter(Boolean).join('; ')
+
+    return {
+      level,
+      summary,
+      metrics: { wetHours: spell?.hours ?? 0, wetTemp: spell?.meanTemp ?? '', priorMeanTemp: today.priorMean, infectionDays7d: infections }
+    }
+  }
+}
+
+function rustInfection(day: WeatherDay, rust: (typeof RUSTS)[number]): 'infection' | 'marginal' | null {
+  const spell = day.wetSpell
+  if (!spell || spell.meanTemp < rust.from || spell.meanTemp >= rust.to) return null
+  if (spell.hours >= RUST_WET_HOURS) return 'infection'
+  return spell.hours >= RUST_MARGINAL_HOURS ? 'marginal' : null
+}
+
+const wheatRust: DiseaseModel = {
+  id: 'wheat_rust',
+  disease: 'Wheat rust',
+  method: 'Dew period and temperature for yellow and brown rust',
+  crops: ['Wheat'],
+  advice: {
+    low: 'No spray needed for rust.',
+    moderate: 'Scout for yellow stripes or orange-brown pustules on the leaves, starting at the edges of the field.',
+    high: 'Scout twice a week and spray propiconazole or tebuconazole at the first pustules.',
+    very_high: 'Spray propiconazole or tebuconazole now if any pustules are seen, and again after 15 days if the weather stays the same.'
+  },
+  assess(days, index) {
+    const day = days[index]
+    const results = RUSTS.map((rust) => {
+      const today = rustInfection(day, rust)
+      const infections = lookback(days, index, 7).filter((candidate) => rustInfection(candidate, rust) === 'infection').length
+      const level: RiskLevel = today === 'infection'
+        ? infections >= 2 ? 'very_high' : 'high'
+        : today === 'marginal' || infections > 0 ? 'moderate' : 'low'
+      return { rust, level, infections }
+    })
+    const top = results.reduce((best, result) => (LEVELS.indexOf(result.level) > LEVELS.indexOf(best.level) ? result : best))
+
+    const spell = day.wetSpell
+    const summary = [
+      spell ? `${spell.hours} h of dew or rain at ${spell.meanTemp}°C` : 'No dew period',
+      top.level !== 'low' && `${top.rust.name} favoured (${top.rust.from}-${top.rust.to}°C)`,
+      top.infections > 0 && `${top.infections} infection day(s) in the last 7 days`
+    ].filter(Boolean).join('; ')
+
+    return {
+      level: top.level,
+      summary,
+      metrics: { wetHours: spell?.hours ?? 0, wetTemp: spell?.meanTemp ?? '', rust: top.rust.name, infectionDays7d: top.infections }
+    }
+  }
+}
+
+const DISEASE_MODELS: DiseaseModel[] = [lateBlight, riceBlast, wheatRust]
+
+/**
+ * Models that apply to a crop, matching local names through the crop calendars
+ */
+export function diseaseModelsForCrop(cropName: string | null | undefined): DiseaseModel[] {
+  const crop = findCropCalendar(cropName)?.crop
+  return crop ? DISEASE_MODELS.filter((model) => model.crops.includes(crop)) : []
+}
+
+/**
+ * Run a model over every day of the series and keep the days from `firstDate` on
+ */
+export function assessDiseaseRisk(model: DiseaseModel, days: WeatherDay[], today: string, firstDate: string): DiseaseRiskAssessment {
+  const results: DiseaseRiskDay[] = days
+    .map((day, index) => ({
+      ...model.assess(days, index),
+      date: day.date,
+      start: new Date(day.hours[0].time).toISOString(),
+      end: new Date(day.hours[day.hours.length - 1].time + HOUR_MS).toISOString(),
+      forecast: day.forecast,
+      partial: day.hours.length < MIN_DAY_HOURS
+    }))
+    .filter((day) => day.date >= firstDate)
+
+  const upcoming = results.filter((day) => day.date >= today).slice(0, ALERT_DAYS)
+  const peak = upcoming.reduce<DiseaseRiskDay | null>(
+    (best, day) => (!best || LEVELS.indexOf(day.level) > LEVELS.indexOf(best.level) ? day : best),
+    null
+  )
+
+  return {
+    model: model.id,
+    disease: model.disease,
+    method: model.method,
+    level: results.find((day) => day.date === today)?.level || 'low',
+    peakLevel: peak?.level || 'low',
+    peakDate: peak?.date || today,
+    advice: model.advice[peak?.level || 'low'],
+    days: results
+  }
+}
+
+function dayLabel(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-IN', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC'
+  })
+}
+
+function levelLabel(level: RiskLevel): string {
+  return level === 'very_high' ? 'Very high' : level.charAt(0).toUpperCase() + level.slice(1)
+}
+
+class DiseaseRiskService {
+  /**
+   * Disease risk for the crop in the farmer's profile on each of their fields, or on one field
+   */
+  async getRisksForUser(userId: string, fieldId?: string): Promise<{ risks: FieldDiseaseRisk[]; skipped: SkippedDiseaseField[] }> {
+    const [fields, profile, subscription] = await Promise.all([
+      prisma.field.findMany({
+        where: { farm: { userId }, ...(fieldId && { id: fieldId }) },
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.farmerProfile.findUnique({ where: { userId }, select: { cropName: true } }),
+      prisma.telegramSubscription.findUnique({ where: { userId }, select: { timezone: true } })
+    ])
+
+    const risks: FieldDiseaseRisk[] = []
+    const skipped: SkippedDiseaseField[] = []
+
+    for (const field of fields) {
+      try {
+        const result = await this.assessField(field, profile?.cropName, subscription?.timezone)
+        if ('reason' in result) {
+          skipped.push({ fieldId: field.id, fieldName: field.name, reason: result.reason })
+        } else {
+          risks.push(result.risk)
+        }
+      } catch (error) {
+        console.warn(`[Disease Risk] Could not assess field ${field.id}:`, error)
+        skipped.push({ fieldId: field.id, fieldName: field.name, reason: error instanceof Error ? error.message : 'Weather unavailable' })
+      }
+    }
+
+    return { risks, skipped }
+  }
+
+  /**
+   * Run the crop's models over the field's last two weeks of stored hourly weather and its forecast
+   */
+  async assessField(
+    field: Pick<Field, 'id' | 'name' | 'coordinates'>,
+    cropName: string | null | undefined,
+    timezone: string | null | undefined,
+    now: Date = new Date()
+  ): Promise<{ risk: FieldDiseaseRisk } | { reason: string }> {
+    if (!cropName) return { reason: 'Add your crop to your farmer profile to see disease risk' }
+    const models = diseaseModelsForCrop(cropName)
+    if (models.length === 0) return { reason: `No disease risk model for ${cropName} yet` }
+    if (!fieldLocation(field)) return { reason: 'Field boundary is missing' }
+
+    const ingestion = getWeatherIngestionService()
+    await ingestion.syncFieldIfStale(field.id)
+    const [stored, items] = await Promise.all([
+      ingestion.getHourlyWeather(field.id, new Date(now.getTime() - HISTORY_DAYS * DAY_MS)),
+      ingestion.getForecastItems(field)
+    ])
+
+    const zone = forecastTimezone(timezone)
+    const clock = localClock(zone)
+    const observed: WeatherHour[] = stored.map((row) => ({
+      time: row.time.getTime(),
+      localDate: clock(row.time.getTime()).date,
+      temperature: row.temperature,
+      humidity: row.humidity,
+      rainfall: row.rainfall,
+      forecast: false
+    }))
+    const lastObserved = observed.length > 0 ? observed[observed.length - 1].time : 0
+    const forecast: WeatherHour[] = buildForecast(items, zone).hourly
+      .map((hour) => ({
+        time: new Date(hour.time).getTime(),
+        localDate: hour.localDate,
+        temperature: hour.temperature,
+        humidity: hour.humidity,
+        rainfall: hour.precipitation,
+        forecast: true
+      }))
+      .filter((hour) => hour.time > lastObserved)
+    if (observed.length === 0 && forecast.length === 0) return { reason: 'No weather available' }
+
+    const today = clock(now.getTime()).date
+    const firstDate = clock(now.getTime() - SHOWN_PAST_DAYS * DAY_MS).date
+    const days = toWeatherDays([...observed, ...forecast])
+    const crop = findCropCalendar(cropName)?.crop || cropName
+
+    return {
+      risk: {
+        fieldId: field.id,
+        fieldName: field.name,
+        cropName: crop,
+        timezone: zone,
+        today,
+        observedHours: observed.filter((hour) => hour.localDate >= firstDate).length,
+        assessments: models.map((model) => assessDiseaseRisk(model, days, today, firstDate))
+      }
+    }
+  }
+
+  /**
+   * Assess a field and bring its disease alerts up to date: a high risk over the next three days
+   * raises an alert (very high is critical), a lasting risk updates it and a risk that has passed
+   * resolves it
+   */
+  async checkField(fieldId: string, now: Date = new Date()): Promise<DiseaseRiskCheckResult> {
+    const result: DiseaseRiskCheckResult = { fieldId, evaluated: false, created: 0, updated: 0, resolved: 0, expired: 0 }
+    const field = await prisma.field.findUnique({
+      where: { id: fieldId },
+      include: {
+        farm: {
+          select: {
+            user: { select: { farmerProfile: { select: { cropName: true } }, telegramSubscription: { select: { timezone: true } } } }
+          }
+        }
+      }
+    })
+    if (!field) return result
+
+    const expired = await prisma.fieldAlert.updateMany({
+      where: { fieldId, category: 'disease', status: { in: ['open', 'acknowledged'] }, expiresAt: { lte: now } },
+      data: { status: 'expired' }
+    })
+    result.expired = expired.count
+
+    const { user } = field.farm
+    const assessed = await this.assessField(field, user.farmerProfile?.cropName, user.telegramSubscription?.timezone, now)
+    if ('reason' in assessed) return result
+    const { risk } = assessed
+    result.evaluated = true
+
+    const active = await prisma.fieldAlert.findMany({
+      where: { fieldId, category: 'disease', status: { in: ['open', 'acknowledged'] } }
+    })
+
+    for (const assessment of risk.assessments) {
+      const existing = active.find((alert) => alert.type === assessment.model)
+      const risky = assessment.days
+        .filter((day) => day.date >= risk.today)
+        .slice(0, ALERT_DAYS)
+        .filter((day) => LEVELS.indexOf(day.level) >= LEVELS.indexOf('high'))
+
+      if (risky.length === 0) {
+        if (existing) {
+          await prisma.fieldAlert.update({ where: { id: existing.id }, data: { status: 'resolved', resolvedAt: now } })
+          result.resolved++
+        }
+        continue
+      }
+
+      const peak = risky.find((day) => day.date === assessment.peakDate) || risky[0]
+      const severity = assessment.peakLevel === 'very_high' ? 'critical' : 'warning'
+      const startsAt = new Date(Math.max(Date.parse(risky[0].start), now.getTime() - (now.getTime() % HOUR_MS)))
+      const expiresAt = new Date(risky[risky.length - 1].end)
+      const data = {
+        severity,
+        title: `${assessment.disease} risk`,
+        message: `${levelLabel(assessment.peakLevel)} ${assessment.disease.toLowerCase()} risk for ${risk.cropName} on ${dayLabel(peak.date)}: ${peak.summary}. ${assessment.advice}`,
+        metrics: { ...peak.metrics, level: assessment.peakLevel, model: assessment.method, crop: risk.cropName } as Prisma.InputJsonValue,
+        observedAt: now,
+        startsAt,
+        expiresAt
+      }
+
+      if (!existing) {
+        const alert = await prisma.fieldAlert.create({ data: { ...data, category: 'disease', type: assessment.model, fieldId } })
+        await queueAlertNotification(alert)
+        result.created++
+        continue
+      }
+
+      // A risk that rises to very high is reopened and sent again, even if it was acknowledged
+      const escalated = existing.severity === 'warning' && severity === 'critical'
+      const alert: FieldAlert = await prisma.fieldAlert.update({
+        where: { id: existing.id },
+        data: { ...data, ...(escalated && { status: 'open', acknowledgedAt: null }) }
+      })
+      if (escalated) await queueAlertNotification(alert)
+      result.updated++
+    }
+
+    if (result.created || result.updated || result.resolved || result.expired) {
+      console.log(`[Disease Risk] Field ${fieldId}: ${result.created} new, ${result.updated} ongoing, ${result.resolved} resolved, ${result.expired} expired alert(s)`)
+    }
+    return result
+  }
+
+  /**
+   * Queue one check per field whose farmer grows a crop with a disease model, once a day after
+   * the weather sync
+   */
+  async scheduleDailyCheck(now: Date = new Date()): Promise<number> {
+    const fields = await prisma.field.findMany({
+      where: { farm: { user: { farmerProfile: { isNot: null } } } },
+      select: { id: true, farm: { select: { user: { select: { farmerProfile: { select: { cropName: true } } } } } } }
+    })
+    const day = now.toISOString().split('T')[0]
+    const runAt = new Date(Date.parse(`${day}T00:00:00Z`) + CHECK_DELAY_MS)
+    const jobQueue = getJobQueue()
+    let queued = 0
+
+    for (const field of fields) {
+      if (diseaseModelsForCrop(field.farm.user.farmerProfile?.cropName).length === 0) continue
+      const created = await jobQueue.enqueue(
+        DISEASE_RISK_CHECK_JOB,
+        { fieldId: field.id },
+        { dedupeKey: `${DISEASE_RISK_CHECK_JOB}:${field.id}:${day}`, runAt, maxAttempts: 3 }
+      )
+      if (created) queued++
+    }
+
+    return queued
+  }
+}
+
+// Singleton instance
+let diseaseRiskService: DiseaseRiskService | null = null
+
+export function getDiseaseRiskService(): DiseaseRiskService {
+  if (!diseaseRiskService) {
+    diseaseRiskService = new DiseaseRiskService()
+  }
+  return diseaseRiskService
+}
+
+/**
+ * Job handler for DISEASE_RISK_CHECK_JOB
+ */
+export async function runDiseaseRiskCheckJob(job: ScheduledJob): Promise<void> {
+  const { fieldId } = job.payload as { fieldId: string }
+  await getDiseaseRiskService().checkField(fieldId)
+}
+
+export type {
+  RiskLevel,
+  DiseaseModelId,
+  WeatherHour,
+  WeatherDay,
+  DiseaseModel,
+  DiseaseRiskDay,
+  DiseaseRiskAssessment,
+  FieldDiseaseRisk,
+  SkippedDiseaseField,
+  DiseaseRiskCheckResult
+}
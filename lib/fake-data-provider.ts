@@ -0,0 +1,169 @@
+import type {
+  CurrentWeather,
+  DataProvider,
+  ForecastPeriod,
+  ProviderCapability,
+  ProviderField,
+  ProviderLocation,
+  SoilReading,
+  UVReading,
+  VegetationIndexReading,
+  VegetationQuery
+} from './data-providers'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface FakeProviderOptions {
+  id?: string
+  capabilities?: ProviderCapability[]
+  weather?: Omit<CurrentWeather, 'source'>
+  forecast?: Array<Omit<ForecastPeriod, 'source'>>
+  vegetation?: Array<Omit<VegetationIndexReading, 'source'>>
+  soil?: Omit<SoilReading, 'source'>
+  uv?: Omit<UVReading, 'source'>
+}
+
+interface FakeProviderCall {
+  capability: ProviderCapability
+  target: ProviderLocation | ProviderField
+}
+
+/**
+ * In-memory provider for tests and local development. Serves fixed data, records every
+ * call, and can be told to fail so registry failover can be exercised without network access.
+ */
+export class InMemoryDataProvider implements DataProvider {
+  readonly id: string
+  readonly name: string
+  readonly capabilities: ProviderCapability[]
+  readonly calls: FakeProviderCall[] = []
+
+  private weather: Omit<CurrentWeather, 'source'>
+  private forecast: Array<Omit<ForecastPeriod, 'source'>>
+  private vegetation: Array<Omit<VegetationIndexReading, 'source'>>
+  private soil: Omit<SoilReading, 'source'>
+  private uv: Omit<UVReading, 'source'>
+  private failures = new Map<ProviderCapability, Error>()
+
+  constructor(options: FakeProviderOptions = {}) {
+    const now = new Date()
+    this.id = options.id || 'fake'
+    this.name = `In-memory (${this.id})`
+    this.capabilities = options.capabilities || ['weather', 'forecast', 'vegetation', 'soil', 'uv']
+
+    this.weather = options.weather || {
+      observedAt: now.toISOString(),
+      temperature: 28,
+      feelsLike: 30,
+      humidity: 60,
+      pressure: 1008,
+      windSpeed: 9,
+      windDirection: 240,
+      cloudCover: 25,
+      precipitation: 0,
+      description: 'scattered clouds'
+    }
+    // Five days of 3-hourly periods with a simple daily temperature cycle and one rainy afternoon
+    this.forecast = options.forecast || Array.from({ length: 40 }, (_, index) => {
+      const start = new Date(now.getTime() + index * 3 * 60 * 60 * 1000)
+      const temperature = 27 + 5 * Math.sin(((start.getUTCHours() + 5.5 - 9) / 24) * 2 * Math.PI)
+      return {
+        start: start.toISOString(),
+        hours: 3,
+        temperature: Math.round(temperature * 10) / 10,
+        tempMin: Math.round((temperature - 1) * 10) / 10,
+        tempMax: Math.round((temperature + 1) * 10) / 10,
+        humidity: 65,
+        windSpeed: 10,
+        precipitation: index === 20 ? 6 : 0,
+        pressure: 1007,
+        cloudCover: index === 20 ? 90 : 30,
+        description: index === 20 ? 'light rain' : 'scattered clouds'
+      }
+    })
+    // Weekly NDVI over the last two months, greening up
+    this.vegetation = options.vegetation || Array.from({ length: 9 }, (_, index) => ({
+      date: new Date(now.getTime() - (8 - index) * 7 * DAY_MS).toISOString().split('T')[0],
+      index: 'NDVI' as const,
+      mean: Math.round((0.35 + index * 0.04) * 1000) / 1000,
+      cloudCover: 5,
+      satellite: 'Sentinel-2'
+    }))
+    this.soil = options.soil || {
+      observedAt: now.toISOString(),
+      moisture: 24,
+      surfaceTemp: 31,
+      temperature: 27
+    }
+    this.uv = options.uv || { observedAt: now.toISOString(), uvIndex: 7 }
+  }
+
+  /**
+   * Make every call for a capability throw until cleared with null
+   */
+  setFailure(capability: ProviderCapability, error: Error | null = new Error(`${this.id} ${capability} unavailable`)): void {
+    if (error) {
+      this.failures.set(capability, error)
+    } else {
+      this.failures.delete(capability)
+    }
+  }
+
+  setWeather(weather: Omit<CurrentWeather, 'source'>): void {
+    this.weather = weather
+  }
+
+  setForecast(forecast: Array<Omit<ForecastPeriod, 'source'>>): void {
+    this.forecast = forecast
+  }
+
+  setVegetation(vegetation: Array<Omit<VegetationIndexReading, 'source'>>): void {
+    this.vegetation = vegetation
+  }
+
+  setSoil(soil: Omit<SoilReading, 'source'>): void {
+    this.soil = soil
+  }
+
+  setUV(uv: Omit<UVReading, 'source'>): void {
+    this.uv = uv
+  }
+
+  private record(capability: ProviderCapability, target: ProviderLocation | ProviderField): void {
+    this.calls.push({ capability, target })
+    const failure = this.failures.get(capability)
+    if (failure) throw failure
+  }
+
+  async getCurrentWeather(location: ProviderLocation): Promise<CurrentWeather> {
+    this.record('weather', location)
+    return { ...this.weather, source: this.id }
+  }
+
+  async getForecast(location: ProviderLocation): Promise<ForecastPeriod[]> {
+    this.record('forecast', location)
+    return this.forecast.map((period) => ({ ...period, source: this.id }))
+  }
+
+  async getVegetationIndices(field: ProviderField, query: VegetationQuery): Promise<VegetationIndexReading[]> {
+    this.record('vegetation', field)
+    const index = query.index || 'NDVI'
+    const from = query.from.toISOString().split('T')[0]
+    const to = query.to.toISOString().split('T')[0]
+    return this.vegetation
+      .filter((reading) => reading.index === index && reading.date >= from && reading.date <= to)
+      .map((reading) => ({ ...reading, source: this.id }))
+  }
+
+  async getSoil(field: ProviderField): Promise<SoilReading> {
+    this.record('soil', field)
+    return { ...this.soil, source: this.id }
+  }
+
+  async getUV(field: ProviderField): Promise<UVReading> {
+    this.record('uv', field)
+    return { ...this.uv, source: this.id }
+  }
+}
+
+export type { FakeProviderOptions, FakeProviderCall }
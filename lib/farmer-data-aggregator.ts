@@ -1,6 +1,19 @@
-import { PrismaClient } from '@prisma/client'
+import { PrismaClient, type CropSeason, type Farm, type Field } from '@prisma/client'
 import { getAgromonitoringAPI } from './agromonitoring-api'
-import type { FarmerData } from './gemini-ai'
+import { buildForecast } from './weather-forecast'
+import { getNDVIIngestionService } from './ndvi-ingestion'
+import { parseFieldRing, ringCentroid } from './polygon-sync'
+import { daysSinceSowing, getCropSeasonService } from './crop-seasons'
+import { getGrowthStageService, type GrowthStage } from './growth-stages'
+import { getIndexStatus, VEGETATION_INDICES } from './vegetation-indices'
+import { getWeatherAlertService } from './weather-alerts'
+import { planSprayWindows, sprayBlockers } from './spray-windows'
+import type { CropSeasonSummary, FarmerData, FarmerDataScope, FieldSummary, NDVICleaningSummary, VegetationIndexSummary } from './gemini-ai'
+
+// Holding NDVI is only reported for days where at least this share of the area was observed
+const MIN_NDVI_AREA_COVERAGE = 0.5
+// Hours of the hourly forecast passed on with the daily one
+const HOURLY_FORECAST_HOURS = 48
 
 interface AggregatedFarmerData extends FarmerData {
   lastUpdated: Date
@@ -19,6 +32,137 @@ interface DataAggregationOptions {
   requireAllData?: boolean
 }
 
+type ScopeLevel = FarmerDataScope['level']
+type FarmWithFields = Farm & { fields: Field[] }
+type NDVIEntry = NonNullable<FarmerData['ndviData']>[number]
+type SoilEntry = NonNullable<FarmerData['soilData']>[number]
+
+interface ScopedField {
+  field: Field
+  farmName: string
+  weight: number // field area in hectares, or the average area when unknown
+  season?: CropSeason // active crop season, once loaded
+  growthStage?: GrowthStage | null // of the active season, null for crops without a calendar
+}
+
+interface DataScope {
+  level: ScopeLevel
+  label: string
+  fields: ScopedField[]
+  totalArea: number // sum of the known field areas
+}
+
+interface FieldData {
+  scoped: ScopedField
+  ndviData: NDVIEntry[] | null // smoothed, on days with a usable scene
+  ndviCleaning: NDVICleaningSummary | null
+  indices: VegetationIndexSummary[] // latest EVI/NDWI/SAVI/NDRE readings
+  soil: SoilEntry | null
+  uvIndex: number | null
+}
+
+interface CombinedFieldData {
+  ndviData: NDVIEntry[]
+  ndviCleaning: NDVICleaningSummary | null
+  soilData: SoilEntry | null
+  uvIndex: number | null
+}
+
+interface HoldingSummary {
+  fieldCount: number
+  totalArea: number | null
+  fields: FieldSummary[]
+  farms: Array<{
+    id: string
+    name: string
+    fieldCount: number
+    area: number | null
+    latestNdvi: number | null
+    soilMoisture: number | null
+  }>
+  latestNdvi: number | null
+  soilMoisture: number | null
+  ndviHistory: Array<{ date: string; ndviMean: number; areaCoverage: number }>
+}
+
+/**
+ * Scope over the given fields, weighting each by area. Fields without an area get
+ * the average of the known ones so they still count.
+ */
+function buildScope(level: ScopeLevel, label: string, fields: Array<{ field: Field; farmName: string }>): DataScope {
+  const knownAreas = fields.map(({ field }) => field.area).filter((area): area is number => !!area && area > 0)
+  const fallbackWeight = knownAreas.length > 0
+    ? knownAreas.reduce((sum, area) => sum + area, 0) / knownAreas.length
+    : 1
+
+  return {
+    level,
+    label,
+    fields: fields.map((entry) => ({
+      ...entry,
+      weight: entry.field.area && entry.field.area > 0 ? entry.field.area : fallbackWeight
+    })),
+    totalArea: knownAreas.reduce((sum, area) => sum + area, 0)
+  }
+}
+
+/**
+ * Area-weighted center of the fields' boundaries
+ */
+function scopeCentroid(fields: ScopedField[]): { lat: number; lon: number } | null {
+  const centers = fields.flatMap(({ field, weight }) => {
+    const points = parseFieldRing(field.coordinates)
+    return points && points.length > 0 ? [{ ...ringCentroid(points), weight }] : []
+  })
+  if (centers.length === 0) return null
+
+  return {
+    lat: weightedMean(centers.map((center) => ({ value: center.lat, weight: center.weight }))),
+    lon: weightedMean(centers.map((center) => ({ value: center.lng, weight: center.weight })))
+  }
+}
+
+function weightedMean(values: Array<{ value: number; weight: number }>): number {
+  const totalWeight = values.reduce((sum, { weight }) => sum + weight, 0)
+  return values.reduce((sum, { value, weight }) => sum + value * weight, 0) / totalWeight
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+function toSeasonSummary(season: CropSeason, fieldName?: string): CropSeasonSummary {
+  return {
+    fieldName,
+    cropName: season.cropName,
+    variety: season.variety || undefined,
+    sowingDate: toDateString(season.sowingDate),
+    expectedHarvestDate: season.expectedHarvestDate ? toDateString(season.expectedHarvestDate) : undefined,
+    actualHarvestDate: season.actualHarvestDate ? toDateString(season.actualHarvestDate) : undefined,
+    daysSinceSowing: season.actualHarvestDate ? undefined : daysSinceSowing(season),
+    yield: season.yield ?? undefined
+  }
+}
+
+function toFieldSummary({ scoped, ndviData, soil }: FieldData): FieldSummary {
+  const latest = ndviData?.[ndviData.length - 1]
+  return {
+    id: scoped.field.id,
+    name: scoped.field.name,
+    farmId: scoped.field.farmId,
+    farmName: scoped.farmName,
+    cropType: scoped.season?.cropName || scoped.field.cropType || undefined,
+    sowingDate: scoped.season ? toDateString(scoped.season.sowingDate) : undefined,
+    area: scoped.field.area || undefined,
+    latestNdvi: latest?.ndviMean,
+    ndviStatus: latest?.ndviStatus,
+    ndviDate: latest?.date,
+    soilMoisture: soil?.moisture,
+    growthStage: scoped.growthStage?.stage,
+    daysToNextStage: scoped.growthStage?.daysToNextStage ?? undefined
+  }
+}
+
 class FarmerDataAggregator {
   private prisma: PrismaClient
   private agroAPI: any
@@ -76,8 +220,51 @@ class FarmerDataAggregator {
         }
       }
 
+      // Which fields the data is for: the selected field, its farm, or the whole holding
+      const scope = this.resolveScope(userData.farms, context)
+      aggregatedData.scope = {
+        level: scope.level,
+        label: scope.label,
+        fieldCount: scope.fields.length,
+        totalArea: scope.totalArea || undefined
+      }
+
+      // The crop actually in the ground comes from the active season, not the onboarding profile
+      const pastSeasons = await this.loadSeasons(scope)
+      const activeSeasons = scope.fields.flatMap(({ season }) => season ? [season] : [])
+      if (scope.level === 'field' && activeSeasons.length === 1) {
+        aggregatedData.activeSeason = toSeasonSummary(activeSeasons[0])
+        aggregatedData.cropName = activeSeasons[0].cropName
+        aggregatedData.sowingDate = toDateString(activeSeasons[0].sowingDate)
+        aggregatedData.growthStage = scope.fields[0].growthStage || undefined
+      } else if (activeSeasons.length > 0) {
+        aggregatedData.cropName = [...new Set(activeSeasons.map((season) => season.cropName))].join(', ')
+      }
+      if (pastSeasons.length > 0) {
+        aggregatedData.pastSeasons = pastSeasons.map((season) => toSeasonSummary(season, season.field.name))
+      }
+
+      // Weather alerts already raised for the scoped fields, so the AI repeats them rather than guessing
+      const weatherAlerts = await getWeatherAlertService()
+        .getActiveAlerts(scope.fields.map(({ field }) => field.id))
+        .catch((error) => {
+          console.warn('[Data Aggregator] Weather alerts unavailable:', error)
+          return []
+        })
+      if (weatherAlerts.length > 0) {
+        aggregatedData.weatherAlerts = weatherAlerts.map((alert) => ({
+          fieldName: scope.fields.length > 1 ? alert.field.name : undefined,
+          type: alert.type,
+          severity: alert.severity === 'critical' ? 'critical' : 'warning',
+          title: alert.title,
+          message: alert.message,
+          startsAt: (alert.startsAt || alert.observedAt).toISOString(),
+          endsAt: (alert.expiresAt || alert.observedAt).toISOString()
+        }))
+      }
+
       // Get coordinates for API calls (try location first, then field coordinates)
-      const coordinates = await this.extractCoordinates(userData.location, userId)
+      const coordinates = this.extractCoordinates(userData.location, scope)
       
       if (!coordinates && requireAllData) {
         throw new Error('Location coordinates are required for environmental data')
@@ -85,14 +272,10 @@ class FarmerDataAggregator {
 
       // Fetch environmental data in parallel if coordinates available
       if (coordinates) {
-        // Check if we have a selected polygon ID from context
-        const selectedPolygonId = context?.selectedField?.id
-        
-        const [weatherData, forecastData, ndviData, soilData] = await Promise.allSettled([
+        const [weatherData, forecastData, fieldsData] = await Promise.allSettled([
           this.getCurrentWeatherData(coordinates.lat, coordinates.lon),
-          this.getWeatherForecastData(coordinates.lat, coordinates.lon),
-          includeHistoricalData ? this.getNDVIData(userId, maxHistoryDays, selectedPolygonId) : Promise.resolve(null),
-          includeHistoricalData ? this.getSoilData(userId, maxHistoryDays, selectedPolygonId) : Promise.resolve(null)
+          this.getWeatherForecastData(coordinates.lat, coordinates.lon, userData.telegramSubscription?.timezone),
+          this.getFieldsData(scope.fields, includeHistoricalData, maxHistoryDays)
         ])
 
         // Process weather data
@@ -102,34 +285,68 @@ class FarmerDataAggregator {
         }
 
         // Process forecast data
-        if (forecastData.status === 'fulfilled' && forecastData.value) {
-          aggregatedData.forecast = forecastData.value
+        if (forecastData.status === 'fulfilled' && forecastData.value && forecastData.value.days.length > 0) {
+          aggregatedData.forecast = forecastData.value.days
+          aggregatedData.hourlyForecast = forecastData.value.hourly.slice(0, HOURLY_FORECAST_HOURS)
           aggregatedData.dataCompleteness.forecast = true
-        }
 
-        // Process NDVI data
-        if (ndviData.status === 'fulfilled' && ndviData.value) {
-          aggregatedData.ndviData = ndviData.value
-          aggregatedData.dataCompleteness.ndvi = true
+          const spray = planSprayWindows(forecastData.value.hourly, { timezone: forecastData.value.timezone })
+          const hour = (value: number) => `${String(value).padStart(2, '0')}:00`
+          aggregatedData.sprayWindows = {
+            product: spray.productLabel,
+            rainfastHours: spray.rainfastHours,
+            windows: spray.windows.map((window) => ({
+              date: window.localDate,
+              from: hour(window.startHour),
+              to: hour(window.endHour),
+              hours: window.hours,
+              rating: window.rating,
+              maxWindSpeed: window.maxWindSpeed,
+              deltaT: window.deltaTRange,
+              best: spray.best.some((best) => best.start === window.start),
+              notes: window.reasons
+            })),
+            blockers: sprayBlockers(spray)
+          }
         }
 
-        // Process soil data
-        if (soilData.status === 'fulfilled' && soilData.value) {
-          aggregatedData.soilData = soilData.value
-          aggregatedData.dataCompleteness.soil = true
-        }
+        if (fieldsData.status === 'fulfilled' && fieldsData.value.length > 0) {
+          const combined = this.combineFieldsData(fieldsData.value)
+
+          // Process NDVI data
+          if (combined.ndviData.length > 0) {
+            aggregatedData.ndviData = combined.ndviData
+            aggregatedData.dataCompleteness.ndvi = true
+          }
+          if (combined.ndviCleaning) {
+            aggregatedData.ndviCleaning = combined.ndviCleaning
+          }
+
+          // Process soil data
+          if (combined.soilData) {
+            aggregatedData.soilData = [combined.soilData]
+            aggregatedData.dataCompleteness.soil = true
+          }
 
-        // Get UV index
-        try {
-          const selectedPolygonId = context?.selectedField?.id
-          const uvData = await this.getUVData(userId, selectedPolygonId)
-          if (uvData !== null) {
-            aggregatedData.uvIndex = uvData
+          if (combined.uvIndex !== null) {
+            aggregatedData.uvIndex = combined.uvIndex
             // Add UV data completeness flag
             ;(aggregatedData.dataCompleteness as any).uv = true
           }
-        } catch (error) {
-          console.warn('[Data Aggregator] UV data fetch failed:', error)
+
+          // Other indices stay per field; averaging water or nitrogen stress would hide the plot that has it
+          const several = fieldsData.value.length > 1
+          const indices = fieldsData.value.flatMap((data) =>
+            data.indices.map((reading) => ({ ...reading, fieldName: several ? data.scoped.field.name : undefined }))
+          )
+          if (indices.length > 0) {
+            aggregatedData.vegetationIndices = indices
+          }
+
+          // Per-field breakdown so the AI can tell plots apart
+          if (several) {
+            aggregatedData.fields = fieldsData.value.map(toFieldSummary)
+          }
         }
       }
 
@@ -166,9 +383,11 @@ class FarmerDataAggregator {
       where: { id: userId },
       include: {
         farmerProfile: true,
+        telegramSubscription: { select: { timezone: true } },
         farms: {
+          orderBy: { createdAt: 'asc' },
           include: {
-            fields: true
+            fields: { orderBy: { createdAt: 'asc' } }
           }
         }
       }
@@ -182,10 +401,66 @@ class FarmerDataAggregator {
   }
 
   /**
-   * Extract coordinates from location string or field data
+   * Fields the request is about. A selected field (by field or polygon ID) is used on its own
+   * unless context.scope widens it to its farm or the whole holding; a farmId selects that farm.
+   */
+  private resolveScope(farms: FarmWithFields[], context?: any): DataScope {
+    const requested: ScopeLevel | undefined = context?.scope
+    const selectedFieldId = context?.fieldId || context?.selectedField?.fieldId
+    const selectedPolygonId = context?.selectedField?.id
+
+    const allFields = farms.flatMap((farm) => farm.fields.map((field) => ({ field, farmName: farm.name })))
+    const selected = allFields.find(({ field }) =>
+      field.id === selectedFieldId || (!!selectedPolygonId && field.polygonId === selectedPolygonId)
+    )
+
+    if (selected && requested !== 'farm' && requested !== 'holding') {
+      return buildScope('field', selected.field.name, [selected])
+    }
+
+    const farmId = context?.farmId || context?.selectedField?.farmId || selected?.field.farmId
+    const farm = requested !== 'holding' ? farms.find((candidate) => candidate.id === farmId) : undefined
+    if (farm) {
+      return buildScope('farm', farm.name, allFields.filter(({ field }) => field.farmId === farm.id))
+    }
+
+    return buildScope('holding', farms.length > 1 ? `All ${farms.length} farms` : 'Whole holding', allFields)
+  }
+
+  /**
+   * Attach each scoped field's active season and growth stage, and return the scope's recent harvests
+   */
+  private async loadSeasons(scope: DataScope) {
+    const seasonService = getCropSeasonService()
+    const fieldIds = scope.fields.map(({ field }) => field.id)
+    const [activeSeasons, pastSeasons] = await Promise.all([
+      seasonService.getActiveSeasons(fieldIds),
+      seasonService.getPastSeasons(fieldIds, 5)
+    ])
+
+    await Promise.all(scope.fields.map(async (scoped) => {
+      scoped.season = activeSeasons.get(scoped.field.id)
+      if (!scoped.season) return
+
+      try {
+        scoped.growthStage = await getGrowthStageService().getStageForSeason(scoped.field, scoped.season)
+      } catch (error) {
+        console.warn(`[Data Aggregator] Growth stage failed for field ${scoped.field.id}:`, error)
+      }
+    }))
+    return pastSeasons
+  }
+
+  /**
+   * Extract coordinates from the scoped fields or the location string
    */
-  private async extractCoordinates(location?: string, userId?: string): Promise<{ lat: number; lon: number } | null> {
-    // First try to parse from location string
+  private extractCoordinates(location: string | null | undefined, scope: DataScope): { lat: number; lon: number } | null {
+    // A selected field or farm has its own weather; the holding uses the farmer's location
+    if (scope.level !== 'holding') {
+      const center = scopeCentroid(scope.fields)
+      if (center) return center
+    }
+
     if (location) {
       // Try to parse as coordinates first (lat,lon format)
       const coordMatch = location.match(/\((-?\d+\.?\d*),\s*(-?\d+\.?\d*)\)/)
@@ -197,62 +472,10 @@ class FarmerDataAggregator {
       }
     }
 
-    // If no coordinates in location, try to get from user's fields
-    if (userId) {
-      try {
-        const user = await this.prisma.user.findUnique({
-          where: { id: userId },
-          include: {
-            farms: {
-              include: {
-                fields: true
-              }
-            }
-          }
-        })
-
-        if (user?.farms.length && user.farms[0].fields.length) {
-          const field = user.farms[0].fields[0]
-          
-          // Try to extract center coordinates from field GeoJSON
-          if (field.coordinates) {
-            try {
-              const coordsData = JSON.parse(field.coordinates)
-              if (coordsData.type === 'Polygon' && coordsData.coordinates[0]) {
-                const points = coordsData.coordinates[0]
-                
-                // Calculate center point
-                let latSum = 0
-                let lonSum = 0
-                let validPoints = 0
-                
-                for (const coord of points) {
-                  if (Array.isArray(coord) && coord.length >= 2) {
-                    lonSum += coord[0] // longitude first in GeoJSON
-                    latSum += coord[1] // latitude second in GeoJSON
-                    validPoints++
-                  }
-                }
-                
-                if (validPoints > 0) {
-                  const centerLat = latSum / validPoints
-                  const centerLon = lonSum / validPoints
-                  
-                  console.log(`[Data Aggregator] Using field center coordinates: ${centerLat}, ${centerLon}`)
-                  return {
-                    lat: centerLat,
-                    lon: centerLon
-                  }
-                }
-              }
-            } catch (parseError) {
-              console.warn('[Data Aggregator] Could not parse field coordinates:', parseError)
-            }
-          }
-        }
-      } catch (error) {
-        console.warn('[Data Aggregator] Error getting field coordinates:', error)
-      }
+    const center = scopeCentroid(scope.fields)
+    if (center) {
+      console.log(`[Data Aggregator] Using field center coordinates: ${center.lat}, ${center.lon}`)
+      return center
     }
 
     console.warn('[Data Aggregator] Could not extract coordinates from location or fields')
@@ -276,13 +499,12 @@ class FarmerDataAggregator {
   }
 
   /**
-   * Get weather forecast data
+   * Get weather forecast data, grouped by the farmer's local day (their Telegram time zone when set)
    */
-  private async getWeatherForecastData(lat: number, lon: number) {
+  private async getWeatherForecastData(lat: number, lon: number, timezone?: string | null) {
     try {
       const rawForecast = await this.agroAPI.getWeatherForecast(lat, lon)
-      const processedForecast = this.agroAPI.processWeatherForecast(rawForecast)
-      return processedForecast.forecast
+      return buildForecast(rawForecast, timezone)
     } catch (error) {
       console.warn('[Data Aggregator] Forecast data fetch failed:', error)
       return null
@@ -290,273 +512,263 @@ class FarmerDataAggregator {
   }
 
   /**
-   * Get NDVI data for user's fields
+   * NDVI, soil and UV for each field; a field whose lookups fail just has no data
    */
-  private async getNDVIData(userId: string, maxHistoryDays: number, selectedPolygonId?: string) {
-    try {
-      console.log(`[Data Aggregator] Fetching NDVI data for user: ${userId}`)
-      
-      // Get user's polygons/fields  
-      const user = await this.prisma.user.findUnique({
-        where: { id: userId },
-        include: {
-          farms: {
-            include: {
-              fields: true
-            }
-          }
-        }
-      })
-
-      if (!user?.farms.length || !user.farms[0].fields.length) {
-        console.warn('[Data Aggregator] No fields found for NDVI data')
-        return null
+  private async getFieldsData(fields: ScopedField[], includeHistoricalData: boolean, maxHistoryDays: number): Promise<FieldData[]> {
+    return Promise.all(fields.map(async (scoped) => {
+      // Other indices are read after the NDVI sync, which also refreshes them
+      const loadVegetation = async () => {
+        const ndvi = await this.getNDVIData(scoped.field, maxHistoryDays)
+        return { ...ndvi, indices: await this.getIndexData(scoped.field) }
       }
 
-      let polygonId = selectedPolygonId
-      
-      // If no selectedPolygonId provided, try to find/create one (fallback logic)
-      if (!polygonId) {
-        console.log('[Data Aggregator] No selectedPolygonId provided, trying to find/create polygon...')
-        
-        // Use the first field for NDVI data
-        const field = user.farms[0].fields[0]
-        
-        // Try to get or create polygon for the field
-        try {
-          const existingPolygons = await this.agroAPI.getPolygons()
-          
-          // Find polygon that matches this field (by name or coordinates)
-          const matchingPolygon = existingPolygons.find((p: any) => 
-            p.name.includes(field.name) || p.name.includes(user.name || 'Farm')
-          )
-          
-          if (matchingPolygon) {
-            polygonId = matchingPolygon.id
-            console.log(`[Data Aggregator] Using existing polygon: ${polygonId}`)
-          } else {
-            // Create polygon from field coordinates if needed
-            if (field.coordinates) {
-              try {
-                const coordsData = JSON.parse(field.coordinates)
-                if (coordsData.type === 'Polygon' && coordsData.coordinates[0]) {
-                  const points = coordsData.coordinates[0].map((coord: number[]) => ({
-                    lat: coord[1],
-                    lng: coord[0]
-                  }))
-                  
-                  const newPolygon = await this.agroAPI.createPolygon(field.name, points)
-                  polygonId = newPolygon.id
-                  console.log(`[Data Aggregator] Created new polygon: ${polygonId}`)
-                }
-              } catch (parseError) {
-                console.warn('[Data Aggregator] Could not parse field coordinates:', parseError)
-              }
-            }
-          }
-        } catch (polygonError) {
-          console.warn('[Data Aggregator] Error with polygons:', polygonError)
-        }
-      } else {
-        console.log(`[Data Aggregator] Using selectedPolygonId: ${polygonId}`)
-      }
+      const [vegetation, soil, uvIndex] = await Promise.all([
+        includeHistoricalData ? loadVegetation() : Promise.resolve({ ndviData: null, ndviCleaning: null, indices: [] }),
+        includeHistoricalData ? this.getSoilData(scoped.field) : Promise.resolve(null),
+        this.getUVData(scoped.field)
+      ])
+      return { scoped, ...vegetation, soil, uvIndex }
+    }))
+  }
 
-      if (!polygonId) {
-        console.warn('[Data Aggregator] No polygon available for NDVI data')
-        return null
-      }
+  /**
+   * Merge per-field data into one view. With several fields NDVI and soil values are
+   * weighted by field area; NDVI dates where too little of the area was observed are dropped.
+   */
+  private combineFieldsData(fieldsData: FieldData[]): CombinedFieldData {
+    if (fieldsData.length === 1) {
+      const [only] = fieldsData
+      return { ndviData: only.ndviData || [], ndviCleaning: only.ndviCleaning, soilData: only.soil, uvIndex: only.uvIndex }
+    }
 
-      // Fetch real NDVI data
-      const endDate = new Date()
-      const startDate = new Date()
-      startDate.setDate(endDate.getDate() - maxHistoryDays)
+    const totalWeight = fieldsData.reduce((sum, data) => sum + data.scoped.weight, 0)
+
+    // NDVI: the cleaned series already has one value per field per day; area-weight across fields
+    const byDate = new Map<string, { sum: number; weight: number; rawSum: number; rawWeight: number }>()
+    for (const data of fieldsData) {
+      for (const item of data.ndviData || []) {
+        const entry = byDate.get(item.date) || { sum: 0, weight: 0, rawSum: 0, rawWeight: 0 }
+        entry.sum += item.ndviMean * data.scoped.weight
+        entry.weight += data.scoped.weight
+        if (item.rawNdvi !== undefined) {
+          entry.rawSum += item.rawNdvi * data.scoped.weight
+          entry.rawWeight += data.scoped.weight
+        }
+        byDate.set(item.date, entry)
+      }
+    }
 
-      const startTimestamp = this.agroAPI.dateToUnixTimestamp(startDate)
-      const endTimestamp = this.agroAPI.dateToUnixTimestamp(endDate)
+    const ndviData = [...byDate.entries()]
+      .filter(([, entry]) => entry.weight / totalWeight >= MIN_NDVI_AREA_COVERAGE)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, entry]) => {
+        const ndviMean = Number((entry.sum / entry.weight).toFixed(4))
+        const status = this.agroAPI.getNDVIStatus(ndviMean)
+        return {
+          date,
+          ndviMean,
+          rawNdvi: entry.rawWeight > 0 ? Number((entry.rawSum / entry.rawWeight).toFixed(4)) : undefined,
+          ndviStatus: status.status,
+          description: status.description,
+          areaCoverage: Number((entry.weight / totalWeight).toFixed(2))
+        }
+      })
 
-      console.log(`[Data Aggregator] Fetching NDVI history for polygon ${polygonId}`)
-      const rawNDVIData = await this.agroAPI.getNDVIHistory(polygonId, startTimestamp, endTimestamp)
-      const processedNDVIData = this.agroAPI.processNDVIData(rawNDVIData)
+    // Scene counts add up across fields
+    const cleanings = fieldsData.map((data) => data.ndviCleaning).filter((cleaning): cleaning is NDVICleaningSummary => !!cleaning)
+    const ndviCleaning = cleanings.length > 0
+      ? {
+          scenes: cleanings.reduce((sum, cleaning) => sum + cleaning.scenes, 0),
+          used: cleanings.reduce((sum, cleaning) => sum + cleaning.used, 0),
+          cloudy: cleanings.reduce((sum, cleaning) => sum + cleaning.cloudy, 0),
+          partialCoverage: cleanings.reduce((sum, cleaning) => sum + cleaning.partialCoverage, 0),
+          outliers: cleanings.reduce((sum, cleaning) => sum + cleaning.outliers, 0),
+          smoothing: cleanings[0].smoothing
+        }
+      : null
+
+    // Soil: latest reading of each field, area-weighted
+    const withSoil = fieldsData.filter((data): data is FieldData & { soil: SoilEntry } => !!data.soil)
+    let soilData: SoilEntry | null = null
+    if (withSoil.length > 0) {
+      const weights = withSoil.map((data) => ({ value: data.soil, weight: data.scoped.weight }))
+      const moisture = Number(weightedMean(weights.map(({ value, weight }) => ({ value: value.moisture, weight }))).toFixed(1))
+      soilData = {
+        date: withSoil.map((data) => data.soil.date).sort().pop()!,
+        surfaceTemp: Number(weightedMean(weights.map(({ value, weight }) => ({ value: value.surfaceTemp, weight }))).toFixed(1)),
+        soilTemp: Number(weightedMean(weights.map(({ value, weight }) => ({ value: value.soilTemp, weight }))).toFixed(1)),
+        moisture,
+        moistureStatus: this.agroAPI.getSoilMoistureStatus(moisture).status
+      }
+    }
 
-      // Convert to format expected by AI
-      const formattedData = processedNDVIData.map((item: any) => ({
-        date: item.date,
-        ndviMean: item.ndviMean,
-        ndviStatus: item.ndviStatus,
-        description: item.description
-      }))
+    // UV varies little between nearby plots; average what is available
+    const withUV = fieldsData.filter((data) => data.uvIndex !== null)
+    const uvIndex = withUV.length > 0
+      ? Number(weightedMean(withUV.map((data) => ({ value: data.uvIndex!, weight: data.scoped.weight }))).toFixed(1))
+      : null
 
-      console.log(`[Data Aggregator] Successfully fetched ${formattedData.length} NDVI data points`)
-      return formattedData
-    } catch (error) {
-      console.warn('[Data Aggregator] NDVI data fetch failed:', error)
-      return null
-    }
+    return { ndviData, ndviCleaning, soilData, uvIndex }
   }
 
   /**
-   * Get soil data for user's fields
+   * Get the cleaned NDVI series for a field from stored history, syncing it first if stale.
+   * Values are smoothed; the raw scene value is kept alongside.
    */
-  private async getSoilData(userId: string, maxHistoryDays: number, selectedPolygonId?: string) {
+  private async getNDVIData(
+    field: Field,
+    maxHistoryDays: number
+  ): Promise<{ ndviData: NDVIEntry[] | null; ndviCleaning: NDVICleaningSummary | null }> {
     try {
-      console.log(`[Data Aggregator] Fetching soil data for user: ${userId}`)
+      console.log(`[Data Aggregator] Fetching NDVI data for field: ${field.name} (${field.id})`)
       
-      // Get user's polygons/fields (similar to NDVI)
-      const user = await this.prisma.user.findUnique({
-        where: { id: userId },
-        include: {
-          farms: {
-            include: {
-              fields: true
-            }
+      const ingestion = getNDVIIngestionService()
+      await ingestion.syncFieldIfStale(field)
+      const { cleaned } = await ingestion.getCleanedHistory(field.id, { daysBack: maxHistoryDays })
+      const { summary } = cleaned
+      console.log(`[Data Aggregator] Loaded ${summary.total} stored NDVI readings for field ${field.name}, ${summary.kept} kept after cleaning`)
+
+      // Convert to format expected by AI: one entry per day with a usable scene
+      const formattedData = cleaned.daily
+        .filter((point) => point.observed)
+        .map((point) => {
+          const status = this.agroAPI.getNDVIStatus(point.value)
+          return {
+            date: point.date,
+            ndviMean: point.value,
+            rawNdvi: point.raw,
+            ndviStatus: status.status,
+            description: status.description
           }
-        }
-      })
+        })
 
-      if (!user?.farms.length || !user.farms[0].fields.length) {
-        console.warn('[Data Aggregator] No fields found for soil data')
-        return null
+      return {
+        ndviData: formattedData,
+        ndviCleaning: {
+          scenes: summary.total,
+          used: summary.kept,
+          cloudy: summary.rejected.cloud,
+          partialCoverage: summary.rejected.coverage,
+          outliers: summary.rejected.outlier,
+          smoothing: cleaned.options.smoothing
+        }
       }
+    } catch (error) {
+      console.warn('[Data Aggregator] NDVI data fetch failed:', error)
+      return { ndviData: null, ndviCleaning: null }
+    }
+  }
 
-      let polygonId = selectedPolygonId
-      
-      // If no selectedPolygonId provided, try to find one (fallback logic)
-      if (!polygonId) {
-        console.log('[Data Aggregator] No selectedPolygonId provided for soil data, trying to find polygon...')
-        
-        const field = user.farms[0].fields[0]
-        
-        try {
-          const existingPolygons = await this.agroAPI.getPolygons()
-          const matchingPolygon = existingPolygons.find((p: any) => 
-            p.name.includes(field.name) || p.name.includes(user.name || 'Farm')
-          )
-          
-          if (matchingPolygon) {
-            polygonId = matchingPolygon.id
-            console.log(`[Data Aggregator] Using existing polygon for soil data: ${polygonId}`)
+  /**
+   * Latest stored reading of each index besides NDVI, graded with its own thresholds
+   */
+  private async getIndexData(field: Field): Promise<VegetationIndexSummary[]> {
+    try {
+      const latest = await getNDVIIngestionService().getLatestIndices(field.id)
+      return latest
+        .filter((reading) => reading.index !== 'NDVI')
+        .map((reading) => {
+          const info = VEGETATION_INDICES[reading.index]
+          const status = getIndexStatus(reading.index, reading.value)
+          return {
+            index: reading.index,
+            name: info.name,
+            measures: info.measures,
+            value: reading.value,
+            date: reading.date,
+            status: status.status,
+            description: status.description
           }
-        } catch (polygonError) {
-          console.warn('[Data Aggregator] Error getting polygons for soil data:', polygonError)
-        }
-      } else {
-        console.log(`[Data Aggregator] Using selectedPolygonId for soil data: ${polygonId}`)
-      }
+        })
+    } catch (error) {
+      console.warn(`[Data Aggregator] Vegetation index lookup failed for field ${field.id}:`, error)
+      return []
+    }
+  }
 
-      if (!polygonId) {
-        console.warn('[Data Aggregator] No polygon available for soil data')
+  /**
+   * Get current soil data for a field
+   */
+  private async getSoilData(field: Field): Promise<SoilEntry | null> {
+    try {
+      if (!field.polygonId) {
+        console.warn(`[Data Aggregator] No polygon available for soil data of field ${field.name}`)
         return null
       }
 
-      // Fetch real soil data
-      const endDate = new Date()
-      const startDate = new Date()
-      startDate.setDate(endDate.getDate() - maxHistoryDays)
-
-      const startTimestamp = this.agroAPI.dateToUnixTimestamp(startDate)
-      const endTimestamp = this.agroAPI.dateToUnixTimestamp(endDate)
-
-      console.log(`[Data Aggregator] Fetching soil history for polygon ${polygonId}`)
-      
-      // Get current soil data only (historical data removed)
-      let rawSoilData
-      try {
-        // Use current soil data only
-        const currentSoilData = await this.agroAPI.getCurrentSoilData(polygonId)
-        rawSoilData = [currentSoilData] // Wrap in array for consistent processing
-      } catch (currentError: any) {
-        console.warn(`[Data Aggregator] Current soil data failed:`, currentError.message)
-        throw currentError
-      }
-      
-      const processedSoilData = this.agroAPI.processSoilData(rawSoilData)
+      console.log(`[Data Aggregator] Fetching current soil data for polygon ${field.polygonId}`)
+      const currentSoilData = await this.agroAPI.getCurrentSoilData(field.polygonId)
+      const [item] = this.agroAPI.processSoilData([currentSoilData])
 
       // Convert to format expected by AI
-      const formattedData = processedSoilData.map((item: any) => ({
+      return {
         date: item.date,
         surfaceTemp: item.surfaceTemp,
         soilTemp: item.soilTemp,
         moisture: item.moisture,
-        moistureStatus: item.moistureStatus
-      }))
-
-      console.log(`[Data Aggregator] Successfully fetched ${formattedData.length} soil data points`)
-      return formattedData
+        moistureStatus: this.agroAPI.getSoilMoistureStatus(item.moisture).status
+      }
     } catch (error) {
-      console.warn('[Data Aggregator] Soil data fetch failed:', error)
+      console.warn(`[Data Aggregator] Soil data fetch failed for field ${field.id}:`, error)
       return null
     }
   }
 
   /**
-   * Get UV index data
+   * Get current UV index for a field
    */
-  private async getUVData(userId: string, selectedPolygonId?: string): Promise<number | null> {
+  private async getUVData(field: Field): Promise<number | null> {
     try {
-      console.log(`[Data Aggregator] Fetching UV data for user: ${userId}`)
-      
-      // Get user's polygons/fields (similar to NDVI and soil)
-      const user = await this.prisma.user.findUnique({
-        where: { id: userId },
-        include: {
-          farms: {
-            include: {
-              fields: true
-            }
-          }
-        }
-      })
-
-      if (!user?.farms.length || !user.farms[0].fields.length) {
-        console.warn('[Data Aggregator] No fields found for UV data')
+      if (!field.polygonId) {
+        console.warn(`[Data Aggregator] No polygon available for UV data of field ${field.name}`)
         return null
       }
 
-      let polygonId = selectedPolygonId
-      
-      // If no selectedPolygonId provided, try to find one (fallback logic)
-      if (!polygonId) {
-        console.log('[Data Aggregator] No selectedPolygonId provided for UV data, trying to find polygon...')
-        
-        const field = user.farms[0].fields[0]
-        
-        try {
-          const existingPolygons = await this.agroAPI.getPolygons()
-          const matchingPolygon = existingPolygons.find((p: any) => 
-            p.name.includes(field.name) || p.name.includes(user.name || 'Farm')
-          )
-          
-          if (matchingPolygon) {
-            polygonId = matchingPolygon.id
-            console.log(`[Data Aggregator] Using existing polygon for UV data: ${polygonId}`)
-          }
-        } catch (polygonError) {
-          console.warn('[Data Aggregator] Error getting polygons for UV data:', polygonError)
-        }
-      } else {
-        console.log(`[Data Aggregator] Using selectedPolygonId for UV data: ${polygonId}`)
-      }
+      console.log(`[Data Aggregator] Fetching current UVI for polygon ${field.polygonId}`)
+      const rawUVData = await this.agroAPI.getCurrentUVI(field.polygonId)
+      return rawUVData.uvi
+    } catch (error) {
+      console.warn(`[Data Aggregator] UV data fetch failed for field ${field.id}:`, error)
+      return null
+    }
+  }
 
-      if (!polygonId) {
-        console.warn('[Data Aggregator] No polygon available for UV data')
-        return null
+  /**
+   * Whole-holding view: latest NDVI and soil moisture per field, per farm and for all
+   * fields together, plus the area-weighted NDVI history of the holding
+   */
+  async getHoldingSummary(userId: string, maxHistoryDays: number = 30): Promise<HoldingSummary> {
+    const userData = await this.getUserAndProfile(userId)
+    const scope = this.resolveScope(userData.farms, { scope: 'holding' })
+    await this.loadSeasons(scope)
+    const fieldsData = await this.getFieldsData(scope.fields, true, maxHistoryDays)
+    const holding = this.combineFieldsData(fieldsData)
+
+    const farms = userData.farms.map((farm) => {
+      const farmData = fieldsData.filter((data) => data.scoped.field.farmId === farm.id)
+      const combined = farmData.length > 0 ? this.combineFieldsData(farmData) : null
+      return {
+        id: farm.id,
+        name: farm.name,
+        fieldCount: farmData.length,
+        area: farmData.reduce((sum, data) => sum + (data.scoped.field.area || 0), 0) || null,
+        latestNdvi: combined?.ndviData[combined.ndviData.length - 1]?.ndviMean ?? null,
+        soilMoisture: combined?.soilData?.moisture ?? null
       }
+    })
 
-      // Fetch real UV data
-      console.log(`[Data Aggregator] Fetching current UVI for polygon ${polygonId}`)
-      
-      let rawUVData
-      try {
-        rawUVData = await this.agroAPI.getCurrentUVI(polygonId)
-        console.log(`[Data Aggregator] Successfully fetched UV index: ${rawUVData.uvi}`)
-        return rawUVData.uvi
-      } catch (uvError: any) {
-        console.warn(`[Data Aggregator] UV data fetch failed:`, uvError.message)
-        throw uvError
-      }
-    } catch (error) {
-      console.warn('[Data Aggregator] UV data fetch failed:', error)
-      return null
+    return {
+      fieldCount: scope.fields.length,
+      totalArea: scope.totalArea || null,
+      fields: fieldsData.map(toFieldSummary),
+      farms,
+      latestNdvi: holding.ndviData[holding.ndviData.length - 1]?.ndviMean ?? null,
+      soilMoisture: holding.soilData?.moisture ?? null,
+      ndviHistory: holding.ndviData.map(({ date, ndviMean, areaCoverage }) => ({
+        date,
+        ndviMean,
+        areaCoverage: areaCoverage ?? 1
+      }))
     }
   }
 
@@ -645,5 +857,5 @@ export function getFarmerDataAggregator(): FarmerDataAggregator {
   return farmerDataAggregator
 }
 
-export type { AggregatedFarmerData, DataAggregationOptions }
+export type { AggregatedFarmerData, DataAggregationOptions, HoldingSummary }
 export default FarmerDataAggregator
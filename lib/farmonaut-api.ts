@@ -149,3 +149,5 @@ export const processWeatherData = (rawData: any): WeatherData => {
     date: rawData.date || new Date().toISOString(),
   }
 }
+
+export type { FarmonautConfig, FieldData, SatelliteImageResponse, WeatherData }
@@ -0,0 +1,528 @@
+import type { Farm, Field, User } from '@prisma/client'
+import { prisma } from './prisma'
+import { getAgromonitoringAPI, type PolygonResponse } from './agromonitoring-api'
+import { fieldBoundariesForUser, getPolygonSyncService } from './polygon-sync'
+import { createZip, readZip, ZipError, ZipLimitError } from './zip-archive'
+import { createPolygonShapefile, readPolygonShapefile, ShapefileError, type DBFField } from './shapefile'
+import {
+  WGS84,
+  ProjectionError,
+  coordinateSystemFromName,
+  coordinateSystemFromWKT,
+  type CoordinateSystem
+} from './projections'
+import { checkFieldBoundary, repairFieldBoundary, toPolygonGeoJSON, type LatLng } from './field-geometry'
+
+// Field boundaries in and out of the app as GeoJSON, KML/KMZ (Google Earth, land-record portals)
+// and zipped ESRI Shapefiles
+
+export const BOUNDARY_FORMATS = ['geojson', 'kml', 'kmz', 'shapefile'] as const
+export type BoundaryFormat = (typeof BOUNDARY_FORMATS)[number]
+
+const MAX_IMPORT_BOUNDARIES = 200
+
+// Attribute names tried, in order, for a boundary's name, farm and crop (case-insensitive)
+const NAME_KEYS = ['name', 'field', 'field_name', 'fieldname', 'title', 'label', 'survey_no', 'surveyno', 'survey', 'khasra', 'khasra_no', 'plot', 'plot_no']
+const FARM_KEYS = ['farm', 'farm_name', 'farmname']
+const CROP_KEYS = ['crop', 'crop_type', 'croptype']
+
+// Attribute table of exported shapefiles; imports read the same names back
+const FIELD_DBF_FIELDS: DBFField[] = [
+  { name: 'FIELD_ID', type: 'C', length: 30 },
+  { name: 'NAME', type: 'C', length: 100 },
+  { name: 'FARM', type: 'C', length: 100 },
+  { name: 'CROP', type: 'C', length: 50 },
+  { name: 'AREA_HA', type: 'N', length: 12, decimals: 3 }
+]
+
+type Properties = Record<string, unknown>
+
+// A feature as found in the file, before reprojection and validation
+interface SourceFeature {
+  properties: Properties
+  polygons: number[][][][] // rings of [x, y] in the file's coordinate system
+}
+
+interface ImportedBoundary {
+  name: string
+  farmName: string | null
+  cropType: string | null
+  points: LatLng[] // outer ring, checked and counter-clockwise
+  areaHa: number
+}
+
+interface RejectedBoundary {
+  name: string
+  reason: string
+}
+
+interface ParsedBoundaryFile {
+  format: BoundaryFormat
+  boundaries: ImportedBoundary[]
+  rejected: RejectedBoundary[]
+  warnings: string[]
+}
+
+interface BoundaryImportResult {
+  created: Array<{ field: Field; polygon: PolygonResponse }>
+  failed: RejectedBoundary[]
+}
+
+interface BoundaryExport {
+  data: Buffer | string
+  contentType: string
+  fileName: string
+}
+
+/**
+ * Thrown when an uploaded file cannot be imported at all; status is the HTTP status to return
+ */
+class BoundaryImportError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400
+  ) {
+    super(message)
+    this.name = 'BoundaryImportError'
+  }
+}
+
+function pickText(properties: Properties, keys: string[]): string | null {
+  const byKey = new Map(Object.entries(properties).map(([key, value]) => [key.toLowerCase(), value]))
+  for (const key of keys) {
+    const value = byKey.get(key)
+    if ((typeof value === 'string' && value.trim()) || typeof value === 'number') {
+      return String(value).trim()
+    }
+  }
+  return null
+}
+
+// =============================================================================
+// READING
+// =============================================================================
+
+function decodeXML(text: string): string {
+  const cdata = text.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/)
+  if (cdata) return cdata[1].trim()
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim()
+}
+
+function kmlCoordinates(block: string): number[][] {
+  const text = block.match(/<coordinates>([\s\S]*?)<\/coordinates>/)?.[1] || ''
+  return text
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((tuple) => tuple.split(',').slice(0, 2).map(Number))
+}
+
+// KML is always WGS84 longitude/latitude
+function readKML(text: string): SourceFeature[] {
+  // Drop namespace prefixes such as <kml:Placemark>
+  const kml = text.replace(/<(\/?)[\w-]+:(?=[A-Za-z])/g, '<$1')
+  const placemarks = kml.match(/<Placemark[\s>][\s\S]*?<\/Placemark>/g) || []
+
+  return placemarks.map((placemark) => {
+    const properties: Properties = {}
+    for (const [, key, value] of placemark.matchAll(/<Data name="([^"]+)"[^>]*>[\s\S]*?<value>([\s\S]*?)<\/value>/g)) {
+      properties[key] = decodeXML(value)
+    }
+    for (const [, key, value] of placemark.matchAll(/<SimpleData name="([^"]+)"[^>]*>([\s\S]*?)<\/SimpleData>/g)) {
+      properties[key] = decodeXML(value)
+    }
+    // The placemark's own <name> wins over extended data
+    const name = placemark.replace(/<ExtendedData[\s\S]*?<\/ExtendedData>/g, '').match(/<name>([\s\S]*?)<\/name>/)?.[1]
+    if (name && decodeXML(name)) properties.name = decodeXML(name)
+
+    const polygons = (placemark.match(/<Polygon[\s>][\s\S]*?<\/Polygon>/g) || []).map((polygon) => {
+      const outer = polygon.match(/<outerBoundaryIs>[\s\S]*?<\/outerBoundaryIs>/)?.[0] || ''
+      const inner = polygon.match(/<innerBoundaryIs>[\s\S]*?<\/innerBoundaryIs>/g) || []
+      return [kmlCoordinates(outer), ...inner.map(kmlCoordinates)]
+    })
+    return { properties, polygons }
+  })
+}
+
+function geoJSONPolygons(geometry: any): number[][][][] {
+  if (!geometry) return []
+  if (geometry.type === 'Polygon') return [geometry.coordinates]
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates
+  if (geometry.type === 'GeometryCollection') return (geometry.geometries || []).flatMap(geoJSONPolygons)
+  return []
+}
+
+function readGeoJSON(text: string): { features: SourceFeature[]; crs: CoordinateSystem } {
+  let data: any
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new BoundaryImportError('The file is not valid GeoJSON')
+  }
+
+  // RFC 7946 GeoJSON is always WGS84; older files may name another CRS
+  const crsName = data?.crs?.properties?.name
+  const crs = typeof crsName === 'string' ? coordinateSystemFromName(crsName) : WGS84
+
+  const items: any[] = data?.type === 'FeatureCollection' ? data.features || [] : [data]
+  const features = items.map((item) =>
+    item?.type === 'Feature'
+      ? { properties: item.properties || {}, polygons: geoJSONPolygons(item.geometry) }
+      : { properties: {}, polygons: geoJSONPolygons(item) }
+  )
+  return { features, crs }
+}
+
+function readShapefileZip(files: Map<string, Buffer>, warnings: string[]): Array<{ features: SourceFeature[]; crs: CoordinateSystem }> {
+  const byName = new Map([...files].filter(([name]) => !name.startsWith('__MACOSX/')).map(([name, data]) => [name.toLowerCase(), data]))
+  const layers = [...byName.keys()].filter((name) => name.endsWith('.shp'))
+
+  return layers.map((layer) => {
+    const base = layer.slice(0, -4)
+    const prj = byName.get(`${base}.prj`)
+    if (!prj) {
+      warnings.push(`${layer.split('/').pop()} has no .prj file, so its coordinates are assumed to be WGS84 longitude/latitude`)
+    }
+    const features = readPolygonShapefile(byName.get(layer)!, byName.get(`${base}.dbf`))
+    return {
+      features: features.map((feature) => ({ properties: feature.properties, polygons: feature.coordinates })),
+      crs: prj ? coordinateSystemFromWKT(prj.toString('utf8')) : WGS84
+    }
+  })
+}
+
+function detectFormat(fileName: string, buffer: Buffer): BoundaryFormat | 'zip' {
+  const extension = fileName.toLowerCase().split('.').pop()
+  if (extension === 'kmz') return 'kmz'
+  if (extension === 'kml') return 'kml'
+  if (extension === 'geojson' || extension === 'json') return 'geojson'
+  if (extension === 'zip' || buffer.subarray(0, 2).toString('latin1') === 'PK') return 'zip'
+
+  const start = buffer.subarray(0, 200).toString('utf8').trimStart()
+  if (start.startsWith('{')) return 'geojson'
+  if (start.startsWith('<')) return 'kml'
+  throw new BoundaryImportError('Unsupported file type; upload a .kml, .kmz, .geojson or zipped shapefile (.zip)')
+}
+
+// One polygon's outer ring in WGS84
+function toBoundaryPoints(polygon: number[][][], crs: CoordinateSystem): { points: LatLng[] } | { reason: string } {
+  const points: LatLng[] = []
+  for (const point of polygon[0] || []) {
+    if (point.length < 2 || !point.slice(0, 2).every(Number.isFinite)) {
+      return { reason: 'Boundary has invalid coordinates' }
+    }
+    const [lng, lat] = crs.toWGS84(point[0], point[1])
+    if (!(Math.abs(lng) <= 180 && Math.abs(lat) <= 90)) {
+      return { reason: 'Coordinates are not longitude/latitude; check that the file includes its coordinate system' }
+    }
+    points.push({ lat: Number(lat.toFixed(7)), lng: Number(lng.toFixed(7)) })
+  }
+  return { points }
+}
+
+/**
+ * Read an uploaded boundary file into WGS84 field boundaries, with the ones that cannot be used and why
+ */
+export function parseBoundaryFile(fileName: string, buffer: Buffer): ParsedBoundaryFile {
+  const warnings: string[] = []
+  let format: BoundaryFormat
+  let layers: Array<{ features: SourceFeature[]; crs: CoordinateSystem }>
+
+  try {
+    const detected = detectFormat(fileName, buffer)
+    if (detected === 'geojson') {
+      format = 'geojson'
+      layers = [readGeoJSON(buffer.toString('utf8'))]
+    } else if (detected === 'kml') {
+      format = 'kml'
+      layers = [{ features: readKML(buffer.toString('utf8')), crs: WGS84 }]
+    } else {
+      const files = readZip(buffer)
+      const kml = [...files.keys()].find((name) => name.toLowerCase().endsWith('.kml'))
+      const hasShapefile = [...files.keys()].some((name) => name.toLowerCase().endsWith('.shp'))
+      if (detected === 'kmz' || (kml && !hasShapefile)) {
+        if (!kml) throw new BoundaryImportError('The KMZ file does not contain a KML document')
+        format = 'kmz'
+        layers = [{ features: readKML(files.get(kml)!.toString('utf8')), crs: WGS84 }]
+      } else {
+        if (!hasShapefile) throw new BoundaryImportError('The ZIP file does not contain a shapefile (.shp)')
+        format = 'shapefile'
+        layers = readShapefileZip(files, warnings)
+      }
+    }
+  } catch (error) {
+    if (error instanceof ZipLimitError) {
+      throw new BoundaryImportError(error.message, 413)
+    }
+    if (error instanceof ZipError || error instanceof ShapefileError || error instanceof ProjectionError) {
+      throw new BoundaryImportError(error.message)
+    }
+    if (error instanceof RangeError) {
+      throw new BoundaryImportError('The file is damaged or incomplete')
+    }
+    throw error
+  }
+
+  const boundaries: ImportedBoundary[] = []
+  const rejected: RejectedBoundary[] = []
+  let skipped = 0
+  let withHoles = 0
+  let untangled = 0
+  let count = 0
+
+  for (const { features, crs } of layers) {
+    for (const feature of features) {
+      if (feature.polygons.length === 0) {
+        skipped++
+        continue
+      }
+
+      const baseName = (pickText(feature.properties, NAME_KEYS) || `Imported field ${++count}`).slice(0, 100)
+      feature.polygons.forEach((polygon, part) => {
+        const name = feature.polygons.length > 1 ? `${baseName} (${part + 1})` : baseName
+        const result = toBoundaryPoints(polygon, crs)
+        if ('reason' in result) {
+          rejected.push({ name, reason: result.reason })
+          return
+        }
+
+        // Digitising slips that cross the boundary over itself are repaired rather than rejected
+        let check = checkFieldBoundary(result.points)
+        if (check.issues.some((issue) => issue.code === 'self_intersection')) {
+          check = checkFieldBoundary(repairFieldBoundary(result.points).points)
+          if (check.valid) untangled++
+        }
+        if (!check.valid) {
+          rejected.push({ name, reason: check.issues.find((issue) => issue.severity === 'error')!.message })
+          return
+        }
+        if (polygon.length > 1) withHoles++
+
+        boundaries.push({
+          name,
+          farmName: pickText(feature.properties, FARM_KEYS),
+          cropType: pickText(feature.properties, CROP_KEYS),
+          points: check.points,
+          areaHa: Number(check.areaHa.toFixed(3))
+        })
+      })
+    }
+  }
+
+  if (skipped) {
+    warnings.push(`${skipped} ${skipped === 1 ? 'feature' : 'features'} without a polygon (points or lines) skipped`)
+  }
+  if (untangled) {
+    warnings.push(`${untangled} ${untangled === 1 ? 'boundary crossed itself and was' : 'boundaries crossed themselves and were'} repaired; check them on the map`)
+  }
+  if (withHoles) {
+    warnings.push(`${withHoles} ${withHoles === 1 ? 'boundary has holes' : 'boundaries have holes'}; only the outer edge is imported`)
+  }
+  if (boundaries.length === 0 && rejected.length === 0) {
+    throw new BoundaryImportError('No field boundaries (polygons) were found in the file')
+  }
+  if (boundaries.length > MAX_IMPORT_BOUNDARIES) {
+    throw new BoundaryImportError(`The file has ${boundaries.length} boundaries; import at most ${MAX_IMPORT_BOUNDARIES} at a time`)
+  }
+
+  return { format, boundaries, rejected, warnings }
+}
+
+// =============================================================================
+// WRITING
+// =============================================================================
+
+type FarmWithFields = Farm & { fields: Field[] }
+
+function fieldRings(field: Field): number[][][] | null {
+  try {
+    const geometry = JSON.parse(field.coordinates)
+    return geometry.type === 'Polygon' && Array.isArray(geometry.coordinates) ? geometry.coordinates : null
+  } catch {
+    return null
+  }
+}
+
+function escapeXML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function toGeoJSON(farms: FarmWithFields[]) {
+  return {
+    type: 'FeatureCollection',
+    features: farms.flatMap((farm) =>
+      farm.fields.flatMap((field) => {
+        const rings = fieldRings(field)
+        if (!rings) return []
+        return [{
+          type: 'Feature',
+          properties: { id: field.id, name: field.name, farm: farm.name, crop: field.cropType, area_ha: field.area },
+          geometry: { type: 'Polygon', coordinates: rings }
+        }]
+      })
+    )
+  }
+}
+
+function toKML(farms: FarmWithFields[]): string {
+  const ringXML = (ring: number[][]) =>
+    `<LinearRing><coordinates>${ring.map(([lng, lat]) => `${lng},${lat}`).join(' ')}</coordinates></LinearRing>`
+  const data = (name: string, value: string | number | null) =>
+    value === null || value === '' ? '' : `<Data name="${name}"><value>${escapeXML(String(value))}</value></Data>`
+
+  const folders = farms.map((farm) => {
+    const placemarks = farm.fields.flatMap((field) => {
+      const rings = fieldRings(field)
+      if (!rings) return []
+      return [
+        `<Placemark><name>${escapeXML(field.name)}</name><styleUrl>#field</styleUrl>` +
+          `<ExtendedData>${data('farm', farm.name)}${data('crop', field.cropType)}${data('area_ha', field.area)}${data('field_id', field.id)}</ExtendedData>` +
+          `<Polygon><outerBoundaryIs>${ringXML(rings[0])}</outerBoundaryIs>` +
+          rings.slice(1).map((ring) => `<innerBoundaryIs>${ringXML(ring)}</innerBoundaryIs>`).join('') +
+          `</Polygon></Placemark>`
+      ]
+    })
+    return `<Folder><name>${escapeXML(farm.name)}</name>${placemarks.join('\n')}</Folder>`
+  })
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2"><Document><name>Fields</name>',
+    '<Style id="field"><LineStyle><color>ff00ff00</color><width>2</width></LineStyle><PolyStyle><color>4000ff00</color></PolyStyle></Style>',
+    ...folders,
+    '</Document></kml>'
+  ].join('\n')
+}
+
+/**
+ * Farms and their field boundaries in one of the export formats
+ */
+export function buildBoundaryExport(farms: FarmWithFields[], format: BoundaryFormat, date: Date = new Date()): BoundaryExport {
+  const baseName = `fields-${date.toISOString().split('T')[0]}`
+
+  switch (format) {
+    case 'geojson':
+      return { data: JSON.stringify(toGeoJSON(farms)), contentType: 'application/geo+json', fileName: `${baseName}.geojson` }
+    case 'kml':
+      return { data: toKML(farms), contentType: 'application/vnd.google-earth.kml+xml', fileName: `${baseName}.kml` }
+    case 'kmz':
+      return {
+        data: createZip([{ name: 'doc.kml', data: toKML(farms) }]),
+        contentType: 'application/vnd.google-earth.kmz',
+        fileName: `${baseName}.kmz`
+      }
+    case 'shapefile': {
+      const features = farms.flatMap((farm) =>
+        farm.fields.flatMap((field) => {
+          const rings = fieldRings(field)
+          if (!rings) return []
+          return [{
+            coordinates: [rings],
+            properties: { FIELD_ID: field.id, NAME: field.name, FARM: farm.name, CROP: field.cropType, AREA_HA: field.area }
+          }]
+        })
+      )
+      return { data: createPolygonShapefile(baseName, features, FIELD_DBF_FIELDS), contentType: 'application/zip', fileName: `${baseName}.zip` }
+    }
+  }
+}
+
+class FieldBoundaryService {
+  /**
+   * Create a field and its Agromonitoring polygon for each imported boundary.
+   * Boundaries go to the given farm, else to the user's farm named in the file (created if new),
+   * else to the user's first farm.
+   */
+  async importBoundaries(user: User, boundaries: ImportedBoundary[], farmId?: string): Promise<BoundaryImportResult> {
+    const farms = await prisma.farm.findMany({ where: { userId: user.id }, orderBy: { createdAt: 'asc' } })
+    if (farmId && !farms.some((farm) => farm.id === farmId)) {
+      throw new BoundaryImportError('Farm not found', 404)
+    }
+
+    const farmFor = async (farmName: string | null): Promise<Farm> => {
+      if (farmId) return farms.find((farm) => farm.id === farmId)!
+      const named = farmName && farms.find((farm) => farm.name.trim().toLowerCase() === farmName.toLowerCase())
+      if (named) return named
+      if (!farmName && farms.length) return farms[0]
+
+      const farm = await prisma.farm.create({
+        data: { name: farmName || `${user.name || 'My'}'s Farm`, location: user.location || '', userId: user.id }
+      })
+      farms.push(farm)
+      return farm
+    }
+
+    const result: BoundaryImportResult = { created: [], failed: [] }
+    const api = getAgromonitoringAPI()
+    const existing = await fieldBoundariesForUser(user.id)
+
+    // One at a time, to stay within the polygon API's rate limit
+    for (const boundary of boundaries) {
+      // Also catches a file that holds the same field twice
+      const check = checkFieldBoundary(boundary.points, existing)
+      if (!check.valid) {
+        result.failed.push({ name: boundary.name, reason: check.issues.find((issue) => issue.severity === 'error')!.message })
+        continue
+      }
+
+      const farm = await farmFor(boundary.farmName)
+      const field = await prisma.field.create({
+        data: {
+          name: boundary.name,
+          coordinates: toPolygonGeoJSON(check.points),
+          cropType: boundary.cropType,
+          area: boundary.areaHa,
+          farmId: farm.id
+        }
+      })
+
+      try {
+        const polygonId = await getPolygonSyncService().ensurePolygonForField(field.id)
+        if (!polygonId) throw new Error('Field boundary is not a valid polygon')
+
+        result.created.push({ field, polygon: await api.getPolygon(polygonId) })
+        existing.push({ name: field.name, points: check.points })
+      } catch (error) {
+        // Without a polygon the field has no satellite data, so don't keep it half-created
+        await prisma.field.delete({ where: { id: field.id } })
+        result.failed.push({ name: boundary.name, reason: error instanceof Error ? error.message : 'Could not create the satellite polygon' })
+      }
+    }
+
+    console.log(`[Field Boundaries] Imported ${result.created.length} fields for user ${user.id}, ${result.failed.length} failed`)
+    return result
+  }
+
+  /**
+   * All of the user's farms (or one farm) with their field boundaries, ready to download
+   */
+  async exportBoundaries(userId: string, format: BoundaryFormat, farmId?: string): Promise<BoundaryExport> {
+    const farms = await prisma.farm.findMany({
+      where: { userId, ...(farmId && { id: farmId }) },
+      include: { fields: { orderBy: { createdAt: 'asc' } } },
+      orderBy: { createdAt: 'asc' }
+    })
+    return buildBoundaryExport(farms, format)
+  }
+}
+
+// Singleton instance
+let fieldBoundaryService: FieldBoundaryService | null = null
+
+export function getFieldBoundaryService(): FieldBoundaryService {
+  if (!fieldBoundaryService) {
+    fieldBoundaryService = new FieldBoundaryService()
+  }
+  return fieldBoundaryService
+}
+
+export { BoundaryImportError }
+export type { ImportedBoundary, RejectedBoundary, ParsedBoundaryFile, BoundaryImportResult, BoundaryExport }
@@ -0,0 +1,182 @@
+import type { Field, FieldGeometryVersion } from '@prisma/client'
+import { prisma } from './prisma'
+import { getAgromonitoringAPI, type PolygonResponse } from './agromonitoring-api'
+import { fieldBoundariesForUser, getPolygonSyncService, parseFieldRing, polygonNameForField } from './polygon-sync'
+import { checkFieldBoundary, toPolygonGeoJSON, type GeometryIssue, type LatLng } from './field-geometry'
+
+// Boundary edits and their history. Agromonitoring cannot change a polygon's shape, so every edit
+// creates a new remote polygon, relinks the field and deletes the old polygon. Readings stay on the
+// field and are tagged with the boundary version they were measured over.
+
+interface BoundaryVersion {
+  version: number
+  coordinates: number[][] // closed [lng, lat] ring
+  areaHa: number | null
+  polygonId: string | null
+  validFrom: Date
+  validTo: Date | null
+  current: boolean
+}
+
+interface BoundaryUpdate {
+  field: Field
+  polygon: PolygonResponse
+  version: number
+  issues: GeometryIssue[] // warnings only; errors are thrown
+}
+
+/**
+ * Thrown when a boundary edit is refused; status is the HTTP status to return
+ */
+class FieldGeometryError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400,
+    public issues: GeometryIssue[] = []
+  ) {
+    super(message)
+    this.name = 'FieldGeometryError'
+  }
+}
+
+function ringOf(coordinates: string): number[][] {
+  try {
+    return JSON.parse(coordinates).coordinates[0] || []
+  } catch {
+    return []
+  }
+}
+
+function sameBoundary(a: LatLng[], b: LatLng[]): boolean {
+  return a.length === b.length && a.every((point, i) => point.lat === b[i].lat && point.lng === b[i].lng)
+}
+
+function toBoundaryVersion(row: FieldGeometryVersion, current: number): BoundaryVersion {
+  return {
+    version: row.version,
+    coordinates: ringOf(row.coordinates),
+    areaHa: row.area,
+    polygonId: row.polygonId,
+    validFrom: row.validFrom,
+    validTo: row.validTo,
+    current: row.version === current
+  }
+}
+
+class FieldGeometryVersionService {
+  /**
+   * Replace a field's boundary, keeping the old one as history
+   */
+  async updateBoundary(userId: string, fieldId: string, points: LatLng[]): Promise<BoundaryUpdate> {
+    const field = await prisma.field.findFirst({ where: { id: fieldId, farm: { userId } } })
+    if (!field) {
+      throw new FieldGeometryError('Field not found', 404)
+    }
+
+    const check = checkFieldBoundary(points, await fieldBoundariesForUser(userId, field.id))
+    if (!check.valid) {
+      throw new FieldGeometryError(check.issues.find((issue) => issue.severity === 'error')!.message, 422, check.issues)
+    }
+
+    const current = parseFieldRing(field.coordinates)
+    const currentCheck = current ? checkFieldBoundary(current) : null
+    if (currentCheck && sameBoundary(currentCheck.points, check.points)) {
+      throw new FieldGeometryError('The boundary has not changed')
+    }
+
+    const api = getAgromonitoringAPI()
+    const polygon = await api.createPolygon(polygonNameForField(field), check.points)
+    const previousPolygonId = field.polygonId
+    const now = new Date()
+    const version = field.geometryVersion + 1
+
+    let updated: Field
+    try {
+      // Fields never edited before have no history rows yet; their original boundary is recorded first
+      ;[, , updated] = await prisma.$transaction([
+        prisma.fieldGeometryVersion.upsert({
+          where: { fieldId_version: { fieldId: field.id, version: field.geometryVersion } },
+          update: { validTo: now },
+          create: {
+            fieldId: field.id,
+            version: field.geometryVersion,
+            coordinates: field.coordinates,
+            area: field.area,
+            polygonId: previousPolygonId,
+            validFrom: field.createdAt,
+            validTo: now
+          }
+        }),
+        prisma.fieldGeometryVersion.create({
+          data: {
+            fieldId: field.id,
+            version,
+            coordinates: toPolygonGeoJSON(check.points),
+            area: check.areaHa,
+            polygonId: polygon.id,
+            validFrom: now
+          }
+        }),
+        // The next NDVI sync reads from the new polygon; earlier readings stay on the field
+        prisma.field.update({
+          where: { id: field.id },
+          data: {
+            coordinates: toPolygonGeoJSON(check.points),
+            area: check.areaHa,
+            polygonId: polygon.id,
+            geometryVersion: version,
+            ndviSyncedAt: null
+          }
+        })
+      ])
+    } catch (error) {
+      // Nothing links to the new polygon, so don't leave it behind
+      await api.deletePolygon(polygon.id).catch((deleteError) => {
+        console.warn(`[Field Geometry] Could not delete unused polygon ${polygon.id}:`, deleteError)
+      })
+      throw error
+    }
+
+    await getPolygonSyncService().deletePolygonForField({ id: field.id, polygonId: previousPolygonId })
+
+    console.log(`[Field Geometry] Field ${field.id} boundary v${version}: polygon ${previousPolygonId} -> ${polygon.id}`)
+    return { field: updated, polygon, version, issues: check.issues }
+  }
+
+  /**
+   * Boundaries the field has had, newest first
+   */
+  async getHistory(fieldId: string): Promise<BoundaryVersion[]> {
+    const field = await prisma.field.findUnique({
+      where: { id: fieldId },
+      include: { geometryVersions: { orderBy: { version: 'desc' } } }
+    })
+    if (!field) return []
+
+    if (field.geometryVersions.length === 0) {
+      return [{
+        version: field.geometryVersion,
+        coordinates: ringOf(field.coordinates),
+        areaHa: field.area,
+        polygonId: field.polygonId,
+        validFrom: field.createdAt,
+        validTo: null,
+        current: true
+      }]
+    }
+    return field.geometryVersions.map((row) => toBoundaryVersion(row, field.geometryVersion))
+  }
+}
+
+// Singleton instance
+let fieldGeometryVersionService: FieldGeometryVersionService | null = null
+
+export function getFieldGeometryVersionService(): FieldGeometryVersionService {
+  if (!fieldGeometryVersionService) {
+    fieldGeometryVersionService = new FieldGeometryVersionService()
+  }
+  return fieldGeometryVersionService
+}
+
+export { FieldGeometryError }
+export type { BoundaryVersion, BoundaryUpdate }
@@ -0,0 +1,302 @@
+// Checks and repairs for field boundaries, shared by the map field creators and the API routes so
+// a boundary the farmer is allowed to save is one Agromonitoring will accept.
+// Pure functions with no server dependencies, safe to import on the client.
+
+export interface LatLng {
+  lat: number
+  lng: number
+}
+
+export const MIN_FIELD_AREA_HA = 0.01 // one 10 m satellite pixel
+export const MAX_FIELD_AREA_HA = 3000 // largest polygon Agromonitoring accepts
+
+const EARTH_RADIUS_M = 6378137
+const DUPLICATE_DISTANCE_M = 0.5 // vertices closer than this are the same point
+const OVERLAP_IGNORED = 0.02 // share of the smaller field; shared bunds are rarely drawn exactly
+const OVERLAP_ALLOWED = 0.1 // above this an overlap blocks saving
+const OVERLAP_SAMPLES = 40 // grid size per axis when estimating overlap
+
+type GeometryIssueCode =
+  | 'too_few_points'
+  | 'duplicate_vertices'
+  | 'self_intersection'
+  | 'orientation'
+  | 'too_small'
+  | 'too_large'
+  | 'overlap'
+
+interface GeometryIssue {
+  code: GeometryIssueCode
+  severity: 'error' | 'warning'
+  message: string
+  repairable: boolean // fixed by repairFieldBoundary
+}
+
+interface BoundaryCheck {
+  valid: boolean // no errors
+  issues: GeometryIssue[]
+  areaHa: number
+  points: LatLng[] // open ring without duplicate vertices, counter-clockwise
+}
+
+interface NamedBoundary {
+  name: string
+  points: LatLng[]
+}
+
+interface BoundaryRepair {
+  points: LatLng[]
+  repairs: string[]
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+/**
+ * Area of a boundary on the sphere, in hectares
+ */
+export function polygonAreaHa(points: LatLng[]): number {
+  let sum = 0
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % points.length]
+    sum += toRadians(b.lng - a.lng) * (2 + Math.sin(toRadians(a.lat)) + Math.sin(toRadians(b.lat)))
+  }
+  return Math.abs((sum * EARTH_RADIUS_M * EARTH_RADIUS_M) / 2) / 10000
+}
+
+// Local planar metres around the boundary; plenty accurate at field scale
+function projector(points: LatLng[]): (point: LatLng) => [number, number] {
+  const lat0 = points.reduce((sum, point) => sum + point.lat, 0) / Math.max(1, points.length)
+  const metresPerDegree = (Math.PI * EARTH_RADIUS_M) / 180
+  const cosLat = Math.cos(toRadians(lat0))
+  return (point) => [point.lng * metresPerDegree * cosLat, point.lat * metresPerDegree]
+}
+
+/**
+ * Signed planar area of a ring of [x, y] points, open or closed; positive when counter-clockwise
+ */
+export function signedRingArea(ring: number[][]): number {
+  let sum = 0
+  for (let i = 0; i < ring.length; i++) {
+    const [x1, y1] = ring[i]
+    const [x2, y2] = ring[(i + 1) % ring.length]
+    sum += x1 * y2 - x2 * y1
+  }
+  return sum / 2
+}
+
+function cross(o: [number, number], a: [number, number], b: [number, number]): number {
+  return (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0])
+}
+
+function onSegment(p: [number, number], a: [number, number], b: [number, number]): boolean {
+  return Math.min(a[0], b[0]) <= p[0] && p[0] <= Math.max(a[0], b[0]) && Math.min(a[1], b[1]) <= p[1] && p[1] <= Math.max(a[1], b[1])
+}
+
+function segmentsIntersect(a: [number, number], b: [number, number], c: [number, number], d: [number, number]): boolean {
+  const d1 = cross(c, d, a)
+  const d2 = cross(c, d, b)
+  const d3 = cross(a, b, c)
+  const d4 = cross(a, b, d)
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) return true
+  return (d1 === 0 && onSegment(a, c, d)) || (d2 === 0 && onSegment(b, c, d)) || (d3 === 0 && onSegment(c, a, b)) || (d4 === 0 && onSegment(d, a, b))
+}
+
+// First pair of non-adjacent edges that cross or touch; edge i runs from vertex i to i + 1
+function findCrossing(xy: Array<[number, number]>): [number, number] | null {
+  const n = xy.length
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue // share vertex 0
+      if (segmentsIntersect(xy[i], xy[(i + 1) % n], xy[j], xy[(j + 1) % n])) return [i, j]
+    }
+  }
+  return null
+}
+
+/**
+ * Planar even-odd test of an [x, y] point against a ring of [x, y] points
+ */
+export function pointInRing(point: number[], ring: number[][]): boolean {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]
+    const [xj, yj] = ring[j]
+    if (yi > point[1] !== yj > point[1] && point[0] < ((xj - xi) * (point[1] - yi)) / (yj - yi) + xi) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+// Drop the closing point and vertices within DUPLICATE_DISTANCE_M of the previous one
+function withoutDuplicates(points: LatLng[]): { points: LatLng[]; removed: number } {
+  const project = projector(points)
+  const near = (a: LatLng, b: LatLng) => {
+    const [x1, y1] = project(a)
+    const [x2, y2] = project(b)
+    return Math.hypot(x2 - x1, y2 - y1) < DUPLICATE_DISTANCE_M
+  }
+
+  // A closed ring repeats its first point; that is not a drawing mistake
+  const first = points[0]
+  const last = points[points.length - 1]
+  const open = points.length > 1 && first.lat === last.lat && first.lng === last.lng ? points.slice(0, -1) : points
+
+  const kept: LatLng[] = []
+  for (const point of open) {
+    if (kept.length === 0 || !near(kept[kept.length - 1], point)) kept.push(point)
+  }
+  while (kept.length > 1 && near(kept[0], kept[kept.length - 1])) kept.pop()
+  return { points: kept, removed: open.length - kept.length }
+}
+
+/**
+ * Approximate area in hectares shared by two boundaries
+ */
+export function overlapAreaHa(a: LatLng[], b: LatLng[]): number {
+  const project = projector([...a, ...b])
+  const ringA = a.map(project)
+  const ringB = b.map(project)
+
+  const box = (ring: Array<[number, number]>) => [
+    Math.min(...ring.map((p) => p[0])),
+    Math.min(...ring.map((p) => p[1])),
+    Math.max(...ring.map((p) => p[0])),
+    Math.max(...ring.map((p) => p[1]))
+  ]
+  const [ax1, ay1, ax2, ay2] = box(ringA)
+  const [bx1, by1, bx2, by2] = box(ringB)
+  const x1 = Math.max(ax1, bx1)
+  const y1 = Math.max(ay1, by1)
+  const x2 = Math.min(ax2, bx2)
+  const y2 = Math.min(ay2, by2)
+  if (x1 >= x2 || y1 >= y2) return 0
+
+  // Count sample points (cell centres) inside both boundaries
+  let inside = 0
+  for (let i = 0; i < OVERLAP_SAMPLES; i++) {
+    for (let j = 0; j < OVERLAP_SAMPLES; j++) {
+      const point: [number, number] = [x1 + ((i + 0.5) * (x2 - x1)) / OVERLAP_SAMPLES, y1 + ((j + 0.5) * (y2 - y1)) / OVERLAP_SAMPLES]
+      if (pointInRing(point, ringA) && pointInRing(point, ringB)) inside++
+    }
+  }
+  return ((inside / (OVERLAP_SAMPLES * OVERLAP_SAMPLES)) * (x2 - x1) * (y2 - y1)) / 10000
+}
+
+/**
+ * Check a boundary (open or closed ring) before it is saved. Other fields are checked for overlap.
+ */
+export function checkFieldBoundary(points: LatLng[], otherFields: NamedBoundary[] = []): BoundaryCheck {
+  const issues: GeometryIssue[] = []
+  const finite = points.filter((point) => Number.isFinite(point.lat) && Number.isFinite(point.lng))
+  const { points: cleaned, removed } = withoutDuplicates(finite)
+
+  if (cleaned.length < 3) {
+    issues.push({ code: 'too_few_points', severity: 'error', message: 'A field boundary needs at least 3 distinct points', repairable: false })
+    return { valid: false, issues, areaHa: 0, points: cleaned }
+  }
+  if (removed > 0) {
+    issues.push({
+      code: 'duplicate_vertices',
+      severity: 'warning',
+      message: `${removed} duplicate ${removed === 1 ? 'point was' : 'points were'} removed`,
+      repairable: true
+    })
+  }
+
+  const project = projector(cleaned)
+  const xy = cleaned.map(project)
+  if (findCrossing(xy)) {
+    issues.push({
+      code: 'self_intersection',
+      severity: 'error',
+      message: 'The boundary crosses itself; redraw it or let it be repaired',
+      repairable: true
+    })
+    // Area and overlap mean little until the crossing is fixed
+    return { valid: false, issues, areaHa: polygonAreaHa(cleaned), points: cleaned }
+  }
+
+  let oriented = cleaned
+  if (signedRingArea(xy) < 0) {
+    // GeoJSON (RFC 7946) outer rings run counter-clockwise
+    oriented = [...cleaned].reverse()
+    issues.push({ code: 'orientation', severity: 'warning', message: 'The boundary was drawn clockwise and has been reversed', repairable: true })
+  }
+
+  const areaHa = polygonAreaHa(oriented)
+  if (areaHa < MIN_FIELD_AREA_HA) {
+    issues.push({
+      code: 'too_small',
+      severity: 'error',
+      message: `The field is only ${Math.round(areaHa * 10000)} m²; fields must be at least ${MIN_FIELD_AREA_HA * 10000} m²`,
+      repairable: false
+    })
+  } else if (areaHa > MAX_FIELD_AREA_HA) {
+    issues.push({
+      code: 'too_large',
+      severity: 'error',
+      message: `The field is ${Math.round(areaHa)} ha; fields can be at most ${MAX_FIELD_AREA_HA} ha`,
+      repairable: false
+    })
+  }
+
+  for (const other of otherFields) {
+    if (other.points.length < 3) continue
+    const shared = overlapAreaHa(oriented, other.points)
+    const share = shared / Math.min(areaHa, polygonAreaHa(other.points))
+    if (!(share > OVERLAP_IGNORED)) continue
+
+    const blocking = share > OVERLAP_ALLOWED
+    issues.push({
+      code: 'overlap',
+      severity: blocking ? 'error' : 'warning',
+      message: `Overlaps ${other.name} by about ${shared < 1 ? `${Math.round(shared * 10000)} m²` : `${shared.toFixed(1)} ha`}`,
+      repairable: false
+    })
+  }
+
+  return { valid: !issues.some((issue) => issue.severity === 'error'), issues, areaHa, points: oriented }
+}
+
+/**
+ * Fix what can be fixed automatically: duplicate points, crossings (by reversing the stretch of
+ * boundary between two crossing edges until none cross) and orientation
+ */
+export function repairFieldBoundary(points: LatLng[]): BoundaryRepair {
+  const repairs: string[] = []
+  const { points: cleaned, removed } = withoutDuplicates(points.filter((point) => Number.isFinite(point.lat) && Number.isFinite(point.lng)))
+  if (removed > 0) repairs.push(`Removed ${removed} duplicate ${removed === 1 ? 'point' : 'points'}`)
+  if (cleaned.length < 3) return { points: cleaned, repairs }
+
+  let ring = [...cleaned]
+  const project = projector(ring)
+  let untangled = 0
+  // Each reversal shortens the boundary, so this ends; the cap only guards against rounding loops
+  for (let attempt = 0; attempt < ring.length * ring.length; attempt++) {
+    const crossing = findCrossing(ring.map(project))
+    if (!crossing) break
+    const [i, j] = crossing
+    ring = [...ring.slice(0, i + 1), ...ring.slice(i + 1, j + 1).reverse(), ...ring.slice(j + 1)]
+    untangled++
+  }
+  if (untangled > 0) repairs.push(`Untangled ${untangled} ${untangled === 1 ? 'crossing' : 'crossings'}`)
+
+  if (signedRingArea(ring.map(project)) < 0) {
+    ring.reverse()
+    repairs.push('Reversed the boundary to run counter-clockwise')
+  }
+  return { points: ring, repairs }
+}
+
+/**
+ * Stored GeoJSON polygon for a boundary: closed [lng, lat] ring
+ */
+export function toPolygonGeoJSON(points: LatLng[]): string {
+  const ring = points.map((point) => [point.lng, point.lat])
+  if (ring.length) ring.push([...ring[0]])
+  return JSON.stringify({ type: 'Polygon', coordinates: [ring] })
+}
+
+export type { GeometryIssueCode, GeometryIssue, BoundaryCheck, NamedBoundary, BoundaryRepair }
@@ -0,0 +1,190 @@
+import { prisma } from './prisma'
+import { getAgromonitoringAPI, type SatelliteImageryScene } from './agromonitoring-api'
+import { GeoTIFFError, readGeoTIFF, rasterToLngLat, type GeoRaster } from './geotiff'
+import { parseFieldRing } from './polygon-sync'
+import { delineateZones, type ManagementZone } from './management-zones'
+import { pointInRing } from './field-geometry'
+
+const SCENE_SEARCH_DAYS = 120
+const MAX_SCENE_CLOUD = 20 // %
+const MIN_SCENE_COVERAGE = 90 // %
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface ZoningOptions {
+  zoneCount: number
+  sceneTimestamp?: number // a specific scene from /api/imagery; defaults to the latest clear one
+}
+
+interface ZoneScene {
+  date: string
+  timestamp: number
+  satellite: string
+  cloudCover: number
+  dataCoverage: number
+}
+
+interface FieldZoneMap {
+  fieldId: string
+  fieldName: string
+  scene: ZoneScene
+  zoneCount: number
+  pixelSizeM: number
+  pixelCount: number
+  zones: ManagementZone[]
+  warnings: string[]
+}
+
+/**
+ * Thrown when a field cannot be zoned; status is the HTTP status to return
+ */
+class ZoningError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400
+  ) {
+    super(message)
+    this.name = 'ZoningError'
+  }
+}
+
+// Ground area of one pixel in the given raster row, in hectares
+function pixelAreaHa(raster: GeoRaster, row: number): number {
+  const y = raster.originY - (row + 0.5) * raster.pixelHeight
+  const [, lat] = rasterToLngLat(raster, raster.originX, y)
+  const cosLat = Math.cos((lat * Math.PI) / 180)
+
+  if (raster.epsg === 3857) {
+    return (raster.pixelWidth * raster.pixelHeight * cosLat * cosLat) / 10000
+  }
+  return (raster.pixelWidth * 111320 * cosLat * raster.pixelHeight * 110574) / 10000
+}
+
+class FieldZoningService {
+  /**
+   * Split a field into management zones using the NDVI raster of one clear satellite scene
+   */
+  async getZoneMap(fieldId: string, options: ZoningOptions): Promise<FieldZoneMap> {
+    const field = await prisma.field.findUnique({ where: { id: fieldId } })
+    if (!field) {
+      throw new ZoningError('Field not found', 404)
+    }
+    if (!field.polygonId) {
+      throw new ZoningError('Field is not linked to a satellite monitoring polygon yet', 409)
+    }
+    const ring = parseFieldRing(field.coordinates)
+    if (!ring || ring.length < 3) {
+      throw new ZoningError('Field has no usable boundary', 409)
+    }
+
+    const scene = await this.findScene(field.polygonId, options.sceneTimestamp)
+    const raster = await this.loadRaster(scene.data.ndvi!)
+
+    // Keep pixels whose centre falls inside the field and that hold a plausible NDVI value
+    const boundary = ring.map((point) => [point.lng, point.lat])
+    const values = new Float32Array(raster.values.length).fill(NaN)
+    for (let row = 0; row < raster.height; row++) {
+      for (let col = 0; col < raster.width; col++) {
+        const index = row * raster.width + col
+        const value = raster.values[index]
+        if (Number.isNaN(value) || value < -1 || value > 1) continue
+
+        const [lng, lat] = rasterToLngLat(
+          raster,
+          raster.originX + (col + 0.5) * raster.pixelWidth,
+          raster.originY - (row + 0.5) * raster.pixelHeight
+        )
+        if (pointInRing([lng, lat], boundary)) values[index] = value
+      }
+    }
+
+    const { zones, pixelCount, warnings } = delineateZones(
+      {
+        width: raster.width,
+        height: raster.height,
+        values,
+        vertex: (col, row) => {
+          const [lng, lat] = rasterToLngLat(raster, raster.originX + col * raster.pixelWidth, raster.originY - row * raster.pixelHeight)
+          return [Number(lng.toFixed(7)), Number(lat.toFixed(7))]
+        },
+        cellAreaHa: (row) => pixelAreaHa(raster, row)
+      },
+      options.zoneCount
+    )
+
+    console.log(`[Field Zoning] ${zones.length} zones for field ${field.name} (${field.id}) from ${pixelCount} pixels`)
+
+    return {
+      fieldId: field.id,
+      fieldName: field.name,
+      scene: {
+        date: new Date(scene.dt * 1000).toISOString().split('T')[0],
+        timestamp: scene.dt,
+        satellite: scene.type,
+        cloudCover: Math.round(scene.cl * 10) / 10,
+        dataCoverage: Math.round(scene.dc * 10) / 10
+      },
+      zoneCount: options.zoneCount,
+      pixelSizeM: Math.round(Math.sqrt(pixelAreaHa(raster, Math.floor(raster.height / 2)) * 10000)),
+      pixelCount,
+      zones,
+      warnings
+    }
+  }
+
+  /**
+   * Download and decode a scene's NDVI GeoTIFF
+   */
+  private async loadRaster(dataUrl: string): Promise<GeoRaster> {
+    const buffer = await getAgromonitoringAPI().getImageryRaster(dataUrl)
+    try {
+      return readGeoTIFF(buffer)
+    } catch (error) {
+      if (error instanceof GeoTIFFError) {
+        throw new ZoningError(`Could not read the NDVI raster: ${error.message}`, 502)
+      }
+      throw error
+    }
+  }
+
+  /**
+   * The requested scene, or the most recent one with little cloud over most of the field
+   */
+  private async findScene(polygonId: string, timestamp?: number): Promise<SatelliteImageryScene> {
+    const api = getAgromonitoringAPI()
+    const end = new Date()
+    const start = new Date(end.getTime() - SCENE_SEARCH_DAYS * DAY_MS)
+    const scenes = await api.searchSatelliteImagery(
+      polygonId,
+      api.dateToUnixTimestamp(start),
+      api.dateToUnixTimestamp(end)
+    )
+    const withData = scenes.filter((scene) => scene.data?.ndvi).sort((a, b) => b.dt - a.dt)
+
+    if (timestamp) {
+      const requested = withData.find((scene) => scene.dt === timestamp)
+      if (!requested) {
+        throw new ZoningError('That satellite scene is not available for this field', 404)
+      }
+      return requested
+    }
+
+    const clear = withData.find((scene) => scene.cl <= MAX_SCENE_CLOUD && scene.dc >= MIN_SCENE_COVERAGE)
+    if (!clear) {
+      throw new ZoningError(`No clear satellite scene over this field in the last ${SCENE_SEARCH_DAYS} days`, 404)
+    }
+    return clear
+  }
+}
+
+// Singleton instance
+let fieldZoningService: FieldZoningService | null = null
+
+export function getFieldZoningService(): FieldZoningService {
+  if (!fieldZoningService) {
+    fieldZoningService = new FieldZoningService()
+  }
+  return fieldZoningService
+}
+
+export { ZoningError }
+export type { ZoningOptions, ZoneScene, FieldZoneMap }
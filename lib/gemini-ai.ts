@@ -1,4 +1,126 @@
 import { GoogleGenerativeAI } from '@google/generative-ai'
+import type { ForecastDay, ForecastHour } from './weather-forecast'
+
+interface FarmerDataScope {
+  level: 'field' | 'farm' | 'holding'
+  label: string // field name, farm name or a holding description
+  fieldCount: number
+  totalArea?: number // hectares
+}
+
+interface CropSeasonSummary {
+  fieldName?: string
+  cropName: string
+  variety?: string
+  sowingDate: string
+  expectedHarvestDate?: string
+  actualHarvestDate?: string
+  daysSinceSowing?: number
+  yield?: number // tons per hectare
+}
+
+interface GrowthStageSummary {
+  stage: string
+  stageIndex: number
+  totalStages: number
+  stageProgress: number // percent through the current stage
+  focus: string
+  nextStage: string | null
+  daysToNextStage: number | null
+  nextStageDate: string | null
+  daysToMaturity: number | null
+  accumulatedGdd: number
+  baseTemp: number
+  method: 'gdd' | 'calendar'
+  mature: boolean
+}
+
+interface VegetationIndexSummary {
+  fieldName?: string // set when the scope has several fields
+  index: string // EVI, NDWI, SAVI or NDRE
+  name: string
+  measures: string
+  value: number
+  date: string
+  status: string
+  description: string
+}
+
+interface NDVICleaningSummary {
+  scenes: number // raw scenes in the period
+  used: number
+  cloudy: number
+  partialCoverage: number
+  outliers: number
+  smoothing: string // whittaker, savitzky-golay or none
+}
+
+interface IrrigationPlanSummary {
+  fieldName: string
+  area: number | null
+  cropName: string
+  stage: string
+  irrigationMethod: string
+  efficiency: number
+  readilyAvailableWater: number // mm
+  initialDepletion: number // mm
+  soilMoistureSource: 'satellite' | 'assumed'
+  days: Array<{
+    date: string
+    et0: number
+    etc: number
+    rainfall: number
+    irrigate: boolean
+    grossDepth: number // mm
+    volume: number | null // m³
+    estimated: boolean
+  }>
+  totalVolume: number | null
+  notes: string[]
+}
+
+interface WeatherAlertSummary {
+  fieldName?: string // set when the scope has several fields
+  type: string // rule id, e.g. frost or dry_spell
+  severity: 'warning' | 'critical'
+  title: string
+  message: string
+  startsAt: string // ISO timestamps
+  endsAt: string
+}
+
+interface SprayWindowSummary {
+  product: string // product type label, e.g. "General pesticide"
+  rainfastHours: number
+  windows: Array<{
+    date: string // local date the window opens
+    from: string // local "HH:00"
+    to: string
+    hours: number
+    rating: 'good' | 'marginal'
+    maxWindSpeed: number // km/h
+    deltaT: [number, number] // °C range
+    best: boolean // one of the recommended windows
+    notes: string[] // what makes a marginal window marginal
+  }>
+  blockers: string[] // most common reasons the other hours are unsuitable
+}
+
+interface FieldSummary {
+  id: string
+  name: string
+  farmId: string
+  farmName: string
+  cropType?: string
+  sowingDate?: string // of the active season
+  area?: number
+  latestNdvi?: number
+  ndviStatus?: string
+  ndviDate?: string
+  soilMoisture?: number
+  growthStage?: string
+  daysToNextStage?: number
+}
 
 interface FarmerData {
   // User basic info
@@ -17,6 +139,19 @@ interface FarmerData {
   farmSize?: number
   previousYield?: number
 
+  // Which fields the environmental data below covers; with several fields NDVI and
+  // soil values are area-weighted and the per-field breakdown is in fields
+  scope?: FarmerDataScope
+  fields?: FieldSummary[]
+
+  // Crop seasons: the one in the ground now (single field) and recent harvests for yield comparison
+  activeSeason?: CropSeasonSummary
+  pastSeasons?: CropSeasonSummary[]
+  growthStage?: GrowthStageSummary // of the active season, from growing degree days
+
+  // Irrigation schedule computed by lib/irrigation-planner.ts (FAO-56 water balance)
+  irrigationPlans?: IrrigationPlanSummary[]
+
   // Environmental data
   currentWeather?: {
     temp: number
@@ -30,10 +165,16 @@ interface FarmerData {
   // Satellite data
   ndviData?: {
     date: string
-    ndviMean: number
+    ndviMean: number // smoothed
+    rawNdvi?: number // scene value before smoothing
     ndviStatus: string
     description: string
+    areaCoverage?: number // share of the scope's area observed on this date
   }[]
+  ndviCleaning?: NDVICleaningSummary // how the NDVI series above was cleaned
+
+  // Latest reading of the other stored vegetation indices, graded like NDVI
+  vegetationIndices?: VegetationIndexSummary[]
 
   // Soil data
   soilData?: {
@@ -46,13 +187,10 @@ interface FarmerData {
 
   // Additional agromonitoring data
   uvIndex?: number
-  forecast?: Array<{
-    date: string
-    high: number
-    low: number
-    description: string
-    precipitation: number
-  }>
+  forecast?: ForecastDay[] // by the farmer's calendar day
+  hourlyForecast?: ForecastHour[] // next 48 hours
+  weatherAlerts?: WeatherAlertSummary[] // active alerts from the rule engine in lib/weather-alerts.ts
+  sprayWindows?: SprayWindowSummary // next 72 hours, from lib/spray-windows.ts
 }
 
 interface AIInsightResponse {
@@ -136,6 +274,9 @@ FARMER PROFILE:
 - Storage Capacity: ${farmerData.hasStorageCapacity ? `Yes (${farmerData.storageCapacity || 'Not specified'} tons)` : 'No'}
 - Previous Yield: ${farmerData.previousYield ? `${farmerData.previousYield} tons/hectare` : 'Not provided'}
 
+${this.buildSeasonSection(farmerData)}
+${this.buildScopeSection(farmerData)}
+
 CURRENT ENVIRONMENTAL CONDITIONS (Real-time):
 ${farmerData.currentWeather ? `
 - Temperature: ${farmerData.currentWeather.temp}°C
@@ -149,8 +290,9 @@ ${farmerData.currentWeather ? `
 SATELLITE & NDVI DATA (Crop Health):
 ${farmerData.ndviData && farmerData.ndviData.length > 0 ?
         farmerData.ndviData.slice(-3).map(data => `
-- [${data.date}] NDVI: ${data.ndviMean.toFixed(3)} (${data.ndviStatus})
+- [${data.date}] NDVI: ${data.ndviMean.toFixed(3)}${data.rawNdvi !== undefined ? ` smoothed (raw ${data.rawNdvi.toFixed(3)})` : ''} (${data.ndviStatus})${data.areaCoverage !== undefined && data.areaCoverage < 1 ? ` from ${Math.round(data.areaCoverage * 100)}% of the area` : ''}
   Details: ${data.description}`).join('\n') : '⚠️ NDVI SATELLITE DATA NOT AVAILABLE. Do not invent crop health metrics.'}
+${this.buildNDVICleaningNote(farmerData)}${this.buildVegetationIndexSection(farmerData)}
 
 SOIL CONDITIONS (Moisture & Temp):
 ${farmerData.soilData && farmerData.soilData.length > 0 ?
@@ -158,11 +300,9 @@ ${farmerData.soilData && farmerData.soilData.length > 0 ?
 - [${data.date}] Moisture: ${data.moisture}% (${data.moistureStatus})
   Surface Temp: ${data.surfaceTemp}°C | Soil Temp: ${data.soilTemp}°C`).join('\n') : '⚠️ SOIL SENSOR DATA NOT AVAILABLE. Do not invent soil moisture levels.'}
 
-WEATHER FORECAST (Next 5 Days):
-${farmerData.forecast && farmerData.forecast.length > 0 ?
-        farmerData.forecast.slice(0, 5).map(day => `
-- [${day.date}] ${day.high}°C / ${day.low}°C | ${day.description} | Rain: ${day.precipitation}mm`).join('\n') : '⚠️ FORECAST DATA NOT AVAILABLE.'}
-
+${this.buildForecastSection(farmerData)}
+${this.buildWeatherAlertSection(farmerData)}${this.buildSprayWindowSection(farmerData)}
+${this.buildIrrigationSection(farmerData)}
 UV INDEX: ${farmerData.uvIndex !== undefined && farmerData.uvIndex !== null ? `${farmerData.uvIndex} (${this.getUVRiskLevel(farmerData.uvIndex)} Risk)` : 'Not available'}
 
 CONVERSATION HISTORY:
@@ -192,6 +332,175 @@ Values provided in the prompt are REAL data for this specific farmer. Treat them
 `
   }
 
+  /**
+   * Current crop season and past harvests, so advice matches the crop in the ground
+   */
+  private buildSeasonSection(farmerData: FarmerData): string {
+    const season = farmerData.activeSeason
+    const current = season
+      ? `CURRENT CROP SEASON:
+- ${season.cropName}${season.variety ? ` (variety: ${season.variety})` : ''}, sown ${season.sowingDate}${season.daysSinceSowing !== undefined ? ` (${season.daysSinceSowing} days ago)` : ''}${season.expectedHarvestDate ? `, expected harvest ${season.expectedHarvestDate}` : ''}`
+      : ''
+
+    const past = farmerData.pastSeasons && farmerData.pastSeasons.length > 0
+      ? `PAST SEASONS (compare yields with these):${farmerData.pastSeasons.map(pastSeason => `
+- ${pastSeason.fieldName ? `${pastSeason.fieldName}: ` : ''}${pastSeason.cropName}${pastSeason.variety ? ` (${pastSeason.variety})` : ''}, sown ${pastSeason.sowingDate}, harvested ${pastSeason.actualHarvestDate}, yield ${pastSeason.yield !== undefined ? `${pastSeason.yield} tons/hectare` : 'not recorded'}`).join('')}`
+      : ''
+
+    return [current + this.buildGrowthStageLine(farmerData.growthStage), past].filter(Boolean).join('\n\n')
+  }
+
+  /**
+   * Current growth stage and what comes next, so advice fits what the crop needs now
+   */
+  private buildGrowthStageLine(growthStage?: GrowthStageSummary): string {
+    if (!growthStage) return ''
+
+    const basis = growthStage.method === 'gdd'
+      ? `${growthStage.accumulatedGdd} growing degree days since sowing (base ${growthStage.baseTemp}°C)`
+      : 'estimated from the typical crop calendar, not enough weather history yet'
+
+    if (growthStage.mature) {
+      return `
+- Growth stage: ${growthStage.stage}, all stages completed (${basis}). The crop should be ready for harvest.`
+    }
+
+    return `
+- Growth stage: ${growthStage.stage} (stage ${growthStage.stageIndex + 1} of ${growthStage.totalStages}, ${growthStage.stageProgress}% through), ${basis}
+- Focus in this stage: ${growthStage.focus}${growthStage.nextStage ? `
+- Next stage: ${growthStage.nextStage}${growthStage.daysToNextStage !== null ? ` in about ${growthStage.daysToNextStage} days (${growthStage.nextStageDate})` : ''}` : ''}${growthStage.daysToMaturity !== null ? `
+- About ${growthStage.daysToMaturity} days to maturity` : ''}
+Tailor advice (irrigation, fertiliser, pest and disease risk) to this growth stage.`
+  }
+
+  /**
+   * Describe which fields the data covers, with a per-field breakdown for farms and holdings
+   */
+  private buildScopeSection(farmerData: FarmerData): string {
+    const scope = farmerData.scope
+    if (!scope) return ''
+
+    if (scope.level === 'field') {
+      return `DATA SCOPE: Single field "${scope.label}"${scope.totalArea ? ` (${scope.totalArea} hectares)` : ''}`
+    }
+
+    const header = `DATA SCOPE: ${scope.level === 'farm' ? `Farm "${scope.label}"` : scope.label} - ${scope.fieldCount} field(s)${scope.totalArea ? `, ${scope.totalArea.toFixed(2)} hectares` : ''}.
+NDVI and soil values below are area-weighted averages across these fields. Use the breakdown to point out fields that differ.`
+
+    const fields = (farmerData.fields || []).map(field => `
+- ${field.name} (${field.farmName}${field.area ? `, ${field.area} ha` : ''}${field.cropType ? `, ${field.cropType}` : ''}${field.sowingDate ? ` sown ${field.sowingDate}` : ''}): ${field.latestNdvi !== undefined ? `NDVI ${field.latestNdvi.toFixed(3)} (${field.ndviStatus}) on ${field.ndviDate}` : 'no NDVI'}, ${field.soilMoisture !== undefined ? `soil moisture ${field.soilMoisture}%` : 'no soil data'}${field.growthStage ? `, ${field.growthStage}${field.daysToNextStage !== undefined ? ` (next stage in ~${field.daysToNextStage} days)` : ''}` : ''}`).join('')
+
+    return `${header}${fields ? `\nFIELD BREAKDOWN:${fields}` : ''}`
+  }
+
+  /**
+   * How many scenes fed the NDVI series, so the AI weighs smoothed values over single raw ones
+   */
+  private buildNDVICleaningNote(farmerData: FarmerData): string {
+    const cleaning = farmerData.ndviCleaning
+    if (!cleaning || cleaning.scenes === 0 || !farmerData.ndviData?.length) return ''
+
+    const rejected = [
+      cleaning.cloudy && `${cleaning.cloudy} cloudy`,
+      cleaning.partialCoverage && `${cleaning.partialCoverage} with partial coverage`,
+      cleaning.outliers && `${cleaning.outliers} outliers`
+    ].filter(Boolean)
+
+    return `NDVI series cleaned: ${cleaning.used} of ${cleaning.scenes} scenes used${rejected.length ? ` (left out: ${rejected.join(', ')})` : ''}${cleaning.smoothing !== 'none' ? `, ${cleaning.smoothing} smoothing` : ''}. Base trends on the smoothed values; a raw value far from its smoothed one is noise, not a change in the crop.
+`
+  }
+
+  /**
+   * Latest readings of the indices besides NDVI, each with its own grade
+   */
+  private buildVegetationIndexSection(farmerData: FarmerData): string {
+    const readings = farmerData.vegetationIndices
+    if (!readings || readings.length === 0) return ''
+
+    const lines = readings.map(reading => `
+- ${reading.fieldName ? `${reading.fieldName}: ` : ''}[${reading.date}] ${reading.index}: ${reading.value.toFixed(3)} (${reading.status}) - ${reading.description}`).join('')
+
+    return `
+OTHER VEGETATION INDICES (${[...new Set(readings.map(reading => `${reading.index} = ${reading.measures}`))].join('; ')}):${lines}
+Use NDWI for water stress together with soil moisture, and NDRE for nitrogen status; mention them only where they add to NDVI.
+`
+  }
+
+  /**
+   * Daily forecast by the farmer's calendar day, then the next 24 hours in 3-hour steps
+   */
+  private buildForecastSection(farmerData: FarmerData): string {
+    const days = farmerData.forecast
+    if (!days || days.length === 0) return `WEATHER FORECAST:
+⚠️ FORECAST DATA NOT AVAILABLE.`
+
+    const daily = days.map(day => `
+- [${day.date}${day.partial ? ', part of day' : ''}] ${day.high}°C / ${day.low}°C | ${day.description} | Rain: ${day.precipitation}mm (${day.rainProbability}% chance) | Wind up to ${day.maxWindSpeed} km/h${day.maxWindGust !== null ? `, gusts ${day.maxWindGust} km/h` : ''}`).join('')
+
+    const hours = (farmerData.hourlyForecast || []).slice(0, 24).filter((_, index) => index % 3 === 0)
+    const hourly = hours.map(hour => `
+- [${hour.localDate} ${String(hour.localHour).padStart(2, '0')}:00] ${hour.temperature}°C, humidity ${hour.humidity}%, wind ${hour.windSpeed} km/h, rain ${hour.precipitation}mm/h (${hour.rainProbability}%), ${hour.description}`).join('')
+
+    return `WEATHER FORECAST (by local day; high/low, total rain and strongest wind of each day; "part of day" means only some hours are forecast):${daily}${hourly ? `
+
+NEXT 24 HOURS (local time):${hourly}` : ''}`
+  }
+
+  /**
+   * Weather alerts raised by the rule engine for the crop and stage; the AI should repeat them,
+   * not invent others from the raw forecast
+   */
+  private buildWeatherAlertSection(farmerData: FarmerData): string {
+    const alerts = farmerData.weatherAlerts
+    if (!alerts || alerts.length === 0) return ''
+
+    const lines = alerts.map(alert => `
+- ${alert.fieldName ? `${alert.fieldName}: ` : ''}[${alert.severity.toUpperCase()}] ${alert.title} (${alert.startsAt.slice(0, 16).replace('T', ' ')} to ${alert.endsAt.slice(0, 16).replace('T', ' ')} UTC): ${alert.message}`).join('')
+
+    return `
+ACTIVE WEATHER ALERTS (from crop- and stage-specific thresholds - put critical ones in urgentAlerts, and do not raise weather alerts that are not listed here):${lines}
+`
+  }
+
+  /**
+   * Hours fit for spraying over the next three days, so "can I spray?" gets a computed answer
+   */
+  private buildSprayWindowSection(farmerData: FarmerData): string {
+    const spray = farmerData.sprayWindows
+    if (!spray) return ''
+
+    const windows = spray.windows.map(window => `
+- [${window.date} ${window.from}-${window.to}] ${window.rating.toUpperCase()}${window.best ? ' (recommended)' : ''}, ${window.hours} h, wind up to ${window.maxWindSpeed} km/h, delta-T ${window.deltaT[0]}-${window.deltaT[1]}°C${window.notes.length > 0 ? ` - ${window.notes.join('; ')}` : ''}`).join('')
+
+    return `
+SPRAY WINDOWS (next 72 hours, local time; computed from the hourly forecast for a ${spray.product.toLowerCase()} that needs ${spray.rainfastHours} rain-free hours: wind 3-15 km/h, no inversion, delta-T 2-8°C, not too hot, no dew - answer spraying questions from these and do not suggest other times):${windows || `
+- No window of two hours or more`}${spray.blockers.length > 0 ? `
+Other hours are ruled out mainly by: ${spray.blockers.join(', ')}` : ''}
+Products with a longer rainfast period (e.g. systemic herbicides) need more rain-free hours; the dashboard and /spray in Telegram have them per product.
+`
+  }
+
+  /**
+   * Computed irrigation schedule; the AI explains it but must not change the numbers
+   */
+  private buildIrrigationSection(farmerData: FarmerData): string {
+    const plans = farmerData.irrigationPlans
+    if (!plans || plans.length === 0) return ''
+
+    const fields = plans.map(plan => {
+      const days = plan.days.map(day => `
+  - [${day.date}] ET0 ${day.et0}mm, crop ET ${day.etc}mm, rain ${day.rainfall}mm${day.irrigate ? ` -> IRRIGATE ${day.grossDepth}mm${day.volume !== null ? ` (${day.volume} m³)` : ''}` : ''}${day.estimated ? ' (estimated, beyond forecast)' : ''}`).join('')
+
+      return `
+- ${plan.fieldName} (${plan.cropName}, ${plan.stage}${plan.area ? `, ${plan.area} ha` : ''}): ${plan.irrigationMethod} at ${Math.round(plan.efficiency * 100)}% efficiency, root zone ${plan.initialDepletion}mm below field capacity (${plan.soilMoistureSource === 'satellite' ? 'from satellite soil moisture' : 'assumed, no soil data'}), irrigate when depletion passes ${plan.readilyAvailableWater}mm${plan.totalVolume !== null ? `, ${plan.totalVolume} m³ over 7 days` : ''}${days}${plan.notes.map(note => `
+  Note: ${note}`).join('')}`
+    }).join('')
+
+    return `
+IRRIGATION SCHEDULE (computed with FAO-56 Penman-Monteith and a soil water balance - explain it, do not change dates or volumes):${fields}
+`
+  }
+
   /**
    * Get UV risk level description
    */
@@ -263,7 +572,9 @@ Values provided in the prompt are REAL data for this specific farmer. Treat them
    * Generate irrigation recommendations
    */
   async generateIrrigationRecommendations(farmerData: FarmerData): Promise<AIInsightResponse> {
-    const question = `Based on the soil moisture data and weather forecast, what irrigation schedule and practices should I follow for my ${farmerData.cropName}?`
+    const question = farmerData.irrigationPlans && farmerData.irrigationPlans.length > 0
+      ? `Explain my 7-day irrigation schedule for my ${farmerData.cropName}: when to irrigate each field, how much water, and why (crop stage, evapotranspiration, rain and soil moisture). Keep the dates and volumes exactly as computed and add practical tips for my irrigation method.`
+      : `No irrigation schedule could be computed for my ${farmerData.cropName}. Based on the soil moisture data and weather forecast, what irrigation practices should I follow? Say clearly which data is missing.`
     return this.generateInsight(farmerData, question)
   }
 }
@@ -287,5 +598,5 @@ export function getGeminiAI(): GeminiAIService {
   return geminiAIService
 }
 
-export type { FarmerData, AIInsightResponse }
+export type { FarmerData, FarmerDataScope, FieldSummary, CropSeasonSummary, GrowthStageSummary, VegetationIndexSummary, NDVICleaningSummary, IrrigationPlanSummary, WeatherAlertSummary, SprayWindowSummary, AIInsightResponse }
 export default GeminiAIService
\ No newline at end of file
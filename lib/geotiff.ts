@@ -0,0 +1,345 @@
+import { inflateSync } from 'zlib'
+
+// Minimal GeoTIFF reader for the single-band index rasters Agromonitoring serves
+// (strips or tiles; uncompressed, LZW or Deflate; integer or float samples).
+// Only the first band is read.
+
+export interface GeoRaster {
+  width: number
+  height: number
+  values: Float32Array // row-major from the top-left pixel, NaN where there is no data
+  // Top-left corner of the top-left pixel and pixel size, in the raster's CRS
+  originX: number
+  originY: number
+  pixelWidth: number
+  pixelHeight: number
+  epsg: number // 4326 or 3857
+}
+
+class GeoTIFFError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'GeoTIFFError'
+  }
+}
+
+const TAG = {
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  planarConfig: 284,
+  predictor: 317,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  tileByteCounts: 325,
+  sampleFormat: 339,
+  modelPixelScale: 33550,
+  modelTiepoint: 33922,
+  geoKeyDirectory: 34735,
+  gdalNoData: 42113
+}
+
+// TIFF field type -> byte size
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 16: 8 }
+
+const GEOGRAPHIC_TYPE_KEY = 2048
+const PROJECTED_CS_TYPE_KEY = 3072
+const WEB_MERCATOR_CODES = [3857, 3785, 900913]
+
+type TagValues = Map<number, Array<number> | string>
+
+function readTags(view: DataView, little: boolean): TagValues {
+  const tags: TagValues = new Map()
+  const ifdOffset = view.getUint32(4, little)
+  const count = view.getUint16(ifdOffset, little)
+
+  for (let i = 0; i < count; i++) {
+    const entry = ifdOffset + 2 + i * 12
+    const tag = view.getUint16(entry, little)
+    const type = view.getUint16(entry + 2, little)
+    const valueCount = view.getUint32(entry + 4, little)
+    const size = TYPE_SIZES[type]
+    if (!size) continue
+
+    // Values that fit in four bytes are stored in the entry itself
+    const offset = size * valueCount <= 4 ? entry + 8 : view.getUint32(entry + 8, little)
+
+    if (type === 2) {
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, valueCount)
+      tags.set(tag, new TextDecoder().decode(bytes).replace(/\0+$/, ''))
+      continue
+    }
+
+    const values: number[] = []
+    for (let j = 0; j < valueCount; j++) {
+      const at = offset + j * size
+      switch (type) {
+        case 1: case 7: values.push(view.getUint8(at)); break
+        case 6: values.push(view.getInt8(at)); break
+        case 3: values.push(view.getUint16(at, little)); break
+        case 8: values.push(view.getInt16(at, little)); break
+        case 4: values.push(view.getUint32(at, little)); break
+        case 9: values.push(view.getInt32(at, little)); break
+        case 5: values.push(view.getUint32(at, little) / view.getUint32(at + 4, little)); break
+        case 10: values.push(view.getInt32(at, little) / view.getInt32(at + 4, little)); break
+        case 11: values.push(view.getFloat32(at, little)); break
+        case 12: values.push(view.getFloat64(at, little)); break
+        case 16: values.push(Number(view.getBigUint64(at, little))); break
+      }
+    }
+    tags.set(tag, values)
+  }
+
+  return tags
+}
+
+function numbers(tags: TagValues, tag: number): number[] | undefined {
+  const value = tags.get(tag)
+  return Array.isArray(value) ? value : undefined
+}
+
+// TIFF LZW: MSB-first codes, 9 to 12 bits wide, switching one code early
+function decodeLZW(input: Uint8Array): Uint8Array {
+  const output: number[] = []
+  let table: number[][] = []
+  const resetTable = () => {
+    table = []
+    for (let i = 0; i < 256; i++) table.push([i])
+    table.push([], []) // 256 = clear, 257 = end of information
+  }
+  resetTable()
+
+  let bitPos = 0
+  let width = 9
+  let previous: number[] | null = null
+  const totalBits = input.length * 8
+
+  while (bitPos + width <= totalBits) {
+    let code = 0
+    for (let i = 0; i < width; i++) {
+      const bit = (input[(bitPos + i) >> 3] >> (7 - ((bitPos + i) & 7))) & 1
+      code = (code << 1) | bit
+    }
+    bitPos += width
+
+    if (code === 257) break
+    if (code === 256) {
+      resetTable()
+      width = 9
+      previous = null
+      continue
+    }
+
+    let entry: number[]
+    if (code < table.length) {
+      entry = table[code]
+      if (previous) table.push([...previous, entry[0]])
+    } else if (previous) {
+      entry = [...previous, previous[0]]
+      table.push(entry)
+    } else {
+      throw new GeoTIFFError('Corrupt LZW data')
+    }
+
+    for (const byte of entry) output.push(byte)
+    previous = entry
+
+    if (table.length + 1 >= 1 << width && width < 12) width++
+  }
+
+  return Uint8Array.from(output)
+}
+
+function decompress(chunk: Uint8Array, compression: number): Uint8Array {
+  switch (compression) {
+    case 1:
+      return chunk
+    case 5:
+      return decodeLZW(chunk)
+    case 8:
+    case 32946:
+      return new Uint8Array(inflateSync(chunk))
+    default:
+      throw new GeoTIFFError(`Unsupported TIFF compression ${compression}`)
+  }
+}
+
+// Undo the horizontal (2) or floating-point (3) predictor for one chunk, in place
+function undoPredictor(bytes: Uint8Array, predictor: number, chunkWidth: number, rows: number, samples: number, bytesPerSample: number, little: boolean) {
+  const rowBytes = chunkWidth * samples * bytesPerSample
+
+  if (predictor === 2) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    for (let row = 0; row < rows; row++) {
+      const start = row * rowBytes
+      for (let i = samples; i < chunkWidth * samples; i++) {
+        const at = start + i * bytesPerSample
+        const before = at - samples * bytesPerSample
+        if (bytesPerSample === 1) bytes[at] = (bytes[at] + bytes[before]) & 0xff
+        else if (bytesPerSample === 2) view.setUint16(at, view.getUint16(at, little) + view.getUint16(before, little), little)
+        else view.setUint32(at, view.getUint32(at, little) + view.getUint32(before, little), little)
+      }
+    }
+  } else if (predictor === 3) {
+    // Bytes of each row are differenced, then stored most-significant byte plane first
+    for (let row = 0; row < rows; row++) {
+      const start = row * rowBytes
+      for (let i = 1; i < rowBytes; i++) {
+        bytes[start + i] = (bytes[start + i] + bytes[start + i - 1]) & 0xff
+      }
+      const planes = bytes.slice(start, start + rowBytes)
+      const count = chunkWidth * samples
+      for (let i = 0; i < count; i++) {
+        for (let b = 0; b < bytesPerSample; b++) {
+          const plane = planes[b * count + i]
+          bytes[start + i * bytesPerSample + (little ? bytesPerSample - 1 - b : b)] = plane
+        }
+      }
+    }
+  }
+}
+
+function sampleReader(view: DataView, bits: number, format: number, little: boolean): (at: number) => number {
+  if (format === 3) {
+    if (bits === 32) return (at) => view.getFloat32(at, little)
+    if (bits === 64) return (at) => view.getFloat64(at, little)
+  } else if (format === 2) {
+    if (bits === 8) return (at) => view.getInt8(at)
+    if (bits === 16) return (at) => view.getInt16(at, little)
+    if (bits === 32) return (at) => view.getInt32(at, little)
+  } else {
+    if (bits === 8) return (at) => view.getUint8(at)
+    if (bits === 16) return (at) => view.getUint16(at, little)
+    if (bits === 32) return (at) => view.getUint32(at, little)
+  }
+  throw new GeoTIFFError(`Unsupported ${bits}-bit sample format ${format}`)
+}
+
+function rasterCRS(tags: TagValues): number {
+  const keys = numbers(tags, TAG.geoKeyDirectory)
+  if (!keys) return 4326
+
+  let projected = 0
+  let geographic = 0
+  for (let i = 4; i + 3 < keys.length; i += 4) {
+    if (keys[i] === PROJECTED_CS_TYPE_KEY) projected = keys[i + 3]
+    if (keys[i] === GEOGRAPHIC_TYPE_KEY) geographic = keys[i + 3]
+  }
+
+  if (projected) {
+    if (WEB_MERCATOR_CODES.includes(projected)) return 3857
+    throw new GeoTIFFError(`Unsupported raster projection EPSG:${projected}`)
+  }
+  if (geographic && geographic !== 4326) {
+    throw new GeoTIFFError(`Unsupported raster datum EPSG:${geographic}`)
+  }
+  return 4326
+}
+
+/**
+ * Decode the first band of a GeoTIFF along with its georeferencing
+ */
+export function readGeoTIFF(buffer: ArrayBuffer): GeoRaster {
+  const view = new DataView(buffer)
+  const order = view.getUint16(0, false)
+  if (order !== 0x4949 && order !== 0x4d4d) {
+    throw new GeoTIFFError('Not a TIFF file')
+  }
+  const little = order === 0x4949
+  if (view.getUint16(2, little) !== 42) {
+    throw new GeoTIFFError('BigTIFF files are not supported')
+  }
+
+  const tags = readTags(view, little)
+  const width = numbers(tags, TAG.width)?.[0] || 0
+  const height = numbers(tags, TAG.height)?.[0] || 0
+  const bits = numbers(tags, TAG.bitsPerSample)?.[0] || 8
+  const format = numbers(tags, TAG.sampleFormat)?.[0] || 1
+  const samples = numbers(tags, TAG.samplesPerPixel)?.[0] || 1
+  const planar = numbers(tags, TAG.planarConfig)?.[0] || 1
+  const compression = numbers(tags, TAG.compression)?.[0] || 1
+  const predictor = numbers(tags, TAG.predictor)?.[0] || 1
+  const scale = numbers(tags, TAG.modelPixelScale)
+  const tiepoint = numbers(tags, TAG.modelTiepoint)
+
+  if (!width || !height) {
+    throw new GeoTIFFError('Raster has no size')
+  }
+  if (!scale || !tiepoint) {
+    throw new GeoTIFFError('Raster is not georeferenced')
+  }
+
+  const tiled = tags.has(TAG.tileOffsets)
+  const chunkWidth = tiled ? numbers(tags, TAG.tileWidth)![0] : width
+  const chunkHeight = tiled ? numbers(tags, TAG.tileLength)![0] : numbers(tags, TAG.rowsPerStrip)?.[0] || height
+  const offsets = numbers(tags, tiled ? TAG.tileOffsets : TAG.stripOffsets) || []
+  const byteCounts = numbers(tags, tiled ? TAG.tileByteCounts : TAG.stripByteCounts) || []
+  const chunksAcross = tiled ? Math.ceil(width / chunkWidth) : 1
+  const chunksDown = Math.ceil(height / chunkHeight)
+  // With separate planes the first band's chunks come first
+  const chunkSamples = planar === 2 ? 1 : samples
+  const bytesPerSample = bits / 8
+
+  const noDataText = tags.get(TAG.gdalNoData)
+  const noData = typeof noDataText === 'string' && noDataText.trim() ? parseFloat(noDataText) : null
+
+  const values = new Float32Array(width * height).fill(NaN)
+
+  for (let chunkRow = 0; chunkRow < chunksDown; chunkRow++) {
+    for (let chunkCol = 0; chunkCol < chunksAcross; chunkCol++) {
+      const index = chunkRow * chunksAcross + chunkCol
+      if (offsets[index] === undefined) continue
+
+      const raw = new Uint8Array(buffer, offsets[index], byteCounts[index])
+      // Copy so predictors never write into the source buffer
+      const bytes = Uint8Array.from(decompress(raw, compression))
+      const rows = tiled ? chunkHeight : Math.min(chunkHeight, height - chunkRow * chunkHeight)
+      undoPredictor(bytes, predictor, chunkWidth, rows, chunkSamples, bytesPerSample, little)
+
+      const read = sampleReader(new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength), bits, format, little)
+      for (let y = 0; y < rows; y++) {
+        const row = chunkRow * chunkHeight + y
+        if (row >= height) break
+        for (let x = 0; x < chunkWidth; x++) {
+          const col = chunkCol * chunkWidth + x
+          if (col >= width) break
+          const at = ((y * chunkWidth + x) * chunkSamples) * bytesPerSample
+          if (at + bytesPerSample > bytes.length) continue
+          const value = read(at)
+          values[row * width + col] = noData !== null && value === noData ? NaN : value
+        }
+      }
+    }
+  }
+
+  // Tiepoint maps raster (I, J) to model (X, Y)
+  return {
+    width,
+    height,
+    values,
+    originX: tiepoint[3] - tiepoint[0] * scale[0],
+    originY: tiepoint[4] + tiepoint[1] * scale[1],
+    pixelWidth: scale[0],
+    pixelHeight: scale[1],
+    epsg: rasterCRS(tags)
+  }
+}
+
+/**
+ * Longitude/latitude of a point in the raster's CRS
+ */
+export function rasterToLngLat(raster: GeoRaster, x: number, y: number): [number, number] {
+  if (raster.epsg === 3857) {
+    const R = 6378137
+    return [(x / R) * (180 / Math.PI), (2 * Math.atan(Math.exp(y / R)) - Math.PI / 2) * (180 / Math.PI)]
+  }
+  return [x, y]
+}
+
+export { GeoTIFFError }
@@ -0,0 +1,565 @@
+import type { CropSeason, Field } from '@prisma/client'
+import { prisma } from './prisma'
+import { daysSinceSowing } from './crop-seasons'
+import { getWeatherIngestionService, type DailyWeather } from './weather-ingestion'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MIN_WEATHER_COVERAGE = 0.5 // below this share of observed days, fall back to the calendar
+const RECENT_RATE_DAYS = 7 // beyond the forecast, assume the last week's heat accumulation continues
+
+interface CropStage {
+  name: string
+  endDay: number // typical days after sowing at which the stage ends
+  kc: number // FAO-56 crop coefficient during the stage
+  focus: string // what matters for the crop in this stage
+}
+
+/**
+ * Crop calendar for a typical Indian season. Stage GDD thresholds are derived from endDay
+ * at typicalMeanTemp, so a warmer season moves through the stages faster and a cooler one slower.
+ */
+interface CropCalendar {
+  crop: string
+  aliases: string[]
+  baseTemp: number // Celsius, no development below this
+  upperTemp: number // Celsius, no extra development above this
+  typicalMeanTemp: number // Celsius, mean daily temperature of the usual growing season
+  rootDepth: number // metres, maximum effective rooting depth
+  depletionFraction: number // FAO-56 p: share of available water the crop can use before stress
+  stages: CropStage[]
+}
+
+interface GrowthStage {
+  crop: string
+  sowingDate: string
+  daysSinceSowing: number
+  method: 'gdd' | 'calendar' // calendar when too little weather history is stored
+  accumulatedGdd: number
+  baseTemp: number
+  weatherCoverage: number // share of days since sowing with stored weather (0-1)
+  stage: string
+  stageIndex: number
+  totalStages: number
+  stageProgress: number // percent through the current stage
+  focus: string
+  kc: number // crop coefficient of the current stage
+  nextStage: string | null
+  daysToNextStage: number | null
+  nextStageDate: string | null
+  daysToMaturity: number | null // until the end of the last stage
+  expectedMaturityDate: string | null
+  mature: boolean // all stages completed
+}
+
+interface FieldGrowthStage {
+  fieldId: string
+  fieldName: string
+  seasonId: string
+  cropName: string
+  variety: string | null
+  growthStage: GrowthStage | null // null when the crop has no calendar
+}
+
+export const CROP_CALENDARS: CropCalendar[] = [
+  {
+    crop: 'Rice',
+    aliases: ['paddy', 'dhan', 'basmati', 'chawal'],
+    baseTemp: 10,
+    upperTemp: 40,
+    typicalMeanTemp: 28,
+    rootDepth: 0.6,
+    depletionFraction: 0.2,
+    stages: [
+      { name: 'Seedling', endDay: 20, kc: 1.05, focus: 'Establishment; keep the field saturated and control early weeds' },
+      { name: 'Tillering', endDay: 50, kc: 1.1, focus: 'Keep 2-5 cm standing water; apply the nitrogen top dressing' },
+      { name: 'Panicle initiation', endDay: 65, kc: 1.2, focus: 'Second nitrogen split; water stress now reduces grain number' },
+      { name: 'Booting and heading', endDay: 85, kc: 1.2, focus: 'Most water-sensitive period; watch for blast and stem borer' },
+      { name: 'Flowering', endDay: 95, kc: 1.2, focus: 'Avoid water stress and spraying during anthesis hours' },
+      { name: 'Grain filling', endDay: 115, kc: 1.05, focus: 'Keep soil moist; drain the field 10-15 days before harvest' },
+      { name: 'Maturity', endDay: 125, kc: 0.9, focus: 'Harvest when 80-85% of grains are straw coloured' }
+    ]
+  },
+  {
+    crop: 'Wheat',
+    aliases: ['gehun', 'gehu', 'kanak'],
+    baseTemp: 4,
+    upperTemp: 30,
+    typicalMeanTemp: 18,
+    rootDepth: 1.2,
+    depletionFraction: 0.55,
+    stages: [
+      { name: 'Germination and emergence', endDay: 10, kc: 0.4, focus: 'Seedling establishment; check for patchy emergence' },
+      { name: 'Crown root initiation', endDay: 25, kc: 0.7, focus: 'Critical first irrigation around 21 days after sowing' },
+      { name: 'Tillering', endDay: 45, kc: 0.9, focus: 'Nitrogen top dressing and weed control' },
+      { name: 'Jointing', endDay: 65, kc: 1.1, focus: 'Irrigate if dry; watch for yellow rust' },
+      { name: 'Booting and heading', endDay: 85, kc: 1.15, focus: 'Water stress now reduces grain number' },
+      { name: 'Flowering', endDay: 95, kc: 1.15, focus: 'Sensitive to heat above 30°C and to water stress' },
+      { name: 'Grain filling', endDay: 120, kc: 0.8, focus: 'Light irrigation at milk and dough stage; terminal heat risk' },
+      { name: 'Maturity', endDay: 130, kc: 0.4, focus: 'Stop irrigation; harvest when grains are hard' }
+    ]
+  },
+  {
+    crop: 'Maize',
+    aliases: ['corn', 'makka', 'makki', 'corn (maize)'],
+    baseTemp: 10,
+    upperTemp: 30,
+    typicalMeanTemp: 27,
+    rootDepth: 1.2,
+    depletionFraction: 0.55,
+    stages: [
+      { name: 'Emergence', endDay: 10, kc: 0.35, focus: 'Ensure a uniform stand; protect from cutworms' },
+      { name: 'Vegetative', endDay: 45, kc: 0.8, focus: 'Nitrogen top dressing at knee height; watch for fall armyworm' },
+      { name: 'Tasseling', endDay: 55, kc: 1.2, focus: 'Water demand peaks; avoid moisture stress' },
+      { name: 'Silking', endDay: 65, kc: 1.2, focus: 'Most critical stage for water; stress causes poor cob fill' },
+      { name: 'Grain filling', endDay: 95, kc: 0.9, focus: 'Keep soil moist through the dough stage' },
+      { name: 'Maturity', endDay: 110, kc: 0.5, focus: 'Harvest when husks dry and kernels show the black layer' }
+    ]
+  },
+  {
+    crop: 'Bajra',
+    aliases: ['pearl millet', 'bajri'],
+    baseTemp: 10,
+    upperTemp: 42,
+    typicalMeanTemp: 29,
+    rootDepth: 1.2,
+    depletionFraction: 0.55,
+    stages: [
+      { name: 'Emergence', endDay: 10, kc: 0.35, focus: 'Thin to the right spacing; gap fill if needed' },
+      { name: 'Tillering', endDay: 30, kc: 0.7, focus: 'Weed control and nitrogen top dressing' },
+      { name: 'Panicle initiation', endDay: 45, kc: 1.0, focus: 'Irrigate if there is a dry spell' },
+      { name: 'Flowering', endDay: 60, kc: 1.0, focus: 'Watch for downy mildew and ergot' },
+      { name: 'Grain filling', endDay: 80, kc: 0.8, focus: 'Protect earheads from birds' },
+      { name: 'Maturity', endDay: 90, kc: 0.3, focus: 'Harvest when grains are hard' }
+    ]
+  },
+  {
+    crop: 'Jowar',
+    aliases: ['sorghum', 'jowari', 'cholam'],
+    baseTemp: 10,
+    upperTemp: 40,
+    typicalMeanTemp: 28,
+    rootDepth: 1.2,
+    depletionFraction: 0.55,
+    stages: [
+      { name: 'Emergence', endDay: 10, kc: 0.35, focus: 'Protect seedlings from shoot fly' },
+      { name: 'Vegetative', endDay: 35, kc: 0.75, focus: 'Weed control and nitrogen top dressing' },
+      { name: 'Panicle initiation', endDay: 60, kc: 1.0, focus: 'Irrigate if dry; watch for stem borer' },
+      { name: 'Flowering', endDay: 75, kc: 1.05, focus: 'Avoid moisture stress; watch for midge' },
+      { name: 'Grain filling', endDay: 100, kc: 0.8, focus: 'Keep soil moist; watch for grain mould after rain' },
+      { name: 'Maturity', endDay: 115, kc: 0.55, focus: 'Harvest at physiological maturity' }
+    ]
+  },
+  {
+    crop: 'Barley',
+    aliases: ['jau', 'jav'],
+    baseTemp: 4,
+    upperTemp: 30,
+    typicalMeanTemp: 17,
+    rootDepth: 1.0,
+    depletionFraction: 0.55,
+    stages: [
+      { name: 'Emergence', endDay: 10, kc: 0.35, focus: 'Seedling establishment' },
+      { name: 'Tillering', endDay: 40, kc: 0.8, focus: 'First irrigation and nitrogen top dressing' },
+      { name: 'Jointing', endDay: 60, kc: 1.1, focus: 'Irrigate if dry; watch for aphids' },
+      { name: 'Heading', endDay: 80, kc: 1.15, focus: 'Avoid water stress' },
+      { name: 'Grain filling', endDay: 110, kc: 0.8, focus: 'Light irrigation if soil dries' },
+      { name: 'Maturity', endDay: 120, kc: 0.3, focus: 'Harvest when grains are hard' }
+    ]
+  },
+  {
+    crop: 'Gram',
+    aliases: ['chickpea', 'chana', 'bengal gram'],
+    baseTemp: 5,
+    upperTemp: 32,
+    typicalMeanTemp: 20,
+    rootDepth: 0.8,
+    depletionFraction: 0.5,
+    stages: [
+      { name: 'Emergence', endDay: 12, kc: 0.4, focus: 'Check for wilt and root rot' },
+      { name: 'Branching', endDay: 45, kc: 0.7, focus: 'Nipping of tips encourages branching' },
+      { name: 'Flowering', endDay: 75, kc: 1.0, focus: 'Avoid irrigation at full bloom; watch for pod borer' },
+      { name: 'Pod filling', endDay: 105, kc: 0.8, focus: 'Light irrigation if dry; pod borer control' },
+      { name: 'Maturity', endDay: 120, kc: 0.35, focus: 'Harvest when leaves turn yellow and pods dry' }
+    ]
+  },
+  {
+    crop: 'Arhar',
+    aliases: ['tur', 'toor', 'pigeon pea', 'red gram', 'arhar/tur'],
+    baseTemp: 10,
+    upperTemp: 38,
+    typicalMeanTemp: 26,
+    rootDepth: 1.2,
+    depletionFraction: 0.45,
+    stages: [
+      { name: 'Emergence', endDay: 15, kc: 0.4, focus: 'Ensure drainage; waterlogging kills seedlings' },
+      { name: 'Vegetative', endDay: 90, kc: 0.8, focus: 'Weed control in the first two months' },
+      { name: 'Flowering', endDay: 130, kc: 1.05, focus: 'Watch for pod borer and pod fly' },
+      { name: 'Pod filling', endDay: 165, kc: 0.9, focus: 'Irrigate if dry; continue pest monitoring' },
+      { name: 'Maturity', endDay: 180, kc: 0.5, focus: 'Harvest when 80% of pods are brown' }
+    ]
+  },
+  {
+    crop: 'Moong',
+    aliases: ['green gram', 'mung', 'mungbean'],
+    baseTemp: 10,
+    upperTemp: 40,
+    typicalMeanTemp: 28,
+    rootDepth: 0.7,
+    depletionFraction: 0.45,
+    stages: [
+      { name: 'Emergence', endDay: 7, kc: 0.4, focus: 'Ensure a uniform stand' },
+      { name: 'Vegetative', endDay: 30, kc: 0.7, focus: 'Weed control; watch for yellow mosaic' },
+      { name: 'Flowering', endDay: 45, kc: 1.05, focus: 'Avoid moisture stress' },
+      { name: 'Pod filling', endDay: 60, kc: 0.9, focus: 'Pick mature pods in stages if ripening is uneven' },
+      { name: 'Maturity', endDay: 70, kc: 0.5, focus: 'Harvest when most pods are black' }
+    ]
+  },
+  {
+    crop: 'Urad',
+    aliases: ['black gram', 'urd'],
+    baseTemp: 10,
+    upperTemp: 40,
+    typicalMeanTemp: 28,
+    rootDepth: 0.7,
+    depletionFraction: 0.45,
+    stages: [
+      { name: 'Emergence', endDay: 7, kc: 0.4, focus: 'Ensure a uniform stand' },
+      { name: 'Vegetative', endDay: 35, kc: 0.7, focus: 'Weed control; watch for yellow mosaic' },
+      { name: 'Flowering', endDay: 50, kc: 1.05, focus: 'Avoid moisture stress' },
+      { name: 'Pod filling', endDay: 70, kc: 0.9, focus: 'Watch for pod borer' },
+      { name: 'Maturity', endDay: 80, kc: 0.5, focus: 'Harvest when pods turn black' }
+    ]
+  },
+  {
+    crop: 'Lentil',
+    aliases: ['masoor', 'masur'],
+    baseTemp: 5,
+    upperTemp: 30,
+    typicalMeanTemp: 19,
+    rootDepth: 0.7,
+    depletionFraction: 0.5,
+    stages: [
+      { name: 'Emergence', endDay: 12, kc: 0.4, focus: 'Seedling establishment' },
+      { name: 'Vegetative', endDay: 50, kc: 0.8, focus: 'Weed control; one irrigation if dry' },
+      { name: 'Flowering', endDay: 80, kc: 1.1, focus: 'Watch for rust and aphids' },
+      { name: 'Pod filling', endDay: 105, kc: 0.7, focus: 'Light irrigation at pod formation if dry' },
+      { name: 'Maturity', endDay: 120, kc: 0.3, focus: 'Harvest when pods turn brown' }
+    ]
+  },
+  {
+    crop: 'Soybean',
+    aliases: ['soyabean', 'soybeans', 'soya'],
+    baseTemp: 10,
+    upperTemp: 35,
+    typicalMeanTemp: 27,
+    rootDepth: 0.9,
+    depletionFraction: 0.5,
+    stages: [
+      { name: 'Emergence', endDay: 10, kc: 0.4, focus: 'Ensure drainage and a uniform stand' },
+      { name: 'Vegetative', endDay: 40, kc: 0.8, focus: 'Weed control in the first 45 days; watch for girdle beetle' },
+      { name: 'Flowering', endDay: 60, kc: 1.15, focus: 'Avoid moisture stress; watch for defoliators' },
+      { name: 'Pod development', endDay: 80, kc: 1.15, focus: 'Irrigate in a dry spell; pod formation sets yield' },
+      { name: 'Seed filling', endDay: 100, kc: 0.9, focus: 'Water stress now reduces seed size' },
+      { name: 'Maturity', endDay: 110, kc: 0.5, focus: 'Harvest when pods are brown and leaves have dropped' }
+    ]
+  },
+  {
+    crop: 'Groundnut',
+    aliases: ['peanut', 'moongphali'],
+    baseTemp: 10,
+    upperTemp: 35,
+    typicalMeanTemp: 27,
+    rootDepth: 0.7,
+    depletionFraction: 0.5,
+    stages: [
+      { name: 'Emergence', endDay: 12, kc: 0.4, focus: 'Ensure a uniform stand' },
+      { name: 'Vegetative', endDay: 35, kc: 0.75, focus: 'Weed control before pegging' },
+      { name: 'Flowering and pegging', endDay: 60, kc: 1.15, focus: 'Apply gypsum; keep soil loose and moist for pegs' },
+      { name: 'Pod development', endDay: 95, kc: 1.1, focus: 'Most water-sensitive period; watch for leaf spot' },
+      { name: 'Maturity', endDay: 115, kc: 0.6, focus: 'Harvest when the inside of the shell darkens' }
+    ]
+  },
+  {
+    crop: 'Mustard',
+    aliases: ['rapeseed', 'sarson', 'rai', 'rapeseed & mustard'],
+    baseTemp: 5,
+    upperTemp: 30,
+    typicalMeanTemp: 19,
+    rootDepth: 1.0,
+    depletionFraction: 0.6,
+    stages: [
+      { name: 'Emergence', endDay: 10, kc: 0.35, focus: 'Thin to the right spacing' },
+      { name: 'Rosette', endDay: 40, kc: 0.8, focus: 'First irrigation and nitrogen top dressing' },
+      { name: 'Flowering', endDay: 75, kc: 1.1, focus: 'Watch for aphids; irrigate if dry' },
+      { name: 'Siliqua filling', endDay: 110, kc: 0.9, focus: 'Avoid water stress; protect from frost' },
+      { name: 'Maturity', endDay: 125, kc: 0.35, focus: 'Harvest when 75% of siliquae turn yellow' }
+    ]
+  },
+  {
+    crop: 'Cotton',
+    aliases: ['kapas', 'narma'],
+    baseTemp: 15,
+    upperTemp: 35,
+    typicalMeanTemp: 28,
+    rootDepth: 1.3,
+    depletionFraction: 0.65,
+    stages: [
+      { name: 'Emergence', endDay: 12, kc: 0.35, focus: 'Gap filling and thinning' },
+      { name: 'Squaring', endDay: 55, kc: 0.8, focus: 'Nitrogen top dressing; watch for sucking pests' },
+      { name: 'Flowering', endDay: 100, kc: 1.18, focus: 'Peak water demand; watch for pink bollworm' },
+      { name: 'Boll development', endDay: 140, kc: 1.0, focus: 'Avoid water stress; bollworm monitoring' },
+      { name: 'Boll opening', endDay: 170, kc: 0.7, focus: 'Stop irrigation; pick in rounds as bolls open' }
+    ]
+  },
+  {
+    crop: 'Sugarcane',
+    aliases: ['ganna', 'ikh'],
+    baseTemp: 12,
+    upperTemp: 38,
+    typicalMeanTemp: 26,
+    rootDepth: 1.5,
+    depletionFraction: 0.65,
+    stages: [
+      { name: 'Germination', endDay: 35, kc: 0.4, focus: 'Keep soil moist for bud sprouting; gap filling' },
+      { name: 'Tillering', endDay: 120, kc: 0.9, focus: 'Earthing up and nitrogen; frequent light irrigation' },
+      { name: 'Grand growth', endDay: 270, kc: 1.25, focus: 'Highest water and nutrient demand; propping' },
+      { name: 'Ripening', endDay: 360, kc: 0.75, focus: 'Reduce irrigation to build sugar content' }
+    ]
+  },
+  {
+    crop: 'Potato',
+    aliases: ['aloo', 'alu', 'potatoes'],
+    baseTemp: 7,
+    upperTemp: 30,
+    typicalMeanTemp: 18,
+    rootDepth: 0.5,
+    depletionFraction: 0.35,
+    stages: [
+      { name: 'Sprouting and emergence', endDay: 20, kc: 0.5, focus: 'Light irrigation; avoid waterlogging' },
+      { name: 'Vegetative', endDay: 40, kc: 0.85, focus: 'Earthing up and nitrogen top dressing' },
+      { name: 'Tuber initiation', endDay: 55, kc: 1.1, focus: 'Keep soil consistently moist' },
+      { name: 'Tuber bulking', endDay: 85, kc: 1.15, focus: 'Peak water demand; watch for late blight' },
+      { name: 'Maturation', endDay: 100, kc: 0.75, focus: 'Stop irrigation; cut haulms 10-15 days before harvest' }
+    ]
+  },
+  {
+    crop: 'Onion',
+    aliases: ['pyaz', 'kanda', 'onions'],
+    baseTemp: 6,
+    upperTemp: 30,
+    typicalMeanTemp: 20,
+    rootDepth: 0.4,
+    depletionFraction: 0.3,
+    stages: [
+      { name: 'Establishment', endDay: 20, kc: 0.7, focus: 'Frequent light irrigation after transplanting' },
+      { name: 'Vegetative', endDay: 60, kc: 0.85, focus: 'Weed control and nitrogen; watch for thrips' },
+      { name: 'Bulb initiation', endDay: 80, kc: 1.05, focus: 'Keep soil moist; stop nitrogen' },
+      { name: 'Bulb development', endDay: 115, kc: 1.05, focus: 'Regular irrigation; watch for purple blotch' },
+      { name: 'Maturity', endDay: 130, kc: 0.75, focus: 'Stop irrigation when necks fall over' }
+    ]
+  },
+  {
+    crop: 'Tomato',
+    aliases: ['tamatar', 'tomatoes'],
+    baseTemp: 10,
+    upperTemp: 32,
+    typicalMeanTemp: 24,
+    rootDepth: 0.9,
+    depletionFraction: 0.4,
+    stages: [
+      { name: 'Establishment', endDay: 15, kc: 0.6, focus: 'Light irrigation after transplanting' },
+      { name: 'Vegetative', endDay: 40, kc: 0.85, focus: 'Staking and nitrogen; watch for leaf curl virus' },
+      { name: 'Flowering', endDay: 60, kc: 1.15, focus: 'Even moisture prevents flower drop' },
+      { name: 'Fruit development', endDay: 90, kc: 1.15, focus: 'Regular irrigation prevents cracking; fruit borer control' },
+      { name: 'Harvest', endDay: 140, kc: 0.8, focus: 'Pick at breaker stage for distant markets' }
+    ]
+  }
+]
+
+/**
+ * Calendar for a crop name, matching aliases and local names case-insensitively
+ */
+export function findCropCalendar(cropName: string | null | undefined): CropCalendar | null {
+  const name = cropName?.trim().toLowerCase()
+  if (!name) return null
+
+  return CROP_CALENDARS.find((calendar) =>
+    calendar.crop.toLowerCase() === name || calendar.aliases.includes(name)
+  ) || CROP_CALENDARS.find((calendar) =>
+    // e.g. "Basmati Rice" or "Hybrid maize"
+    [calendar.crop.toLowerCase(), ...calendar.aliases].some((alias) => name.split(/[\s(),/]+/).includes(alias))
+  ) || null
+}
+
+/**
+ * Growing degree days for one day, with temperatures clamped to the crop's base and upper limits
+ */
+export function dailyGdd(calendar: CropCalendar, tempMin: number, tempMax: number): number {
+  const clamp = (temp: number) => Math.min(Math.max(temp, calendar.baseTemp), calendar.upperTemp)
+  return Math.max(0, (clamp(tempMin) + clamp(tempMax)) / 2 - calendar.baseTemp)
+}
+
+/**
+ * Cumulative GDD at the end of each stage
+ */
+function stageThresholds(calendar: CropCalendar): number[] {
+  const typicalDailyGdd = dailyGdd(calendar, calendar.typicalMeanTemp, calendar.typicalMeanTemp)
+  return calendar.stages.map((stage) => stage.endDay * typicalDailyGdd)
+}
+
+function addDays(date: Date, days: number): string {
+  return new Date(date.getTime() + days * DAY_MS).toISOString().split('T')[0]
+}
+
+/**
+ * Work out the current stage from GDD accumulated since sowing, and project the next stage
+ * and maturity using the forecast, then the recent daily rate.
+ *
+ * Days since sowing without stored weather are filled with the mean of the observed days; with
+ * less than half the days observed the typical seasonal rate is used instead (calendar method).
+ */
+export function computeGrowthStage(
+  calendar: CropCalendar,
+  sowingDate: Date,
+  observed: DailyWeather[],
+  forecast: DailyWeather[] = [],
+  now: Date = new Date()
+): GrowthStage {
+  const days = Math.max(0, daysSinceSowing({ sowingDate }, now))
+  const sowingDay = sowingDate.toISOString().split('T')[0]
+  const today = now.toISOString().split('T')[0]
+  const typicalDailyGdd = dailyGdd(calendar, calendar.typicalMeanTemp, calendar.typicalMeanTemp)
+
+  const observedGdd = observed
+    .filter((day) => day.date >= sowingDay && day.date < today)
+    .map((day) => dailyGdd(calendar, day.tempMin, day.tempMax))
+  const weatherCoverage = days > 0 ? Math.min(1, observedGdd.length / days) : 0
+  const method: GrowthStage['method'] = observedGdd.length > 0 && weatherCoverage >= MIN_WEATHER_COVERAGE ? 'gdd' : 'calendar'
+
+  let accumulatedGdd = days * typicalDailyGdd
+  let recentDailyGdd = typicalDailyGdd
+  if (method === 'gdd') {
+    const observedMean = observedGdd.reduce((sum, gdd) => sum + gdd, 0) / observedGdd.length
+    accumulatedGdd = observedGdd.reduce((sum, gdd) => sum + gdd, 0) + Math.max(0, days - observedGdd.length) * observedMean
+    const recent = observedGdd.slice(-RECENT_RATE_DAYS)
+    recentDailyGdd = recent.reduce((sum, gdd) => sum + gdd, 0) / recent.length
+  }
+
+  // Forecast heat units from today onwards, then the recent rate
+  const forecastGdd = forecast
+    .filter((day) => day.date >= today)
+    .map((day) => dailyGdd(calendar, day.tempMin, day.tempMax))
+  const daysUntil = (targetGdd: number): number => {
+    let remaining = targetGdd - accumulatedGdd
+    let dayCount = 0
+    while (remaining > 0) {
+      const gdd = dayCount < forecastGdd.length ? forecastGdd[dayCount] : recentDailyGdd
+      if (dayCount >= forecastGdd.length && gdd <= 0) return Infinity // too cold to develop
+      remaining -= gdd
+      dayCount++
+    }
+    return dayCount
+  }
+
+  const thresholds = stageThresholds(calendar)
+  const currentIndex = thresholds.findIndex((threshold) => accumulatedGdd < threshold)
+  const mature = currentIndex === -1
+  const stageIndex = mature ? calendar.stages.length - 1 : currentIndex
+  const stageStart = stageIndex > 0 ? thresholds[stageIndex - 1] : 0
+  const stageEnd = thresholds[stageIndex]
+
+  const toNext = mature ? null : daysUntil(stageEnd)
+  const toMaturity = mature ? 0 : daysUntil(thresholds[thresholds.length - 1])
+  const finite = (value: number | null) => value !== null && isFinite(value) ? value : null
+
+  return {
+    crop: calendar.crop,
+    sowingDate: sowingDay,
+    daysSinceSowing: days,
+    method,
+    accumulatedGdd: Math.round(accumulatedGdd),
+    baseTemp: calendar.baseTemp,
+    weatherCoverage: Math.round(weatherCoverage * 100) / 100,
+    stage: calendar.stages[stageIndex].name,
+    stageIndex,
+    totalStages: calendar.stages.length,
+    stageProgress: mature ? 100 : Math.round(((accumulatedGdd - stageStart) / (stageEnd - stageStart)) * 100),
+    focus: calendar.stages[stageIndex].focus,
+    kc: calendar.stages[stageIndex].kc,
+    nextStage: mature || stageIndex === calendar.stages.length - 1 ? null : calendar.stages[stageIndex + 1].name,
+    daysToNextStage: finite(toNext),
+    nextStageDate: finite(toNext) !== null ? addDays(now, toNext as number) : null,
+    daysToMaturity: finite(toMaturity),
+    expectedMaturityDate: finite(toMaturity) !== null ? addDays(now, toMaturity as number) : null,
+    mature
+  }
+}
+
+class GrowthStageService {
+  /**
+   * Growth stage of a field's active season from its stored weather and the local forecast.
+   * Returns null for crops without a calendar.
+   */
+  async getStageForSeason(
+    field: Pick<Field, 'id' | 'coordinates'>,
+    season: Pick<CropSeason, 'cropName' | 'sowingDate'>
+  ): Promise<GrowthStage | null> {
+    const calendar = findCropCalendar(season.cropName)
+    if (!calendar) return null
+
+    const weatherService = getWeatherIngestionService()
+    await weatherService.syncFieldIfStale(field.id)
+
+    const [observed, forecast] = await Promise.all([
+      weatherService.getDailyWeather(field.id, season.sowingDate),
+      weatherService.getForecastDays(field).catch((error) => {
+        console.warn(`[Growth Stages] Forecast unavailable for field ${field.id}:`, error)
+        return [] as DailyWeather[]
+      })
+    ])
+
+    return computeGrowthStage(calendar, season.sowingDate, observed, forecast)
+  }
+
+  /**
+   * Growth stages for the user's fields that have a crop in the ground
+   */
+  async getStagesForUser(userId: string, fieldId?: string): Promise<FieldGrowthStage[]> {
+    const fields = await prisma.field.findMany({
+      where: { farm: { userId }, ...(fieldId && { id: fieldId }) },
+      orderBy: { createdAt: 'asc' },
+      include: { cropSeasons: { where: { actualHarvestDate: null }, orderBy: { sowingDate: 'desc' }, take: 1 } }
+    })
+
+    const results = await Promise.all(
+      fields
+        .filter((field) => field.cropSeasons.length > 0)
+        .map(async (field) => {
+          const season = field.cropSeasons[0]
+          return {
+            fieldId: field.id,
+            fieldName: field.name,
+            seasonId: season.id,
+            cropName: season.cropName,
+            variety: season.variety,
+            growthStage: await this.getStageForSeason(field, season)
+          }
+        })
+    )
+
+    console.log(`[Growth Stages] Computed stages for ${results.length} field(s) of user ${userId}`)
+    return results
+  }
+}
+
+// Singleton instance
+let growthStageService: GrowthStageService | null = null
+
+export function getGrowthStageService(): GrowthStageService {
+  if (!growthStageService) {
+    growthStageService = new GrowthStageService()
+  }
+  return growthStageService
+}
+
+export type { CropCalendar, CropStage, GrowthStage, FieldGrowthStage }
@@ -0,0 +1,396 @@
+import type { IrrigationMethod } from '@prisma/client'
+import { prisma } from './prisma'
+import { getAgromonitoringAPI } from './agromonitoring-api'
+import { findCropCalendar, getGrowthStageService, type CropCalendar, type GrowthStage } from './growth-stages'
+import { fieldLocation, getWeatherIngestionService, type DailyWeather } from './weather-ingestion'
+
+const PLAN_DAYS = 7
+const DAY_MS = 24 * 60 * 60 * 1000
+const INITIAL_ROOT_DEPTH = 0.15 // metres, rooting depth at sowing
+const ROOT_GROWTH_SHARE = 0.5 // maximum rooting depth is reached about halfway through the season
+const MIN_EFFECTIVE_RAIN = 2 // mm; lighter showers only wet the canopy and evaporate
+const EFFECTIVE_RAIN_SHARE = 0.8 // share of heavier rain that reaches the root zone
+const SOIL_HISTORY_DAYS = 3
+
+// Application efficiency: share of the water pumped that ends up in the root zone
+export const IRRIGATION_EFFICIENCY: Record<IrrigationMethod, number> = {
+  DRIP: 0.9,
+  SPRINKLER: 0.75,
+  FURROW: 0.6,
+  MANUAL: 0.6,
+  FLOOD: 0.5,
+  RAINFED: 0
+}
+
+// Volumetric water content (m³/m³) at field capacity and wilting point, FAO-56 table 19 midpoints
+const SOIL_WATER: Record<string, { fieldCapacity: number; wiltingPoint: number }> = {
+  sandy: { fieldCapacity: 0.12, wiltingPoint: 0.045 },
+  loamy: { fieldCapacity: 0.25, wiltingPoint: 0.12 },
+  silty: { fieldCapacity: 0.32, wiltingPoint: 0.17 },
+  clay: { fieldCapacity: 0.36, wiltingPoint: 0.22 },
+  peaty: { fieldCapacity: 0.45, wiltingPoint: 0.25 },
+  chalky: { fieldCapacity: 0.28, wiltingPoint: 0.14 }
+}
+
+interface IrrigationDay {
+  date: string
+  et0: number // mm, reference evapotranspiration
+  kc: number
+  etc: number // mm, crop evapotranspiration
+  rainfall: number // mm forecast
+  effectiveRainfall: number // mm reaching the root zone
+  depletion: number // mm below field capacity at the end of the day
+  irrigate: boolean
+  netDepth: number // mm the root zone needs
+  grossDepth: number // mm to apply, after losses of the irrigation method
+  volume: number | null // m³ for the whole field, null when the area is unknown
+  estimated: boolean // beyond the forecast, weather assumed to continue like the forecast days
+}
+
+interface FieldIrrigationPlan {
+  fieldId: string
+  fieldName: string
+  area: number | null // hectares
+  cropName: string
+  stage: string
+  irrigationMethod: IrrigationMethod
+  efficiency: number
+  soilType: string
+  rootDepth: number // metres
+  totalAvailableWater: number // mm the root zone holds between field capacity and wilting point
+  readilyAvailableWater: number // mm the crop can use before it is stressed
+  initialDepletion: number // mm below field capacity today
+  soilMoisture: number | null // m³/m³, latest satellite soil moisture
+  soilMoistureSource: 'satellite' | 'assumed'
+  days: IrrigationDay[]
+  totalGrossDepth: number
+  totalVolume: number | null
+  notes: string[]
+}
+
+interface SkippedField {
+  fieldId: string
+  fieldName: string
+  reason: string
+}
+
+interface IrrigationPlanInput {
+  calendar: CropCalendar
+  growthStage: GrowthStage
+  forecast: DailyWeather[]
+  latitude: number
+  soilType: string
+  irrigationMethod: IrrigationMethod
+  area: number | null
+  soilMoisture: number | null
+  now?: Date
+}
+
+/**
+ * Thrown when a plan cannot be made at all; status is the HTTP status to return
+ */
+class IrrigationPlanError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400
+  ) {
+    super(message)
+    this.name = 'IrrigationPlanError'
+  }
+}
+
+function round(value: number, decimals: number = 1): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Field capacity and wilting point for the farmer's soil type; unknown and mixed soils are treated as loam
+ */
+export function soilWaterProperties(soilType: string) {
+  return SOIL_WATER[soilType.trim().toLowerCase()] || SOIL_WATER.loamy
+}
+
+// Saturation vapour pressure (kPa) at a temperature in Celsius
+function saturationVapourPressure(temp: number): number {
+  return 0.6108 * Math.exp((17.27 * temp) / (temp + 237.3))
+}
+
+/**
+ * Daily reference evapotranspiration (mm) with the FAO-56 Penman-Monteith equation.
+ * Solar radiation is estimated from cloud cover (Angstrom) or, without it, from the daily
+ * temperature range (Hargreaves). Wind is measured at 10 m and converted to 2 m.
+ */
+export function referenceET0(day: DailyWeather, latitude: number): number {
+  const tMean = (day.tempMax + day.tempMin) / 2
+  const pressure = (day.pressure ?? 1013) / 10 // kPa
+  const altitude = Math.max(0, (293 - 293 * Math.pow(pressure / 101.3, 1 / 5.26)) / 0.0065)
+  const windAt2m = (day.windSpeed / 3.6) * 0.748
+
+  // Vapour pressure
+  const es = (saturationVapourPressure(day.tempMax) + saturationVapourPressure(day.tempMin)) / 2
+  const ea = (Math.min(100, Math.max(0, day.humidity)) / 100) * es
+  const delta = (4098 * saturationVapourPressure(tMean)) / Math.pow(tMean + 237.3, 2)
+  const gamma = 0.000665 * pressure
+
+  // Extraterrestrial radiation for the latitude and day of year
+  const date = new Date(day.date)
+  const dayOfYear = Math.floor((date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 0)) / DAY_MS)
+  const phi = (latitude * Math.PI) / 180
+  const dr = 1 + 0.033 * Math.cos((2 * Math.PI * dayOfYear) / 365)
+  const declination = 0.409 * Math.sin((2 * Math.PI * dayOfYear) / 365 - 1.39)
+  const sunsetAngle = Math.acos(Math.min(1, Math.max(-1, -Math.tan(phi) * Math.tan(declination))))
+  const ra = ((24 * 60) / Math.PI) * 0.082 * dr *
+    (sunsetAngle * Math.sin(phi) * Math.sin(declination) + Math.cos(phi) * Math.cos(declination) * Math.sin(sunsetAngle))
+
+  // Solar and net radiation (MJ/m²/day); soil heat flux is negligible for daily steps
+  const rs = day.cloudCover !== undefined
+    ? (0.25 + 0.5 * (1 - Math.min(100, Math.max(0, day.cloudCover)) / 100)) * ra
+    : 0.16 * Math.sqrt(Math.max(0, day.tempMax - day.tempMin)) * ra
+  const rso = (0.75 + 2e-5 * altitude) * ra
+  const rns = 0.77 * rs
+  const rnl = 4.903e-9 *
+    ((Math.pow(day.tempMax + 273.16, 4) + Math.pow(day.tempMin + 273.16, 4)) / 2) *
+    (0.34 - 0.14 * Math.sqrt(ea)) *
+    (1.35 * Math.min(1, rso > 0 ? rs / rso : 1) - 0.35)
+  const rn = rns - rnl
+
+  const et0 = (0.408 * delta * rn + gamma * (900 / (tMean + 273)) * windAt2m * (es - ea)) /
+    (delta + gamma * (1 + 0.34 * windAt2m))
+  return Math.max(0, et0)
+}
+
+/**
+ * Rain that reaches the root zone
+ */
+function effectiveRainfall(rainfall: number): number {
+  return rainfall < MIN_EFFECTIVE_RAIN ? 0 : rainfall * EFFECTIVE_RAIN_SHARE
+}
+
+/**
+ * Rooting depth grows from sowing until about mid-season
+ */
+function rootDepthOnDay(calendar: CropCalendar, daysSinceSowing: number): number {
+  const seasonDays = calendar.stages[calendar.stages.length - 1].endDay
+  const share = Math.min(1, daysSinceSowing / (seasonDays * ROOT_GROWTH_SHARE))
+  return INITIAL_ROOT_DEPTH + (calendar.rootDepth - INITIAL_ROOT_DEPTH) * share
+}
+
+/**
+ * Seven-day root-zone water balance (FAO-56 chapter 8). Depletion starts from the latest soil
+ * moisture, grows with crop ET and shrinks with rain; the field is irrigated back to field
+ * capacity when depletion passes the readily available water, unless rain due the next day
+ * covers at least half of it.
+ */
+export function planIrrigation(input: IrrigationPlanInput): Omit<FieldIrrigationPlan, 'fieldId' | 'fieldName'> {
+  const { calendar, growthStage, latitude, soilType, irrigationMethod, area, soilMoisture, now = new Date() } = input
+  const today = now.toISOString().split('T')[0]
+  const forecast = input.forecast.filter((day) => day.date >= today).slice(0, PLAN_DAYS)
+  if (forecast.length === 0) {
+    throw new IrrigationPlanError('Weather forecast is not available, so evapotranspiration cannot be calculated', 503)
+  }
+
+  const efficiency = IRRIGATION_EFFICIENCY[irrigationMethod]
+  const rainfed = irrigationMethod === 'RAINFED'
+  const soil = soilWaterProperties(soilType)
+  const rootDepth = rootDepthOnDay(calendar, growthStage.daysSinceSowing)
+  const totalAvailableWater = 1000 * (soil.fieldCapacity - soil.wiltingPoint) * rootDepth
+  const readilyAvailableWater = calendar.depletionFraction * totalAvailableWater
+
+  // Satellite moisture is for the top layer; it is taken as representative of the root zone
+  const initialDepletion = soilMoisture !== null
+    ? Math.min(totalAvailableWater, Math.max(0, (soil.fieldCapacity - soilMoisture) * 1000 * rootDepth))
+    : readilyAvailableWater / 2
+
+  const forecastET0 = forecast.map((day) => referenceET0(day, latitude))
+  const averageET0 = forecastET0.reduce((sum, et0) => sum + et0, 0) / forecastET0.length
+  const nextStageKc = growthStage.nextStage ? calendar.stages[growthStage.stageIndex + 1].kc : growthStage.kc
+
+  const notes: string[] = []
+  const days: IrrigationDay[] = []
+  let depletion = initialDepletion
+
+  for (let index = 0; index < PLAN_DAYS; index++) {
+    const weather = forecast[index]
+    const estimated = !weather
+    const date = weather?.date || new Date(now.getTime() + index * DAY_MS).toISOString().split('T')[0]
+    const et0 = estimated ? averageET0 : forecastET0[index]
+    const kc = growthStage.daysToNextStage !== null && index >= growthStage.daysToNextStage ? nextStageKc : growthStage.kc
+    const etc = kc * et0
+    const rainfall = weather?.rainfall ?? 0
+    const rain = effectiveRainfall(rainfall)
+
+    let projected = Math.max(0, depletion + etc - rain)
+    let netDepth = 0
+    if (projected > readilyAvailableWater && !growthStage.mature) {
+      const rainTomorrow = effectiveRainfall(forecast[index + 1]?.rainfall ?? 0)
+      if (rainfed) {
+        notes.push(`${date}: soil water below the comfortable level and the field is rain-fed - watch for wilting`)
+      } else if (rainTomorrow >= projected / 2) {
+        notes.push(`${date}: irrigation held back because about ${round(rainTomorrow)} mm of useful rain is forecast the next day`)
+      } else {
+        netDepth = projected
+        projected = 0
+      }
+    }
+    depletion = Math.min(totalAvailableWater, projected)
+
+    const grossDepth = netDepth > 0 ? netDepth / efficiency : 0
+    days.push({
+      date,
+      et0: round(et0),
+      kc,
+      etc: round(etc),
+      rainfall: round(rainfall),
+      effectiveRainfall: round(rain),
+      depletion: round(depletion),
+      irrigate: netDepth > 0,
+      netDepth: round(netDepth),
+      grossDepth: round(grossDepth),
+      volume: area ? round(grossDepth * area * 10, 0) : null, // 1 mm over 1 ha is 10 m³
+      estimated
+    })
+  }
+
+  if (growthStage.mature) {
+    notes.push('The crop has reached maturity, so no further irrigation is planned')
+  }
+  if (soilMoisture === null) {
+    notes.push('No recent satellite soil moisture; the plan assumes the root zone is half-way to the irrigation threshold')
+  }
+  if (forecast.length < PLAN_DAYS) {
+    notes.push(`Days after ${forecast[forecast.length - 1].date} assume the forecast average evapotranspiration and no rain`)
+  }
+  if (!area) {
+    notes.push('Field area unknown, so volumes are given as depth (mm) only')
+  }
+
+  const totalGrossDepth = days.reduce((sum, day) => sum + day.grossDepth, 0)
+  return {
+    area,
+    cropName: calendar.crop,
+    stage: growthStage.stage,
+    irrigationMethod,
+    efficiency,
+    soilType,
+    rootDepth: round(rootDepth, 2),
+    totalAvailableWater: round(totalAvailableWater),
+    readilyAvailableWater: round(readilyAvailableWater),
+    initialDepletion: round(initialDepletion),
+    soilMoisture,
+    soilMoistureSource: soilMoisture !== null ? 'satellite' : 'assumed',
+    days,
+    totalGrossDepth: round(totalGrossDepth),
+    totalVolume: area ? round(totalGrossDepth * area * 10, 0) : null,
+    notes
+  }
+}
+
+class IrrigationPlannerService {
+  /**
+   * Latest satellite soil moisture (m³/m³) for a field's polygon, if any
+   */
+  private async getLatestSoilMoisture(polygonId: string | null): Promise<number | null> {
+    if (!polygonId) return null
+
+    try {
+      const agroAPI = getAgromonitoringAPI()
+      const end = new Date()
+      const history = await agroAPI.getSoilHistory(
+        polygonId,
+        agroAPI.dateToUnixTimestamp(new Date(end.getTime() - SOIL_HISTORY_DAYS * DAY_MS)),
+        agroAPI.dateToUnixTimestamp(end)
+      )
+      const latest = [...history].sort((a, b) => a.dt - b.dt).pop()
+      return latest ? latest.moisture : null
+    } catch (error) {
+      console.warn(`[Irrigation Planner] Soil history unavailable for polygon ${polygonId}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Seven-day irrigation plans for the user's fields with a crop in the ground
+   */
+  async getPlansForUser(userId: string, fieldId?: string): Promise<{ plans: FieldIrrigationPlan[]; skipped: SkippedField[] }> {
+    const profile = await prisma.farmerProfile.findUnique({ where: { userId } })
+    if (!profile) {
+      throw new IrrigationPlanError('Complete your farmer profile (soil type and irrigation method) first')
+    }
+
+    const fields = await prisma.field.findMany({
+      where: { farm: { userId }, ...(fieldId && { id: fieldId }) },
+      orderBy: { createdAt: 'asc' },
+      include: { cropSeasons: { where: { actualHarvestDate: null }, orderBy: { sowingDate: 'desc' }, take: 1 } }
+    })
+
+    const plans: FieldIrrigationPlan[] = []
+    const skipped: SkippedField[] = []
+
+    for (const field of fields) {
+      const season = field.cropSeasons[0]
+      const skip = (reason: string) => skipped.push({ fieldId: field.id, fieldName: field.name, reason })
+
+      if (!season) {
+        skip('No active crop season')
+        continue
+      }
+      const calendar = findCropCalendar(season.cropName)
+      const location = fieldLocation(field)
+      if (!calendar) {
+        skip(`No crop calendar for ${season.cropName}`)
+        continue
+      }
+      if (!location) {
+        skip('Field boundary is missing')
+        continue
+      }
+
+      try {
+        const [growthStage, forecast, soilMoisture] = await Promise.all([
+          getGrowthStageService().getStageForSeason(field, season),
+          getWeatherIngestionService().getForecastDays(field),
+          this.getLatestSoilMoisture(field.polygonId)
+        ])
+        if (!growthStage) {
+          skip(`No crop calendar for ${season.cropName}`)
+          continue
+        }
+
+        plans.push({
+          fieldId: field.id,
+          fieldName: field.name,
+          ...planIrrigation({
+            calendar,
+            growthStage,
+            forecast,
+            latitude: location.lat,
+            soilType: profile.soilType,
+            irrigationMethod: profile.irrigationMethod,
+            area: field.area,
+            soilMoisture
+          })
+        })
+      } catch (error) {
+        console.warn(`[Irrigation Planner] Could not plan field ${field.id}:`, error)
+        skip(error instanceof Error ? error.message : 'Planning failed')
+      }
+    }
+
+    console.log(`[Irrigation Planner] Planned ${plans.length} field(s), skipped ${skipped.length} for user ${userId}`)
+    return { plans, skipped }
+  }
+}
+
+// Singleton instance
+let irrigationPlannerService: IrrigationPlannerService | null = null
+
+export function getIrrigationPlannerService(): IrrigationPlannerService {
+  if (!irrigationPlannerService) {
+    irrigationPlannerService = new IrrigationPlannerService()
+  }
+  return irrigationPlannerService
+}
+
+export { IrrigationPlanError }
+export type { FieldIrrigationPlan, IrrigationDay, SkippedField }
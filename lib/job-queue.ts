@@ -0,0 +1,207 @@
+import { randomBytes } from 'crypto'
+import { hostname } from 'os'
+import type { Prisma, ScheduledJob } from '@prisma/client'
+import { prisma } from './prisma'
+
+const CLAIM_BATCH_SIZE = 20
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000 // a RUNNING job older than this is assumed to be from a crashed worker
+const RETRY_BASE_DELAY_MS = 60 * 1000 // 1 min, 2 min, 4 min, ...
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000
+
+type JobHandler = (job: ScheduledJob) => Promise<void>
+
+interface EnqueueOptions {
+  runAt?: Date
+  dedupeKey?: string
+  maxAttempts?: number
+}
+
+interface JobRunSummary {
+  completed: number
+  retried: number
+  failed: number
+}
+
+/**
+ * Thrown by a job handler to control retries. Any other error is treated as retryable.
+ */
+class JobError extends Error {
+  constructor(
+    message: string,
+    public retryable: boolean = true
+  ) {
+    super(message)
+    this.name = 'JobError'
+  }
+}
+
+/**
+ * Exponential backoff for the given (1-based) attempt number
+ */
+export function getRetryDelayMs(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempt - 1, 0), RETRY_MAX_DELAY_MS)
+}
+
+class JobQueue {
+  private workerId = `${hostname()}-${process.pid}-${randomBytes(3).toString('hex')}`
+
+  /**
+   * Queue a job. Returns false when a job with the same dedupe key already exists.
+   */
+  async enqueue(type: string, payload: Prisma.InputJsonValue, options: EnqueueOptions = {}): Promise<boolean> {
+    const { count } = await prisma.scheduledJob.createMany({
+      data: [{
+        type,
+        payload,
+        runAt: options.runAt || new Date(),
+        dedupeKey: options.dedupeKey,
+        maxAttempts: options.maxAttempts
+      }],
+      skipDuplicates: true
+    })
+    return count > 0
+  }
+
+  /**
+   * Claim due jobs for this worker. FOR UPDATE SKIP LOCKED lets several instances poll the
+   * same table without ever claiming the same job twice. The timestamp columns hold UTC without
+   * a zone (as Prisma writes them), so NOW() is taken in UTC whatever the session time zone is.
+   */
+  async claimDueJobs(limit: number = CLAIM_BATCH_SIZE): Promise<ScheduledJob[]> {
+    const claimed = await prisma.$queryRaw<{ id: string }[]>`
+      UPDATE "public"."scheduled_jobs"
+      SET "status" = 'RUNNING', "lockedAt" = (NOW() AT TIME ZONE 'UTC'), "lockedBy" = ${this.workerId},
+          "attempts" = "attempts" + 1, "updatedAt" = (NOW() AT TIME ZONE 'UTC')
+      WHERE "id" IN (
+        SELECT "id" FROM "public"."scheduled_jobs"
+        WHERE "status" = 'PENDING' AND "runAt" <= (NOW() AT TIME ZONE 'UTC')
+        ORDER BY "runAt"
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING "id"`
+
+    if (claimed.length === 0) return []
+
+    return prisma.scheduledJob.findMany({
+      where: { id: { in: claimed.map((job) => job.id) } },
+      orderBy: { runAt: 'asc' }
+    })
+  }
+
+  /**
+   * Put jobs whose worker died mid-run back in the queue (or fail them if out of attempts)
+   */
+  async releaseStaleJobs(): Promise<number> {
+    const staleBefore = new Date(Date.now() - LOCK_TIMEOUT_MS)
+    const stale = await prisma.scheduledJob.findMany({
+      where: { status: 'RUNNING', lockedAt: { lt: staleBefore } }
+    })
+
+    for (const job of stale) {
+      const exhausted = job.attempts >= job.maxAttempts
+      await prisma.scheduledJob.updateMany({
+        // Guard on lockedBy so a worker that just finished the job is not overwritten
+        where: { id: job.id, status: 'RUNNING', lockedBy: job.lockedBy },
+        data: {
+          status: exhausted ? 'FAILED' : 'PENDING',
+          lockedAt: null,
+          lockedBy: null,
+          lastError: 'Worker lock expired'
+        }
+      })
+    }
+
+    if (stale.length > 0) {
+      console.warn(`[Job Queue] Released ${stale.length} stale job(s)`)
+    }
+    return stale.length
+  }
+
+  async complete(job: ScheduledJob): Promise<void> {
+    await prisma.scheduledJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'COMPLETED',
+        completedAt: new Date(),
+        lockedAt: null,
+        lockedBy: null,
+        lastError: null
+      }
+    })
+  }
+
+  /**
+   * Record a failed run, rescheduling with backoff while attempts remain.
+   * Returns true if the job will be retried.
+   */
+  async fail(job: ScheduledJob, error: unknown): Promise<boolean> {
+    const message = error instanceof Error ? error.message : String(error)
+    const retryable = !(error instanceof JobError) || error.retryable
+    const willRetry = retryable && job.attempts < job.maxAttempts
+
+    await prisma.scheduledJob.update({
+      where: { id: job.id },
+      data: {
+        status: willRetry ? 'PENDING' : 'FAILED',
+        runAt: willRetry ? new Date(Date.now() + getRetryDelayMs(job.attempts)) : job.runAt,
+        lockedAt: null,
+        lockedBy: null,
+        lastError: message.slice(0, 1000)
+      }
+    })
+
+    return willRetry
+  }
+
+  /**
+   * Claim and run due jobs until the queue is empty or the time budget runs out
+   */
+  async runDueJobs(handlers: Record<string, JobHandler>, timeBudgetMs: number = 50 * 1000): Promise<JobRunSummary> {
+    const summary: JobRunSummary = { completed: 0, retried: 0, failed: 0 }
+    const deadline = Date.now() + timeBudgetMs
+
+    await this.releaseStaleJobs()
+
+    while (Date.now() < deadline) {
+      const jobs = await this.claimDueJobs()
+      if (jobs.length === 0) break
+
+      for (const job of jobs) {
+        const handler = handlers[job.type]
+
+        try {
+          if (!handler) {
+            throw new JobError(`No handler registered for job type "${job.type}"`, false)
+          }
+          await handler(job)
+          await this.complete(job)
+          summary.completed++
+        } catch (error) {
+          console.error(`[Job Queue] Job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, error)
+          const willRetry = await this.fail(job, error)
+          if (willRetry) {
+            summary.retried++
+          } else {
+            summary.failed++
+          }
+        }
+      }
+    }
+
+    return summary
+  }
+}
+
+// Singleton instance
+let jobQueue: JobQueue | null = null
+
+export function getJobQueue(): JobQueue {
+  if (!jobQueue) {
+    jobQueue = new JobQueue()
+  }
+  return jobQueue
+}
+
+export { JobError }
+export type { JobHandler, JobRunSummary, EnqueueOptions }
@@ -0,0 +1,383 @@
+import type { DBFField } from './shapefile'
+import { pointInRing, signedRingArea } from './field-geometry'
+
+// Within-field management zones from an NDVI raster, and variable-rate prescriptions over them.
+// Zones are numbered from the weakest (1) to the most vigorous part of the field.
+
+export const ZONE_COUNTS = [3, 4, 5] as const
+export const DEFAULT_ZONE_COUNT = 3
+
+export type PrescriptionProduct = 'fertiliser' | 'seed'
+// compensate: more product where the crop is weak; productivity: more where it is strong
+export type RateStrategy = 'compensate' | 'productivity'
+
+export const RATE_UNITS = ['kg/ha', 'L/ha', 'seeds/ha'] as const
+export type RateUnit = (typeof RATE_UNITS)[number]
+
+export const DEFAULT_STRATEGY: Record<PrescriptionProduct, RateStrategy> = {
+  fertiliser: 'compensate',
+  seed: 'productivity'
+}
+
+const ZONE_LABELS: Record<number, string[]> = {
+  3: ['Low', 'Medium', 'High'],
+  4: ['Low', 'Medium-low', 'Medium-high', 'High'],
+  5: ['Very low', 'Low', 'Medium', 'High', 'Very high']
+}
+
+// Below this NDVI spread the "zones" are mostly sensor noise
+const MIN_USEFUL_SPREAD = 0.04
+const MIN_ZONE_PIXELS = 12
+
+export interface ZoneGrid {
+  width: number
+  height: number
+  values: ArrayLike<number> // row-major, NaN outside the field
+  vertex: (col: number, row: number) => [number, number] // grid corner -> [lng, lat]
+  cellAreaHa: (row: number) => number
+}
+
+export interface ManagementZone {
+  zone: number
+  label: string
+  meanNDVI: number
+  minNDVI: number
+  maxNDVI: number
+  areaHa: number
+  share: number // % of the zoned area
+  geometry: {
+    type: 'MultiPolygon'
+    coordinates: number[][][][] // [lng, lat], outer rings counter-clockwise
+  }
+}
+
+export interface ZoneDelineation {
+  zones: ManagementZone[]
+  pixelCount: number
+  warnings: string[]
+}
+
+export interface PrescriptionOptions {
+  product: PrescriptionProduct
+  productName: string
+  unit: RateUnit
+  baseRate: number // field-average rate
+  strategy: RateStrategy
+  spread: number // % above/below the base rate for the outermost zones
+}
+
+export interface PrescriptionFeature {
+  type: 'Feature'
+  properties: {
+    ZONE: number
+    NDVI: number
+    AREA_HA: number
+    RATE: number
+    UNIT: string
+    PRODUCT: string
+  }
+  geometry: ManagementZone['geometry']
+}
+
+export interface PrescriptionCollection {
+  type: 'FeatureCollection'
+  features: PrescriptionFeature[]
+}
+
+// Attribute table of the exported shapefile, matching the feature properties
+export const PRESCRIPTION_DBF_FIELDS: DBFField[] = [
+  { name: 'ZONE', type: 'N', length: 4 },
+  { name: 'NDVI', type: 'N', length: 8, decimals: 3 },
+  { name: 'AREA_HA', type: 'N', length: 12, decimals: 3 },
+  { name: 'RATE', type: 'N', length: 12, decimals: 1 },
+  { name: 'UNIT', type: 'C', length: 10 },
+  { name: 'PRODUCT', type: 'C', length: 40 }
+]
+
+export function zoneLabel(zone: number, zoneCount: number): string {
+  return ZONE_LABELS[zoneCount]?.[zone - 1] || `Zone ${zone}`
+}
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+/**
+ * 1-D k-means over the valid pixels, seeded at evenly spaced quantiles.
+ * Returns a label per pixel (0 outside the field, 1..k from lowest to highest NDVI).
+ */
+export function classifyPixels(values: ArrayLike<number>, zoneCount: number): Uint8Array {
+  const labels = new Uint8Array(values.length)
+  const valid: number[] = []
+  for (let i = 0; i < values.length; i++) {
+    if (!Number.isNaN(values[i])) valid.push(values[i])
+  }
+  if (valid.length === 0) return labels
+
+  const sorted = [...valid].sort((a, b) => a - b)
+  let centres = Array.from({ length: zoneCount }, (_, i) => quantile(sorted, (i + 0.5) / zoneCount))
+
+  for (let iteration = 0; iteration < 100; iteration++) {
+    const sums = new Array(zoneCount).fill(0)
+    const counts = new Array(zoneCount).fill(0)
+    for (const value of sorted) {
+      let best = 0
+      for (let k = 1; k < zoneCount; k++) {
+        if (Math.abs(value - centres[k]) < Math.abs(value - centres[best])) best = k
+      }
+      sums[best] += value
+      counts[best]++
+    }
+    // Empty clusters keep their centre
+    const next = centres.map((centre, k) => (counts[k] ? sums[k] / counts[k] : centre)).sort((a, b) => a - b)
+    const settled = next.every((centre, k) => Math.abs(centre - centres[k]) < 1e-6)
+    centres = next
+    if (settled) break
+  }
+
+  for (let i = 0; i < values.length; i++) {
+    if (Number.isNaN(values[i])) continue
+    let best = 0
+    for (let k = 1; k < zoneCount; k++) {
+      if (Math.abs(values[i] - centres[k]) < Math.abs(values[i] - centres[best])) best = k
+    }
+    labels[i] = best + 1
+  }
+  return labels
+}
+
+/**
+ * 3x3 majority filter, so zones are patches a spreader can follow rather than single pixels
+ */
+export function smoothZoneLabels(labels: Uint8Array, width: number, height: number, passes: number = 2): Uint8Array {
+  let current = labels
+  for (let pass = 0; pass < passes; pass++) {
+    const next = current.slice()
+    for (let row = 0; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        const own = current[row * width + col]
+        if (!own) continue
+
+        const counts = new Map<number, number>()
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const r = row + dy
+            const c = col + dx
+            if (r < 0 || r >= height || c < 0 || c >= width) continue
+            const label = current[r * width + c]
+            if (label) counts.set(label, (counts.get(label) || 0) + 1)
+          }
+        }
+        for (const [label, count] of counts) {
+          if (label !== own && count >= 5) next[row * width + col] = label
+        }
+      }
+    }
+    current = next
+  }
+  return current
+}
+
+/**
+ * Outline the cells of one zone as polygons with holes, in grid coordinates [col, -row]
+ * (so rings keep their orientation once mapped to lng/lat)
+ */
+export function traceZoneOutlines(labels: Uint8Array, width: number, height: number, zone: number): number[][][][] {
+  const key = (col: number, row: number) => row * (width + 1) + col
+  const outgoing = new Map<number, number[]>()
+  const addEdge = (from: [number, number], to: [number, number]) => {
+    const list = outgoing.get(key(...from)) || []
+    list.push(key(...to))
+    outgoing.set(key(...from), list)
+  }
+  const isZone = (col: number, row: number) =>
+    col >= 0 && col < width && row >= 0 && row < height && labels[row * width + col] === zone
+
+  // Boundary edges run counter-clockwise around each cell, so the zone is always on their left
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      if (!isZone(col, row)) continue
+      if (!isZone(col, row + 1)) addEdge([col, row + 1], [col + 1, row + 1])
+      if (!isZone(col + 1, row)) addEdge([col + 1, row + 1], [col + 1, row])
+      if (!isZone(col, row - 1)) addEdge([col + 1, row], [col, row])
+      if (!isZone(col - 1, row)) addEdge([col, row], [col, row + 1])
+    }
+  }
+
+  const point = (vertex: number) => [vertex % (width + 1), -Math.floor(vertex / (width + 1))]
+  const rings: number[][][] = []
+
+  for (const [start, targets] of outgoing) {
+    while (targets.length) {
+      const ring = [point(start)]
+      let previous = start
+      let current = targets.pop()!
+
+      while (current !== start) {
+        ring.push(point(current))
+        const options = outgoing.get(current)!
+        // Where two cells touch only at a corner, turn left so each ring stays simple
+        const [px, py] = point(previous)
+        const [cx, cy] = point(current)
+        let chosen = 0
+        let bestTurn = -Infinity
+        options.forEach((target, index) => {
+          const [tx, ty] = point(target)
+          const turn = (cx - px) * (ty - cy) - (cy - py) * (tx - cx)
+          if (turn > bestTurn) {
+            bestTurn = turn
+            chosen = index
+          }
+        })
+        previous = current
+        current = options.splice(chosen, 1)[0]
+      }
+      ring.push(point(start))
+
+      // Drop the corners of straight runs
+      const simplified = ring.filter((vertex, index) => {
+        if (index === 0 || index === ring.length - 1) return true
+        const before = ring[index - 1]
+        const after = ring[index + 1]
+        return (vertex[0] - before[0]) * (after[1] - vertex[1]) !== (vertex[1] - before[1]) * (after[0] - vertex[0])
+      })
+      rings.push(simplified)
+    }
+  }
+
+  const outers = rings.filter((ring) => signedRingArea(ring) > 0)
+  const polygons = outers.map((ring) => [ring])
+
+  for (const hole of rings.filter((ring) => signedRingArea(ring) < 0)) {
+    // Centre of the zone cell just left of the hole's first edge
+    const [ax, ay] = hole[0]
+    const [bx, by] = hole[1]
+    const x = (ax + bx) / 2 - (by - ay) / 2
+    const y = (ay + by) / 2 + (bx - ax) / 2
+
+    let owner = -1
+    outers.forEach((outer, index) => {
+      if (pointInRing([x, y], outer) && (owner === -1 || signedRingArea(outer) < signedRingArea(outers[owner]))) owner = index
+    })
+    if (owner !== -1) polygons[owner].push(hole)
+  }
+
+  return polygons
+}
+
+/**
+ * Split a field's NDVI grid into management zones
+ */
+export function delineateZones(grid: ZoneGrid, zoneCount: number): ZoneDelineation {
+  const { width, height, values } = grid
+  const warnings: string[] = []
+
+  const valid: number[] = []
+  for (let i = 0; i < values.length; i++) {
+    if (!Number.isNaN(values[i])) valid.push(values[i])
+  }
+  valid.sort((a, b) => a - b)
+  if (valid.length < zoneCount * MIN_ZONE_PIXELS) {
+    return {
+      zones: [],
+      pixelCount: valid.length,
+      warnings: [`The field covers only ${valid.length} satellite pixels, too few to split into ${zoneCount} zones`]
+    }
+  }
+
+  const spread = quantile(valid, 0.95) - quantile(valid, 0.05)
+  if (spread < MIN_USEFUL_SPREAD) {
+    warnings.push(`NDVI varies by only ${spread.toFixed(2)} across the field, so the zones may not reflect real differences`)
+  }
+
+  const labels = smoothZoneLabels(classifyPixels(values, zoneCount), width, height)
+
+  const stats = Array.from({ length: zoneCount }, () => ({ sum: 0, count: 0, min: Infinity, max: -Infinity, area: 0 }))
+  for (let row = 0; row < height; row++) {
+    const cellArea = grid.cellAreaHa(row)
+    for (let col = 0; col < width; col++) {
+      const label = labels[row * width + col]
+      if (!label) continue
+      const value = values[row * width + col]
+      const zoneStats = stats[label - 1]
+      zoneStats.sum += value
+      zoneStats.count++
+      zoneStats.min = Math.min(zoneStats.min, value)
+      zoneStats.max = Math.max(zoneStats.max, value)
+      zoneStats.area += cellArea
+    }
+  }
+  const totalArea = stats.reduce((sum, zoneStats) => sum + zoneStats.area, 0)
+
+  const zones: ManagementZone[] = []
+  stats.forEach((zoneStats, index) => {
+    if (!zoneStats.count) return
+    const zone = index + 1
+    const coordinates = traceZoneOutlines(labels, width, height, zone).map((polygon) =>
+      polygon.map((ring) => ring.map(([col, negRow]) => grid.vertex(col, -negRow)))
+    )
+    zones.push({
+      zone,
+      label: zoneLabel(zone, zoneCount),
+      meanNDVI: Number((zoneStats.sum / zoneStats.count).toFixed(3)),
+      minNDVI: Number(zoneStats.min.toFixed(3)),
+      maxNDVI: Number(zoneStats.max.toFixed(3)),
+      areaHa: Number(zoneStats.area.toFixed(3)),
+      share: Number(((zoneStats.area / totalArea) * 100).toFixed(1)),
+      geometry: { type: 'MultiPolygon', coordinates }
+    })
+  })
+
+  if (zones.length < zoneCount) {
+    warnings.push(`Only ${zones.length} distinct zones could be separated in this field`)
+  }
+
+  return { zones, pixelCount: valid.length, warnings }
+}
+
+/**
+ * Rate for each zone, scaled so the field as a whole still gets the base rate on average
+ */
+export function prescriptionRates(
+  zones: Array<Pick<ManagementZone, 'zone' | 'areaHa'>>,
+  zoneCount: number,
+  options: Pick<PrescriptionOptions, 'baseRate' | 'strategy' | 'spread'>
+): number[] {
+  const spread = options.spread / 100
+  const factors = zones.map((zone) => {
+    const position = zoneCount > 1 ? (zone.zone - 1) / (zoneCount - 1) : 0.5 // 0 weakest .. 1 strongest
+    const lean = options.strategy === 'compensate' ? 1 - 2 * position : 2 * position - 1
+    return 1 + spread * lean
+  })
+
+  const totalArea = zones.reduce((sum, zone) => sum + zone.areaHa, 0)
+  const meanFactor = totalArea
+    ? zones.reduce((sum, zone, index) => sum + zone.areaHa * factors[index], 0) / totalArea
+    : 1
+
+  return factors.map((factor) => Math.max(0, Math.round((options.baseRate * factor) / meanFactor * 10) / 10))
+}
+
+/**
+ * Prescription map with one feature per zone, ready for a variable-rate controller
+ */
+export function buildPrescription(zones: ManagementZone[], rates: number[], options: Pick<PrescriptionOptions, 'productName' | 'unit'>): PrescriptionCollection {
+  return {
+    type: 'FeatureCollection',
+    features: zones.map((zone, index) => ({
+      type: 'Feature',
+      properties: {
+        ZONE: zone.zone,
+        NDVI: zone.meanNDVI,
+        AREA_HA: zone.areaHa,
+        RATE: rates[index],
+        UNIT: options.unit,
+        PRODUCT: options.productName
+      },
+      geometry: zone.geometry
+    }))
+  }
+}
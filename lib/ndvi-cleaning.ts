@@ -0,0 +1,297 @@
+import type { ProcessedNDVIData } from './agromonitoring-api'
+
+// Time-series cleaning for satellite index readings (NDVI and the other indices stored alongside it).
+// Raw scenes are never modified: each one is marked kept or rejected, and the kept ones are put on a
+// daily grid and smoothed. Charts, alerts and the AI read the cleaned series and can still show the raw one.
+
+type SmoothingMethod = 'whittaker' | 'savitzky-golay' | 'none'
+
+type RejectionReason = 'cloud' | 'coverage' | 'outlier'
+
+interface NDVICleaningOptions {
+  maxCloudCover: number // %, scenes cloudier than this are dropped
+  minDataCoverage: number // %, scenes that saw less of the field are dropped
+  outlierWindowDays: number // neighbours within this many days are compared
+  outlierThreshold: number // robust z-score (deviation from the neighbours' median in MADs)
+  minOutlierDelta: number // deviations smaller than this are never outliers
+  smoothing: SmoothingMethod
+  lambda: number // Whittaker smoothness; higher is smoother
+  windowDays: number // Savitzky-Golay window, odd number of days
+  polyOrder: number // Savitzky-Golay polynomial order
+}
+
+interface CleanedObservation {
+  date: string
+  satellite: string
+  value: number // raw field mean
+  cloudCover: number
+  dataCoverage: number
+  kept: boolean
+  reason?: RejectionReason
+}
+
+interface DailyValue {
+  date: string
+  value: number // smoothed
+  observed: boolean // a kept scene fell on this day
+  raw?: number // mean of the kept scenes on this day
+}
+
+interface CleanedNDVISeries {
+  observations: CleanedObservation[] // every raw scene, oldest first
+  daily: DailyValue[] // first to last kept scene, one entry per day
+  summary: {
+    total: number
+    kept: number
+    rejected: Record<RejectionReason, number>
+  }
+  options: NDVICleaningOptions
+}
+
+export const DEFAULT_CLEANING_OPTIONS: NDVICleaningOptions = {
+  maxCloudCover: 30,
+  minDataCoverage: 60,
+  outlierWindowDays: 20,
+  outlierThreshold: 3,
+  minOutlierDelta: 0.08,
+  smoothing: 'whittaker',
+  lambda: 400,
+  windowDays: 21,
+  polyOrder: 2
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function dayNumber(date: string): number {
+  return Math.round(new Date(`${date}T00:00:00.000Z`).getTime() / DAY_MS)
+}
+
+function dayString(day: number): string {
+  return new Date(day * DAY_MS).toISOString().split('T')[0]
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/**
+ * Solve a symmetric positive definite system with bandwidth 2 (Whittaker's W + λD'D) by an LDLᵀ
+ * factorisation. Only the three upper diagonals are stored: diagonal[i] = A[i][i],
+ * upper1[i] = A[i][i+1] and upper2[i] = A[i][i+2]. Time and memory are linear in n.
+ */
+function solvePentadiagonal(diagonal: number[], upper1: number[], upper2: number[], rhs: number[]): number[] {
+  const n = rhs.length
+  const d = new Array<number>(n).fill(0)
+  const l1 = new Array<number>(n + 1).fill(0) // l1[i] = L[i][i-1]
+  const l2 = new Array<number>(n + 2).fill(0) // l2[i] = L[i][i-2]
+
+  for (let i = 0; i < n; i++) {
+    d[i] = diagonal[i] - l1[i] * l1[i] * (d[i - 1] ?? 0) - l2[i] * l2[i] * (d[i - 2] ?? 0)
+    if (i + 2 < n) l2[i + 2] = upper2[i] / d[i]
+    if (i + 1 < n) l1[i + 1] = (upper1[i] - l2[i + 1] * l1[i] * (d[i - 1] ?? 0)) / d[i]
+  }
+
+  // L z = b, then D y = z, then Lᵀ x = y
+  const z = new Array<number>(n).fill(0)
+  for (let i = 0; i < n; i++) {
+    z[i] = rhs[i] - l1[i] * (z[i - 1] ?? 0) - l2[i] * (z[i - 2] ?? 0)
+  }
+  const x = new Array<number>(n).fill(0)
+  for (let i = n - 1; i >= 0; i--) {
+    x[i] = z[i] / d[i] - l1[i + 1] * (x[i + 1] ?? 0) - l2[i + 2] * (x[i + 2] ?? 0)
+  }
+  return x
+}
+
+/**
+ * Weighted Whittaker smoother with second-order differences. Days without an observation
+ * get weight 0, so the smoother also fills the gaps between scenes.
+ */
+export function whittakerSmooth(values: number[], weights: number[], lambda: number): number[] {
+  const n = values.length
+  if (n < 3) return [...values]
+
+  // W + λD'D is pentadiagonal; each second difference adds to a 3x3 block on the diagonal
+  const diagonal = [...weights]
+  const upper1 = new Array<number>(n).fill(0)
+  const upper2 = new Array<number>(n).fill(0)
+  const coefficients = [1, -2, 1]
+  for (let r = 0; r < n - 2; r++) {
+    for (let p = 0; p < 3; p++) {
+      diagonal[r + p] += lambda * coefficients[p] * coefficients[p]
+      if (p < 2) upper1[r + p] += lambda * coefficients[p] * coefficients[p + 1]
+    }
+    upper2[r] += lambda * coefficients[0] * coefficients[2]
+  }
+
+  return solvePentadiagonal(diagonal, upper1, upper2, values.map((value, i) => value * weights[i]))
+}
+
+/**
+ * Savitzky-Golay smoothing: a local polynomial fit over a centred window, evaluated at each day.
+ * Near the ends the window is cut short instead of padded.
+ */
+export function savitzkyGolaySmooth(values: number[], windowDays: number, polyOrder: number): number[] {
+  const n = values.length
+  const half = Math.max(1, Math.floor(windowDays / 2))
+
+  return values.map((_, i) => {
+    const from = Math.max(0, i - half)
+    const to = Math.min(n - 1, i + half)
+    const order = Math.min(polyOrder, to - from)
+    const size = order + 1
+
+    // Normal equations for the polynomial in x = j - i; its constant term is the fit at day i
+    const matrix = Array.from({ length: size }, () => new Array<number>(size + 1).fill(0))
+    for (let j = from; j <= to; j++) {
+      const x = j - i
+      for (let r = 0; r < size; r++) {
+        for (let c = 0; c < size; c++) {
+          matrix[r][c] += Math.pow(x, r + c)
+        }
+        matrix[r][size] += Math.pow(x, r) * values[j]
+      }
+    }
+
+    for (let k = 0; k < size; k++) {
+      let pivot = k
+      for (let r = k + 1; r < size; r++) {
+        if (Math.abs(matrix[r][k]) > Math.abs(matrix[pivot][k])) pivot = r
+      }
+      ;[matrix[k], matrix[pivot]] = [matrix[pivot], matrix[k]]
+      for (let r = 0; r < size; r++) {
+        if (r === k || matrix[k][k] === 0) continue
+        const factor = matrix[r][k] / matrix[k][k]
+        for (let c = k; c <= size; c++) matrix[r][c] -= factor * matrix[k][c]
+      }
+    }
+    return matrix[0][size] / matrix[0][0]
+  })
+}
+
+/**
+ * Mark kept/rejected scenes, then smooth the kept ones onto a daily grid
+ */
+export function cleanNDVISeries(
+  readings: ProcessedNDVIData[],
+  overrides: Partial<NDVICleaningOptions> = {}
+): CleanedNDVISeries {
+  const options = { ...DEFAULT_CLEANING_OPTIONS, ...overrides }
+
+  const observations: CleanedObservation[] = [...readings]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((reading) => {
+      const observation: CleanedObservation = {
+        date: reading.date,
+        satellite: reading.satellite,
+        value: reading.ndviMean,
+        cloudCover: reading.cloudCover,
+        dataCoverage: reading.dataCoverage,
+        kept: true
+      }
+      if (reading.cloudCover > options.maxCloudCover) {
+        observation.kept = false
+        observation.reason = 'cloud'
+      } else if (reading.dataCoverage < options.minDataCoverage) {
+        observation.kept = false
+        observation.reason = 'coverage'
+      }
+      return observation
+    })
+
+  // Outliers are judged against the scenes that survived the cloud and coverage checks, all against
+  // the same neighbourhood so the order of evaluation does not matter. The neighbours' robust
+  // (Theil-Sen) trend is projected to the scene's date, so green-up and senescence aren't flagged.
+  const candidates = observations.filter((observation) => observation.kept)
+  const deviations = candidates.map((observation) => {
+    const day = dayNumber(observation.date)
+    const neighbours = candidates
+      .filter((other) => other !== observation && Math.abs(dayNumber(other.date) - day) <= options.outlierWindowDays)
+      .map((other) => ({ offset: dayNumber(other.date) - day, value: other.value }))
+    if (neighbours.length < 2) return 0
+
+    const slopes: number[] = []
+    neighbours.forEach((a, i) =>
+      neighbours.slice(i + 1).forEach((b) => {
+        if (a.offset !== b.offset) slopes.push((b.value - a.value) / (b.offset - a.offset))
+      })
+    )
+    const slope = slopes.length ? median(slopes) : 0
+    const projected = neighbours.map((neighbour) => neighbour.value - slope * neighbour.offset)
+
+    const centre = median(projected)
+    const spread = 1.4826 * median(projected.map((value) => Math.abs(value - centre)))
+    const deviation = observation.value - centre
+    return Math.abs(deviation) > Math.max(options.minOutlierDelta, options.outlierThreshold * spread) ? Math.sign(deviation) : 0
+  })
+  // Two scenes in a row off the trend in the same direction are a real change (harvest, damage), not noise
+  const outliers = candidates.filter((_, i) =>
+    deviations[i] !== 0 && deviations[i - 1] !== deviations[i] && deviations[i + 1] !== deviations[i]
+  )
+  for (const observation of outliers) {
+    observation.kept = false
+    observation.reason = 'outlier'
+  }
+
+  const kept = observations.filter((observation) => observation.kept)
+  const summary = {
+    total: observations.length,
+    kept: kept.length,
+    rejected: {
+      cloud: observations.filter((observation) => observation.reason === 'cloud').length,
+      coverage: observations.filter((observation) => observation.reason === 'coverage').length,
+      outlier: outliers.length
+    }
+  }
+
+  if (kept.length === 0) {
+    return { observations, daily: [], summary, options }
+  }
+
+  // Daily grid from the first to the last kept scene; same-day scenes (two satellites) are averaged
+  const byDay = new Map<number, number[]>()
+  for (const observation of kept) {
+    const day = dayNumber(observation.date)
+    byDay.set(day, [...(byDay.get(day) || []), observation.value])
+  }
+  const days = [...byDay.keys()].sort((a, b) => a - b)
+  const firstDay = days[0]
+  const length = days[days.length - 1] - firstDay + 1
+
+  const raw: Array<number | undefined> = Array.from({ length }, (_, i) => {
+    const values = byDay.get(firstDay + i)
+    return values ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined
+  })
+
+  // Linear interpolation between observed days
+  const interpolated = raw.map((value, i) => {
+    if (value !== undefined) return value
+    let before = i - 1
+    while (raw[before] === undefined) before--
+    let after = i + 1
+    while (raw[after] === undefined) after++
+    return raw[before]! + ((raw[after]! - raw[before]!) * (i - before)) / (after - before)
+  })
+
+  let smoothed: number[]
+  if (options.smoothing === 'whittaker') {
+    smoothed = whittakerSmooth(interpolated, raw.map((value) => (value === undefined ? 0 : 1)), options.lambda)
+  } else if (options.smoothing === 'savitzky-golay') {
+    smoothed = savitzkyGolaySmooth(interpolated, options.windowDays, options.polyOrder)
+  } else {
+    smoothed = interpolated
+  }
+
+  const daily = smoothed.map((value, i) => ({
+    date: dayString(firstDay + i),
+    value: Number(Math.max(-1, Math.min(1, value)).toFixed(4)),
+    observed: raw[i] !== undefined,
+    ...(raw[i] !== undefined && { raw: Number(raw[i]!.toFixed(4)) })
+  }))
+
+  return { observations, daily, summary, options }
+}
+
+export type { SmoothingMethod, RejectionReason, NDVICleaningOptions, CleanedObservation, DailyValue, CleanedNDVISeries }
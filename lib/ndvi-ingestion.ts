@@ -0,0 +1,347 @@
+import type { Field, NDVIReading, ScheduledJob } from '@prisma/client'
+import { prisma } from './prisma'
+import { getAgromonitoringAPI, type ProcessedNDVIData } from './agromonitoring-api'
+import { getJobQueue } from './job-queue'
+import { getPolygonSyncService } from './polygon-sync'
+import { getProviderRegistry } from './provider-registry'
+import { ProviderFailoverError, type VegetationIndex } from './data-providers'
+import { fieldLocation } from './weather-ingestion'
+import { cleanNDVISeries, type CleanedNDVISeries, type NDVICleaningOptions } from './ndvi-cleaning'
+
+export const NDVI_SYNC_JOB = 'ndvi_sync'
+
+const NDVI_SOURCE = 'agromonitoring'
+const NDVI_SYNC_INTERVAL_MS = 12 * 60 * 60 * 1000 // satellites revisit every few days, twice a day is plenty
+const INITIAL_HISTORY_DAYS = 365
+const RESYNC_OVERLAP_DAYS = 10 // images can be published a few days after acquisition
+// Indices besides NDVI cost one request per scene, so their first sync looks back less far
+const ADDITIONAL_INDICES: VegetationIndex[] = ['EVI', 'NDWI', 'SAVI', 'NDRE']
+const ADDITIONAL_HISTORY_DAYS = 120
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface NDVISyncResult {
+  fieldId: string
+  polygonId: string | null
+  stored: number
+  additional: Partial<Record<VegetationIndex, number>> // readings stored per extra index
+}
+
+interface NDVIHistoryOptions {
+  daysBack?: number
+  since?: Date // overrides daysBack, e.g. a past season's sowing date
+  until?: Date
+  cloudsMax?: number
+  satellite?: string
+  index?: VegetationIndex // NDVI when omitted
+}
+
+interface LatestIndexReading {
+  index: VegetationIndex
+  value: number
+  date: string
+  satellite: string
+}
+
+/**
+ * Start of the UTC day, used as the dedupe key for a reading
+ */
+function toAcquisitionDay(timestamp: number): Date {
+  const date = new Date(timestamp * 1000)
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+/**
+ * Convert a stored reading to the shape the charts and AI context already use
+ */
+export function toProcessedNDVIData(reading: NDVIReading): ProcessedNDVIData {
+  return {
+    date: reading.date.toISOString().split('T')[0],
+    timestamp: Math.floor(reading.date.getTime() / 1000),
+    satellite: reading.satellite,
+    ndviMean: reading.value,
+    ndviMedian: reading.median ?? reading.value,
+    ndviMin: reading.min ?? reading.value,
+    ndviMax: reading.max ?? reading.value,
+    cloudCover: reading.cloudCover ?? 0,
+    dataCoverage: reading.dataCoverage ?? 100,
+    pixelCount: reading.pixelCount ?? 0,
+    standardDeviation: reading.std ?? 0,
+    quartiles: {
+      q25: reading.p25 ?? reading.value,
+      q75: reading.p75 ?? reading.value
+    }
+  }
+}
+
+class NDVIIngestionService {
+  /**
+   * Find which of the user's fields is linked to a remote polygon. Polygons replaced by a boundary
+   * edit still lead to their field, so its whole history stays reachable.
+   */
+  async findFieldForPolygon(userId: string, polygonId: string): Promise<Field | null> {
+    const field = await prisma.field.findFirst({
+      where: { polygonId, farm: { userId } }
+    })
+    return field || prisma.field.findFirst({
+      where: { farm: { userId }, geometryVersions: { some: { polygonId } } }
+    })
+  }
+
+  /**
+   * Pull NDVI history for one field from Agromonitoring and upsert it into ndvi_readings.
+   * Only the window since the last stored reading (plus an overlap) is requested.
+   */
+  async syncField(fieldId: string): Promise<NDVISyncResult> {
+    const field = await prisma.field.findUnique({ where: { id: fieldId } })
+    if (!field) {
+      throw new Error(`Field ${fieldId} not found`)
+    }
+
+    const polygonId = field.polygonId || await getPolygonSyncService().ensurePolygonForField(fieldId)
+    if (!polygonId) {
+      console.warn(`[NDVI Ingestion] No polygon found for field ${field.name} (${fieldId})`)
+      return { fieldId, polygonId: null, stored: 0, additional: {} }
+    }
+
+    const latest = await prisma.nDVIReading.findFirst({
+      where: { fieldId, source: NDVI_SOURCE, index: 'NDVI' },
+      orderBy: { date: 'desc' }
+    })
+
+    const endDate = new Date()
+    const startDate = latest
+      ? new Date(latest.date.getTime() - RESYNC_OVERLAP_DAYS * 24 * 60 * 60 * 1000)
+      : new Date(endDate.getTime() - INITIAL_HISTORY_DAYS * 24 * 60 * 60 * 1000)
+
+    const agroAPI = getAgromonitoringAPI()
+    const rawNDVIData = await agroAPI.getNDVIHistory(
+      polygonId,
+      agroAPI.dateToUnixTimestamp(startDate),
+      agroAPI.dateToUnixTimestamp(endDate)
+    )
+    const processed = agroAPI.processNDVIData(rawNDVIData)
+
+    for (const item of processed) {
+      const date = toAcquisitionDay(item.timestamp)
+      const values = {
+        value: item.ndviMean,
+        median: item.ndviMedian,
+        min: item.ndviMin,
+        max: item.ndviMax,
+        std: item.standardDeviation,
+        p25: item.quartiles.q25,
+        p75: item.quartiles.q75,
+        cloudCover: item.cloudCover,
+        dataCoverage: item.dataCoverage,
+        pixelCount: item.pixelCount,
+        source: NDVI_SOURCE,
+        geometryVersion: field.geometryVersion
+      }
+
+      await prisma.nDVIReading.upsert({
+        where: { fieldId_date_satellite_index: { fieldId, date, satellite: item.satellite, index: 'NDVI' } },
+        update: values,
+        create: { ...values, fieldId, date, satellite: item.satellite, index: 'NDVI' }
+      })
+    }
+
+    const additional = await this.syncAdditionalIndices({ ...field, polygonId }, endDate)
+
+    await prisma.field.update({
+      where: { id: fieldId },
+      data: { ndviSyncedAt: new Date() }
+    })
+
+    console.log(`[NDVI Ingestion] Stored ${processed.length} readings for field ${field.name} (${fieldId})`)
+    return { fieldId, polygonId, stored: processed.length, additional }
+  }
+
+  /**
+   * Pull EVI, NDWI, SAVI and NDRE through the provider registry. An index no provider can
+   * serve for this field is skipped, so NDVI ingestion never fails because of them.
+   */
+  private async syncAdditionalIndices(field: Field, endDate: Date): Promise<Partial<Record<VegetationIndex, number>>> {
+    const location = fieldLocation(field)
+    if (!location) return {}
+
+    const registry = getProviderRegistry()
+    const stored: Partial<Record<VegetationIndex, number>> = {}
+
+    for (const index of ADDITIONAL_INDICES) {
+      const latest = await prisma.nDVIReading.findFirst({
+        where: { fieldId: field.id, index },
+        orderBy: { date: 'desc' }
+      })
+      const startDate = latest
+        ? new Date(latest.date.getTime() - RESYNC_OVERLAP_DAYS * DAY_MS)
+        : new Date(endDate.getTime() - ADDITIONAL_HISTORY_DAYS * DAY_MS)
+
+      try {
+        const readings = await registry.getVegetationIndices(
+          { ...location, polygonId: field.polygonId },
+          { index, from: startDate, to: endDate }
+        )
+
+        for (const reading of readings) {
+          const date = new Date(`${reading.date}T00:00:00.000Z`)
+          const satellite = reading.satellite || 'unknown'
+          const values = {
+            value: reading.mean,
+            median: reading.median,
+            min: reading.min,
+            max: reading.max,
+            std: reading.std,
+            cloudCover: reading.cloudCover,
+            source: reading.source,
+            geometryVersion: field.geometryVersion
+          }
+
+          await prisma.nDVIReading.upsert({
+            where: { fieldId_date_satellite_index: { fieldId: field.id, date, satellite, index } },
+            update: values,
+            create: { ...values, fieldId: field.id, date, satellite, index }
+          })
+        }
+        stored[index] = readings.length
+      } catch (error) {
+        if (!(error instanceof ProviderFailoverError)) throw error
+        console.log(`[NDVI Ingestion] ${index} not available for field ${field.id}: ${error.message}`)
+      }
+    }
+
+    return stored
+  }
+
+  /**
+   * Sync a field only if it has not been synced recently. Failures are logged, not thrown,
+   * so callers can fall back to whatever history is already stored.
+   */
+  async syncFieldIfStale(field: Pick<Field, 'id' | 'ndviSyncedAt'>): Promise<void> {
+    if (field.ndviSyncedAt && Date.now() - field.ndviSyncedAt.getTime() < NDVI_SYNC_INTERVAL_MS) {
+      return
+    }
+
+    try {
+      await this.syncField(field.id)
+    } catch (error) {
+      console.warn(`[NDVI Ingestion] Sync failed for field ${field.id}, using stored history:`, error)
+    }
+  }
+
+  /**
+   * Stored NDVI history for a field, oldest first
+   */
+  async getHistory(fieldId: string, options: NDVIHistoryOptions = {}): Promise<ProcessedNDVIData[]> {
+    const { daysBack = 90, cloudsMax, satellite, index = 'NDVI', until } = options
+    const since = options.since || new Date(Date.now() - daysBack * 24 * 60 * 60 * 1000)
+
+    const readings = await prisma.nDVIReading.findMany({
+      where: {
+        fieldId,
+        index,
+        date: { gte: since, ...(until && { lte: until }) },
+        ...(satellite && { satellite }),
+        ...(cloudsMax !== undefined && { cloudCover: { lte: cloudsMax } })
+      },
+      orderBy: { date: 'asc' }
+    })
+
+    return readings.map(toProcessedNDVIData)
+  }
+
+  /**
+   * Stored history run through cloud/coverage filtering, outlier rejection and smoothing.
+   * The raw readings come back too, so callers can show both.
+   */
+  async getCleanedHistory(
+    fieldId: string,
+    options: Omit<NDVIHistoryOptions, 'cloudsMax'> = {},
+    cleaning: Partial<NDVICleaningOptions> = {}
+  ): Promise<{ readings: ProcessedNDVIData[]; cleaned: CleanedNDVISeries }> {
+    // Cloud filtering is the cleaner's job here, so rejected scenes stay visible
+    const readings = await this.getHistory(fieldId, options)
+    return { readings, cleaned: cleanNDVISeries(readings, cleaning) }
+  }
+
+  /**
+   * Indices with at least one stored reading for the field, NDVI first
+   */
+  async getAvailableIndices(fieldId: string): Promise<VegetationIndex[]> {
+    const rows = await prisma.nDVIReading.findMany({
+      where: { fieldId },
+      distinct: ['index'],
+      select: { index: true }
+    })
+    const stored = new Set(rows.map((row) => row.index))
+    return (['NDVI', ...ADDITIONAL_INDICES] as VegetationIndex[]).filter((index) => stored.has(index))
+  }
+
+  /**
+   * Most recent reading of every index for the field, skipping readings older than maxAgeDays
+   */
+  async getLatestIndices(fieldId: string, maxAgeDays: number = 30): Promise<LatestIndexReading[]> {
+    const readings = await prisma.nDVIReading.findMany({
+      where: { fieldId, date: { gte: new Date(Date.now() - maxAgeDays * DAY_MS) } },
+      orderBy: { date: 'desc' }
+    })
+
+    const latest = new Map<string, LatestIndexReading>()
+    for (const reading of readings) {
+      if (latest.has(reading.index)) continue
+      latest.set(reading.index, {
+        index: reading.index as VegetationIndex,
+        value: reading.value,
+        date: reading.date.toISOString().split('T')[0],
+        satellite: reading.satellite
+      })
+    }
+    return (['NDVI', ...ADDITIONAL_INDICES] as VegetationIndex[])
+      .filter((index) => latest.has(index))
+      .map((index) => latest.get(index)!)
+  }
+
+  /**
+   * Queue one sync job per field for today; safe to call on every scheduler tick
+   */
+  async scheduleDailySync(now: Date = new Date()): Promise<number> {
+    const fields = await prisma.field.findMany({ select: { id: true } })
+    const day = now.toISOString().split('T')[0]
+    const jobQueue = getJobQueue()
+    let queued = 0
+
+    for (const field of fields) {
+      const created = await jobQueue.enqueue(
+        NDVI_SYNC_JOB,
+        { fieldId: field.id },
+        { dedupeKey: `${NDVI_SYNC_JOB}:${field.id}:${day}`, maxAttempts: 3 }
+      )
+      if (created) queued++
+    }
+
+    return queued
+  }
+}
+
+// Singleton instance
+let ndviIngestionService: NDVIIngestionService | null = null
+
+export function getNDVIIngestionService(): NDVIIngestionService {
+  if (!ndviIngestionService) {
+    ndviIngestionService = new NDVIIngestionService()
+  }
+  return ndviIngestionService
+}
+
+/**
+ * Job handler for NDVI_SYNC_JOB
+ */
+export async function runNDVISyncJob(job: ScheduledJob): Promise<void> {
+  const { fieldId } = job.payload as { fieldId: string }
+
+  const field = await prisma.field.findUnique({ where: { id: fieldId }, select: { id: true } })
+  if (!field) return // deleted since the job was queued
+
+  await getNDVIIngestionService().syncField(fieldId)
+}
+
+export type { NDVISyncResult, NDVIHistoryOptions, LatestIndexReading }
@@ -0,0 +1,266 @@
+// Offline copies of dashboard data and writes waiting for the network, kept in IndexedDB in the
+// browser. public/sw.js opens the same database to replay the outbox with Background Sync, so the
+// store names and record shapes here must match it.
+
+const DB_NAME = 'kisanmitr-offline'
+const DB_VERSION = 1
+const SNAPSHOTS = 'snapshots'
+const OUTBOX = 'outbox'
+const REPLIES = 'replies'
+
+export const OUTBOX_SYNC_TAG = 'kisanmitr-outbox'
+// Fired on window whenever the outbox or replies change, in this tab or from the service worker
+export const OUTBOX_EVENT = 'kisanmitr:outbox'
+
+type OutboxKind = 'profile' | 'field' | 'chat'
+
+interface Snapshot<T> {
+  key: string
+  data: T
+  savedAt: number
+}
+
+// How old the data on screen is; stale when the network failed and a saved copy is shown
+interface DataFreshness {
+  savedAt: Date
+  stale: boolean
+}
+
+interface QueuedRequest {
+  id: number
+  kind: OutboxKind
+  label: string // shown to the farmer while waiting, e.g. the field name or question
+  url: string
+  method: string
+  body: string // JSON
+  queuedAt: number
+}
+
+// Response to a queued request once it was sent, kept until the page that queued it reads it
+interface QueuedReply {
+  id: number
+  kind: OutboxKind
+  label: string
+  requestBody: string
+  status: number
+  response: any
+  completedAt: number
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'))
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(SNAPSHOTS)) db.createObjectStore(SNAPSHOTS, { keyPath: 'key' })
+        if (!db.objectStoreNames.contains(OUTBOX)) db.createObjectStore(OUTBOX, { keyPath: 'id', autoIncrement: true })
+        if (!db.objectStoreNames.contains(REPLIES)) db.createObjectStore(REPLIES, { keyPath: 'id' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = run(transaction.objectStore(storeName))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+function notifyOutboxChanged() {
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event(OUTBOX_EVENT))
+}
+
+/**
+ * Keep the latest copy of some data for when the network is gone. Failures are logged, never thrown
+ */
+export async function saveSnapshot<T>(key: string, data: T): Promise<void> {
+  try {
+    await withStore(SNAPSHOTS, 'readwrite', (store) => store.put({ key, data, savedAt: Date.now() }))
+  } catch (error) {
+    console.warn(`[Offline] Could not save ${key}:`, error)
+  }
+}
+
+export async function readSnapshot<T>(key: string): Promise<Snapshot<T> | null> {
+  try {
+    return (await withStore<Snapshot<T> | undefined>(SNAPSHOTS, 'readonly', (store) => store.get(key))) || null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Load data and keep a copy; when loading fails, return the last copy instead, marked stale.
+ * Rethrows only when there is no copy to fall back to
+ */
+export async function withOfflineCopy<T>(key: string, load: () => Promise<T>): Promise<{ data: T } & DataFreshness> {
+  try {
+    const data = await load()
+    await saveSnapshot(key, data)
+    return { data, savedAt: new Date(), stale: false }
+  } catch (error) {
+    const snapshot = await readSnapshot<T>(key)
+    if (!snapshot) throw error
+    console.log(`[Offline] Showing saved ${key} from ${new Date(snapshot.savedAt).toISOString()}`)
+    return { data: snapshot.data, savedAt: new Date(snapshot.savedAt), stale: true }
+  }
+}
+
+/**
+ * Send a JSON write now, or queue it when the device is offline. Returns null when queued; the
+ * service worker (or the page, without Background Sync) sends it once the network is back
+ */
+export async function sendOrQueue(
+  kind: OutboxKind,
+  label: string,
+  url: string,
+  init: { method: string; body: unknown }
+): Promise<Response | null> {
+  const body = JSON.stringify(init.body)
+  if (typeof navigator === 'undefined' || navigator.onLine) {
+    try {
+      return await fetch(url, { method: init.method, headers: { 'Content-Type': 'application/json' }, body })
+    } catch (error) {
+      // fetch only rejects when the request never reached the server
+      console.warn(`[Offline] ${init.method} ${url} failed, queueing:`, error)
+    }
+  }
+
+  await withStore(OUTBOX, 'readwrite', (store) =>
+    store.add({ kind, label, url, method: init.method, body, queuedAt: Date.now() })
+  )
+  notifyOutboxChanged()
+  await requestBackgroundSync()
+  return null
+}
+
+async function requestBackgroundSync() {
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration()
+    const sync = (registration as (ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }) | undefined)?.sync
+    await sync?.register(OUTBOX_SYNC_TAG)
+  } catch (error) {
+    console.warn('[Offline] Background sync unavailable:', error)
+  }
+}
+
+/**
+ * Whether queued writes are replayed by the service worker rather than the page
+ */
+export function hasBackgroundSync(): boolean {
+  return typeof window !== 'undefined' && 'SyncManager' in window && !!navigator.serviceWorker?.controller
+}
+
+export async function listQueued(): Promise<QueuedRequest[]> {
+  try {
+    return await withStore<QueuedRequest[]>(OUTBOX, 'readonly', (store) => store.getAll())
+  } catch {
+    return []
+  }
+}
+
+let flushing: Promise<number> | null = null
+
+/**
+ * Send queued writes in the order they were made. Stops at the first network failure so nothing
+ * is sent out of order; requests the server refuses are dropped with their reply recorded.
+ * Returns how many were sent
+ */
+export function flushOutbox(): Promise<number> {
+  if (!flushing) {
+    flushing = replayQueued().finally(() => {
+      flushing = null
+    })
+  }
+  return flushing
+}
+
+async function replayQueued(): Promise<number> {
+  let sent = 0
+  for (const queued of await listQueued()) {
+    let response: Response
+    try {
+      response = await fetch(queued.url, {
+        method: queued.method,
+        headers: { 'Content-Type': 'application/json' },
+        body: queued.body
+      })
+    } catch {
+      break
+    }
+    // Server errors may pass; keep the write for the next attempt
+    if (response.status >= 500) break
+
+    const reply: QueuedReply = {
+      id: queued.id,
+      kind: queued.kind,
+      label: queued.label,
+      requestBody: queued.body,
+      status: response.status,
+      response: await response.json().catch(() => null),
+      completedAt: Date.now()
+    }
+    await withStore(REPLIES, 'readwrite', (store) => store.put(reply))
+    await withStore(OUTBOX, 'readwrite', (store) => store.delete(queued.id))
+    sent++
+  }
+
+  if (sent > 0) {
+    console.log(`[Offline] Sent ${sent} queued ${sent === 1 ? 'change' : 'changes'}`)
+    notifyOutboxChanged()
+  }
+  return sent
+}
+
+/**
+ * Replies to queued writes of one kind, removed from the store as they are read
+ */
+export async function takeReplies(kind: OutboxKind): Promise<QueuedReply[]> {
+  try {
+    const replies = (await withStore<QueuedReply[]>(REPLIES, 'readonly', (store) => store.getAll())).filter(
+      (reply) => reply.kind === kind
+    )
+    for (const reply of replies) {
+      await withStore(REPLIES, 'readwrite', (store) => store.delete(reply.id))
+    }
+    return replies
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Forget saved data, queued writes and replies, e.g. when the farmer logs out on a shared phone
+ */
+export async function clearOfflineData(): Promise<void> {
+  try {
+    for (const storeName of [SNAPSHOTS, OUTBOX, REPLIES]) {
+      await withStore(storeName, 'readwrite', (store) => store.clear())
+    }
+    notifyOutboxChanged()
+  } catch (error) {
+    console.warn('[Offline] Could not clear saved data:', error)
+  }
+}
+
+export type { OutboxKind, Snapshot, DataFreshness, QueuedRequest, QueuedReply }
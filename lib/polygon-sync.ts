@@ -0,0 +1,271 @@
+import type { Field, ScheduledJob } from '@prisma/client'
+import { prisma } from './prisma'
+import { getAgromonitoringAPI, type PolygonResponse } from './agromonitoring-api'
+import { getJobQueue } from './job-queue'
+import type { NamedBoundary } from './field-geometry'
+
+export const POLYGON_RECONCILE_JOB = 'polygon_reconcile'
+
+// Polygons we create are named "<field name> [fs:<fieldId>]" so they can be traced back to their field
+const FIELD_TAG_PATTERN = /\s*\[fs:([a-z0-9]+)\]$/
+const LEGACY_MATCH_DISTANCE_DEG = 0.0005 // ~50 m between a legacy polygon's center and the field centroid
+const ORPHAN_GRACE_MS = 10 * 60 * 1000 // a polygon this new may belong to a field still being saved
+
+interface ReconcileFilter {
+  farmId?: string
+  fieldId?: string
+}
+
+interface ReconcileResult {
+  linked: number
+  created: number
+  repaired: number
+  deleted: number
+  failed: number
+}
+
+/**
+ * Remote polygon name for a field
+ */
+export function polygonNameForField(field: Pick<Field, 'id' | 'name'>): string {
+  return `${field.name} [fs:${field.id}]`
+}
+
+/**
+ * Field ID a remote polygon was created for, if it was created by us
+ */
+export function fieldIdFromPolygonName(name: string): string | null {
+  return name.match(FIELD_TAG_PATTERN)?.[1] || null
+}
+
+/**
+ * Outer ring of a field's stored GeoJSON polygon as lat/lng points
+ */
+export function parseFieldRing(coordinates: string): Array<{ lat: number; lng: number }> | null {
+  try {
+    const coordsData = JSON.parse(coordinates)
+    if (coordsData.type === 'Polygon' && coordsData.coordinates[0]) {
+      return coordsData.coordinates[0].map((coord: number[]) => ({
+        lat: coord[1],
+        lng: coord[0]
+      }))
+    }
+  } catch (parseError) {
+    console.warn('[Polygon Sync] Could not parse field coordinates:', parseError)
+  }
+  return null
+}
+
+/**
+ * Boundaries of the user's fields, e.g. to check a new boundary for overlap
+ */
+export async function fieldBoundariesForUser(userId: string, excludeFieldId?: string): Promise<NamedBoundary[]> {
+  const fields = await prisma.field.findMany({
+    where: { farm: { userId }, ...(excludeFieldId && { id: { not: excludeFieldId } }) },
+    select: { name: true, coordinates: true }
+  })
+  return fields.flatMap((field) => {
+    const points = parseFieldRing(field.coordinates)
+    return points ? [{ name: field.name, points }] : []
+  })
+}
+
+/**
+ * Average of the ring's points, good enough to locate a field
+ */
+export function ringCentroid(points: Array<{ lat: number; lng: number }>): { lat: number; lng: number } {
+  const sum = points.reduce((acc, point) => ({ lat: acc.lat + point.lat, lng: acc.lng + point.lng }), { lat: 0, lng: 0 })
+  return { lat: sum.lat / points.length, lng: sum.lng / points.length }
+}
+
+class PolygonSyncService {
+  /**
+   * Create the remote polygon for a field if it does not have one yet. Returns the polygon ID.
+   */
+  async ensurePolygonForField(fieldId: string): Promise<string | null> {
+    const field = await prisma.field.findUnique({ where: { id: fieldId } })
+    if (!field) {
+      throw new Error(`Field ${fieldId} not found`)
+    }
+    if (field.polygonId) return field.polygonId
+
+    return this.createPolygonForField(field)
+  }
+
+  /**
+   * Create a new remote polygon for the field and store the link
+   */
+  async createPolygonForField(field: Field): Promise<string | null> {
+    const points = parseFieldRing(field.coordinates)
+    if (!points || points.length < 3) {
+      console.warn(`[Polygon Sync] Field ${field.id} has no usable boundary, skipping polygon creation`)
+      return null
+    }
+
+    const polygon = await getAgromonitoringAPI().createPolygon(polygonNameForField(field), points)
+    await prisma.field.update({
+      where: { id: field.id },
+      // Fields drawn before area was stored take it from the polygon, so they can be area-weighted
+      data: { polygonId: polygon.id, ...(!field.area && { area: polygon.area }) }
+    })
+
+    console.log(`[Polygon Sync] Created polygon ${polygon.id} for field ${field.name} (${field.id})`)
+    return polygon.id
+  }
+
+  /**
+   * Delete a field's remote polygon, e.g. before deleting the field itself
+   */
+  async deletePolygonForField(field: Pick<Field, 'id' | 'polygonId'>): Promise<void> {
+    if (!field.polygonId) return
+
+    try {
+      await getAgromonitoringAPI().deletePolygon(field.polygonId)
+    } catch (error) {
+      // The reconciliation job removes it later if this fails
+      console.warn(`[Polygon Sync] Could not delete polygon ${field.polygonId} for field ${field.id}:`, error)
+    }
+  }
+
+  /**
+   * Bring fields and remote polygons back in line:
+   * - fields without a polygon get one (adopting a matching existing polygon where possible)
+   * - fields linked to a polygon that no longer exists are repaired
+   * - remote polygons created for fields that were since removed are deleted, once they are
+   *   older than ORPHAN_GRACE_MS so a field saved during the run doesn't lose its new polygon
+   *
+   * With a userId only that user's fields (optionally one farm or field) are checked and nothing is deleted.
+   */
+  async reconcile(userId?: string, filter: ReconcileFilter = {}): Promise<ReconcileResult> {
+    const result: ReconcileResult = { linked: 0, created: 0, repaired: 0, deleted: 0, failed: 0 }
+    const agroAPI = getAgromonitoringAPI()
+
+    const [fields, polygons] = await Promise.all([
+      prisma.field.findMany({
+        where: {
+          ...(userId && { farm: { userId } }),
+          ...(filter.farmId && { farmId: filter.farmId }),
+          ...(filter.fieldId && { id: filter.fieldId })
+        }
+      }),
+      agroAPI.getPolygons()
+    ])
+
+    const polygonsById = new Map(polygons.map((polygon) => [polygon.id, polygon]))
+    const linkedPolygonIds = new Set(
+      (await prisma.field.findMany({ where: { polygonId: { not: null } }, select: { polygonId: true } }))
+        .map((field) => field.polygonId!)
+    )
+
+    for (const field of fields) {
+      try {
+        if (field.polygonId && polygonsById.has(field.polygonId)) continue
+
+        const adopted = this.findPolygonToAdopt(field, polygons, linkedPolygonIds)
+        if (adopted) {
+          await prisma.field.update({ where: { id: field.id }, data: { polygonId: adopted.id } })
+          if (adopted.name !== polygonNameForField(field)) {
+            await agroAPI.updatePolygon(adopted.id, polygonNameForField(field))
+          }
+          linkedPolygonIds.add(adopted.id)
+          if (field.polygonId) {
+            result.repaired++
+          } else {
+            result.linked++
+          }
+          continue
+        }
+
+        const polygonId = await this.createPolygonForField(field)
+        if (polygonId) {
+          linkedPolygonIds.add(polygonId)
+          if (field.polygonId) {
+            result.repaired++
+          } else {
+            result.created++
+          }
+        }
+      } catch (error) {
+        console.error(`[Polygon Sync] Failed to reconcile field ${field.id}:`, error)
+        result.failed++
+      }
+    }
+
+    if (!userId) {
+      // Our polygons that no field links to any more belong to removed fields (or are duplicates)
+      const createdBefore = Date.now() - ORPHAN_GRACE_MS
+      for (const polygon of polygons) {
+        if (!fieldIdFromPolygonName(polygon.name) || linkedPolygonIds.has(polygon.id)) continue
+        if (!polygon.created_at || polygon.created_at * 1000 > createdBefore) continue
+
+        try {
+          await agroAPI.deletePolygon(polygon.id)
+          result.deleted++
+          console.log(`[Polygon Sync] Deleted polygon ${polygon.id} (${polygon.name}) with no field`)
+        } catch (error) {
+          console.error(`[Polygon Sync] Failed to delete polygon ${polygon.id}:`, error)
+          result.failed++
+        }
+      }
+    }
+
+    console.log('[Polygon Sync] Reconciliation finished:', result)
+    return result
+  }
+
+  /**
+   * Existing remote polygon that belongs to this field: one tagged with its ID, or an
+   * untagged polygon from before fields were linked with the same name and location
+   */
+  private findPolygonToAdopt(field: Field, polygons: PolygonResponse[], linkedPolygonIds: Set<string>): PolygonResponse | null {
+    const available = polygons.filter((polygon) => !linkedPolygonIds.has(polygon.id))
+
+    const tagged = available.find((polygon) => fieldIdFromPolygonName(polygon.name) === field.id)
+    if (tagged) return tagged
+
+    const points = parseFieldRing(field.coordinates)
+    if (!points || points.length === 0) return null
+    const centroid = ringCentroid(points)
+
+    return available.find((polygon) =>
+      !fieldIdFromPolygonName(polygon.name) &&
+      polygon.name.trim() === field.name.trim() &&
+      Math.abs(polygon.center[1] - centroid.lat) < LEGACY_MATCH_DISTANCE_DEG &&
+      Math.abs(polygon.center[0] - centroid.lng) < LEGACY_MATCH_DISTANCE_DEG
+    ) || null
+  }
+
+  /**
+   * Queue today's full reconciliation; safe to call on every scheduler tick
+   */
+  async scheduleDailyReconcile(now: Date = new Date()): Promise<number> {
+    const created = await getJobQueue().enqueue(
+      POLYGON_RECONCILE_JOB,
+      {},
+      { dedupeKey: `${POLYGON_RECONCILE_JOB}:${now.toISOString().split('T')[0]}`, maxAttempts: 3 }
+    )
+    return created ? 1 : 0
+  }
+}
+
+// Singleton instance
+let polygonSyncService: PolygonSyncService | null = null
+
+export function getPolygonSyncService(): PolygonSyncService {
+  if (!polygonSyncService) {
+    polygonSyncService = new PolygonSyncService()
+  }
+  return polygonSyncService
+}
+
+/**
+ * Job handler for POLYGON_RECONCILE_JOB
+ */
+export async function runPolygonReconcileJob(_job: ScheduledJob): Promise<void> {
+  const result = await getPolygonSyncService().reconcile()
+  if (result.failed > 0) {
+    throw new Error(`Polygon reconciliation finished with ${result.failed} failure(s)`)
+  }
+}
+
+export type { ReconcileFilter, ReconcileResult }
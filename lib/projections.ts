@@ -0,0 +1,190 @@
+// Coordinate reference systems found in uploaded boundary files, converted to WGS84 longitude/latitude.
+// Covers geographic WGS84-compatible systems, Web Mercator and Transverse Mercator (incl. UTM).
+// Datums that need a shift to WGS84 (e.g. Everest / Kalianpur 1975) are refused rather than placed wrongly.
+
+export interface CoordinateSystem {
+  name: string
+  toWGS84: (x: number, y: number) => [number, number]
+}
+
+/**
+ * Thrown when a file's coordinate system cannot be converted to WGS84
+ */
+class ProjectionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProjectionError'
+  }
+}
+
+const WGS84_A = 6378137
+const WGS84_INVERSE_F = 298.257223563
+
+// Datums that agree with WGS84 to within a metre or so
+const WGS84_COMPATIBLE_DATUM = /WGS.?(19)?84|GRS.?(19)?80|NAD.?(19)?83|North_American_1983|ETRS|ITRF/i
+const WEB_MERCATOR_EPSG = [3857, 3785, 900913, 102100, 102113]
+const GEOGRAPHIC_EPSG = [4326, 4269, 4258]
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+const toDegrees = (radians: number) => (radians * 180) / Math.PI
+
+export const WGS84: CoordinateSystem = {
+  name: 'WGS 84',
+  toWGS84: (x, y) => [x, y]
+}
+
+const WEB_MERCATOR: CoordinateSystem = {
+  name: 'WGS 84 / Pseudo-Mercator',
+  toWGS84: (x, y) => [toDegrees(x / WGS84_A), toDegrees(2 * Math.atan(Math.exp(y / WGS84_A)) - Math.PI / 2)]
+}
+
+interface TransverseMercatorParams {
+  centralMeridian: number
+  latitudeOfOrigin: number
+  scaleFactor: number
+  falseEasting: number
+  falseNorthing: number
+  unitToMetres: number
+  semiMajorAxis: number
+  inverseFlattening: number
+}
+
+// Inverse Transverse Mercator (Snyder, USGS Professional Paper 1395)
+function transverseMercator(name: string, params: TransverseMercatorParams): CoordinateSystem {
+  const a = params.semiMajorAxis
+  const f = 1 / params.inverseFlattening
+  const e2 = f * (2 - f)
+  const ep2 = e2 / (1 - e2)
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2))
+  const k0 = params.scaleFactor
+
+  const meridianArc = (lat: number) =>
+    a *
+    ((1 - e2 / 4 - (3 * e2 * e2) / 64 - (5 * e2 ** 3) / 256) * lat -
+      ((3 * e2) / 8 + (3 * e2 * e2) / 32 + (45 * e2 ** 3) / 1024) * Math.sin(2 * lat) +
+      ((15 * e2 * e2) / 256 + (45 * e2 ** 3) / 1024) * Math.sin(4 * lat) -
+      ((35 * e2 ** 3) / 3072) * Math.sin(6 * lat))
+  const m0 = meridianArc(toRadians(params.latitudeOfOrigin))
+
+  return {
+    name,
+    toWGS84: (x, y) => {
+      const easting = x * params.unitToMetres - params.falseEasting
+      const northing = y * params.unitToMetres - params.falseNorthing
+
+      const mu = (m0 + northing / k0) / (a * (1 - e2 / 4 - (3 * e2 * e2) / 64 - (5 * e2 ** 3) / 256))
+      const phi1 =
+        mu +
+        ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+        ((21 * e1 * e1) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+        ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+        ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu)
+
+      const sinPhi = Math.sin(phi1)
+      const cosPhi = Math.cos(phi1)
+      const c1 = ep2 * cosPhi * cosPhi
+      const t1 = Math.tan(phi1) ** 2
+      const n1 = a / Math.sqrt(1 - e2 * sinPhi * sinPhi)
+      const r1 = (a * (1 - e2)) / Math.pow(1 - e2 * sinPhi * sinPhi, 1.5)
+      const d = easting / (n1 * k0)
+
+      const lat =
+        phi1 -
+        ((n1 * Math.tan(phi1)) / r1) *
+          ((d * d) / 2 -
+            ((5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * ep2) * d ** 4) / 24 +
+            ((61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * ep2 - 3 * c1 * c1) * d ** 6) / 720)
+      const lng =
+        toRadians(params.centralMeridian) +
+        (d - ((1 + 2 * t1 + c1) * d ** 3) / 6 + ((5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * ep2 + 24 * t1 * t1) * d ** 5) / 120) /
+          cosPhi
+
+      return [toDegrees(lng), toDegrees(lat)]
+    }
+  }
+}
+
+function utm(zone: number, south: boolean): CoordinateSystem {
+  return transverseMercator(`WGS 84 / UTM zone ${zone}${south ? 'S' : 'N'}`, {
+    centralMeridian: zone * 6 - 183,
+    latitudeOfOrigin: 0,
+    scaleFactor: 0.9996,
+    falseEasting: 500000,
+    falseNorthing: south ? 10000000 : 0,
+    unitToMetres: 1,
+    semiMajorAxis: WGS84_A,
+    inverseFlattening: WGS84_INVERSE_F
+  })
+}
+
+/**
+ * Coordinate system for an EPSG code, e.g. from a GeoJSON "crs" member
+ */
+export function coordinateSystemFromEPSG(code: number): CoordinateSystem {
+  if (GEOGRAPHIC_EPSG.includes(code)) return WGS84
+  if (WEB_MERCATOR_EPSG.includes(code)) return WEB_MERCATOR
+  if (code >= 32601 && code <= 32660) return utm(code - 32600, false)
+  if (code >= 32701 && code <= 32760) return utm(code - 32700, true)
+  throw new ProjectionError(`Coordinate system EPSG:${code} is not supported; please export the file in WGS84 (EPSG:4326)`)
+}
+
+/**
+ * Coordinate system described by a GeoJSON "crs" name such as "urn:ogc:def:crs:EPSG::32643"
+ */
+export function coordinateSystemFromName(name: string): CoordinateSystem {
+  if (/CRS84$/i.test(name)) return WGS84
+  const code = name.match(/EPSG:+(\d+)$/i)?.[1]
+  if (!code) {
+    throw new ProjectionError(`Unknown coordinate system "${name}"`)
+  }
+  return coordinateSystemFromEPSG(parseInt(code))
+}
+
+function wktParameter(wkt: string, name: string): number | undefined {
+  const match = wkt.match(new RegExp(`PARAMETER\\["${name}",\\s*(-?[\\d.eE+-]+)\\]`, 'i'))
+  return match ? parseFloat(match[1]) : undefined
+}
+
+/**
+ * Coordinate system described by an ESRI/OGC WKT string, e.g. a shapefile's .prj
+ */
+export function coordinateSystemFromWKT(wkt: string): CoordinateSystem {
+  const text = wkt.trim()
+  const datum = text.match(/DATUM\["([^"]+)"/i)?.[1] || ''
+  const spheroid = text.match(/SPHEROID\["[^"]*",\s*([\d.]+),\s*([\d.]+)/i)
+
+  if (datum && !WGS84_COMPATIBLE_DATUM.test(datum)) {
+    throw new ProjectionError(
+      `The file uses the ${datum.replace(/^D_/, '').replace(/_/g, ' ')} datum; please export it in WGS84 (EPSG:4326) instead`
+    )
+  }
+
+  if (!/^PROJCS/i.test(text)) {
+    return WGS84
+  }
+
+  const name = text.match(/^PROJCS\["([^"]+)"/i)?.[1] || 'Projected'
+  const projection = text.match(/PROJECTION\["([^"]+)"/i)?.[1] || ''
+
+  if (/Mercator_Auxiliary_Sphere|Pseudo.?Mercator|Web.?Mercator/i.test(`${projection} ${name}`)) {
+    return WEB_MERCATOR
+  }
+  if (/Transverse_Mercator/i.test(projection)) {
+    // The projected system's linear unit is its last UNIT entry
+    const units = [...text.matchAll(/UNIT\["[^"]*",\s*([\d.]+)/gi)]
+    return transverseMercator(name.replace(/_/g, ' '), {
+      centralMeridian: wktParameter(text, 'central_meridian') ?? 0,
+      latitudeOfOrigin: wktParameter(text, 'latitude_of_origin') ?? 0,
+      scaleFactor: wktParameter(text, 'scale_factor') ?? 1,
+      falseEasting: wktParameter(text, 'false_easting') ?? 0,
+      falseNorthing: wktParameter(text, 'false_northing') ?? 0,
+      unitToMetres: units.length ? parseFloat(units[units.length - 1][1]) : 1,
+      semiMajorAxis: spheroid ? parseFloat(spheroid[1]) : WGS84_A,
+      inverseFlattening: spheroid ? parseFloat(spheroid[2]) : WGS84_INVERSE_F
+    })
+  }
+
+  throw new ProjectionError(`The ${projection.replace(/_/g, ' ') || name} projection is not supported; please export the file in WGS84 (EPSG:4326)`)
+}
+
+export { ProjectionError }
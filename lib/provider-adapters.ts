@@ -0,0 +1,322 @@
+import { getAgromonitoringAPI, type SatelliteImageLayer } from './agromonitoring-api'
+import { farmonautAPI, processSoilData, processWeatherData, type SatelliteImageResponse } from './farmonaut-api'
+import { getAgroAPI } from './agrofarming-api'
+import {
+  ProviderUnsupportedError,
+  type CurrentWeather,
+  type DataProvider,
+  type ForecastPeriod,
+  type ProviderField,
+  type ProviderLocation,
+  type SoilReading,
+  type UVReading,
+  type VegetationIndex,
+  type VegetationIndexReading,
+  type VegetationQuery
+} from './data-providers'
+
+const KELVIN = 273.15
+
+// Agromonitoring scene statistics available per index
+const AGROMONITORING_STATS: Partial<Record<VegetationIndex, SatelliteImageLayer>> = {
+  EVI: 'evi',
+  NDWI: 'ndwi'
+}
+
+function round(value: number, decimals: number = 1): number {
+  const factor = Math.pow(10, decimals)
+  return Math.round(value * factor) / factor
+}
+
+function toDay(value: string | number | Date): string {
+  return new Date(value).toISOString().split('T')[0]
+}
+
+/**
+ * Agromonitoring: weather by coordinates; NDVI, EVI, NDWI, soil and UV by polygon
+ */
+export class AgromonitoringProvider implements DataProvider {
+  readonly id = 'agromonitoring'
+  readonly name = 'Agromonitoring'
+  readonly capabilities = ['weather', 'forecast', 'vegetation', 'soil', 'uv'] as DataProvider['capabilities']
+
+  isAvailable(): boolean {
+    try {
+      getAgromonitoringAPI()
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  private requirePolygon(field: ProviderField): string {
+    if (!field.polygonId) {
+      throw new ProviderUnsupportedError('Field has no Agromonitoring polygon', this.id)
+    }
+    return field.polygonId
+  }
+
+  async getCurrentWeather({ lat, lng }: ProviderLocation): Promise<CurrentWeather> {
+    const raw = await getAgromonitoringAPI().getCurrentWeather(lat, lng)
+    return {
+      observedAt: new Date(raw.dt * 1000).toISOString(),
+      temperature: round(raw.main.temp),
+      feelsLike: round(raw.main.feels_like),
+      humidity: raw.main.humidity,
+      pressure: raw.main.pressure,
+      windSpeed: round(raw.wind.speed * 3.6), // m/s to km/h
+      windDirection: raw.wind.deg,
+      cloudCover: raw.clouds.all,
+      precipitation: raw.rain?.['3h'] ?? 0,
+      description: raw.weather[0]?.description,
+      source: this.id
+    }
+  }
+
+  async getForecast({ lat, lng }: ProviderLocation): Promise<ForecastPeriod[]> {
+    const items = await getAgromonitoringAPI().getWeatherForecast(lat, lng)
+    return items.map((item) => ({
+      start: new Date(item.dt * 1000).toISOString(),
+      hours: 3,
+      temperature: round(item.main.temp),
+      tempMin: round(item.main.temp_min),
+      tempMax: round(item.main.temp_max),
+      humidity: item.main.humidity,
+      windSpeed: round(item.wind.speed * 3.6),
+      precipitation: (item.rain?.['3h'] ?? 0) + (item.snow?.['3h'] ?? 0),
+      pressure: item.main.grnd_level ?? item.main.pressure,
+      cloudCover: item.clouds.all,
+      description: item.weather[0]?.description,
+      source: this.id
+    }))
+  }
+
+  async getVegetationIndices(field: ProviderField, query: VegetationQuery): Promise<VegetationIndexReading[]> {
+    const index = query.index || 'NDVI'
+    const polygonId = this.requirePolygon(field)
+    const api = getAgromonitoringAPI()
+
+    if (index === 'NDVI') {
+      const raw = await api.getNDVIHistory(polygonId, api.dateToUnixTimestamp(query.from), api.dateToUnixTimestamp(query.to))
+      return api.processNDVIData(raw).map((item) => ({
+        date: item.date,
+        index,
+        mean: item.ndviMean,
+        median: item.ndviMedian,
+        min: item.ndviMin,
+        max: item.ndviMax,
+        std: item.standardDeviation,
+        cloudCover: item.cloudCover,
+        satellite: item.satellite,
+        source: this.id
+      }))
+    }
+
+    // Other indices have no history endpoint; each scene links to its own statistics
+    const statsKey = AGROMONITORING_STATS[index]
+    if (!statsKey) {
+      throw new ProviderUnsupportedError(`${index} is not available from Agromonitoring`, this.id)
+    }
+
+    const scenes = await api.searchSatelliteImagery(polygonId, api.dateToUnixTimestamp(query.from), api.dateToUnixTimestamp(query.to))
+    const readings: VegetationIndexReading[] = []
+    for (const scene of scenes) {
+      const statsUrl = scene.stats[statsKey]
+      if (!statsUrl || scene.dc <= 0) continue
+
+      const stats = await api.getImageryStats(statsUrl)
+      if (typeof stats.mean !== 'number') continue
+      readings.push({
+        date: toDay(scene.dt * 1000),
+        index,
+        mean: round(stats.mean, 4),
+        median: round(stats.median, 4),
+        min: round(stats.min, 4),
+        max: round(stats.max, 4),
+        std: round(stats.std, 4),
+        cloudCover: round(scene.cl),
+        satellite: scene.type.replace(' ', '-'), // "Landsat 8" -> "Landsat-8", matching NDVI history
+        source: this.id
+      })
+    }
+    return readings.sort((a, b) => a.date.localeCompare(b.date))
+  }
+
+  async getSoil(field: ProviderField): Promise<SoilReading> {
+    const raw = await getAgromonitoringAPI().getCurrentSoilData(this.requirePolygon(field))
+    return {
+      observedAt: new Date(raw.dt * 1000).toISOString(),
+      moisture: round(raw.moisture * 100), // m³/m³ to %
+      surfaceTemp: round(raw.t0 - KELVIN),
+      temperature: round(raw.t10 - KELVIN),
+      source: this.id
+    }
+  }
+
+  async getUV(field: ProviderField): Promise<UVReading> {
+    const raw = await getAgromonitoringAPI().getCurrentUVI(this.requirePolygon(field))
+    return {
+      observedAt: new Date(raw.dt * 1000).toISOString(),
+      uvIndex: round(raw.uvi),
+      source: this.id
+    }
+  }
+}
+
+/**
+ * Farmonaut: weather by coordinates; satellite indices and soil analysis for fields submitted to Farmonaut
+ */
+export class FarmonautProvider implements DataProvider {
+  readonly id = 'farmonaut'
+  readonly name = 'Farmonaut'
+  readonly capabilities = ['weather', 'vegetation', 'soil', 'uv'] as DataProvider['capabilities']
+
+  private requireFieldId(field: ProviderField): string {
+    if (!field.externalId) {
+      throw new ProviderUnsupportedError('Field is not registered with Farmonaut', this.id)
+    }
+    return field.externalId
+  }
+
+  async getCurrentWeather({ lat, lng }: ProviderLocation): Promise<CurrentWeather> {
+    const weather = processWeatherData(await farmonautAPI.getWeatherData(lat, lng))
+    return {
+      observedAt: new Date(weather.date).toISOString(),
+      temperature: weather.temperature,
+      humidity: weather.humidity,
+      pressure: weather.pressure,
+      windSpeed: weather.windSpeed,
+      windDirection: weather.windDirection,
+      cloudCover: weather.cloudCover,
+      precipitation: weather.precipitation,
+      source: this.id
+    }
+  }
+
+  async getVegetationIndices(field: ProviderField, query: VegetationQuery): Promise<VegetationIndexReading[]> {
+    const index = query.index || 'NDVI'
+    const valueKey = `${index.toLowerCase()}Value` as keyof SatelliteImageResponse
+    const history: SatelliteImageResponse[] = await farmonautAPI.getHistoricalData(
+      this.requireFieldId(field),
+      toDay(query.from),
+      toDay(query.to)
+    )
+
+    return (Array.isArray(history) ? history : [])
+      .filter((image) => typeof image[valueKey] === 'number')
+      .map((image) => ({
+        date: toDay(image.date),
+        index,
+        mean: image[valueKey] as number,
+        cloudCover: image.cloudCover,
+        source: this.id
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date))
+  }
+
+  async getSoil(field: ProviderField): Promise<SoilReading> {
+    const soil = processSoilData(await farmonautAPI.getFieldAnalysis(this.requireFieldId(field)))
+    return {
+      observedAt: new Date().toISOString(),
+      moisture: soil.moisture,
+      temperature: soil.temperature,
+      organicCarbon: soil.organicCarbon,
+      ph: soil.ph,
+      source: this.id
+    }
+  }
+
+  async getUV({ lat, lng }: ProviderField): Promise<UVReading> {
+    const weather = processWeatherData(await farmonautAPI.getWeatherData(lat, lng))
+    return {
+      observedAt: new Date(weather.date).toISOString(),
+      uvIndex: weather.uvIndex,
+      source: this.id
+    }
+  }
+}
+
+/**
+ * AgroFarming: current weather with a daily forecast, and NDVI for its own field list.
+ * Only used once initializeAgroAPI has been called with its endpoints.
+ */
+export class AgroFarmingProvider implements DataProvider {
+  readonly id = 'agrofarming'
+  readonly name = 'AgroFarming'
+  readonly capabilities = ['weather', 'forecast', 'vegetation', 'uv'] as DataProvider['capabilities']
+
+  isAvailable(): boolean {
+    try {
+      getAgroAPI()
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async getCurrentWeather({ lat, lng }: ProviderLocation): Promise<CurrentWeather> {
+    const { current } = await getAgroAPI().getWeatherData(lat, lng)
+    return {
+      observedAt: new Date().toISOString(),
+      temperature: current.temperature,
+      humidity: current.humidity,
+      pressure: current.pressure,
+      windSpeed: current.windSpeed,
+      windDirection: current.windDirection,
+      cloudCover: current.cloudCover,
+      description: current.condition,
+      source: this.id
+    }
+  }
+
+  async getForecast({ lat, lng }: ProviderLocation): Promise<ForecastPeriod[]> {
+    const { forecast } = await getAgroAPI().getWeatherData(lat, lng)
+    return forecast.map((day) => ({
+      start: new Date(day.date).toISOString(),
+      hours: 24,
+      temperature: round((day.high + day.low) / 2),
+      tempMin: day.low,
+      tempMax: day.high,
+      humidity: day.humidity,
+      windSpeed: day.windSpeed,
+      precipitation: day.precipitation,
+      description: day.condition,
+      source: this.id
+    }))
+  }
+
+  async getVegetationIndices(field: ProviderField, query: VegetationQuery): Promise<VegetationIndexReading[]> {
+    const index = query.index || 'NDVI'
+    if (index !== 'NDVI') {
+      throw new ProviderUnsupportedError(`${index} is not available from AgroFarming`, this.id)
+    }
+    if (!field.externalId) {
+      throw new ProviderUnsupportedError('Field is not registered with AgroFarming', this.id)
+    }
+
+    const readings = await getAgroAPI().getNDVIData(field.externalId, toDay(query.from), toDay(query.to))
+    return readings
+      .map((reading) => ({
+        date: toDay(reading.date),
+        index,
+        mean: reading.statistics?.mean ?? reading.ndviValue,
+        median: reading.statistics?.median,
+        min: reading.statistics?.min,
+        max: reading.statistics?.max,
+        std: reading.statistics?.deviation,
+        cloudCover: reading.cloudCover,
+        satellite: reading.satellite,
+        source: this.id
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date))
+  }
+
+  async getUV({ lat, lng }: ProviderField): Promise<UVReading> {
+    const { current } = await getAgroAPI().getWeatherData(lat, lng)
+    return {
+      observedAt: new Date().toISOString(),
+      uvIndex: current.uvIndex,
+      source: this.id
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import {
+  ProviderFailoverError,
+  ProviderUnsupportedError,
+  type CurrentWeather,
+  type DataProvider,
+  type ForecastPeriod,
+  type ProviderCapability,
+  type ProviderField,
+  type ProviderLocation,
+  type SoilReading,
+  type UVReading,
+  type VegetationIndexReading,
+  type VegetationQuery
+} from './data-providers'
+import { AgroFarmingProvider, AgromonitoringProvider, FarmonautProvider } from './provider-adapters'
+
+const FAILURE_THRESHOLD = 3 // consecutive failures before a provider is put on cooldown
+const COOLDOWN_MS = 5 * 60 * 1000
+
+interface RegisteredProvider {
+  provider: DataProvider
+  priority: number // lower is tried first
+}
+
+interface ProviderHealth {
+  consecutiveFailures: number
+  coolingDownUntil: number
+  lastError?: string
+}
+
+interface ProviderCallOptions {
+  prefer?: string // provider id to try first, e.g. to match data already stored from it
+}
+
+class ProviderRegistry {
+  private providers: RegisteredProvider[] = []
+  private health = new Map<string, ProviderHealth>()
+
+  /**
+   * Add a provider, replacing any registered under the same id
+   */
+  register(provider: DataProvider, priority: number = 100): void {
+    this.unregister(provider.id)
+    this.providers.push({ provider, priority })
+    this.providers.sort((a, b) => a.priority - b.priority)
+  }
+
+  unregister(providerId: string): void {
+    this.providers = this.providers.filter(({ provider }) => provider.id !== providerId)
+    this.health.delete(providerId)
+  }
+
+  clear(): void {
+    this.providers = []
+    this.health.clear()
+  }
+
+  /**
+   * Providers to try for a capability, in order: the preferred one, then by priority.
+   * Providers on cooldown after repeated failures are kept, but only tried last.
+   */
+  getProviders(capability: ProviderCapability, options: ProviderCallOptions = {}): DataProvider[] {
+    const now = Date.now()
+    const candidates = this.providers
+      .map(({ provider }) => provider)
+      .filter((provider) => provider.capabilities.includes(capability))
+      .filter((provider) => !provider.isAvailable || provider.isAvailable())
+
+    const rank = (provider: DataProvider) =>
+      (provider.id === options.prefer ? 0 : 1) + ((this.health.get(provider.id)?.coolingDownUntil || 0) > now ? 2 : 0)
+
+    // Array.prototype.sort is stable, so equal ranks keep priority order
+    return [...candidates].sort((a, b) => rank(a) - rank(b))
+  }
+
+  /**
+   * Health of every provider that has failed at least once, for diagnostics
+   */
+  getHealth(): Record<string, ProviderHealth> {
+    return Object.fromEntries(this.health.entries())
+  }
+
+  async getCurrentWeather(location: ProviderLocation, options?: ProviderCallOptions): Promise<CurrentWeather> {
+    return this.run('weather', options, (provider) => provider.getCurrentWeather!(location))
+  }
+
+  async getForecast(location: ProviderLocation, options?: ProviderCallOptions): Promise<ForecastPeriod[]> {
+    return this.run('forecast', options, (provider) => provider.getForecast!(location))
+  }
+
+  async getVegetationIndices(
+    field: ProviderField,
+    query: VegetationQuery,
+    options?: ProviderCallOptions
+  ): Promise<VegetationIndexReading[]> {
+    return this.run('vegetation', options, (provider) => provider.getVegetationIndices!(field, query))
+  }
+
+  async getSoil(field: ProviderField, options?: ProviderCallOptions): Promise<SoilReading> {
+    return this.run('soil', options, (provider) => provider.getSoil!(field))
+  }
+
+  async getUV(field: ProviderField, options?: ProviderCallOptions): Promise<UVReading> {
+    return this.run('uv', options, (provider) => provider.getUV!(field))
+  }
+
+  /**
+   * Try each provider for the capability until one succeeds
+   */
+  private async run<T>(
+    capability: ProviderCapability,
+    options: ProviderCallOptions = {},
+    call: (provider: DataProvider) => Promise<T>
+  ): Promise<T> {
+    const attempts: Array<{ providerId: string; error: string }> = []
+
+    for (const provider of this.getProviders(capability, options)) {
+      try {
+        const result = await call(provider)
+        this.health.delete(provider.id)
+        if (attempts.length > 0) {
+          console.log(`[Provider Registry] ${capability} served by ${provider.id} after ${attempts.length} failed attempt(s)`)
+        }
+        return result
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        attempts.push({ providerId: provider.id, error: message })
+
+        // Not a fault of the provider, just not something it can answer
+        if (error instanceof ProviderUnsupportedError) continue
+
+        this.recordFailure(provider.id, message)
+        console.warn(`[Provider Registry] ${provider.id} failed for ${capability}:`, message)
+      }
+    }
+
+    throw new ProviderFailoverError(capability, attempts)
+  }
+
+  private recordFailure(providerId: string, message: string): void {
+    const health = this.health.get(providerId) || { consecutiveFailures: 0, coolingDownUntil: 0 }
+    health.consecutiveFailures++
+    health.lastError = message
+    if (health.consecutiveFailures >= FAILURE_THRESHOLD) {
+      health.coolingDownUntil = Date.now() + COOLDOWN_MS
+      console.warn(`[Provider Registry] ${providerId} failed ${health.consecutiveFailures} times in a row, trying it last for ${COOLDOWN_MS / 60000} minutes`)
+    }
+    this.health.set(providerId, health)
+  }
+}
+
+// Singleton instance with the built-in providers; Agromonitoring is preferred because
+// NDVI, soil and polygons are already stored against it
+let providerRegistry: ProviderRegistry | null = null
+
+export function getProviderRegistry(): ProviderRegistry {
+  if (!providerRegistry) {
+    providerRegistry = new ProviderRegistry()
+    providerRegistry.register(new AgromonitoringProvider(), 10)
+    providerRegistry.register(new FarmonautProvider(), 20)
+    providerRegistry.register(new AgroFarmingProvider(), 30)
+  }
+  return providerRegistry
+}
+
+export { ProviderRegistry }
+export type { ProviderCallOptions, ProviderHealth }
@@ -0,0 +1,58 @@
+import { createHash, timingSafeEqual } from 'crypto'
+import type { NextRequest } from 'next/server'
+import { getJobQueue, type JobHandler, type JobRunSummary } from './job-queue'
+import { DAILY_DIGEST_JOB, scheduleDailyDigests, sendDailyDigest } from './telegram-digest'
+import { NDVI_SYNC_JOB, getNDVIIngestionService, runNDVISyncJob } from './ndvi-ingestion'
+import { POLYGON_RECONCILE_JOB, getPolygonSyncService, runPolygonReconcileJob } from './polygon-sync'
+import { WEATHER_SYNC_JOB, getWeatherIngestionService, runWeatherSyncJob } from './weather-ingestion'
+import { CROP_HEALTH_CHECK_JOB, getCropHealthService, runCropHealthCheckJob } from './crop-health'
+import { ALERT_NOTIFY_JOB, runAlertNotifyJob } from './alert-notifications'
+import { WEATHER_ALERT_CHECK_JOB, getWeatherAlertService, runWeatherAlertCheckJob } from './weather-alerts'
+import { DISEASE_RISK_CHECK_JOB, getDiseaseRiskService, runDiseaseRiskCheckJob } from './disease-risk'
+
+// Shared secret the cron caller sends as "Authorization: Bearer <CRON_SECRET>"
+const CRON_SECRET = process.env.CRON_SECRET
+
+const JOB_HANDLERS: Record<string, JobHandler> = {
+  [DAILY_DIGEST_JOB]: sendDailyDigest,
+  [NDVI_SYNC_JOB]: runNDVISyncJob,
+  [POLYGON_RECONCILE_JOB]: runPolygonReconcileJob,
+  [WEATHER_SYNC_JOB]: runWeatherSyncJob,
+  [CROP_HEALTH_CHECK_JOB]: runCropHealthCheckJob,
+  [ALERT_NOTIFY_JOB]: runAlertNotifyJob,
+  [WEATHER_ALERT_CHECK_JOB]: runWeatherAlertCheckJob,
+  [DISEASE_RISK_CHECK_JOB]: runDiseaseRiskCheckJob
+}
+
+/**
+ * Check the scheduler shared secret on an incoming request
+ */
+export function isAuthorizedSchedulerRequest(request: NextRequest): boolean {
+  if (!CRON_SECRET) return false
+
+  const header = request.headers.get('authorization') || ''
+  const provided = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : ''
+
+  // Compare digests so the check takes the same time whatever the input length
+  const expected = createHash('sha256').update(CRON_SECRET).digest()
+  const actual = createHash('sha256').update(provided).digest()
+  return timingSafeEqual(expected, actual)
+}
+
+/**
+ * One scheduler tick: queue anything that is now due, then work through the job table
+ */
+export async function runScheduler(): Promise<{ queued: number } & JobRunSummary> {
+  const queued =
+    (await scheduleDailyDigests()) +
+    (await getNDVIIngestionService().scheduleDailySync()) +
+    (await getPolygonSyncService().scheduleDailyReconcile()) +
+    (await getWeatherIngestionService().scheduleDailySync()) +
+    (await getCropHealthService().scheduleDailyCheck()) +
+    (await getWeatherAlertService().scheduleChecks()) +
+    (await getDiseaseRiskService().scheduleDailyCheck())
+  const summary = await getJobQueue().runDueJobs(JOB_HANDLERS)
+
+  console.log('[Scheduler] Tick finished:', { queued, ...summary })
+  return { queued, ...summary }
+}
@@ -0,0 +1,14 @@
+// Shared between middleware (edge runtime) and lib/auth (node runtime),
+// so this file must not import Prisma or node built-ins.
+
+export const SESSION_COOKIE_NAME = 'farmsat_session'
+
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 30 // 30 days
+
+export const sessionCookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+  maxAge: SESSION_MAX_AGE_SECONDS
+}
@@ -0,0 +1,247 @@
+import { createZip } from './zip-archive'
+import { signedRingArea } from './field-geometry'
+
+// ESRI Shapefile writer for WGS84 polygon layers (.shp/.shx/.dbf/.prj/.cpg), zipped together,
+// and a reader for the polygon layers farmers upload
+
+export interface DBFField {
+  name: string // at most 10 characters
+  type: 'C' | 'N'
+  length: number
+  decimals?: number
+}
+
+export interface PolygonFeature {
+  coordinates: number[][][][] // GeoJSON MultiPolygon layout; [lng, lat] when writing
+  properties: Record<string, string | number | null>
+}
+
+const SHAPE_POLYGON = 5
+const POLYGON_SHAPES = [5, 15, 25] // plain, with Z, with M; x/y come first in all three
+
+export const WGS84_PRJ =
+  'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],' +
+  'PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]'
+
+/**
+ * Thrown when an uploaded shapefile cannot be read
+ */
+class ShapefileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ShapefileError'
+  }
+}
+
+// Shapefiles want outer rings clockwise and holes counter-clockwise
+function orientedRings(coordinates: number[][][][]): number[][][] {
+  return coordinates.flatMap((polygon) =>
+    polygon.map((ring, index) => {
+      const clockwise = signedRingArea(ring) < 0
+      return clockwise === (index === 0) ? ring : [...ring].reverse()
+    })
+  )
+}
+
+function boundingBox(points: number[][]): [number, number, number, number] {
+  const xs = points.map((point) => point[0])
+  const ys = points.map((point) => point[1])
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)]
+}
+
+function writeHeader(buffer: Buffer, lengthInWords: number, box: [number, number, number, number]) {
+  buffer.writeInt32BE(9994, 0)
+  buffer.writeInt32BE(lengthInWords, 24)
+  buffer.writeInt32LE(1000, 28)
+  buffer.writeInt32LE(SHAPE_POLYGON, 32)
+  box.forEach((value, index) => buffer.writeDoubleLE(value, 36 + index * 8))
+}
+
+function writeGeometry(features: PolygonFeature[]): { shp: Buffer; shx: Buffer } {
+  const records = features.map((feature) => {
+    const rings = orientedRings(feature.coordinates)
+    const points = rings.flat()
+    const content = Buffer.alloc(44 + rings.length * 4 + points.length * 16)
+
+    content.writeInt32LE(SHAPE_POLYGON, 0)
+    boundingBox(points).forEach((value, index) => content.writeDoubleLE(value, 4 + index * 8))
+    content.writeInt32LE(rings.length, 36)
+    content.writeInt32LE(points.length, 40)
+
+    let start = 0
+    rings.forEach((ring, index) => {
+      content.writeInt32LE(start, 44 + index * 4)
+      start += ring.length
+    })
+    const pointsAt = 44 + rings.length * 4
+    points.forEach((point, index) => {
+      content.writeDoubleLE(point[0], pointsAt + index * 16)
+      content.writeDoubleLE(point[1], pointsAt + index * 16 + 8)
+    })
+    return content
+  })
+
+  const allPoints = features.flatMap((feature) => feature.coordinates.flat(2))
+  const box = allPoints.length ? boundingBox(allPoints) : ([0, 0, 0, 0] as [number, number, number, number])
+
+  const shpLength = 100 + records.reduce((sum, content) => sum + 8 + content.length, 0)
+  const shp = Buffer.alloc(shpLength)
+  const shx = Buffer.alloc(100 + records.length * 8)
+  writeHeader(shp, shpLength / 2, box)
+  writeHeader(shx, shx.length / 2, box)
+
+  let offset = 100
+  records.forEach((content, index) => {
+    shp.writeInt32BE(index + 1, offset)
+    shp.writeInt32BE(content.length / 2, offset + 4)
+    content.copy(shp, offset + 8)
+
+    shx.writeInt32BE(offset / 2, 100 + index * 8)
+    shx.writeInt32BE(content.length / 2, 100 + index * 8 + 4)
+    offset += 8 + content.length
+  })
+
+  return { shp, shx }
+}
+
+function formatValue(field: DBFField, value: string | number | null | undefined): Buffer {
+  let text = ''
+  if (value !== null && value !== undefined) {
+    text = field.type === 'N' && typeof value === 'number' ? value.toFixed(field.decimals || 0) : String(value)
+  }
+
+  const bytes = Buffer.alloc(field.length, ' ')
+  const encoded = Buffer.from(text, 'utf8').subarray(0, field.length)
+  // Numbers are right-aligned, text left-aligned
+  encoded.copy(bytes, field.type === 'N' ? field.length - encoded.length : 0)
+  return bytes
+}
+
+function writeAttributes(features: PolygonFeature[], fields: DBFField[], updated: Date): Buffer {
+  const headerLength = 32 + fields.length * 32 + 1
+  const recordLength = 1 + fields.reduce((sum, field) => sum + field.length, 0)
+  const header = Buffer.alloc(headerLength)
+
+  header.writeUInt8(0x03, 0)
+  header.writeUInt8(updated.getFullYear() - 1900, 1)
+  header.writeUInt8(updated.getMonth() + 1, 2)
+  header.writeUInt8(updated.getDate(), 3)
+  header.writeUInt32LE(features.length, 4)
+  header.writeUInt16LE(headerLength, 8)
+  header.writeUInt16LE(recordLength, 10)
+
+  fields.forEach((field, index) => {
+    const at = 32 + index * 32
+    header.write(field.name.slice(0, 10), at, 'ascii')
+    header.write(field.type, at + 11, 'ascii')
+    header.writeUInt8(field.length, at + 16)
+    header.writeUInt8(field.decimals || 0, at + 17)
+  })
+  header.writeUInt8(0x0d, headerLength - 1)
+
+  const records = features.map((feature) =>
+    Buffer.concat([Buffer.from(' '), ...fields.map((field) => formatValue(field, feature.properties[field.name]))])
+  )
+
+  return Buffer.concat([header, ...records, Buffer.from([0x1a])])
+}
+
+/**
+ * Zipped shapefile of WGS84 polygons; attribute values are looked up by DBF field name
+ */
+export function createPolygonShapefile(baseName: string, features: PolygonFeature[], fields: DBFField[]): Buffer {
+  const updated = new Date()
+  const { shp, shx } = writeGeometry(features)
+
+  return createZip([
+    { name: `${baseName}.shp`, data: shp },
+    { name: `${baseName}.shx`, data: shx },
+    { name: `${baseName}.dbf`, data: writeAttributes(features, fields, updated) },
+    { name: `${baseName}.prj`, data: WGS84_PRJ },
+    { name: `${baseName}.cpg`, data: 'UTF-8' }
+  ], updated)
+}
+
+function readAttributes(dbf: Buffer): Array<Record<string, string | number | null>> {
+  const count = dbf.readUInt32LE(4)
+  const headerLength = dbf.readUInt16LE(8)
+  const recordLength = dbf.readUInt16LE(10)
+
+  const fields: DBFField[] = []
+  for (let at = 32; at + 32 <= headerLength && dbf[at] !== 0x0d; at += 32) {
+    fields.push({
+      name: dbf.toString('latin1', at, at + 11).replace(/\0.*$/, ''),
+      type: dbf.toString('latin1', at + 11, at + 12) as DBFField['type'],
+      length: dbf[at + 16],
+      decimals: dbf[at + 17]
+    })
+  }
+
+  const records: Array<Record<string, string | number | null>> = []
+  for (let i = 0; i < count; i++) {
+    let at = headerLength + i * recordLength + 1 // skip the deletion flag
+    const record: Record<string, string | number | null> = {}
+    for (const field of fields) {
+      const text = dbf.toString('utf8', at, at + field.length).trim()
+      at += field.length
+      // N and F are numeric; C, D, L and the rest are kept as text
+      record[field.name] = !text ? null : field.type === 'N' || (field.type as string) === 'F' ? parseFloat(text) : text
+    }
+    records.push(record)
+  }
+  return records
+}
+
+/**
+ * Polygons of an uploaded shapefile in the file's own coordinates, outer rings first with their holes.
+ * Attributes come from the .dbf when there is one.
+ */
+export function readPolygonShapefile(shp: Buffer, dbf?: Buffer): PolygonFeature[] {
+  if (shp.length < 100 || shp.readInt32BE(0) !== 9994) {
+    throw new ShapefileError('Not a shapefile')
+  }
+  if (!POLYGON_SHAPES.includes(shp.readInt32LE(32))) {
+    throw new ShapefileError('The shapefile does not contain polygons')
+  }
+
+  const attributes = dbf ? readAttributes(dbf) : []
+  const features: PolygonFeature[] = []
+  let offset = 100
+  let index = 0
+
+  while (offset + 8 <= shp.length) {
+    const contentLength = shp.readInt32BE(offset + 4) * 2
+    const content = offset + 8
+    const properties = attributes[index] || {}
+    offset = content + contentLength
+    index++
+
+    if (!POLYGON_SHAPES.includes(shp.readInt32LE(content))) continue // null shapes
+
+    const partCount = shp.readInt32LE(content + 36)
+    const pointCount = shp.readInt32LE(content + 40)
+    const pointsAt = content + 44 + partCount * 4
+    const starts = Array.from({ length: partCount }, (_, part) => shp.readInt32LE(content + 44 + part * 4))
+
+    const rings = starts.map((start, part) => {
+      const end = part + 1 < partCount ? starts[part + 1] : pointCount
+      const ring: number[][] = []
+      for (let point = start; point < end; point++) {
+        ring.push([shp.readDoubleLE(pointsAt + point * 16), shp.readDoubleLE(pointsAt + point * 16 + 8)])
+      }
+      return ring
+    })
+
+    // Clockwise rings are outer boundaries, each followed by its counter-clockwise holes
+    const polygons: number[][][][] = []
+    for (const ring of rings) {
+      if (signedRingArea(ring) <= 0 || polygons.length === 0) polygons.push([ring])
+      else polygons[polygons.length - 1].push(ring)
+    }
+    features.push({ coordinates: polygons, properties })
+  }
+
+  return features
+}
+
+export { ShapefileError }
@@ -0,0 +1,127 @@
+interface SMSProvider {
+  readonly name: string
+  sendSMS(phone: string, message: string): Promise<void>
+}
+
+/**
+ * Development provider - prints messages to the server console instead of sending them
+ */
+class ConsoleSMSProvider implements SMSProvider {
+  readonly name = 'console'
+
+  async sendSMS(phone: string, message: string): Promise<void> {
+    console.log(`[SMS:console] To ${phone}: ${message}`)
+  }
+}
+
+/**
+ * Twilio provider using the REST API directly
+ */
+class TwilioSMSProvider implements SMSProvider {
+  readonly name = 'twilio'
+
+  constructor(
+    private accountSid: string,
+    private authToken: string,
+    private fromNumber: string
+  ) {}
+
+  async sendSMS(phone: string, message: string): Promise<void> {
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({ To: phone, From: this.fromNumber, Body: message }).toString()
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`Twilio SMS failed: ${response.status} ${response.statusText} - ${errorText}`)
+    }
+  }
+}
+
+/**
+ * MSG91 provider (common for Indian numbers), using a DLT-approved flow template
+ * that takes the OTP as the `otp` variable
+ */
+class MSG91SMSProvider implements SMSProvider {
+  readonly name = 'msg91'
+
+  constructor(
+    private authKey: string,
+    private templateId: string
+  ) {}
+
+  async sendSMS(phone: string, message: string): Promise<void> {
+    const otp = message.match(/\d{4,8}/)?.[0]
+
+    const response = await fetch('https://control.msg91.com/api/v5/flow/', {
+      method: 'POST',
+      headers: {
+        authkey: this.authKey,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        template_id: this.templateId,
+        recipients: [{ mobiles: phone.replace(/^\+/, ''), otp }]
+      })
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`MSG91 SMS failed: ${response.status} ${response.statusText} - ${errorText}`)
+    }
+  }
+}
+
+// Singleton instance
+let smsProvider: SMSProvider | null = null
+
+/**
+ * Pick the provider named by SMS_PROVIDER ("console", "twilio" or "msg91").
+ * Defaults to the console provider outside production.
+ */
+export function getSMSProvider(): SMSProvider {
+  if (smsProvider) return smsProvider
+
+  const providerName = process.env.SMS_PROVIDER || (process.env.NODE_ENV === 'production' ? '' : 'console')
+
+  switch (providerName) {
+    case 'console':
+      smsProvider = new ConsoleSMSProvider()
+      break
+    case 'twilio': {
+      const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER } = process.env
+      if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_FROM_NUMBER) {
+        throw new Error('Twilio SMS provider requires TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER.')
+      }
+      smsProvider = new TwilioSMSProvider(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER)
+      break
+    }
+    case 'msg91': {
+      const { MSG91_AUTH_KEY, MSG91_TEMPLATE_ID } = process.env
+      if (!MSG91_AUTH_KEY || !MSG91_TEMPLATE_ID) {
+        throw new Error('MSG91 SMS provider requires MSG91_AUTH_KEY and MSG91_TEMPLATE_ID.')
+      }
+      smsProvider = new MSG91SMSProvider(MSG91_AUTH_KEY, MSG91_TEMPLATE_ID)
+      break
+    }
+    default:
+      throw new Error('SMS provider not configured. Please set SMS_PROVIDER in your environment variables.')
+  }
+
+  return smsProvider
+}
+
+/**
+ * Override the provider (e.g. for tests or custom gateways)
+ */
+export function setSMSProvider(provider: SMSProvider) {
+  smsProvider = provider
+}
+
+export { ConsoleSMSProvider, TwilioSMSProvider, MSG91SMSProvider }
+export type { SMSProvider }
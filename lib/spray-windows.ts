@@ -0,0 +1,435 @@
+import { prisma } from './prisma'
+import { getAgromonitoringAPI } from './agromonitoring-api'
+import { fieldLocation, getWeatherIngestionService } from './weather-ingestion'
+import { buildForecast, type ForecastHour } from './weather-forecast'
+
+// When to spray over the next three days: each forecast hour is checked for wind, rain before the
+// product is rainfast, heat, dew and delta-T (evaporation and inversion risk), and the usable hours
+// are grouped into windows.
+
+const PLAN_HOURS = 72
+const MIN_WINDOW_HOURS = 2 // shorter gaps are not worth filling the tank for
+const BEST_WINDOWS = 3
+const MAX_RAINFAST_HOURS = 24
+
+// Wind, km/h at 10 m. Below the minimum the air is too still and fine droplets hang or drift on an inversion
+const WIND_MIN = 3
+const WIND_GOOD_MAX = 15
+const WIND_MAX = 20
+const GUST_MAX = 30
+// Inversions form on calm, clear nights
+const INVERSION_WIND_MAX = 7
+const INVERSION_CLOUD_MAX = 40
+
+// Delta-T (dry bulb minus wet bulb, °C): 2-8 is ideal, above 10 droplets evaporate before they land
+const DELTA_T_MIN = 2
+const DELTA_T_GOOD_MAX = 8
+const DELTA_T_MAX = 10
+
+const TEMP_GOOD_MAX = 30
+const TEMP_MAX = 35
+const TEMP_MIN = 5 // most products work poorly in the cold
+const DEW_HUMIDITY = 95 // leaves likely wet, spray runs off
+
+const RAIN_MM = 0.1 // measurable rain in an hour
+const RAIN_WASH_MM = 0.5 // rain over the rainfast period that washes off an unset spray
+const RAIN_LIKELY = 60 // %
+const RAIN_POSSIBLE = 30 // %
+
+// Hours after spraying before rain no longer washes the product off, for typical formulations
+export const SPRAY_PRODUCTS = {
+  general: { label: 'General pesticide', rainfastHours: 4 },
+  contact_herbicide: { label: 'Contact herbicide (e.g. paraquat)', rainfastHours: 1 },
+  systemic_herbicide: { label: 'Systemic herbicide (e.g. glyphosate, 2,4-D)', rainfastHours: 6 },
+  protectant_fungicide: { label: 'Protectant fungicide (e.g. mancozeb)', rainfastHours: 4 },
+  systemic_fungicide: { label: 'Systemic fungicide (e.g. propiconazole)', rainfastHours: 2 },
+  insecticide: { label: 'Insecticide', rainfastHours: 2 },
+  foliar_fertiliser: { label: 'Foliar fertiliser', rainfastHours: 6 }
+} as const
+
+type SprayProduct = keyof typeof SPRAY_PRODUCTS
+type SprayRating = 'good' | 'marginal' | 'unsuitable'
+
+interface SprayHour {
+  time: string // ISO timestamp of the start of the hour
+  localDate: string
+  localHour: number
+  rating: SprayRating
+  reasons: string[] // why the hour is marginal or unsuitable
+  temperature: number
+  humidity: number
+  windSpeed: number // km/h
+  windGust: number | null
+  deltaT: number // °C
+  rainProbability: number // %
+}
+
+interface SprayWindow {
+  start: string // ISO timestamps
+  end: string
+  localDate: string // of the start
+  startHour: number // local hour the window opens
+  endHour: number // local hour it closes, 1-24
+  hours: number
+  rating: Exclude<SprayRating, 'unsuitable'>
+  maxWindSpeed: number
+  deltaTRange: [number, number]
+  maxTemperature: number
+  reasons: string[] // for marginal windows, what to watch out for
+}
+
+interface SprayPlan {
+  product: SprayProduct
+  productLabel: string
+  rainfastHours: number
+  timezone: string
+  hours: SprayHour[] // next 72 hours
+  windows: SprayWindow[] // every run of good or marginal hours, oldest first
+  best: SprayWindow[] // the longest good windows (marginal ones when there are none), oldest first
+}
+
+interface FieldSprayPlan extends SprayPlan {
+  fieldId: string
+  fieldName: string
+}
+
+interface SkippedSprayField {
+  fieldId: string
+  fieldName: string
+  reason: string
+}
+
+interface SprayPlanOptions {
+  product?: string
+  rainfastHours?: number // overrides the product's
+}
+
+/**
+ * Thrown for an unknown product or rainfast period; status is the HTTP status to return
+ */
+class SprayWindowError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400
+  ) {
+    super(message)
+    this.name = 'SprayWindowError'
+  }
+}
+
+export function isSprayProduct(value: string): value is SprayProduct {
+  return Object.prototype.hasOwnProperty.call(SPRAY_PRODUCTS, value)
+}
+
+/**
+ * Wet-bulb temperature from air temperature and relative humidity (Stull 2011, good to about
+ * 0.3°C for ordinary field conditions)
+ */
+export function wetBulbTemperature(temperature: number, humidity: number): number {
+  return temperature * Math.atan(0.151977 * Math.sqrt(humidity + 8.313659)) +
+    Math.atan(temperature + humidity) -
+    Math.atan(humidity - 1.676331) +
+    0.00391838 * Math.pow(humidity, 1.5) * Math.atan(0.023101 * humidity) -
+    4.686035
+}
+
+export function deltaT(temperature: number, humidity: number): number {
+  return Math.round(Math.max(0, temperature - wetBulbTemperature(temperature, humidity)) * 10) / 10
+}
+
+function worse(a: SprayRating, b: SprayRating): SprayRating {
+  const order: SprayRating[] = ['good', 'marginal', 'unsuitable']
+  return order[Math.max(order.indexOf(a), order.indexOf(b))]
+}
+
+function hourLabel(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`
+}
+
+/**
+ * Rate one hour; hourly is the whole series so rain in the following hours can be checked
+ */
+function rateHour(hourly: ForecastHour[], index: number, rainfastHours: number): SprayHour {
+  const hour = hourly[index]
+  const hourDeltaT = deltaT(hour.temperature, hour.humidity)
+  let rating: SprayRating = 'good'
+  const reasons: string[] = []
+  const flag = (level: SprayRating, reason: string) => {
+    rating = worse(rating, level)
+    reasons.push(reason)
+  }
+
+  // Rain now, or before the spray has dried on
+  const rainfast = hourly.slice(index, index + rainfastHours)
+  const rainfall = rainfast.reduce((sum, next) => sum + next.precipitation, 0)
+  const chance = Math.max(...rainfast.map((next) => next.rainProbability))
+  if (hour.precipitation >= RAIN_MM) {
+    flag('unsuitable', 'Rain')
+  } else if (rainfall >= RAIN_WASH_MM || chance >= RAIN_LIKELY) {
+    flag('unsuitable', `Rain within ${rainfastHours} h would wash it off`)
+  } else if (chance >= RAIN_POSSIBLE) {
+    flag('marginal', `${chance}% chance of rain within ${rainfastHours} h`)
+  }
+
+  // Wind and drift
+  const night = hour.localHour < 6 || hour.localHour >= 19
+  if (hour.windSpeed > WIND_MAX) {
+    flag('unsuitable', `Too windy (${hour.windSpeed} km/h)`)
+  } else if (hour.windSpeed > WIND_GOOD_MAX) {
+    flag('marginal', `Breezy (${hour.windSpeed} km/h), use coarse droplets`)
+  }
+  if (hour.windGust !== null && hour.windGust > GUST_MAX) {
+    flag('marginal', `Gusts up to ${hour.windGust} km/h`)
+  }
+  if (night && hour.windSpeed < INVERSION_WIND_MAX && hour.cloudCover < INVERSION_CLOUD_MAX) {
+    flag('unsuitable', 'Inversion risk on a calm, clear night')
+  } else if (hour.windSpeed < WIND_MIN) {
+    flag('marginal', 'Air too still, spray can hang and drift')
+  }
+
+  // Evaporation and droplet behaviour
+  if (hourDeltaT > DELTA_T_MAX) {
+    flag('unsuitable', `Delta-T ${hourDeltaT}°C, droplets evaporate`)
+  } else if (hourDeltaT > DELTA_T_GOOD_MAX) {
+    flag('marginal', `Delta-T ${hourDeltaT}°C, use coarser droplets`)
+  } else if (hourDeltaT < DELTA_T_MIN) {
+    flag(hour.windSpeed < INVERSION_WIND_MAX ? 'unsuitable' : 'marginal', `Delta-T ${hourDeltaT}°C, fine droplets stay airborne`)
+  }
+
+  if (hour.temperature > TEMP_MAX) {
+    flag('unsuitable', `Too hot (${hour.temperature}°C)`)
+  } else if (hour.temperature > TEMP_GOOD_MAX) {
+    flag('marginal', `Hot (${hour.temperature}°C), product may volatilise`)
+  } else if (hour.temperature < TEMP_MIN) {
+    flag('marginal', `Cold (${hour.temperature}°C), product works slowly`)
+  }
+
+  if (hour.humidity >= DEW_HUMIDITY) {
+    flag('marginal', 'Leaves likely wet with dew')
+  }
+  if (night) {
+    flag('marginal', 'After dark, hard to see coverage and drift')
+  }
+
+  return {
+    time: hour.time,
+    localDate: hour.localDate,
+    localHour: hour.localHour,
+    rating,
+    reasons,
+    temperature: hour.temperature,
+    humidity: hour.humidity,
+    windSpeed: hour.windSpeed,
+    windGust: hour.windGust,
+    deltaT: hourDeltaT,
+    rainProbability: hour.rainProbability
+  }
+}
+
+/**
+ * A reason without its numbers, so "Too windy (25 km/h)" and "Too windy (31 km/h)" count as one
+ */
+function reasonKey(reason: string): string {
+  return reason
+    .replace(/\s*\([^)]*\)/g, '')
+    .replace(/^Delta-T [\d.]+°C, /, 'Delta-T: ')
+    .replace(/^\d+% chance/, 'Chance')
+}
+
+function toWindow(run: SprayHour[], rating: SprayWindow['rating']): SprayWindow {
+  const last = run[run.length - 1]
+  const deltaTs = run.map((hour) => hour.deltaT)
+  return {
+    start: run[0].time,
+    end: new Date(new Date(last.time).getTime() + 60 * 60 * 1000).toISOString(),
+    localDate: run[0].localDate,
+    startHour: run[0].localHour,
+    endHour: last.localHour + 1,
+    hours: run.length,
+    rating,
+    maxWindSpeed: Math.max(...run.map((hour) => hour.windSpeed)),
+    deltaTRange: [Math.min(...deltaTs), Math.max(...deltaTs)],
+    maxTemperature: Math.max(...run.map((hour) => hour.temperature)),
+    reasons: Array.from(new Set(run.flatMap((hour) => hour.reasons.map(reasonKey))))
+  }
+}
+
+/**
+ * Runs of consecutive hours with the same usable rating, at least MIN_WINDOW_HOURS long
+ */
+function findWindows(hours: SprayHour[]): SprayWindow[] {
+  const windows: SprayWindow[] = []
+  let run: SprayHour[] = []
+  const close = () => {
+    if (run.length >= MIN_WINDOW_HOURS && run[0].rating !== 'unsuitable') {
+      windows.push(toWindow(run, run[0].rating as SprayWindow['rating']))
+    }
+    run = []
+  }
+
+  for (const hour of hours) {
+    if (run.length > 0 && hour.rating !== run[0].rating) close()
+    run.push(hour)
+  }
+  close()
+  return windows
+}
+
+/**
+ * Rate the next 72 hours of the hourly forecast for spraying and pick the best windows
+ */
+export function planSprayWindows(
+  hourly: ForecastHour[],
+  options: { product?: SprayProduct; rainfastHours?: number; timezone: string; now?: Date }
+): SprayPlan {
+  const product = options.product || 'general'
+  const rainfastHours = options.rainfastHours ?? SPRAY_PRODUCTS[product].rainfastHours
+  const now = (options.now || new Date()).getTime()
+
+  // Hours still to come; the rainfast check looks past the 72 hours where the forecast allows
+  const upcoming = hourly.filter((hour) => new Date(hour.time).getTime() + 60 * 60 * 1000 > now)
+  const hours = upcoming.slice(0, PLAN_HOURS).map((_, index) => rateHour(upcoming, index, rainfastHours))
+  const windows = findWindows(hours)
+
+  const good = windows.filter((window) => window.rating === 'good')
+  const best = (good.length > 0 ? good : windows)
+    .slice()
+    .sort((a, b) => b.hours - a.hours || a.start.localeCompare(b.start))
+    .slice(0, BEST_WINDOWS)
+    .sort((a, b) => a.start.localeCompare(b.start))
+
+  return {
+    product,
+    productLabel: SPRAY_PRODUCTS[product].label,
+    rainfastHours,
+    timezone: options.timezone,
+    hours,
+    windows,
+    best
+  }
+}
+
+/**
+ * A window as "Mon 21 Oct, 07:00-11:00"
+ */
+export function describeSprayWindow(window: SprayWindow): string {
+  const day = new Date(`${window.localDate}T00:00:00Z`).toLocaleDateString('en-IN', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC'
+  })
+  return `${day}, ${hourLabel(window.startHour)}-${hourLabel(window.endHour)}`
+}
+
+/**
+ * The most common reasons hours were unsuitable, for explaining why there is no window
+ */
+export function sprayBlockers(plan: SprayPlan, limit: number = 3): string[] {
+  const counts = new Map<string, number>()
+  for (const hour of plan.hours) {
+    if (hour.rating !== 'unsuitable') continue
+    for (const reason of hour.reasons) {
+      const key = reasonKey(reason)
+      counts.set(key, (counts.get(key) || 0) + 1)
+    }
+  }
+  return Array.from(counts.entries())
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, limit)
+    .map(([reason]) => reason)
+}
+
+function resolveOptions(options: SprayPlanOptions): { product: SprayProduct; rainfastHours?: number } {
+  const product = options.product || 'general'
+  if (!isSprayProduct(product)) {
+    throw new SprayWindowError(`Unknown product type. Use one of: ${Object.keys(SPRAY_PRODUCTS).join(', ')}`)
+  }
+  const { rainfastHours } = options
+  if (rainfastHours !== undefined && (!Number.isInteger(rainfastHours) || rainfastHours < 1 || rainfastHours > MAX_RAINFAST_HOURS)) {
+    throw new SprayWindowError(`Rainfast period must be 1 to ${MAX_RAINFAST_HOURS} hours`)
+  }
+  return { product, rainfastHours }
+}
+
+class SprayWindowService {
+  /**
+   * Spray windows for each of the user's fields, or for one field
+   */
+  async getPlansForUser(
+    userId: string,
+    fieldId?: string,
+    options: SprayPlanOptions = {}
+  ): Promise<{ plans: FieldSprayPlan[]; skipped: SkippedSprayField[] }> {
+    const resolved = resolveOptions(options)
+    const [fields, subscription] = await Promise.all([
+      prisma.field.findMany({
+        where: { farm: { userId }, ...(fieldId && { id: fieldId }) },
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.telegramSubscription.findUnique({ where: { userId }, select: { timezone: true } })
+    ])
+
+    const plans: FieldSprayPlan[] = []
+    const skipped: SkippedSprayField[] = []
+
+    for (const field of fields) {
+      const skip = (reason: string) => skipped.push({ fieldId: field.id, fieldName: field.name, reason })
+      if (!fieldLocation(field)) {
+        skip('Field boundary is missing')
+        continue
+      }
+
+      try {
+        const items = await getWeatherIngestionService().getForecastItems(field)
+        const forecast = buildForecast(items, subscription?.timezone)
+        if (forecast.hourly.length === 0) {
+          skip('No forecast available')
+          continue
+        }
+        plans.push({
+          fieldId: field.id,
+          fieldName: field.name,
+          ...planSprayWindows(forecast.hourly, { ...resolved, timezone: forecast.timezone })
+        })
+      } catch (error) {
+        console.warn(`[Spray Windows] Could not plan field ${field.id}:`, error)
+        skip(error instanceof Error ? error.message : 'Forecast unavailable')
+      }
+    }
+
+    console.log(`[Spray Windows] Planned ${plans.length} field(s), skipped ${skipped.length} for user ${userId}`)
+    return { plans, skipped }
+  }
+
+  /**
+   * Spray windows for a location without a field, e.g. a Telegram chat's shared location
+   */
+  async getPlanForLocation(lat: number, lng: number, timezone?: string | null, options: SprayPlanOptions = {}): Promise<SprayPlan> {
+    const resolved = resolveOptions(options)
+    const forecast = buildForecast(await getAgromonitoringAPI().getWeatherForecast(lat, lng), timezone)
+    return planSprayWindows(forecast.hourly, { ...resolved, timezone: forecast.timezone })
+  }
+}
+
+// Singleton instance
+let sprayWindowService: SprayWindowService | null = null
+
+export function getSprayWindowService(): SprayWindowService {
+  if (!sprayWindowService) {
+    sprayWindowService = new SprayWindowService()
+  }
+  return sprayWindowService
+}
+
+export { SprayWindowError }
+export type {
+  SprayProduct,
+  SprayRating,
+  SprayHour,
+  SprayWindow,
+  SprayPlan,
+  FieldSprayPlan,
+  SkippedSprayField,
+  SprayPlanOptions
+}
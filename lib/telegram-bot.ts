@@ -0,0 +1,512 @@
+import type { TelegramSubscription } from '@prisma/client'
+import { prisma } from './prisma'
+import { getAgromonitoringAPI } from './agromonitoring-api'
+import { getFarmerDataAggregator } from './farmer-data-aggregator'
+import { getGeminiAI } from './gemini-ai'
+import { getCropHealthService } from './crop-health'
+import { mandiPriceService } from './mandi-api'
+import { geocodingService } from './geocoding-api'
+import { formatWeatherUpdateMessage, parseCoordinates, sendTelegramMessage } from './telegram'
+import { buildForecast } from './weather-forecast'
+import {
+  SPRAY_PRODUCTS,
+  describeSprayWindow,
+  getSprayWindowService,
+  sprayBlockers,
+  type SprayPlan,
+  type SprayProduct
+} from './spray-windows'
+
+// Subset of the Telegram Bot API Update object that the bot reacts to
+interface TelegramMessage {
+  message_id: number
+  chat: { id: number; type: string }
+  from?: { id: number; first_name?: string; username?: string }
+  text?: string
+  location?: { latitude: number; longitude: number }
+}
+
+interface TelegramUpdate {
+  update_id: number
+  message?: TelegramMessage
+  edited_message?: TelegramMessage
+}
+
+const HELP_TEXT = `🌱 *FarmSat Bot*
+
+/subscribe - Daily weather updates
+/unsubscribe - Stop daily updates
+/weather - Weather for your farm
+/ndvi - Crop health from satellite
+/alerts - Open crop-health and weather alerts on your fields
+/spray [product] - Best times to spray in the next 3 days, e.g. /spray herbicide
+/mandi <crop> - Market prices, e.g. /mandi wheat
+/ask <question> - Ask the farming assistant
+/link <code> - Connect this chat to your FarmSat account
+
+📍 Share your location to get weather for where you are.`
+
+const LINK_MAX_FAILURES = 5 // wrong /link codes before the chat is locked out
+const LINK_LOCKOUT_MS = 60 * 60 * 1000 // 1 hour
+
+const NOT_LINKED_TEXT = '🔗 This chat is not linked to a FarmSat account yet. Open Telegram Updates in your FarmSat dashboard, tap "Get link code" and send /link <code> here.'
+
+class TelegramBotService {
+  /**
+   * Handle one webhook update. Replies are sent directly; errors are reported back to the chat.
+   */
+  async handleUpdate(update: TelegramUpdate): Promise<void> {
+    const message = update.message || update.edited_message
+    if (!message) return
+
+    const chatId = String(message.chat.id)
+
+    try {
+      if (message.location) {
+        await this.handleLocation(chatId, message.location.latitude, message.location.longitude)
+        return
+      }
+
+      const text = message.text?.trim()
+      if (!text || !text.startsWith('/')) {
+        await sendTelegramMessage(chatId, HELP_TEXT)
+        return
+      }
+
+      // "/mandi@farmsat_bot wheat" -> command "mandi", args "wheat"
+      const [rawCommand, ...rest] = text.split(/\s+/)
+      const command = rawCommand.slice(1).split('@')[0].toLowerCase()
+      const args = rest.join(' ').trim()
+
+      console.log('[Telegram Bot] Command received:', command, 'from chat:', chatId)
+
+      switch (command) {
+        case 'start':
+        case 'help':
+          await sendTelegramMessage(chatId, HELP_TEXT)
+          break
+        case 'subscribe':
+          await this.handleSubscribe(chatId)
+          break
+        case 'unsubscribe':
+          await this.handleUnsubscribe(chatId)
+          break
+        case 'weather':
+          await this.handleWeather(chatId)
+          break
+        case 'ndvi':
+          await this.handleNDVI(chatId)
+          break
+        case 'alerts':
+          await this.handleAlerts(chatId)
+          break
+        case 'spray':
+          await this.handleSpray(chatId, args)
+          break
+        case 'mandi':
+          await this.handleMandi(chatId, args)
+          break
+        case 'ask':
+          await this.handleAsk(chatId, args)
+          break
+        case 'link':
+          await this.handleLink(chatId, args)
+          break
+        default:
+          await sendTelegramMessage(chatId, `Unknown command /${command}.\n\n${HELP_TEXT}`)
+      }
+    } catch (error) {
+      console.error('[Telegram Bot] Error handling update:', error)
+      await sendTelegramMessage(chatId, '⚠️ Sorry, something went wrong. Please try again later.')
+        .catch((sendError) => console.error('[Telegram Bot] Could not send error reply:', sendError))
+    }
+  }
+
+  /**
+   * Build the weather message for a subscription: full farm digest when linked to an
+   * onboarded account, otherwise weather for the chat's shared location
+   */
+  async buildWeatherMessage(subscription: TelegramSubscription): Promise<string | null> {
+    if (subscription.userId) {
+      try {
+        const farmerData = await getFarmerDataAggregator().getFarmerData(subscription.userId, {
+          includeHistoricalData: true,
+          maxHistoryDays: 1, // Just need current data
+          requireAllData: false
+        })
+        return formatWeatherUpdateMessage(farmerData)
+      } catch (error) {
+        console.warn('[Telegram Bot] Farm data unavailable, falling back to chat location:', error)
+      }
+    }
+
+    if (subscription.latitude === null || subscription.longitude === null) {
+      return null
+    }
+
+    const agroAPI = getAgromonitoringAPI()
+    const [rawWeather, rawForecast] = await Promise.all([
+      agroAPI.getCurrentWeather(subscription.latitude, subscription.longitude),
+      agroAPI.getWeatherForecast(subscription.latitude, subscription.longitude).catch(() => [])
+    ])
+
+    const forecast = buildForecast(rawForecast, subscription.timezone)
+    return formatWeatherUpdateMessage({
+      currentWeather: agroAPI.processWeatherData(rawWeather).current,
+      forecast: forecast.days,
+      hourlyForecast: forecast.hourly
+    })
+  }
+
+  private async handleSubscribe(chatId: string) {
+    const subscription = await prisma.telegramSubscription.upsert({
+      where: { chatId },
+      update: { isActive: true, failureCount: 0 },
+      create: { chatId, isActive: true }
+    })
+
+    let reply = `✅ Subscribed! You'll receive daily weather updates at ${subscription.preferredTime}.`
+    if (!subscription.userId && subscription.latitude === null) {
+      reply += '\n\n📍 Share your location or link your FarmSat account with /link <code> so we know which weather to send.'
+    }
+    await sendTelegramMessage(chatId, reply)
+  }
+
+  private async handleUnsubscribe(chatId: string) {
+    const { count } = await prisma.telegramSubscription.updateMany({
+      where: { chatId, isActive: true },
+      data: { isActive: false }
+    })
+
+    await sendTelegramMessage(
+      chatId,
+      count > 0
+        ? '❌ You have unsubscribed from FarmSat weather updates. Send /subscribe to start receiving updates again.'
+        : 'You are not subscribed to daily updates. Send /subscribe to start.'
+    )
+  }
+
+  private async handleWeather(chatId: string) {
+    const subscription = await prisma.telegramSubscription.findUnique({ where: { chatId } })
+    const message = subscription ? await this.buildWeatherMessage(subscription) : null
+
+    await sendTelegramMessage(
+      chatId,
+      message || `📍 Share your location or link your FarmSat account to get weather for your farm.\n\n${NOT_LINKED_TEXT}`
+    )
+  }
+
+  private async handleNDVI(chatId: string) {
+    const userId = await this.getLinkedUserId(chatId)
+    if (!userId) {
+      await sendTelegramMessage(chatId, NOT_LINKED_TEXT)
+      return
+    }
+
+    const farmerData = await getFarmerDataAggregator().getFarmerData(userId, {
+      includeHistoricalData: true,
+      maxHistoryDays: 30,
+      requireAllData: false
+    })
+
+    if (!farmerData.ndviData || farmerData.ndviData.length === 0) {
+      await sendTelegramMessage(chatId, '🛰️ No satellite readings are available for your field yet. Make sure your field boundary is mapped in the FarmSat dashboard.')
+      return
+    }
+
+    // History is oldest first; show the latest readings newest first
+    const recent = farmerData.ndviData.slice(-5).reverse()
+
+    const fields = farmerData.fields || []
+    let message = `🛰️ *Crop Health (NDVI)*${fields.length > 1 ? ` - ${farmerData.scope?.label}, area-weighted` : ''}\n\n`
+    recent.forEach((reading) => {
+      message += `• ${reading.date}: ${reading.ndviMean.toFixed(3)} - ${reading.ndviStatus}\n`
+    })
+    message += `\n${recent[0].description}`
+
+    if (fields.length > 1) {
+      message += `\n\n*By field:*\n`
+      fields.forEach((field) => {
+        message += `• ${field.name} (${field.farmName}): ${field.latestNdvi !== undefined ? `${field.latestNdvi.toFixed(3)} - ${field.ndviStatus}` : 'no reading'}\n`
+      })
+    }
+
+    await sendTelegramMessage(chatId, message)
+  }
+
+  private async handleAlerts(chatId: string) {
+    const userId = await this.getLinkedUserId(chatId)
+    if (!userId) {
+      await sendTelegramMessage(chatId, NOT_LINKED_TEXT)
+      return
+    }
+
+    const alerts = await getCropHealthService().getAlertsForUser(userId)
+    if (alerts.length === 0) {
+      await sendTelegramMessage(chatId, '✅ No open alerts. The latest satellite scenes look normal for your fields and no weather or disease risks are forecast.')
+      return
+    }
+
+    let message = `🚨 *Field Alerts* (${alerts.length})\n\n`
+    alerts.slice(0, 10).forEach((alert) => {
+      const icon = alert.category === 'weather' ? '🌦️' : alert.category === 'disease' ? '🦠' : '🛰️'
+      // Weather and disease alerts are dated by when the event or risk starts, crop health alerts by their satellite scene
+      const date = (alert.category !== 'crop_health' && alert.startsAt ? alert.startsAt : alert.observedAt).toISOString().split('T')[0]
+      message += `${alert.severity === 'critical' ? '🔴' : '🟠'}${icon} *${alert.title}* - ${alert.field.name} (${date})\n${alert.message}\n\n`
+    })
+    message += 'Acknowledge or dismiss alerts in the FarmSat dashboard.'
+
+    await sendTelegramMessage(chatId, message)
+  }
+
+  private async handleSpray(chatId: string, productName: string) {
+    // "/spray glyphosate" or "/spray systemic_herbicide"; the first product whose key or label matches
+    const wanted = productName.toLowerCase()
+    const product = wanted
+      ? (Object.keys(SPRAY_PRODUCTS) as SprayProduct[]).find((key) =>
+          key === wanted.replace(/\s+/g, '_') || SPRAY_PRODUCTS[key].label.toLowerCase().includes(wanted))
+      : 'general'
+    if (!product) {
+      const names = Object.entries(SPRAY_PRODUCTS).map(([key, { label }]) => `• ${key} - ${label}`).join('\n')
+      await sendTelegramMessage(chatId, `I don't know that product. Try one of:\n${names}`, null)
+      return
+    }
+
+    const subscription = await prisma.telegramSubscription.findUnique({ where: { chatId } })
+    const sprayService = getSprayWindowService()
+    const sections: Array<{ name: string | null; plan: SprayPlan }> = []
+
+    if (subscription?.userId) {
+      const { plans } = await sprayService.getPlansForUser(subscription.userId, undefined, { product })
+      plans.slice(0, 5).forEach((plan) => sections.push({ name: plan.fieldName, plan }))
+    }
+    if (sections.length === 0 && subscription?.latitude != null && subscription.longitude != null) {
+      const plan = await sprayService.getPlanForLocation(subscription.latitude, subscription.longitude, subscription.timezone, { product })
+      sections.push({ name: subscription.location, plan })
+    }
+    if (sections.length === 0) {
+      await sendTelegramMessage(chatId, `📍 Share your location or link your FarmSat account to get spray windows for your farm.\n\n${NOT_LINKED_TEXT}`)
+      return
+    }
+
+    const { productLabel, rainfastHours } = sections[0].plan
+    let message = `🧴 *Spray windows* - ${productLabel}, rain-free for ${rainfastHours} h after spraying\n`
+    for (const { name, plan } of sections) {
+      message += `\n${name ? `*${name}*\n` : ''}`
+      if (plan.best.length === 0) {
+        const blockers = sprayBlockers(plan)
+        message += `❌ No window in the next 3 days${blockers.length > 0 ? `: ${blockers.join(', ').toLowerCase()}` : ''}\n`
+        continue
+      }
+      plan.best.forEach((window) => {
+        message += `${window.rating === 'good' ? '✅' : '🟡'} ${describeSprayWindow(window)} (${window.hours} h, wind up to ${window.maxWindSpeed} km/h)\n`
+        if (window.rating === 'marginal') {
+          message += `   _${window.reasons.join(', ')}_\n`
+        }
+      })
+    }
+    message += `\nTimes are local. See the hour-by-hour timeline in the FarmSat dashboard.`
+
+    await sendTelegramMessage(chatId, message)
+  }
+
+  private async handleMandi(chatId: string, crop: string) {
+    const subscription = await prisma.telegramSubscription.findUnique({
+      where: { chatId },
+      include: { user: { include: { farmerProfile: true } } }
+    })
+
+    const commodity = crop || subscription?.user?.farmerProfile?.cropName
+    if (!commodity) {
+      await sendTelegramMessage(chatId, 'Please tell me the crop, e.g. /mandi wheat')
+      return
+    }
+
+    // Narrow prices to the farmer's state/district when we know where they are
+    let state: string | undefined
+    let district: string | undefined
+    const coordinates = subscription?.latitude != null && subscription.longitude != null
+      ? { lat: subscription.latitude, lng: subscription.longitude }
+      : parseCoordinates(subscription?.user?.location || null)
+    if (coordinates) {
+      try {
+        const locationInfo = await geocodingService.reverseGeocode(coordinates.lat, coordinates.lng)
+        state = locationInfo?.state
+        district = locationInfo?.district
+      } catch (error) {
+        console.warn('[Telegram Bot] Reverse geocoding failed, showing all-India prices:', error)
+      }
+    }
+
+    let records = await mandiPriceService.getCommodityPricesByLocation(commodity, state, district)
+    if (records.length === 0 && district) {
+      records = await mandiPriceService.getCommodityPricesByLocation(commodity, state)
+    }
+
+    if (records.length === 0) {
+      await sendTelegramMessage(chatId, `No recent mandi prices found for ${commodity}.`)
+      return
+    }
+
+    let message = `💰 *Mandi prices: ${records[0].commodity}*${state ? ` (${state})` : ''}\n\n`
+    records.slice(0, 5).forEach((record) => {
+      message += `• ${record.market}, ${record.district}: ${mandiPriceService.formatPrice(record.modal_price)}/quintal `
+      message += `(${mandiPriceService.formatPrice(record.min_price)} - ${mandiPriceService.formatPrice(record.max_price)}) on ${record.arrival_date}\n`
+    })
+
+    await sendTelegramMessage(chatId, message)
+  }
+
+  private async handleAsk(chatId: string, question: string) {
+    if (!question) {
+      await sendTelegramMessage(chatId, 'Please add your question, e.g. /ask When should I irrigate my wheat?')
+      return
+    }
+
+    const userId = await this.getLinkedUserId(chatId)
+    if (!userId) {
+      await sendTelegramMessage(chatId, NOT_LINKED_TEXT)
+      return
+    }
+
+    const farmerData = await getFarmerDataAggregator().getFarmerData(userId, {
+      includeHistoricalData: true,
+      maxHistoryDays: 30,
+      requireAllData: false
+    })
+
+    const insight = await getGeminiAI().generateInsight(farmerData, question)
+
+    let message = insight.answer
+    if (insight.urgentAlerts && insight.urgentAlerts.length > 0) {
+      message += `\n\n⚠️ ${insight.urgentAlerts.join('\n⚠️ ')}`
+    }
+    if (insight.recommendations.length > 0) {
+      message += `\n\n✅ ${insight.recommendations.join('\n✅ ')}`
+    }
+
+    // AI answers are free text, so send them without Markdown parsing
+    await sendTelegramMessage(chatId, message, null)
+  }
+
+  private async handleLink(chatId: string, code: string) {
+    if (!code) {
+      await sendTelegramMessage(chatId, 'Please send the code from your FarmSat dashboard, e.g. /link K7QX2MPA')
+      return
+    }
+
+    const now = new Date()
+    const existing = await prisma.telegramSubscription.findUnique({ where: { chatId } })
+    if (existing?.linkLockedUntil && existing.linkLockedUntil > now) {
+      await sendTelegramMessage(chatId, '⛔ Too many wrong codes. Please wait an hour and try again with a new code from your FarmSat dashboard.')
+      return
+    }
+
+    const linkCode = await prisma.telegramLinkCode.findUnique({
+      where: { code: code.replace(/\s+/g, '').toUpperCase() },
+      include: { user: true }
+    })
+
+    // The code is consumed only if it is still live, so two chats can't both link with it
+    const subscription = linkCode
+      ? await prisma.$transaction(async (tx) => {
+          const consumed = await tx.telegramLinkCode.updateMany({
+            where: { id: linkCode.id, consumedAt: null, expiresAt: { gt: now } },
+            data: { consumedAt: now }
+          })
+          if (consumed.count === 0) return null
+
+          // A user has one linked chat; linking a new chat replaces the old one
+          const userId = linkCode.userId
+          const coordinates = parseCoordinates(linkCode.user.location)
+          await tx.telegramSubscription.deleteMany({
+            where: { userId, chatId: { not: chatId } }
+          })
+          return tx.telegramSubscription.upsert({
+            where: { chatId },
+            update: { userId, linkFailures: 0, linkLockedUntil: null },
+            create: {
+              chatId,
+              userId,
+              location: linkCode.user.location,
+              latitude: coordinates?.lat ?? null,
+              longitude: coordinates?.lng ?? null
+            }
+          })
+        })
+      : null
+
+    if (!linkCode || !subscription) {
+      await this.recordLinkFailure(chatId)
+      await sendTelegramMessage(chatId, '❌ That code is invalid or has expired. Generate a new one in your FarmSat dashboard.')
+      return
+    }
+
+    console.log('[Telegram Bot] Chat linked to user:', linkCode.userId)
+
+    await sendTelegramMessage(
+      chatId,
+      `✅ Linked to your FarmSat account${linkCode.user.name ? `, ${linkCode.user.name}` : ''}!\n\n` +
+      (subscription.isActive
+        ? `You'll receive daily weather updates at ${subscription.preferredTime}. Use /unsubscribe to stop.`
+        : 'Send /subscribe to receive daily weather updates.')
+    )
+  }
+
+  // Count a wrong /link code against the chat and lock it out after LINK_MAX_FAILURES in a row
+  private async recordLinkFailure(chatId: string) {
+    const subscription = await prisma.telegramSubscription.upsert({
+      where: { chatId },
+      update: { linkFailures: { increment: 1 } },
+      create: { chatId, isActive: false, linkFailures: 1 }
+    })
+
+    if (subscription.linkFailures >= LINK_MAX_FAILURES) {
+      await prisma.telegramSubscription.update({
+        where: { id: subscription.id },
+        data: { linkFailures: 0, linkLockedUntil: new Date(Date.now() + LINK_LOCKOUT_MS) }
+      })
+      console.warn('[Telegram Bot] Locked /link for chat after repeated wrong codes:', chatId)
+    }
+  }
+
+  private async handleLocation(chatId: string, latitude: number, longitude: number) {
+    let locationName = `${latitude.toFixed(4)}, ${longitude.toFixed(4)}`
+    try {
+      const locationInfo = await geocodingService.reverseGeocode(latitude, longitude)
+      if (locationInfo) {
+        locationName = [locationInfo.city || locationInfo.district, locationInfo.state].filter(Boolean).join(', ') || locationName
+      }
+    } catch (error) {
+      console.warn('[Telegram Bot] Reverse geocoding failed for shared location:', error)
+    }
+
+    await prisma.telegramSubscription.upsert({
+      where: { chatId },
+      update: { latitude, longitude, location: locationName },
+      create: { chatId, latitude, longitude, location: locationName, isActive: false }
+    })
+
+    await sendTelegramMessage(chatId, `📍 Location updated to ${locationName}. Send /weather for the latest weather or /subscribe for daily updates.`)
+  }
+
+  private async getLinkedUserId(chatId: string): Promise<string | null> {
+    const subscription = await prisma.telegramSubscription.findUnique({
+      where: { chatId },
+      select: { userId: true }
+    })
+    return subscription?.userId || null
+  }
+}
+
+// Singleton instance
+let telegramBot: TelegramBotService | null = null
+
+export function getTelegramBot(): TelegramBotService {
+  if (!telegramBot) {
+    telegramBot = new TelegramBotService()
+  }
+  return telegramBot
+}
+
+export type { TelegramUpdate, TelegramMessage }
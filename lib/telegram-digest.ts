@@ -0,0 +1,134 @@
+import type { ScheduledJob } from '@prisma/client'
+import { prisma } from './prisma'
+import { getJobQueue, JobError } from './job-queue'
+import { getTelegramBot } from './telegram-bot'
+import {
+  TelegramAPIError,
+  recordDeliveryFailure,
+  recordDeliverySuccess,
+  sendTelegramMessage
+} from './telegram'
+import { forecastTimezone } from './weather-forecast'
+
+export const DAILY_DIGEST_JOB = 'telegram_digest'
+
+// A digest is still sent if the scheduler catches up within this long after the preferred time
+const DIGEST_CATCH_UP_MINUTES = 3 * 60
+
+interface DigestJobPayload {
+  subscriptionId: string
+}
+
+/**
+ * Wall-clock date (YYYY-MM-DD) and minutes since midnight in the given time zone
+ */
+export function getLocalTime(timezone: string, date: Date = new Date()): { date: string; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(date).map((part) => [part.type, part.value])
+  )
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: parseInt(parts.hour) * 60 + parseInt(parts.minute)
+  }
+}
+
+/**
+ * Queue today's digest for every active subscription whose preferred local time has arrived.
+ * The dedupe key (subscription + local date) makes this safe to call every minute from any instance.
+ */
+export async function scheduleDailyDigests(now: Date = new Date()): Promise<number> {
+  const subscriptions = await prisma.telegramSubscription.findMany({
+    where: { isActive: true },
+    select: { id: true, preferredTime: true, timezone: true }
+  })
+
+  const jobQueue = getJobQueue()
+  let queued = 0
+
+  for (const subscription of subscriptions) {
+    const local = getLocalTime(forecastTimezone(subscription.timezone), now)
+    const [hours, minutes] = subscription.preferredTime.split(':').map(Number)
+    const minutesPastPreferred = local.minutes - (hours * 60 + minutes)
+
+    if (minutesPastPreferred < 0 || minutesPastPreferred >= DIGEST_CATCH_UP_MINUTES) {
+      continue
+    }
+
+    const created = await jobQueue.enqueue(
+      DAILY_DIGEST_JOB,
+      { subscriptionId: subscription.id },
+      { dedupeKey: `${DAILY_DIGEST_JOB}:${subscription.id}:${local.date}` }
+    )
+    if (created) queued++
+  }
+
+  if (queued > 0) {
+    console.log(`[Telegram Digest] Queued ${queued} daily digest(s)`)
+  }
+  return queued
+}
+
+/**
+ * Job handler: build and send one digest, recording every attempt in the delivery history
+ */
+export async function sendDailyDigest(job: ScheduledJob): Promise<void> {
+  const { subscriptionId } = job.payload as unknown as DigestJobPayload
+
+  const subscription = await prisma.telegramSubscription.findUnique({
+    where: { id: subscriptionId }
+  })
+
+  // Unsubscribed or removed since the job was queued
+  if (!subscription || !subscription.isActive) return
+
+  try {
+    const message = await getTelegramBot().buildWeatherMessage(subscription)
+    if (!message) {
+      console.log(`[Telegram Digest] Skipping chat ${subscription.chatId}: no linked farm or shared location`)
+      return
+    }
+
+    await sendTelegramMessage(subscription.chatId, message)
+  } catch (error) {
+    const permanent = error instanceof TelegramAPIError && error.isPermanent
+    const errorMessage = error instanceof Error ? error.message : String(error)
+
+    await prisma.telegramDelivery.create({
+      data: {
+        kind: 'daily_digest',
+        status: 'failed',
+        attempt: job.attempts,
+        error: errorMessage.slice(0, 1000),
+        subscriptionId,
+        jobId: job.id
+      }
+    })
+
+    // Only a digest that will not be retried counts towards deactivating the chat
+    if (permanent || job.attempts >= job.maxAttempts) {
+      await recordDeliveryFailure(subscriptionId, error)
+    }
+
+    throw new JobError(errorMessage, !permanent)
+  }
+
+  await prisma.telegramDelivery.create({
+    data: {
+      kind: 'daily_digest',
+      status: 'sent',
+      attempt: job.attempts,
+      subscriptionId,
+      jobId: job.id
+    }
+  })
+  await recordDeliverySuccess(subscriptionId)
+}
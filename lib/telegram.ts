@@ -0,0 +1,215 @@
+import { prisma } from './prisma'
+import type { ForecastDay, ForecastHour } from './weather-forecast'
+import type { WeatherAlertSummary } from './gemini-ai'
+
+// Telegram Bot API configuration
+const TELEGRAM_BOT_TOKEN = process.env.NEXT_PUBLIC_TELEGRAM_BOT_TOKEN
+const TELEGRAM_API_URL = `https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}`
+
+// Stop sending to a chat after this many consecutive failed deliveries
+const MAX_DELIVERY_FAILURES = 5
+
+class TelegramAPIError extends Error {
+  constructor(
+    message: string,
+    public errorCode?: number,
+    public description: string = ''
+  ) {
+    super(message)
+    this.name = 'TelegramAPIError'
+  }
+
+  /**
+   * The chat can never be reached again (bot blocked, chat deleted, user deactivated). Other 400s,
+   * e.g. a message Telegram can't parse, say nothing about the chat.
+   */
+  get isPermanent(): boolean {
+    return this.errorCode === 403 || (this.errorCode === 400 && /chat not found/i.test(this.description))
+  }
+
+  /**
+   * The Markdown didn't parse, e.g. a field name with an unpaired "_"
+   */
+  get isParseError(): boolean {
+    return this.errorCode === 400 && /can't parse entities/i.test(this.description)
+  }
+}
+
+export function isTelegramConfigured(): boolean {
+  return !!TELEGRAM_BOT_TOKEN
+}
+
+// Location format: "123456 (lat,lng)" or just "123456"
+export function parseCoordinates(location: string | null): { lat: number; lng: number } | null {
+  const coordMatch = location?.match(/\((-?\d+\.?\d*),\s*(-?\d+\.?\d*)\)/)
+  if (!coordMatch) return null
+  return {
+    lat: parseFloat(coordMatch[1]),
+    lng: parseFloat(coordMatch[2])
+  }
+}
+
+/**
+ * Send a message to a Telegram chat. Markdown by default; pass null for free text
+ * (e.g. AI answers) that may contain unbalanced Markdown characters. A Markdown message that
+ * Telegram can't parse (user-supplied names with "_" or "*") is sent again as plain text.
+ */
+export async function sendTelegramMessage(chatId: string, text: string, parseMode: 'Markdown' | null = 'Markdown') {
+  try {
+    const response = await fetch(`${TELEGRAM_API_URL}/sendMessage`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        chat_id: chatId,
+        text: text,
+        ...(parseMode && { parse_mode: parseMode })
+      })
+    })
+
+    const responseData = await response.json()
+
+    if (!response.ok) {
+      const errorMsg = responseData.description || `HTTP ${response.status}`
+      console.error('[Telegram API Response]:', responseData)
+      throw new TelegramAPIError(`Telegram API error: ${errorMsg}`, responseData.error_code || response.status, responseData.description || '')
+    }
+
+    return responseData
+  } catch (error) {
+    if (parseMode && error instanceof TelegramAPIError && error.isParseError) {
+      console.warn('[Telegram] Markdown rejected, sending as plain text')
+      return sendTelegramMessage(chatId, text, null)
+    }
+    console.error('[Telegram] Failed to send message:', error)
+    throw error
+  }
+}
+
+/**
+ * Reset the failure counter after a successful scheduled delivery
+ */
+export async function recordDeliverySuccess(subscriptionId: string) {
+  await prisma.telegramSubscription.update({
+    where: { id: subscriptionId },
+    data: {
+      lastSentAt: new Date(),
+      failureCount: 0
+    }
+  })
+}
+
+/**
+ * Count a failed delivery and deactivate the subscription once the chat is clearly unreachable
+ */
+export async function recordDeliveryFailure(subscriptionId: string, error: unknown) {
+  const permanent = error instanceof TelegramAPIError && error.isPermanent
+
+  const subscription = await prisma.telegramSubscription.update({
+    where: { id: subscriptionId },
+    data: { failureCount: { increment: 1 } }
+  })
+
+  if (permanent || subscription.failureCount >= MAX_DELIVERY_FAILURES) {
+    await prisma.telegramSubscription.update({
+      where: { id: subscriptionId },
+      data: { isActive: false }
+    })
+    console.warn(`[Telegram] Deactivated subscription ${subscriptionId} after ${subscription.failureCount} failed deliveries`)
+  }
+}
+
+/**
+ * Build the daily weather digest sent to subscribers (also used by the /weather command)
+ */
+export function formatWeatherUpdateMessage(farmerData: any): string {
+  const currentDate = new Date().toLocaleDateString('en-IN', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  })
+
+  let message = `🌱 **FarmSat Daily Weather Update**\n`
+  message += `📅 ${currentDate}\n\n`
+
+  if (farmerData.currentWeather) {
+    const weather = farmerData.currentWeather
+    message += `🌡️ **Current Weather:**\n`
+    message += `• Temperature: ${weather.temp}°C\n`
+    message += `• Humidity: ${weather.humidity}%\n`
+    message += `• Wind: ${weather.windSpeed} km/h\n`
+    message += `• Conditions: ${weather.description}\n\n`
+  }
+
+  if (farmerData.forecast && farmerData.forecast.length > 0) {
+    message += `📈 **3-Day Forecast:**\n`
+    farmerData.forecast.slice(0, 3).forEach((day: ForecastDay, index: number) => {
+      // Forecast dates are already the farmer's local days
+      const date = new Date(`${day.date}T00:00:00Z`).toLocaleDateString('en-IN', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC' })
+      const rain = day.precipitation > 0 ? `, rain ${day.precipitation} mm (${day.rainProbability}% chance)` : ''
+      message += `• ${date}${index === 0 && day.partial ? ' (rest of day)' : ''}: ${day.high}°/${day.low}°C, ${day.description}${rain}, wind up to ${day.maxWindSpeed} km/h\n`
+    })
+
+    const nextRain = (farmerData.hourlyForecast || []).slice(0, 24).find((hour: ForecastHour) => hour.precipitation >= 0.1)
+    if (nextRain) {
+      message += `🌧️ Rain expected from about ${String(nextRain.localHour).padStart(2, '0')}:00${nextRain.localDate !== farmerData.forecast[0].date ? ' tomorrow' : ''}\n`
+    }
+    message += `\n`
+  }
+
+  if (farmerData.weatherAlerts && farmerData.weatherAlerts.length > 0) {
+    message += `⚠️ **Weather Alerts:**\n`
+    farmerData.weatherAlerts.slice(0, 5).forEach((alert: WeatherAlertSummary) => {
+      message += `${alert.severity === 'critical' ? '🔴' : '🟠'} ${alert.title}${alert.fieldName ? ` (${alert.fieldName})` : ''}: ${alert.message}\n`
+    })
+    message += `\n`
+  }
+
+  if (farmerData.ndviData && farmerData.ndviData.length > 0) {
+    const latestNDVI = farmerData.ndviData[farmerData.ndviData.length - 1] // history is oldest first
+    const weighted = farmerData.scope && farmerData.scope.level !== 'field' && farmerData.scope.fieldCount > 1
+    message += `🌾 **Crop Health (NDVI${weighted ? ', all fields' : ''}):** ${latestNDVI.ndviMean.toFixed(3)} - ${latestNDVI.ndviStatus}\n\n`
+  }
+
+  if (farmerData.fields && farmerData.fields.length > 1) {
+    message += `🗺️ **Your Fields:**\n`
+    farmerData.fields.forEach((field: any) => {
+      const ndvi = field.latestNdvi !== undefined ? `NDVI ${field.latestNdvi.toFixed(2)}` : 'no NDVI'
+      const moisture = field.soilMoisture !== undefined ? `, moisture ${field.soilMoisture}%` : ''
+      message += `• ${field.name}: ${ndvi}${moisture}\n`
+    })
+    message += `\n`
+  }
+
+  if (farmerData.soilData && farmerData.soilData.length > 0) {
+    const latestSoil = farmerData.soilData[0]
+    message += `🌱 **Soil Conditions:**\n`
+    message += `• Moisture: ${latestSoil.moisture}%\n`
+    message += `• Temperature: ${latestSoil.soilTemp}°C\n\n`
+  }
+
+  if (farmerData.uvIndex !== undefined && farmerData.uvIndex !== null) {
+    const uvRisk = farmerData.uvIndex > 8 ? 'Very High' : farmerData.uvIndex > 6 ? 'High' : farmerData.uvIndex > 2 ? 'Moderate' : 'Low'
+    message += `☀️ **UV Index:** ${farmerData.uvIndex} (${uvRisk} risk)\n\n`
+  }
+
+  message += `💡 **Farming Tips:**\n`
+  if (farmerData.currentWeather?.temp && farmerData.currentWeather.temp > 35) {
+    message += `• High temperature alert! Ensure adequate irrigation and provide shade for sensitive crops.\n`
+  }
+  if (farmerData.currentWeather?.humidity && farmerData.currentWeather.humidity > 80) {
+    message += `• High humidity detected. Monitor for fungal diseases.\n`
+  }
+  if (farmerData.soilData?.[0]?.moisture && farmerData.soilData[0].moisture < 30) {
+    message += `• Soil moisture is low. Consider irrigation today.\n`
+  }
+
+  message += `\n📱 Stay connected with FarmSat for more insights!\n`
+  message += `Use /unsubscribe to stop receiving updates.`
+
+  return message
+}
+
+export { TelegramAPIError, MAX_DELIVERY_FAILURES }
@@ -0,0 +1,129 @@
+import type { VegetationIndex } from './data-providers'
+
+// What each vegetation index says about a crop, and the thresholds used to grade a field-mean value.
+// NDVI grades match AgromonitoringAPI.getNDVIStatus; the others are tuned to their own ranges.
+
+interface IndexStatus {
+  status: string
+  color: string
+  description: string
+  level: number // 0 (worst) to 4 (best), for comparing across indices
+}
+
+interface IndexThreshold extends IndexStatus {
+  min: number // value at or above which this grade applies
+}
+
+interface VegetationIndexInfo {
+  index: VegetationIndex
+  name: string
+  measures: string
+  range: [number, number] // typical field-mean range over cropland, for chart axes and scales
+  thresholds: IndexThreshold[] // best grade first
+}
+
+const COLORS = ['#dc2626', '#ef4444', '#f59e0b', '#22c55e', '#10b981']
+
+function grades(
+  mins: [number, number, number, number],
+  labels: [string, string, string, string, string],
+  descriptions: [string, string, string, string, string]
+): IndexThreshold[] {
+  return [4, 3, 2, 1, 0].map((level, position) => ({
+    min: position < 4 ? mins[position] : -Infinity,
+    status: labels[position],
+    color: COLORS[level],
+    description: descriptions[position],
+    level
+  }))
+}
+
+const HEALTH_LABELS: [string, string, string, string, string] = ['Excellent', 'Good', 'Fair', 'Poor', 'Very Poor']
+
+export const VEGETATION_INDICES: Record<VegetationIndex, VegetationIndexInfo> = {
+  NDVI: {
+    index: 'NDVI',
+    name: 'Vegetation health (NDVI)',
+    measures: 'green biomass and canopy cover',
+    range: [0, 1],
+    thresholds: grades([0.7, 0.5, 0.3, 0.1], HEALTH_LABELS, [
+      'Very healthy vegetation with dense canopy',
+      'Healthy vegetation with good canopy coverage',
+      'Moderate vegetation health, may need attention',
+      'Stressed vegetation, requires immediate attention',
+      'Severely stressed or sparse vegetation'
+    ])
+  },
+  EVI: {
+    index: 'EVI',
+    name: 'Enhanced vegetation (EVI)',
+    measures: 'canopy vigour, without saturating in dense crops the way NDVI does',
+    range: [0, 0.8],
+    thresholds: grades([0.5, 0.35, 0.2, 0.1], HEALTH_LABELS, [
+      'Dense, vigorous canopy',
+      'Healthy canopy, growing well',
+      'Moderate vigour; thin stand or early growth',
+      'Weak canopy; check for stress or gaps',
+      'Little active vegetation'
+    ])
+  },
+  NDWI: {
+    index: 'NDWI',
+    name: 'Canopy water (NDWI)',
+    measures: 'water content of the leaves, an early sign of water stress',
+    range: [-0.3, 0.5],
+    thresholds: grades(
+      [0.3, 0.15, 0, -0.15],
+      ['Well watered', 'Adequate', 'Mild water stress', 'Water stress', 'Severe water stress'],
+      [
+        'Leaves hold plenty of water',
+        'Leaf water is adequate for now',
+        'Leaves are starting to dry; check soil moisture',
+        'Crop is short of water; irrigate if possible',
+        'Severe drought stress or very sparse crop'
+      ]
+    )
+  },
+  SAVI: {
+    index: 'SAVI',
+    name: 'Soil-adjusted vegetation (SAVI)',
+    measures: 'vegetation cover corrected for bare soil showing between plants',
+    range: [0, 0.8],
+    thresholds: grades([0.5, 0.35, 0.2, 0.1], HEALTH_LABELS, [
+      'Full ground cover',
+      'Good cover with little bare soil',
+      'Partial cover; normal early in the season',
+      'Sparse cover; check germination and stand',
+      'Mostly bare soil'
+    ])
+  },
+  NDRE: {
+    index: 'NDRE',
+    name: 'Chlorophyll / nitrogen (NDRE)',
+    measures: 'leaf chlorophyll, which tracks nitrogen status in mid and late season',
+    range: [0, 0.6],
+    thresholds: grades([0.45, 0.3, 0.2, 0.1], HEALTH_LABELS, [
+      'High chlorophyll; nitrogen is sufficient',
+      'Good chlorophyll levels',
+      'Chlorophyll below par; possible nitrogen shortage',
+      'Low chlorophyll; likely nitrogen deficiency',
+      'Very low chlorophyll or sparse crop'
+    ])
+  }
+}
+
+export const VEGETATION_INDEX_KEYS = Object.keys(VEGETATION_INDICES) as VegetationIndex[]
+
+export function isVegetationIndex(value: string | null | undefined): value is VegetationIndex {
+  return !!value && (VEGETATION_INDEX_KEYS as string[]).includes(value)
+}
+
+/**
+ * Grade a field-mean index value, like getNDVIStatus but for any supported index
+ */
+export function getIndexStatus(index: VegetationIndex, value: number): IndexStatus {
+  const { status, color, description, level } = VEGETATION_INDICES[index].thresholds.find((grade) => value >= grade.min)!
+  return { status, color, description, level }
+}
+
+export type { IndexStatus, IndexThreshold, VegetationIndexInfo }
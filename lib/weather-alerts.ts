@@ -0,0 +1,603 @@
+import type { Field, FieldAlert, Prisma, ScheduledJob } from '@prisma/client'
+import { prisma } from './prisma'
+import { getJobQueue } from './job-queue'
+import { findCropCalendar, getGrowthStageService } from './growth-stages'
+import { getWeatherIngestionService } from './weather-ingestion'
+import { buildForecast, type ForecastDay, type ForecastHour, type LocalForecast } from './weather-forecast'
+import { queueAlertNotification } from './alert-notifications'
+import rulesConfig from './weather-alert-rules.json'
+
+// Agro-weather alerts: the forecast is checked against the rules in weather-alert-rules.json,
+// with crop- and stage-specific thresholds, and every event found is kept as a weather FieldAlert
+// that is refreshed while it stays in the forecast and expires once it is over.
+
+export const WEATHER_ALERT_CHECK_JOB = 'weather_alert_check'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+const CHECK_INTERVAL_HOURS = 6 // the provider refreshes forecasts a few times a day
+const RECENT_HISTORY_DAYS = 30 // stored days looked at for dry spells
+
+const MEASURES = ['low', 'high', 'precipitation', 'maxWindSpeed', 'humidHours', 'dryDays'] as const
+// Daily forecast values a rule can be written against
+const DAY_MEASURES: readonly string[] = ['low', 'high', 'precipitation', 'maxWindSpeed']
+
+type WeatherMeasure = (typeof MEASURES)[number]
+type WeatherAlertSeverity = 'warning' | 'critical'
+
+interface RuleThresholds {
+  warning: number
+  critical: number
+}
+
+interface WeatherRuleOverride {
+  crops?: string[] // calendar crop names; any crop when left out
+  stages?: string[] // growth stage names; any stage when left out
+  thresholds: RuleThresholds
+  minDays?: number
+  advice?: string
+}
+
+interface WeatherAlertRule {
+  id: string // stored as the alert type
+  title: string
+  measure: WeatherMeasure
+  operator: '<=' | '>='
+  thresholds: RuleThresholds
+  minDays?: number // consecutive days that must match, for daily measures
+  humidityAtLeast?: number // %, for humidHours
+  rainBelow?: number // mm a day, for dryDays
+  requiresCrop?: boolean // only for fields with a known crop
+  summary: string // {value}, {dates}, {crop}, {stage}, {humidityAtLeast} and {rainBelow} are filled in
+  advice: string
+  overrides?: WeatherRuleOverride[] // first match wins
+}
+
+interface WeatherCropContext {
+  cropName: string
+  stage: string | null // null when only the farmer's main crop is known
+}
+
+interface WeatherAlertInput {
+  now: Date
+  forecast: LocalForecast
+  recentDays: Array<{ date: string; rainfall: number }> // stored days before the forecast, oldest first
+  crop: WeatherCropContext | null
+}
+
+interface DetectedWeatherAlert {
+  type: string
+  severity: WeatherAlertSeverity
+  title: string
+  message: string
+  startsAt: Date
+  endsAt: Date
+  metrics: Record<string, number | string | null>
+}
+
+interface WeatherAlertCheckResult {
+  fieldId: string
+  evaluated: boolean // false when no forecast was available
+  alerts: DetectedWeatherAlert[]
+  created: number
+  updated: number
+  resolved: number
+  expired: number
+}
+
+interface WeatherEvent {
+  value: number
+  severity: WeatherAlertSeverity
+  dates: string[] // local dates the event covers
+  startsAt: Date
+  endsAt: Date
+  metrics: Record<string, number | string | null>
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+/**
+ * Why a thresholds object is unusable, or null when it is fine. Critical must be at least as
+ * extreme as warning in the rule's direction.
+ */
+function thresholdsProblem(thresholds: unknown, operator: string): string | null {
+  const value = thresholds as Partial<RuleThresholds> | undefined
+  if (!value || !isNumber(value.warning) || !isNumber(value.critical)) {
+    return 'thresholds need numeric warning and critical values'
+  }
+  const ordered = operator === '<=' ? value.critical <= value.warning : value.critical >= value.warning
+  return ordered ? null : `critical threshold must be ${operator === '<=' ? 'at or below' : 'at or above'} the warning threshold`
+}
+
+function ruleProblem(rule: Partial<WeatherAlertRule>): string | null {
+  if (typeof rule.id !== 'string' || !rule.id) return 'missing id'
+  if (typeof rule.title !== 'string' || typeof rule.summary !== 'string' || typeof rule.advice !== 'string') {
+    return 'title, summary and advice must be text'
+  }
+  if (!MEASURES.includes(rule.measure as WeatherMeasure)) return `unknown measure "${rule.measure}"`
+  if (rule.operator !== '<=' && rule.operator !== '>=') return `unknown operator "${rule.operator}"`
+  if ((rule.measure === 'humidHours' || rule.measure === 'dryDays') && rule.operator !== '>=') {
+    return `${rule.measure} rules count hours or days, so the operator must be >=`
+  }
+  if (rule.measure === 'humidHours' && !isNumber(rule.humidityAtLeast)) return 'humidHours rules need humidityAtLeast'
+  if (rule.measure === 'dryDays' && !isNumber(rule.rainBelow)) return 'dryDays rules need rainBelow'
+  if (rule.minDays !== undefined && (!Number.isInteger(rule.minDays) || rule.minDays < 1)) return 'minDays must be a whole number of days'
+
+  const thresholds = thresholdsProblem(rule.thresholds, rule.operator)
+  if (thresholds) return thresholds
+
+  for (const [index, override] of (rule.overrides || []).entries()) {
+    if (override.crops !== undefined && !isStringList(override.crops)) return `override ${index}: crops must be a list of names`
+    if (override.stages !== undefined && !isStringList(override.stages)) return `override ${index}: stages must be a list of names`
+    if (!override.crops && !override.stages) return `override ${index}: needs crops or stages`
+    const overrideThresholds = thresholdsProblem(override.thresholds, rule.operator)
+    if (overrideThresholds) return `override ${index}: ${overrideThresholds}`
+  }
+  return null
+}
+
+/**
+ * Rules from the config that are complete and consistent. A broken rule is logged and left out
+ * rather than stopping every other alert.
+ */
+export function loadWeatherAlertRules(config: unknown): WeatherAlertRule[] {
+  const rules = (config as { rules?: unknown } | null)?.rules
+  if (!Array.isArray(rules)) {
+    console.error('[Weather Alerts] Rule config has no rules list')
+    return []
+  }
+
+  const seen = new Set<string>()
+  return rules.filter((rule: Partial<WeatherAlertRule>, index): rule is WeatherAlertRule => {
+    const problem = ruleProblem(rule) || (seen.has(rule.id!) ? 'duplicate id' : null)
+    if (problem) {
+      console.error(`[Weather Alerts] Skipping rule ${rule?.id || `#${index}`}: ${problem}`)
+      return false
+    }
+    seen.add(rule.id!)
+    return true
+  })
+}
+
+const WEATHER_ALERT_RULES = loadWeatherAlertRules(rulesConfig)
+
+function canonicalCrop(name: string): string {
+  return (findCropCalendar(name)?.crop || name).trim().toLowerCase()
+}
+
+/**
+ * The rule's thresholds and wording for this crop and stage: the first matching override, else
+ * the rule's own
+ */
+function resolveRule(rule: WeatherAlertRule, crop: WeatherCropContext | null) {
+  const override = crop
+    ? rule.overrides?.find((candidate) =>
+        (!candidate.crops || candidate.crops.some((name) => canonicalCrop(name) === canonicalCrop(crop.cropName))) &&
+        (!candidate.stages || (!!crop.stage && candidate.stages.some((stage) => stage.toLowerCase() === crop.stage!.toLowerCase())))
+      )
+    : undefined
+
+  return {
+    thresholds: override?.thresholds || rule.thresholds,
+    minDays: override?.minDays ?? rule.minDays ?? 1,
+    advice: override?.advice || rule.advice,
+    override: !!override
+  }
+}
+
+function passes(value: number, operator: WeatherAlertRule['operator'], threshold: number): boolean {
+  return operator === '<=' ? value <= threshold : value >= threshold
+}
+
+function dayLabel(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-IN', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC'
+  })
+}
+
+function datesLabel(dates: string[]): string {
+  if (dates.length === 1) return dayLabel(dates[0])
+  const first = dayLabel(dates[0])
+  const last = dayLabel(dates[dates.length - 1])
+  return dates.length === 2 ? `${first} and ${last}` : `${first} to ${last}`
+}
+
+function fillTemplate(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? String(values[key]) : match))
+}
+
+function nextDate(date: string): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + DAY_MS).toISOString().split('T')[0]
+}
+
+/**
+ * From the first to the end of the last hour of the given local dates, not before the current hour
+ */
+function eventWindow(hourly: ForecastHour[], dates: string[], now: Date): { startsAt: Date; endsAt: Date } {
+  const hours = hourly.filter((hour) => dates.includes(hour.localDate))
+  const start = Math.max(new Date(hours[0].time).getTime(), now.getTime() - (now.getTime() % HOUR_MS))
+  return { startsAt: new Date(start), endsAt: new Date(new Date(hours[hours.length - 1].time).getTime() + HOUR_MS) }
+}
+
+/**
+ * Runs of consecutive forecast days whose value passes the warning threshold, at least minDays long
+ */
+function dayEvents(
+  rule: WeatherAlertRule,
+  days: ForecastDay[],
+  hourly: ForecastHour[],
+  thresholds: RuleThresholds,
+  minDays: number,
+  now: Date
+): WeatherEvent[] {
+  const measure = rule.measure as 'low' | 'high' | 'precipitation' | 'maxWindSpeed'
+  const runs: ForecastDay[][] = []
+  for (const day of days) {
+    if (!passes(day[measure], rule.operator, thresholds.warning)) continue
+    const run = runs[runs.length - 1]
+    if (run && nextDate(run[run.length - 1].date) === day.date) {
+      run.push(day)
+    } else {
+      runs.push([day])
+    }
+  }
+
+  return runs
+    .filter((run) => run.length >= minDays)
+    .map((run) => {
+      const values = run.map((day) => day[measure])
+      const value = rule.operator === '<=' ? Math.min(...values) : Math.max(...values)
+      const dates = run.map((day) => day.date)
+      return {
+        value,
+        severity: passes(value, rule.operator, thresholds.critical) ? 'critical' : 'warning',
+        dates,
+        ...eventWindow(hourly, dates, now),
+        metrics: { [measure]: value, days: run.length }
+      }
+    })
+}
+
+/**
+ * Spells of consecutive hours at or above the humidity limit, long enough to pass the warning
+ * threshold
+ */
+function humidityEvents(rule: WeatherAlertRule, hourly: ForecastHour[], thresholds: RuleThresholds): WeatherEvent[] {
+  const limit = rule.humidityAtLeast!
+  const runs: ForecastHour[][] = []
+  let current: ForecastHour[] = []
+  for (const hour of hourly) {
+    if (hour.humidity >= limit) {
+      current.push(hour)
+    } else if (current.length > 0) {
+      runs.push(current)
+      current = []
+    }
+  }
+  if (current.length > 0) runs.push(current)
+
+  return runs
+    .filter((run) => passes(run.length, rule.operator, thresholds.warning))
+    .map((run) => ({
+      value: run.length,
+      severity: passes(run.length, rule.operator, thresholds.critical) ? 'critical' : 'warning',
+      dates: Array.from(new Set(run.map((hour) => hour.localDate))),
+      startsAt: new Date(run[0].time),
+      endsAt: new Date(new Date(run[run.length - 1].time).getTime() + HOUR_MS),
+      metrics: {
+        hours: run.length,
+        meanHumidity: Math.round(run.reduce((sum, hour) => sum + hour.humidity, 0) / run.length)
+      }
+    }))
+}
+
+/**
+ * The current dry spell: stored dry days leading up to the forecast plus the dry forecast days
+ * that follow. Nothing when rain is forecast for the first day, since the spell is about to break.
+ */
+function drySpellEvent(
+  rule: WeatherAlertRule,
+  input: WeatherAlertInput,
+  hourly: ForecastHour[],
+  thresholds: RuleThresholds
+): WeatherEvent | null {
+  const limit = rule.rainBelow!
+  const days = input.forecast.days
+  const dryForecast: ForecastDay[] = []
+  for (const day of days) {
+    if (day.precipitation >= limit) break
+    dryForecast.push(day)
+  }
+  if (dryForecast.length === 0) return null
+
+  // Stored days are UTC and end yesterday; only a history that reaches the forecast counts
+  const history = input.recentDays.filter((day) => day.date < days[0].date)
+  let dryHistory = 0
+  const latest = history[history.length - 1]
+  if (latest && new Date(`${days[0].date}T00:00:00Z`).getTime() - new Date(`${latest.date}T00:00:00Z`).getTime() <= 2 * DAY_MS) {
+    for (let index = history.length - 1; index >= 0 && history[index].rainfall < limit; index--) {
+      dryHistory++
+    }
+  }
+
+  const value = dryHistory + dryForecast.length
+  if (!passes(value, rule.operator, thresholds.warning)) return null
+
+  const lastDry = dryForecast[dryForecast.length - 1].date
+  return {
+    value,
+    severity: passes(value, rule.operator, thresholds.critical) ? 'critical' : 'warning',
+    dates: [lastDry],
+    ...eventWindow(hourly, dryForecast.map((day) => day.date), input.now),
+    metrics: {
+      dryDays: value,
+      observedDryDays: dryHistory,
+      forecastDryDays: dryForecast.length,
+      continuesBeyondForecast: dryForecast.length === days.length ? 'yes' : 'no'
+    }
+  }
+}
+
+/**
+ * Check a forecast against the alert rules. One alert per event, e.g. two separate cold spells
+ * in the forecast give two frost alerts.
+ */
+export function evaluateWeatherRules(
+  input: WeatherAlertInput,
+  rules: WeatherAlertRule[] = WEATHER_ALERT_RULES
+): DetectedWeatherAlert[] {
+  const { now, forecast, crop } = input
+  const hourly = forecast.hourly.filter((hour) => new Date(hour.time).getTime() + HOUR_MS > now.getTime())
+  const today = hourly[0]?.localDate
+  const days = forecast.days.filter((day) => today && day.date >= today)
+  if (hourly.length === 0 || days.length === 0) return []
+
+  const alerts: DetectedWeatherAlert[] = []
+  for (const rule of rules) {
+    if (rule.requiresCrop && !crop) continue
+
+    const { thresholds, minDays, advice, override } = resolveRule(rule, crop)
+    let events: WeatherEvent[]
+    if (DAY_MEASURES.includes(rule.measure)) {
+      events = dayEvents(rule, days, hourly, thresholds, minDays, now)
+    } else if (rule.measure === 'humidHours') {
+      events = humidityEvents(rule, hourly, thresholds)
+    } else {
+      const event = drySpellEvent(rule, { ...input, forecast: { ...forecast, days } }, hourly, thresholds)
+      events = event ? [event] : []
+    }
+
+    for (const event of events) {
+      const values = {
+        value: Math.round(event.value * 10) / 10,
+        dates: datesLabel(event.dates),
+        crop: crop?.cropName || 'The crop',
+        stage: crop?.stage?.toLowerCase() || 'this stage',
+        humidityAtLeast: rule.humidityAtLeast ?? '',
+        rainBelow: rule.rainBelow ?? ''
+      }
+      alerts.push({
+        type: rule.id,
+        severity: event.severity,
+        title: rule.title,
+        message: `${fillTemplate(rule.summary, values)} ${fillTemplate(advice, values)}`,
+        startsAt: event.startsAt,
+        endsAt: event.endsAt,
+        metrics: {
+          ...event.metrics,
+          warningThreshold: thresholds.warning,
+          criticalThreshold: thresholds.critical,
+          crop: crop?.cropName || null,
+          stage: crop?.stage || null,
+          cropSpecific: override ? 'yes' : 'no'
+        }
+      })
+    }
+  }
+
+  return alerts.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime())
+}
+
+class WeatherAlertService {
+  /**
+   * Alerts for a field's forecast, with thresholds for the crop in the ground (or the farmer's main
+   * crop) and its stored rainfall for dry spells
+   */
+  async detectForField(
+    field: Pick<Field, 'id' | 'coordinates'>,
+    forecast: LocalForecast,
+    now: Date = new Date()
+  ): Promise<DetectedWeatherAlert[]> {
+    const [crop, recentDays] = await Promise.all([
+      this.getCropContext(field, now),
+      getWeatherIngestionService().getDailyWeather(field.id, new Date(now.getTime() - RECENT_HISTORY_DAYS * DAY_MS))
+    ])
+    return evaluateWeatherRules({ now, forecast, recentDays, crop })
+  }
+
+  /**
+   * Check a field's forecast and bring its weather alerts up to date: new events raise an alert
+   * (and notify the farmer), events still in the forecast are refreshed, events that dropped out
+   * of the forecast are resolved and events that are over expire.
+   */
+  async checkField(fieldId: string, now: Date = new Date()): Promise<WeatherAlertCheckResult> {
+    const result: WeatherAlertCheckResult = { fieldId, evaluated: false, alerts: [], created: 0, updated: 0, resolved: 0, expired: 0 }
+    const field = await prisma.field.findUnique({
+      where: { id: fieldId },
+      include: { farm: { select: { user: { select: { telegramSubscription: { select: { timezone: true } } } } } } }
+    })
+    if (!field) return result
+
+    const expired = await prisma.fieldAlert.updateMany({
+      where: { fieldId, category: 'weather', status: { in: ['open', 'acknowledged'] }, expiresAt: { lte: now } },
+      data: { status: 'expired' }
+    })
+    result.expired = expired.count
+
+    const items = await getWeatherIngestionService().getForecastItems(field)
+    if (items.length === 0) return result
+
+    const forecast = buildForecast(items, field.farm.user.telegramSubscription?.timezone)
+    const detected = await this.detectForField(field, forecast, now)
+    result.evaluated = true
+    result.alerts = detected
+
+    const active = await prisma.fieldAlert.findMany({
+      where: { fieldId, category: 'weather', status: { in: ['open', 'acknowledged'] } },
+      orderBy: { startsAt: 'asc' }
+    })
+    const matched = new Set<string>()
+
+    for (const found of detected) {
+      const data = {
+        severity: found.severity,
+        title: found.title,
+        message: found.message,
+        metrics: found.metrics as Prisma.InputJsonValue,
+        observedAt: now,
+        startsAt: found.startsAt,
+        expiresAt: found.endsAt
+      }
+      // The same event seen in an earlier forecast: same rule, overlapping window
+      const existing = active.find((alert) =>
+        !matched.has(alert.id) &&
+        alert.type === found.type &&
+        (!alert.startsAt || alert.startsAt <= found.endsAt) &&
+        (!alert.expiresAt || alert.expiresAt >= found.startsAt)
+      )
+
+      if (!existing) {
+        const alert = await prisma.fieldAlert.create({ data: { ...data, category: 'weather', type: found.type, fieldId } })
+        await queueAlertNotification(alert)
+        result.created++
+        continue
+      }
+
+      matched.add(existing.id)
+      // An event forecast to be worse is reopened and sent again, even if it was acknowledged
+      const escalated = existing.severity === 'warning' && found.severity === 'critical'
+      const alert: FieldAlert = await prisma.fieldAlert.update({
+        where: { id: existing.id },
+        data: { ...data, ...(escalated && { status: 'open', acknowledgedAt: null }) }
+      })
+      if (escalated) await queueAlertNotification(alert)
+      result.updated++
+    }
+
+    const cleared = active.filter((alert) => !matched.has(alert.id))
+    if (cleared.length > 0) {
+      const { count } = await prisma.fieldAlert.updateMany({
+        where: { id: { in: cleared.map((alert) => alert.id) } },
+        data: { status: 'resolved', resolvedAt: now }
+      })
+      result.resolved = count
+    }
+
+    if (result.created || result.updated || result.resolved || result.expired) {
+      console.log(`[Weather Alerts] Field ${fieldId}: ${result.created} new, ${result.updated} ongoing, ${result.resolved} resolved, ${result.expired} expired alert(s)`)
+    }
+    return result
+  }
+
+  /**
+   * Crop and growth stage of the field's active season; without one, the farmer's main crop
+   * from their profile with no stage
+   */
+  async getCropContext(field: Pick<Field, 'id' | 'coordinates'>, now: Date = new Date()): Promise<WeatherCropContext | null> {
+    const season = await prisma.cropSeason.findFirst({
+      where: { fieldId: field.id, actualHarvestDate: null, sowingDate: { lte: now } },
+      orderBy: { sowingDate: 'desc' }
+    })
+    if (season) {
+      const growthStage = await getGrowthStageService().getStageForSeason(field, season).catch((error) => {
+        console.warn(`[Weather Alerts] Growth stage unavailable for field ${field.id}:`, error)
+        return null
+      })
+      return { cropName: findCropCalendar(season.cropName)?.crop || season.cropName, stage: growthStage?.stage || null }
+    }
+
+    const owner = await prisma.field.findUnique({
+      where: { id: field.id },
+      select: { farm: { select: { user: { select: { farmerProfile: { select: { cropName: true } } } } } } }
+    })
+    const cropName = owner?.farm.user.farmerProfile?.cropName
+    return cropName ? { cropName: findCropCalendar(cropName)?.crop || cropName, stage: null } : null
+  }
+
+  /**
+   * Open and acknowledged weather alerts on the given fields that are not over yet, soonest first
+   */
+  async getActiveAlerts(fieldIds: string[], now: Date = new Date()) {
+    if (fieldIds.length === 0) return []
+    return prisma.fieldAlert.findMany({
+      where: {
+        fieldId: { in: fieldIds },
+        category: 'weather',
+        status: { in: ['open', 'acknowledged'] },
+        expiresAt: { gt: now }
+      },
+      include: { field: { select: { id: true, name: true } } },
+      orderBy: [{ startsAt: 'asc' }, { createdAt: 'asc' }]
+    })
+  }
+
+  /**
+   * Queue a check per field every few hours, so alerts follow each forecast update
+   */
+  async scheduleChecks(now: Date = new Date()): Promise<number> {
+    const fields = await prisma.field.findMany({ select: { id: true } })
+    const [day, time] = now.toISOString().split('T')
+    const block = String(Math.floor(parseInt(time.slice(0, 2)) / CHECK_INTERVAL_HOURS) * CHECK_INTERVAL_HOURS).padStart(2, '0')
+    const jobQueue = getJobQueue()
+    let queued = 0
+
+    for (const field of fields) {
+      const created = await jobQueue.enqueue(
+        WEATHER_ALERT_CHECK_JOB,
+        { fieldId: field.id },
+        { dedupeKey: `${WEATHER_ALERT_CHECK_JOB}:${field.id}:${day}T${block}`, maxAttempts: 3 }
+      )
+      if (created) queued++
+    }
+
+    return queued
+  }
+}
+
+// Singleton instance
+let weatherAlertService: WeatherAlertService | null = null
+
+export function getWeatherAlertService(): WeatherAlertService {
+  if (!weatherAlertService) {
+    weatherAlertService = new WeatherAlertService()
+  }
+  return weatherAlertService
+}
+
+/**
+ * Job handler for WEATHER_ALERT_CHECK_JOB
+ */
+export async function runWeatherAlertCheckJob(job: ScheduledJob): Promise<void> {
+  const { fieldId } = job.payload as { fieldId: string }
+  await getWeatherAlertService().checkField(fieldId)
+}
+
+export type {
+  WeatherMeasure,
+  WeatherAlertSeverity,
+  WeatherAlertRule,
+  WeatherRuleOverride,
+  WeatherCropContext,
+  WeatherAlertInput,
+  DetectedWeatherAlert,
+  WeatherAlertCheckResult
+}
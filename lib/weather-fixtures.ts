@@ -0,0 +1,91 @@
+import type { AgromonitoringWeatherResponse, WeatherForecastItem } from './agromonitoring-api'
+
+const HOUR_MS = 60 * 60 * 1000
+
+/**
+ * Anything that answers the two Agromonitoring weather calls; AgromonitoringAPI itself fits
+ */
+interface WeatherSource {
+  getCurrentWeather(lat: number, lon: number): Promise<AgromonitoringWeatherResponse>
+  getWeatherForecast(lat: number, lon: number): Promise<WeatherForecastItem[]>
+}
+
+interface FixtureConditions {
+  id: number
+  main: string
+  description: string
+  icon: string
+}
+
+const CLEAR: FixtureConditions = { id: 800, main: 'Clear', description: 'clear sky', icon: '01' }
+const CLOUDS: FixtureConditions = { id: 802, main: 'Clouds', description: 'scattered clouds', icon: '03' }
+const RAIN: FixtureConditions = { id: 501, main: 'Rain', description: 'moderate rain', icon: '10' }
+const HEAVY_RAIN: FixtureConditions = { id: 502, main: 'Rain', description: 'heavy intensity rain', icon: '10' }
+
+/**
+ * Made-up but plausible weather in Agromonitoring's response shapes, for demos and for working
+ * without a network or API key. There is no randomness: a daily temperature cycle around a
+ * latitude-based mean, a wet spell on the second afternoon and a windy, dry last day, so every
+ * part of the weather dashboard has something to show.
+ */
+class WeatherFixtureProvider implements WeatherSource {
+  constructor(private now: () => Date = () => new Date()) {}
+
+  async getCurrentWeather(lat: number, lon: number): Promise<AgromonitoringWeatherResponse> {
+    return this.reading(lat, lon, this.now().getTime(), 0)
+  }
+
+  async getWeatherForecast(lat: number, lon: number): Promise<WeatherForecastItem[]> {
+    // Five days of 3-hourly periods starting at the next whole 3 hours, like the real forecast
+    const start = Math.ceil(this.now().getTime() / (3 * HOUR_MS)) * 3 * HOUR_MS
+    return Array.from({ length: 40 }, (_, index) => this.reading(lat, lon, start + index * 3 * HOUR_MS, index * 3))
+  }
+
+  private reading(lat: number, lon: number, time: number, hoursAhead: number): WeatherForecastItem {
+    // Local solar time, so afternoons are warm wherever the field is
+    const solarHour = (((new Date(time).getUTCHours() + lon / 15) % 24) + 24) % 24
+    const day = Math.floor(hoursAhead / 24)
+    const afternoon = solarHour >= 12 && solarHour < 18
+
+    const meanTemp = 30 - Math.max(0, Math.abs(lat) - 15) * 0.6
+    const temp = meanTemp + 6 * Math.sin(((solarHour - 9) / 24) * 2 * Math.PI) - (day === 1 && afternoon ? 5 : 0)
+    const wet = day === 1 && afternoon
+    const windy = day === 4
+    const conditions = wet ? (solarHour < 15 ? HEAVY_RAIN : RAIN) : solarHour >= 10 && solarHour < 16 ? CLOUDS : CLEAR
+    const night = solarHour < 6 || solarHour >= 18
+
+    return {
+      dt: Math.floor(time / 1000),
+      weather: [{ ...conditions, icon: `${conditions.icon}${night ? 'n' : 'd'}` }],
+      main: {
+        temp: round(temp),
+        feels_like: round(temp + (wet ? 0 : 2)),
+        temp_min: round(temp - 1),
+        temp_max: round(temp + 1),
+        pressure: wet ? 1002 : 1008,
+        humidity: Math.round(wet ? 92 : 70 - 20 * Math.sin(((solarHour - 9) / 24) * 2 * Math.PI))
+      },
+      wind: { speed: windy ? 12 : wet ? 8 : 3, deg: windy ? 270 : 225, gust: windy ? 16 : undefined },
+      clouds: { all: wet ? 95 : conditions === CLOUDS ? 40 : 5 },
+      pop: wet ? 0.9 : day === 1 && solarHour >= 9 ? 0.4 : 0,
+      rain: wet ? { '3h': solarHour < 15 ? 22 : 8 } : undefined
+    }
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+// Singleton instance
+let weatherFixtureProvider: WeatherFixtureProvider | null = null
+
+export function getWeatherFixtureProvider(): WeatherFixtureProvider {
+  if (!weatherFixtureProvider) {
+    weatherFixtureProvider = new WeatherFixtureProvider()
+  }
+  return weatherFixtureProvider
+}
+
+export { WeatherFixtureProvider }
+export type { WeatherSource }
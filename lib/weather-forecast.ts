@@ -0,0 +1,244 @@
+import type { WeatherForecastItem } from './agromonitoring-api'
+
+// The 5-day forecast comes as 3-hourly periods. Farmers plan by their own calendar day, so the
+// periods are grouped by the local date in the farmer's time zone, not by UTC date, and spread
+// out into an hourly series for anything that needs finer timing.
+
+// Used when the farmer's time zone is unknown or invalid
+export const DEFAULT_TIMEZONE = 'Asia/Kolkata'
+
+const HOUR_MS = 60 * 60 * 1000
+const PERIOD_HOURS = 3
+const PERIODS_PER_DAY = 24 / PERIOD_HOURS
+const MEASURABLE_RAIN_MM = 0.1
+// IMD "light rain"; a day with at least this much is described by its rain whatever the sky did
+const RAIN_DAY_MM = 2.5
+
+// Most to least significant for field work; breaks ties between equally common conditions
+const CONDITION_ORDER = ['Thunderstorm', 'Snow', 'Rain', 'Drizzle', 'Squall', 'Dust', 'Sand', 'Haze', 'Smoke', 'Fog', 'Mist', 'Clouds', 'Clear']
+const WET_CONDITIONS = ['Thunderstorm', 'Snow', 'Rain', 'Drizzle']
+
+interface ForecastDay {
+  date: string // YYYY-MM-DD in the farmer's time zone
+  high: number // Celsius
+  low: number
+  precipitation: number // mm, total over the day
+  rainProbability: number // %, see dayRainProbability
+  maxWindSpeed: number // km/h, strongest sustained wind of the day
+  maxWindGust: number | null // km/h, when the provider reports gusts
+  humidity: number // %, mean
+  condition: string // dominant condition, e.g. "Rain"
+  description: string // e.g. "moderate rain"
+  icon: string // OpenWeather day icon code, e.g. "10d"
+  partial: boolean // fewer than 24 hours of the day are in the forecast (today, and the last day)
+}
+
+interface ForecastHour {
+  time: string // ISO timestamp of the start of the hour
+  localDate: string // YYYY-MM-DD in the farmer's time zone
+  localHour: number // 0-23 in the farmer's time zone
+  temperature: number // Celsius
+  humidity: number // %
+  windSpeed: number // km/h
+  windGust: number | null // km/h
+  windDirection: number // degrees the wind blows from
+  cloudCover: number // %
+  precipitation: number // mm in this hour
+  rainProbability: number // %
+  description: string
+  icon: string
+  interpolated: boolean // between two forecast periods rather than at one
+}
+
+interface LocalForecast {
+  timezone: string
+  days: ForecastDay[]
+  hourly: ForecastHour[]
+}
+
+/**
+ * Whether the string is an IANA time zone the runtime knows, e.g. "Asia/Kolkata"
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * The farmer's time zone if it is known and valid, otherwise DEFAULT_TIMEZONE
+ */
+export function forecastTimezone(timezone: string | null | undefined): string {
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE
+}
+
+/**
+ * Local date and hour of a timestamp (ms) in the given time zone
+ */
+export function localClock(timezone: string): (time: number) => { date: string; hour: number } {
+  const format = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23'
+  })
+
+  return (time) => {
+    const parts = Object.fromEntries(format.formatToParts(new Date(time)).map((part) => [part.type, part.value]))
+    return { date: `${parts.year}-${parts.month}-${parts.day}`, hour: parseInt(parts.hour) }
+  }
+}
+
+function periodRain(item: WeatherForecastItem): number {
+  return item.rain?.['3h'] || item.snow?.['3h'] || 0
+}
+
+function round(value: number, decimals = 0): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+function conditionRank(condition: string): number {
+  const index = CONDITION_ORDER.indexOf(condition)
+  return index === -1 ? CONDITION_ORDER.length : index
+}
+
+/**
+ * The provider's probability of precipitation (the highest period of the day) when it sends one;
+ * otherwise the share of the day's periods with measurable rain forecast
+ */
+function dayRainProbability(periods: WeatherForecastItem[]): number {
+  const pops = periods.map((item) => item.pop).filter((pop): pop is number => typeof pop === 'number')
+  if (pops.length > 0) {
+    return Math.round(Math.max(...pops) * 100)
+  }
+  return Math.round((periods.filter((item) => periodRain(item) >= MEASURABLE_RAIN_MM).length / periods.length) * 100)
+}
+
+/**
+ * The condition seen in most daylight periods, more significant conditions winning ties. A day
+ * with real rain is a rain day even if most of it was cloudy
+ */
+function dominantPeriod(periods: Array<{ item: WeatherForecastItem; hour: number }>, precipitation: number): WeatherForecastItem {
+  const daylight = periods.filter(({ hour }) => hour >= 6 && hour < 18)
+  const counted = (daylight.length > 0 ? daylight : periods).map(({ item }) => item)
+
+  const counts = new Map<string, number>()
+  for (const item of counted) {
+    const condition = item.weather[0]?.main || 'Clear'
+    counts.set(condition, (counts.get(condition) || 0) + 1)
+  }
+  let condition = Array.from(counts.entries()).sort(
+    ([a, countA], [b, countB]) => countB - countA || conditionRank(a) - conditionRank(b)
+  )[0][0]
+
+  const items = periods.map(({ item }) => item)
+  if (precipitation >= RAIN_DAY_MM && !WET_CONDITIONS.includes(condition)) {
+    const wet = items.filter((item) => WET_CONDITIONS.includes(item.weather[0]?.main || ''))
+    if (wet.length > 0) {
+      condition = wet.sort((a, b) => conditionRank(a.weather[0].main) - conditionRank(b.weather[0].main))[0].weather[0].main
+    }
+  }
+
+  // The wettest period with that condition, so "heavy rain" shows when part of the day has it
+  return items
+    .filter((item) => (item.weather[0]?.main || 'Clear') === condition)
+    .reduce((best, item) => (periodRain(item) > periodRain(best) ? item : best))
+}
+
+/**
+ * One entry per local calendar day, oldest first
+ */
+function toForecastDays(items: WeatherForecastItem[], clock: ReturnType<typeof localClock>): ForecastDay[] {
+  const byDay = new Map<string, Array<{ item: WeatherForecastItem; hour: number }>>()
+  for (const item of items) {
+    const { date, hour } = clock(item.dt * 1000)
+    byDay.set(date, [...(byDay.get(date) || []), { item, hour }])
+  }
+
+  return Array.from(byDay.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, periods]) => {
+      const readings = periods.map(({ item }) => item)
+      const precipitation = round(readings.reduce((sum, item) => sum + periodRain(item), 0), 1)
+      const gusts = readings.map((item) => item.wind.gust).filter((gust): gust is number => typeof gust === 'number')
+      const dominant = dominantPeriod(periods, precipitation)
+
+      return {
+        date,
+        high: Math.round(Math.max(...readings.map((item) => item.main.temp_max ?? item.main.temp))),
+        low: Math.round(Math.min(...readings.map((item) => item.main.temp_min ?? item.main.temp))),
+        precipitation,
+        rainProbability: dayRainProbability(readings),
+        maxWindSpeed: Math.round(Math.max(...readings.map((item) => item.wind.speed)) * 3.6), // m/s to km/h
+        maxWindGust: gusts.length > 0 ? Math.round(Math.max(...gusts) * 3.6) : null,
+        humidity: Math.round(readings.reduce((sum, item) => sum + item.main.humidity, 0) / readings.length),
+        condition: dominant.weather[0]?.main || 'Clear',
+        description: dominant.weather[0]?.description || 'Unknown',
+        icon: (dominant.weather[0]?.icon || '01d').replace(/n$/, 'd'),
+        partial: readings.length < PERIODS_PER_DAY
+      }
+    })
+}
+
+/**
+ * Each 3-hour period spread over its hours: temperature, humidity, wind and cloud are interpolated
+ * towards the next period, rain is shared evenly across the three hours
+ */
+function toForecastHours(items: WeatherForecastItem[], clock: ReturnType<typeof localClock>): ForecastHour[] {
+  const sorted = [...items].sort((a, b) => a.dt - b.dt)
+
+  return sorted.flatMap((item, index) => {
+    const next = sorted[index + 1]
+    const rain = periodRain(item)
+
+    return Array.from({ length: PERIOD_HOURS }, (_, offset) => {
+      const time = item.dt * 1000 + offset * HOUR_MS
+      const share = next ? offset / PERIOD_HOURS : 0
+      const lerp = (from: number, to: number | undefined) => from + ((to ?? from) - from) * share
+      const gust = item.wind.gust !== undefined ? lerp(item.wind.gust, next?.wind.gust) : null
+      const { date, hour } = clock(time)
+
+      return {
+        time: new Date(time).toISOString(),
+        localDate: date,
+        localHour: hour,
+        temperature: round(lerp(item.main.temp, next?.main.temp), 1),
+        humidity: Math.round(lerp(item.main.humidity, next?.main.humidity)),
+        windSpeed: Math.round(lerp(item.wind.speed, next?.wind.speed) * 3.6), // m/s to km/h
+        windGust: gust !== null ? Math.round(gust * 3.6) : null,
+        windDirection: item.wind.deg,
+        cloudCover: Math.round(lerp(item.clouds.all, next?.clouds.all)),
+        precipitation: round(rain / PERIOD_HOURS, 2),
+        rainProbability: typeof item.pop === 'number' ? Math.round(item.pop * 100) : rain >= MEASURABLE_RAIN_MM ? 100 : 0,
+        description: item.weather[0]?.description || 'Unknown',
+        icon: item.weather[0]?.icon || '01d',
+        interpolated: offset > 0
+      }
+    })
+  })
+}
+
+/**
+ * Daily summaries by the farmer's calendar day plus the hourly series, from the raw 3-hourly forecast
+ */
+export function buildForecast(items: WeatherForecastItem[], timezone?: string | null): LocalForecast {
+  const zone = forecastTimezone(timezone)
+  if (items.length === 0) {
+    return { timezone: zone, days: [], hourly: [] }
+  }
+
+  const clock = localClock(zone)
+  return {
+    timezone: zone,
+    days: toForecastDays(items, clock),
+    hourly: toForecastHours(items, clock)
+  }
+}
+
+export type { ForecastDay, ForecastHour, LocalForecast }
@@ -0,0 +1,335 @@
+import type { Field, HourlyWeather, ScheduledJob, WeatherData } from '@prisma/client'
+import { prisma } from './prisma'
+import { getAgromonitoringAPI, type WeatherForecastItem, type WeatherHistoryItem } from './agromonitoring-api'
+import { getJobQueue } from './job-queue'
+import { parseFieldRing, ringCentroid } from './polygon-sync'
+
+export const WEATHER_SYNC_JOB = 'weather_sync'
+
+const WEATHER_SOURCE = 'agromonitoring'
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_HISTORY_DAYS = 365
+const HISTORY_CHUNK_DAYS = 30 // keep each history request to a month of hourly readings
+const HOURLY_HISTORY_DAYS = 21 // hourly readings are kept this long, for the disease risk models
+const FORECAST_CACHE_TTL_MS = 3 * 60 * 60 * 1000 // the provider refreshes forecasts a few times a day
+
+/**
+ * One day of weather, observed or forecast. Temperatures in Celsius.
+ */
+interface DailyWeather {
+  date: string // YYYY-MM-DD (UTC)
+  tempMin: number
+  tempMax: number
+  temperature: number // mean of the readings
+  humidity: number
+  rainfall: number // mm
+  windSpeed: number // km/h
+  pressure?: number // hPa at ground level, when the source reports it
+  cloudCover?: number // %, when the source reports it
+}
+
+interface WeatherSyncResult {
+  fieldId: string
+  stored: number
+}
+
+/**
+ * Start of the UTC day for a date
+ */
+function startOfUTCDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+function readingRain(reading: WeatherForecastItem | WeatherHistoryItem): number {
+  const rain = reading.rain as { '1h'?: number; '3h'?: number } | undefined
+  return rain?.['1h'] ?? rain?.['3h'] ?? 0
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+/**
+ * Collapse hourly or 3-hourly readings into one entry per UTC day, oldest first
+ */
+export function toDailyWeather(items: Array<WeatherForecastItem | WeatherHistoryItem>): DailyWeather[] {
+  const byDay = new Map<string, Array<WeatherForecastItem | WeatherHistoryItem>>()
+  for (const item of items) {
+    const day = new Date(item.dt * 1000).toISOString().split('T')[0]
+    byDay.set(day, [...(byDay.get(day) || []), item])
+  }
+
+  return Array.from(byDay.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, readings]) => ({
+      date,
+      tempMin: Math.min(...readings.map((reading) => reading.main.temp_min ?? reading.main.temp)),
+      tempMax: Math.max(...readings.map((reading) => reading.main.temp_max ?? reading.main.temp)),
+      temperature: Math.round(mean(readings.map((reading) => reading.main.temp)) * 10) / 10,
+      humidity: Math.round(mean(readings.map((reading) => reading.main.humidity))),
+      rainfall: Math.round(readings.reduce((sum, reading) => sum + readingRain(reading), 0) * 10) / 10,
+      windSpeed: Math.round(mean(readings.map((reading) => reading.wind.speed)) * 3.6 * 10) / 10, // m/s to km/h
+      pressure: Math.round(mean(readings.map((reading) => reading.main.grnd_level ?? reading.main.pressure))),
+      cloudCover: Math.round(mean(readings.map((reading) => reading.clouds.all)))
+    }))
+}
+
+/**
+ * Convert a stored row back to a daily entry
+ */
+function fromWeatherData(row: WeatherData): DailyWeather | null {
+  if (row.tempMin === null || row.tempMax === null) return null
+  return {
+    date: row.date.toISOString().split('T')[0],
+    tempMin: row.tempMin,
+    tempMax: row.tempMax,
+    temperature: row.temperature ?? (row.tempMin + row.tempMax) / 2,
+    humidity: row.humidity ?? 0,
+    rainfall: row.rainfall ?? 0,
+    windSpeed: row.windSpeed ?? 0
+  }
+}
+
+/**
+ * Centre of a field's boundary, used as the weather location
+ */
+export function fieldLocation(field: Pick<Field, 'coordinates'>): { lat: number; lng: number } | null {
+  const ring = parseFieldRing(field.coordinates)
+  return ring && ring.length > 0 ? ringCentroid(ring) : null
+}
+
+class WeatherIngestionService {
+  private forecastCache = new Map<string, { fetchedAt: number; items: WeatherForecastItem[] }>()
+
+  /**
+   * Store daily weather for a field since the sowing date of its active season (or the
+   * last stored day), and hourly weather for the last few weeks. Only complete days are
+   * stored, so today is fetched tomorrow.
+   */
+  async syncField(fieldId: string): Promise<WeatherSyncResult> {
+    const field = await prisma.field.findUnique({
+      where: { id: fieldId },
+      include: { cropSeasons: { where: { actualHarvestDate: null }, orderBy: { sowingDate: 'desc' }, take: 1 } }
+    })
+    if (!field) {
+      throw new Error(`Field ${fieldId} not found`)
+    }
+
+    const location = fieldLocation(field)
+    if (!location) {
+      console.warn(`[Weather Ingestion] Field ${field.name} (${fieldId}) has no usable boundary`)
+      return { fieldId, stored: 0 }
+    }
+
+    const [latest, latestHour] = await Promise.all([
+      prisma.weatherData.findFirst({
+        where: { fieldId, source: WEATHER_SOURCE },
+        orderBy: { date: 'desc' }
+      }),
+      prisma.hourlyWeather.findFirst({
+        where: { fieldId, source: WEATHER_SOURCE },
+        orderBy: { time: 'desc' },
+        select: { time: true }
+      })
+    ])
+
+    const endDate = startOfUTCDay(new Date())
+    const earliest = new Date(endDate.getTime() - MAX_HISTORY_DAYS * DAY_MS)
+    const hourlyEarliest = new Date(endDate.getTime() - HOURLY_HISTORY_DAYS * DAY_MS)
+    const season = field.cropSeasons[0]
+    let startDate = latest
+      ? new Date(latest.date.getTime() + DAY_MS)
+      : startOfUTCDay(season ? season.sowingDate : new Date(endDate.getTime() - HISTORY_CHUNK_DAYS * DAY_MS))
+    // Fields synced before hourly readings were kept go back far enough to fill them in
+    const hourlyStart = latestHour && latestHour.time >= hourlyEarliest
+      ? new Date(startOfUTCDay(latestHour.time).getTime() + DAY_MS)
+      : hourlyEarliest
+    if (hourlyStart < startDate) startDate = hourlyStart
+    if (startDate < earliest) startDate = earliest
+
+    if (startDate >= endDate) {
+      return { fieldId, stored: 0 }
+    }
+
+    const agroAPI = getAgromonitoringAPI()
+    const items: WeatherHistoryItem[] = []
+    for (let chunkStart = startDate; chunkStart < endDate; chunkStart = new Date(chunkStart.getTime() + HISTORY_CHUNK_DAYS * DAY_MS)) {
+      const chunkEnd = new Date(Math.min(chunkStart.getTime() + HISTORY_CHUNK_DAYS * DAY_MS, endDate.getTime()))
+      items.push(...await agroAPI.getWeatherHistory(
+        location.lat,
+        location.lng,
+        agroAPI.dateToUnixTimestamp(chunkStart),
+        agroAPI.dateToUnixTimestamp(chunkEnd) - 1
+      ))
+    }
+
+    const days = toDailyWeather(items).filter((day) => new Date(day.date) < endDate)
+    const locationKey = `${location.lat.toFixed(4)},${location.lng.toFixed(4)}`
+
+    for (const day of days) {
+      const date = new Date(day.date)
+      const values = {
+        location: locationKey,
+        temperature: day.temperature,
+        tempMin: day.tempMin,
+        tempMax: day.tempMax,
+        humidity: day.humidity,
+        rainfall: day.rainfall,
+        windSpeed: day.windSpeed
+      }
+
+      await prisma.weatherData.upsert({
+        where: { fieldId_date_source: { fieldId, date, source: WEATHER_SOURCE } },
+        update: values,
+        create: { ...values, fieldId, date, source: WEATHER_SOURCE }
+      })
+    }
+
+    const hours = items.filter((item) => item.dt * 1000 >= hourlyEarliest.getTime() && item.dt * 1000 < endDate.getTime())
+    if (hours.length > 0) {
+      await prisma.hourlyWeather.createMany({
+        data: hours.map((item) => ({
+          fieldId,
+          time: new Date(item.dt * 1000),
+          temperature: item.main.temp,
+          humidity: item.main.humidity,
+          rainfall: readingRain(item),
+          windSpeed: Math.round(item.wind.speed * 3.6 * 10) / 10, // m/s to km/h
+          cloudCover: item.clouds.all,
+          source: WEATHER_SOURCE
+        })),
+        skipDuplicates: true
+      })
+    }
+    await prisma.hourlyWeather.deleteMany({ where: { fieldId, time: { lt: hourlyEarliest } } })
+
+    console.log(`[Weather Ingestion] Stored ${days.length} days and ${hours.length} hours for field ${field.name} (${fieldId})`)
+    return { fieldId, stored: days.length }
+  }
+
+  /**
+   * Sync a field unless yesterday is already stored. Failures are logged, not thrown,
+   * so callers can work with whatever history is already stored.
+   */
+  async syncFieldIfStale(fieldId: string): Promise<void> {
+    const yesterday = new Date(startOfUTCDay(new Date()).getTime() - DAY_MS)
+    const [latest, latestHour] = await Promise.all([
+      prisma.weatherData.findFirst({
+        where: { fieldId, source: WEATHER_SOURCE },
+        orderBy: { date: 'desc' },
+        select: { date: true }
+      }),
+      prisma.hourlyWeather.findFirst({
+        where: { fieldId, source: WEATHER_SOURCE },
+        orderBy: { time: 'desc' },
+        select: { time: true }
+      })
+    ])
+    if (latest && latest.date >= yesterday && latestHour && latestHour.time >= yesterday) return
+
+    try {
+      await this.syncField(fieldId)
+    } catch (error) {
+      console.warn(`[Weather Ingestion] Sync failed for field ${fieldId}, using stored history:`, error)
+    }
+  }
+
+  /**
+   * Stored daily weather for a field from the given date, oldest first
+   */
+  async getDailyWeather(fieldId: string, since: Date): Promise<DailyWeather[]> {
+    const rows = await prisma.weatherData.findMany({
+      where: { fieldId, source: WEATHER_SOURCE, date: { gte: startOfUTCDay(since) } },
+      orderBy: { date: 'asc' }
+    })
+    return rows.flatMap((row) => {
+      const day = fromWeatherData(row)
+      return day ? [day] : []
+    })
+  }
+
+  /**
+   * Stored hourly weather for a field from the given time, oldest first. Only the last
+   * HOURLY_HISTORY_DAYS are kept.
+   */
+  async getHourlyWeather(fieldId: string, since: Date): Promise<HourlyWeather[]> {
+    return prisma.hourlyWeather.findMany({
+      where: { fieldId, source: WEATHER_SOURCE, time: { gte: since } },
+      orderBy: { time: 'asc' }
+    })
+  }
+
+  /**
+   * Raw 3-hourly forecast for a field's location. Cached per location for a few hours
+   * because every field on a farm shares the same forecast grid cell.
+   */
+  async getForecastItems(field: Pick<Field, 'coordinates'>): Promise<WeatherForecastItem[]> {
+    const location = fieldLocation(field)
+    if (!location) return []
+
+    const key = `${location.lat.toFixed(2)},${location.lng.toFixed(2)}`
+    const cached = this.forecastCache.get(key)
+    if (cached && Date.now() - cached.fetchedAt < FORECAST_CACHE_TTL_MS) {
+      return cached.items
+    }
+
+    const items = await getAgromonitoringAPI().getWeatherForecast(location.lat, location.lng)
+    this.forecastCache.set(key, { fetchedAt: Date.now(), items })
+    return items
+  }
+
+  /**
+   * Forecast for a field's location grouped by UTC day
+   */
+  async getForecastDays(field: Pick<Field, 'coordinates'>): Promise<DailyWeather[]> {
+    return toDailyWeather(await this.getForecastItems(field))
+  }
+
+  /**
+   * Queue one weather sync per field with a crop in the ground; safe to call on every scheduler tick
+   */
+  async scheduleDailySync(now: Date = new Date()): Promise<number> {
+    const fields = await prisma.field.findMany({
+      where: { cropSeasons: { some: { actualHarvestDate: null } } },
+      select: { id: true }
+    })
+    const day = now.toISOString().split('T')[0]
+    const jobQueue = getJobQueue()
+    let queued = 0
+
+    for (const field of fields) {
+      const created = await jobQueue.enqueue(
+        WEATHER_SYNC_JOB,
+        { fieldId: field.id },
+        { dedupeKey: `${WEATHER_SYNC_JOB}:${field.id}:${day}`, maxAttempts: 3 }
+      )
+      if (created) queued++
+    }
+
+    return queued
+  }
+}
+
+// Singleton instance
+let weatherIngestionService: WeatherIngestionService | null = null
+
+export function getWeatherIngestionService(): WeatherIngestionService {
+  if (!weatherIngestionService) {
+    weatherIngestionService = new WeatherIngestionService()
+  }
+  return weatherIngestionService
+}
+
+/**
+ * Job handler for WEATHER_SYNC_JOB
+ */
+export async function runWeatherSyncJob(job: ScheduledJob): Promise<void> {
+  const { fieldId } = job.payload as { fieldId: string }
+
+  const field = await prisma.field.findUnique({ where: { id: fieldId }, select: { id: true } })
+  if (!field) return // deleted since the job was queued
+
+  await getWeatherIngestionService().syncField(fieldId)
+}
+
+export type { DailyWeather, WeatherSyncResult }
@@ -0,0 +1,243 @@
+import { prisma } from './prisma'
+import {
+  getAgromonitoringAPI,
+  type AgromonitoringWeatherResponse,
+  type WeatherForecastItem
+} from './agromonitoring-api'
+import { getWeatherFixtureProvider, type WeatherSource } from './weather-fixtures'
+import { buildForecast, type ForecastDay, type ForecastHour } from './weather-forecast'
+import { fieldLocation } from './weather-ingestion'
+import { evaluateWeatherRules, getWeatherAlertService, type DetectedWeatherAlert } from './weather-alerts'
+
+// Current conditions, the next two days hour by hour and the daily outlook for a farmer's field,
+// with alerts from the weather alert rules for the crop in the field. Served from Agromonitoring, or from the fixture
+// provider for demos and when working offline in development.
+
+const HOURLY_HOURS = 48
+const REPORT_CACHE_TTL_MS = 10 * 60 * 1000
+
+type WeatherReportSource = 'agromonitoring' | 'fixture'
+
+interface WeatherReading {
+  temperature: number // Celsius
+  feelsLike: number
+  humidity: number // %
+  windSpeed: number // km/h
+  windDirection: string // compass point the wind blows from, e.g. "NW"
+  pressure: number // hPa
+  cloudCover: number // %
+  precipitation: number // mm over the reading's period
+  description: string
+  icon: string // OpenWeather icon code, e.g. "10d"
+}
+
+interface CurrentConditions extends WeatherReading {
+  observedAt: string // ISO timestamp
+  uvIndex: number | null // only for fields with an Agromonitoring polygon
+}
+
+interface WeatherAlert {
+  type: string // weather alert rule id, e.g. "frost"
+  severity: 'warning' | 'critical'
+  title: string
+  description: string
+  startsAt: string // ISO timestamps
+  endsAt: string
+}
+
+interface WeatherReport {
+  location: { lat: number; lng: number; name: string }
+  source: WeatherReportSource
+  generatedAt: string
+  current: CurrentConditions | null
+  hourly: ForecastHour[] // next 48 hours
+  daily: ForecastDay[] // by the farmer's calendar day
+  timezone: string
+  alerts: WeatherAlert[]
+}
+
+/**
+ * Thrown when no report can be made; status is the HTTP status to return
+ */
+class WeatherReportError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400
+  ) {
+    super(message)
+    this.name = 'WeatherReportError'
+  }
+}
+
+const COMPASS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW']
+
+function compassPoint(degrees: number): string {
+  return COMPASS[Math.round((((degrees % 360) + 360) % 360) / 22.5) % 16]
+}
+
+function toReading(item: AgromonitoringWeatherResponse | WeatherForecastItem): WeatherReading {
+  return {
+    temperature: Math.round(item.main.temp),
+    feelsLike: Math.round(item.main.feels_like),
+    humidity: item.main.humidity,
+    windSpeed: Math.round(item.wind.speed * 3.6), // m/s to km/h
+    windDirection: compassPoint(item.wind.deg),
+    pressure: item.main.pressure,
+    cloudCover: item.clouds.all,
+    precipitation: item.rain?.['3h'] || item.snow?.['3h'] || 0,
+    description: item.weather[0]?.description || 'Unknown',
+    icon: item.weather[0]?.icon || '01d'
+  }
+}
+
+function toWeatherAlert(alert: DetectedWeatherAlert): WeatherAlert {
+  return {
+    type: alert.type,
+    severity: alert.severity,
+    title: alert.title,
+    description: alert.message,
+    startsAt: alert.startsAt.toISOString(),
+    endsAt: alert.endsAt.toISOString()
+  }
+}
+
+class WeatherReportService {
+  private cache = new Map<string, { fetchedAt: number; report: WeatherReport }>()
+
+  /**
+   * Weather for one of the farmer's fields, or for the first field (or profile location) when
+   * no field is given
+   */
+  async getReport(userId: string, fieldId?: string): Promise<WeatherReport> {
+    const place = await this.resolveLocation(userId, fieldId)
+    // Per field, since alert thresholds depend on the field's crop
+    const key = `${place.lat.toFixed(2)},${place.lng.toFixed(2)},${place.field?.id || ''},${place.polygonId || ''},${place.timezone || ''}`
+    const cached = this.cache.get(key)
+    if (cached && Date.now() - cached.fetchedAt < REPORT_CACHE_TTL_MS) {
+      return { ...cached.report, location: { lat: place.lat, lng: place.lng, name: place.name } }
+    }
+
+    const { source, current, forecast } = await this.fetchWeather(place.lat, place.lng)
+
+    let uvIndex: number | null = null
+    if (source === 'agromonitoring' && place.polygonId) {
+      uvIndex = await getAgromonitoringAPI()
+        .getCurrentUVI(place.polygonId)
+        .then((uvi) => Math.round(uvi.uvi * 10) / 10)
+        .catch(() => null)
+    }
+
+    const observed = current || forecast[0]
+    const localForecast = buildForecast(forecast, place.timezone)
+    const { days: daily, timezone } = localForecast
+    const hourly = localForecast.hourly.slice(0, HOURLY_HOURS)
+
+    const now = new Date()
+    const detected = place.field
+      ? await getWeatherAlertService().detectForField(place.field, localForecast, now)
+      : evaluateWeatherRules({ now, forecast: localForecast, recentDays: [], crop: null })
+
+    const report: WeatherReport = {
+      location: { lat: place.lat, lng: place.lng, name: place.name },
+      source,
+      generatedAt: new Date().toISOString(),
+      current: observed ? { observedAt: new Date(observed.dt * 1000).toISOString(), ...toReading(observed), uvIndex } : null,
+      hourly,
+      daily,
+      timezone,
+      alerts: detected.map(toWeatherAlert)
+    }
+    this.cache.set(key, { fetchedAt: Date.now(), report })
+    return report
+  }
+
+  private async resolveLocation(userId: string, fieldId?: string) {
+    const field = await prisma.field.findFirst({
+      where: { farm: { userId }, ...(fieldId ? { id: fieldId } : {}) },
+      orderBy: { createdAt: 'asc' }
+    })
+    if (fieldId && !field) {
+      throw new WeatherReportError('Field not found', 404)
+    }
+
+    // Days are grouped by the farmer's Telegram time zone when they have set one
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { location: true, telegramSubscription: { select: { timezone: true } } }
+    })
+    const timezone = user?.telegramSubscription?.timezone || null
+
+    const location = field ? fieldLocation(field) : null
+    if (field && location) {
+      return { ...location, name: field.name, polygonId: field.polygonId, timezone, field }
+    }
+
+    // Location format: "123456 (lat,lng)", as stored at onboarding
+    const match = user?.location?.match(/\((-?\d+\.?\d*),(-?\d+\.?\d*)\)/)
+    if (match) {
+      return { lat: parseFloat(match[1]), lng: parseFloat(match[2]), name: 'Your location', polygonId: null, timezone, field: null }
+    }
+
+    throw new WeatherReportError('Add a field or set your location to see the weather', 404)
+  }
+
+  /**
+   * Agromonitoring unless WEATHER_SOURCE=fixture. Outside production, an unreachable or
+   * unconfigured Agromonitoring falls back to the fixture provider so the dashboard keeps working.
+   */
+  private async fetchWeather(lat: number, lng: number): Promise<{
+    source: WeatherReportSource
+    current: AgromonitoringWeatherResponse | null
+    forecast: WeatherForecastItem[]
+  }> {
+    if (process.env.WEATHER_SOURCE === 'fixture') {
+      return this.fetchFrom('fixture', getWeatherFixtureProvider(), lat, lng)
+    }
+
+    try {
+      return await this.fetchFrom('agromonitoring', getAgromonitoringAPI(), lat, lng)
+    } catch (error) {
+      if (process.env.NODE_ENV === 'production') {
+        console.error('[Weather Report] Agromonitoring weather failed:', error)
+        throw new WeatherReportError('The weather service is not available right now', 503)
+      }
+      console.warn('[Weather Report] Agromonitoring weather failed, using fixture data:', error instanceof Error ? error.message : error)
+      return this.fetchFrom('fixture', getWeatherFixtureProvider(), lat, lng)
+    }
+  }
+
+  private async fetchFrom(source: WeatherReportSource, provider: WeatherSource, lat: number, lng: number) {
+    const [current, forecast] = await Promise.allSettled([
+      provider.getCurrentWeather(lat, lng),
+      provider.getWeatherForecast(lat, lng)
+    ])
+    if (current.status === 'rejected' && forecast.status === 'rejected') {
+      throw forecast.reason
+    }
+
+    return {
+      source,
+      current: current.status === 'fulfilled' ? current.value : null,
+      forecast: forecast.status === 'fulfilled' ? forecast.value : []
+    }
+  }
+}
+
+// Singleton instance
+let weatherReportService: WeatherReportService | null = null
+
+export function getWeatherReportService(): WeatherReportService {
+  if (!weatherReportService) {
+    weatherReportService = new WeatherReportService()
+  }
+  return weatherReportService
+}
+
+export { WeatherReportError }
+export type {
+  WeatherReportSource,
+  WeatherReading,
+  CurrentConditions,
+  WeatherAlert,
+  WeatherReport
+}
@@ -0,0 +1,187 @@
+import { deflateRawSync, inflateRawSync } from 'zlib'
+
+// Just enough of the ZIP format to bundle generated files (e.g. the parts of a shapefile)
+// and to unpack uploaded ones (KMZ, zipped shapefiles)
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array | string
+}
+
+// Limits on what an uploaded archive may unpack to (zip bombs)
+const MAX_ENTRY_BYTES = 50 * 1024 * 1024
+const MAX_TOTAL_BYTES = 100 * 1024 * 1024
+const MAX_ENTRIES = 1000
+
+let crcTable: Uint32Array | null = null
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time fields
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+/**
+ * Build a ZIP archive with every entry deflated
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Buffer {
+  const { time, date } = dosDateTime(modified)
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8')
+    const data = typeof entry.data === 'string' ? Buffer.from(entry.data, 'utf8') : Buffer.from(entry.data)
+    const compressed = deflateRawSync(data)
+    const crc = crc32(data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4) // version needed
+    local.writeUInt16LE(0x0800, 6) // UTF-8 names
+    local.writeUInt16LE(8, 8) // deflate
+    local.writeUInt16LE(time, 10)
+    local.writeUInt16LE(date, 12)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4) // version made by
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt16LE(time, 12)
+    central.writeUInt16LE(date, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(compressed.length, 20)
+    central.writeUInt32LE(data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    localParts.push(local, name, compressed)
+    centralParts.push(central, name)
+    offset += local.length + name.length + compressed.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
+
+/**
+ * Thrown when an uploaded archive cannot be unpacked
+ */
+class ZipError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ZipError'
+  }
+}
+
+/**
+ * Thrown when an uploaded archive is over the entry count or unpacked size limits
+ */
+class ZipLimitError extends ZipError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ZipLimitError'
+  }
+}
+
+/**
+ * Unpack a ZIP archive (stored or deflated entries) into name -> contents; folders are skipped.
+ * Throws a ZipLimitError when the archive has too many entries or unpacks to more than MAX_TOTAL_BYTES.
+ */
+export function readZip(buffer: Buffer): Map<string, Buffer> {
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+  let end = -1
+  for (let at = buffer.length - 22; at >= Math.max(0, buffer.length - 22 - 0xffff); at--) {
+    if (buffer.readUInt32LE(at) === 0x06054b50) {
+      end = at
+      break
+    }
+  }
+  if (end === -1) {
+    throw new ZipError('Not a ZIP archive')
+  }
+
+  const files = new Map<string, Buffer>()
+  const count = buffer.readUInt16LE(end + 10)
+  if (count > MAX_ENTRIES) {
+    throw new ZipLimitError(`The ZIP file has more than ${MAX_ENTRIES} entries`)
+  }
+  const tooLarge = () => new ZipLimitError(`The ZIP file unpacks to more than ${MAX_TOTAL_BYTES / 1024 / 1024} MB`)
+  let at = buffer.readUInt32LE(end + 16)
+  let total = 0
+
+  for (let i = 0; i < count; i++) {
+    if (at + 46 > buffer.length || buffer.readUInt32LE(at) !== 0x02014b50) {
+      throw new ZipError('Corrupt ZIP central directory')
+    }
+    const method = buffer.readUInt16LE(at + 10)
+    const compressedSize = buffer.readUInt32LE(at + 20)
+    const nameLength = buffer.readUInt16LE(at + 28)
+    const extraLength = buffer.readUInt16LE(at + 30)
+    const commentLength = buffer.readUInt16LE(at + 32)
+    const localOffset = buffer.readUInt32LE(at + 42)
+    const name = buffer.toString('utf8', at + 46, at + 46 + nameLength)
+    at += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue
+
+    // Local headers can carry a different extra field than the central directory
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28)
+    const data = buffer.subarray(dataStart, dataStart + compressedSize)
+    const remaining = MAX_TOTAL_BYTES - total
+    let contents: Buffer
+    if (method === 0) {
+      if (data.length > remaining) throw tooLarge()
+      contents = Buffer.from(data)
+    } else if (method === 8) {
+      if (remaining <= 0) throw tooLarge()
+      try {
+        contents = inflateRawSync(data, { maxOutputLength: Math.min(MAX_ENTRY_BYTES, remaining) })
+      } catch (error) {
+        // Stopped by what's left of the archive's budget rather than the per-entry limit
+        if (error instanceof RangeError && remaining < MAX_ENTRY_BYTES) throw tooLarge()
+        throw new ZipError(`Could not unpack ${name}`)
+      }
+    } else {
+      throw new ZipError(`Unsupported compression in ${name}`)
+    }
+    total += contents.length
+    files.set(name, contents)
+  }
+
+  return files
+}
+
+export { ZipError, ZipLimitError }
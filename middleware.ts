@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SESSION_COOKIE_NAME } from '@/lib/session-cookie'
+
+// API routes that can be called without logging in
+const PUBLIC_API_PREFIXES = [
+  '/api/auth/',
+  '/api/mandi-prices',
+  '/api/vendor-bids',
+  '/api/telegram/weather-updates', // called by the scheduler, verified with CRON_SECRET
+  '/api/telegram/webhook', // called by Telegram, verified with the webhook secret
+]
+
+/**
+ * Cheap first gate: reject requests without a session cookie before they hit a route.
+ * Routes still resolve the session against the database with getSessionUser(), since
+ * Prisma is not available in the edge runtime this runs in.
+ */
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl
+  const hasSession = !!request.cookies.get(SESSION_COOKIE_NAME)?.value
+
+  if (pathname.startsWith('/api/')) {
+    if (hasSession || PUBLIC_API_PREFIXES.some((prefix) => pathname.startsWith(prefix))) {
+      return NextResponse.next()
+    }
+
+    return NextResponse.json(
+      { error: 'Please log in to continue' },
+      { status: 401 }
+    )
+  }
+
+  if (pathname.startsWith('/dashboard') && !hasSession) {
+    return NextResponse.redirect(new URL('/', request.url))
+  }
+
+  return NextResponse.next()
+}
+
+export const config = {
+  matcher: ['/api/:path*', '/dashboard/:path*']
+}
@@ -0,0 +1,87 @@
+-- CreateTable
+CREATE TABLE "public"."sessions" (
+    "id" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "userAgent" TEXT,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."otp_challenges" (
+    "id" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "consumedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "otp_challenges_pkey" PRIMARY KEY ("id")
+);
+
+-- Normalize existing phones to E.164 the way lib/auth.ts normalizePhone does, so they match OTP logins:
+-- "+<10-15 digits>" with any spacing, bare 10-digit Indian numbers, "91XXXXXXXXXX" and "0XXXXXXXXXX"
+UPDATE "public"."users" SET "phone" = NULL WHERE btrim("phone") = '';
+
+UPDATE "public"."users" SET "phone" = CASE
+    WHEN btrim("phone") LIKE '+%' AND length(regexp_replace("phone", '[^0-9]', '', 'g')) BETWEEN 10 AND 15
+        THEN '+' || regexp_replace("phone", '[^0-9]', '', 'g')
+    WHEN regexp_replace("phone", '[^0-9]', '', 'g') ~ '^[0-9]{10}$'
+        THEN '+91' || regexp_replace("phone", '[^0-9]', '', 'g')
+    WHEN regexp_replace("phone", '[^0-9]', '', 'g') ~ '^91[0-9]{10}$'
+        THEN '+' || regexp_replace("phone", '[^0-9]', '', 'g')
+    WHEN regexp_replace("phone", '[^0-9]', '', 'g') ~ '^0[0-9]{10}$'
+        THEN '+91' || substr(regexp_replace("phone", '[^0-9]', '', 'g'), 2)
+    ELSE "phone"
+END
+WHERE "phone" IS NOT NULL;
+
+-- Several accounts on one number: the oldest keeps it, the others lose the phone (their data is untouched)
+-- and are reported so they can be merged by hand
+DO $$
+DECLARE
+    duplicate RECORD;
+BEGIN
+    FOR duplicate IN
+        SELECT "id", "phone" FROM (
+            SELECT "id", "phone", row_number() OVER (PARTITION BY "phone" ORDER BY "createdAt", "id") AS "rank"
+            FROM "public"."users"
+            WHERE "phone" IS NOT NULL
+        ) AS "ranked"
+        WHERE "rank" > 1
+    LOOP
+        RAISE NOTICE 'User % shares phone % with an older account; its phone was cleared', duplicate."id", duplicate."phone";
+        UPDATE "public"."users" SET "phone" = NULL WHERE "id" = duplicate."id";
+    END LOOP;
+END $$;
+
+-- Anything still not in E.164 can't be used for OTP login
+DO $$
+DECLARE
+    invalid RECORD;
+BEGIN
+    FOR invalid IN SELECT "id", "phone" FROM "public"."users" WHERE "phone" IS NOT NULL AND "phone" !~ '^\+[0-9]{10,15}$'
+    LOOP
+        RAISE NOTICE 'User % has a phone that is not a valid number: %', invalid."id", invalid."phone";
+    END LOOP;
+END $$;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_phone_key" ON "public"."users"("phone");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sessions_tokenHash_key" ON "public"."sessions"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "sessions_userId_idx" ON "public"."sessions"("userId");
+
+-- CreateIndex
+CREATE INDEX "otp_challenges_phone_createdAt_idx" ON "public"."otp_challenges"("phone", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."sessions" ADD CONSTRAINT "sessions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
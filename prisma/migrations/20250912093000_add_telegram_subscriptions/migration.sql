@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "public"."telegram_subscriptions" (
+    "id" TEXT NOT NULL,
+    "chatId" TEXT NOT NULL,
+    "location" TEXT,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "preferredTime" TEXT NOT NULL DEFAULT '07:00',
+    "language" TEXT NOT NULL DEFAULT 'en',
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "lastSentAt" TIMESTAMP(3),
+    "failureCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" TEXT,
+
+    CONSTRAINT "telegram_subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "telegram_subscriptions_chatId_key" ON "public"."telegram_subscriptions"("chatId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "telegram_subscriptions_userId_key" ON "public"."telegram_subscriptions"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."telegram_subscriptions" ADD CONSTRAINT "telegram_subscriptions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
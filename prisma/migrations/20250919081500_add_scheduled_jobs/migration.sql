@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "public"."job_status" AS ENUM ('PENDING', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "public"."telegram_subscriptions" ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'Asia/Kolkata';
+
+-- CreateTable
+CREATE TABLE "public"."telegram_deliveries" (
+    "id" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "subscriptionId" TEXT NOT NULL,
+    "jobId" TEXT,
+
+    CONSTRAINT "telegram_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."scheduled_jobs" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" JSONB,
+    "dedupeKey" TEXT,
+    "status" "public"."job_status" NOT NULL DEFAULT 'PENDING',
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "lastError" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduled_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "telegram_deliveries_subscriptionId_createdAt_idx" ON "public"."telegram_deliveries"("subscriptionId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scheduled_jobs_dedupeKey_key" ON "public"."scheduled_jobs"("dedupeKey");
+
+-- CreateIndex
+CREATE INDEX "scheduled_jobs_status_runAt_idx" ON "public"."scheduled_jobs"("status", "runAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."telegram_deliveries" ADD CONSTRAINT "telegram_deliveries_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "public"."telegram_subscriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
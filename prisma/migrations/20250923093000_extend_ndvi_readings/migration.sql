@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "public"."fields" ADD COLUMN     "ndviSyncedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."ndvi_readings" ADD COLUMN     "cloudCover" DOUBLE PRECISION,
+ADD COLUMN     "dataCoverage" DOUBLE PRECISION,
+ADD COLUMN     "max" DOUBLE PRECISION,
+ADD COLUMN     "median" DOUBLE PRECISION,
+ADD COLUMN     "min" DOUBLE PRECISION,
+ADD COLUMN     "p25" DOUBLE PRECISION,
+ADD COLUMN     "p75" DOUBLE PRECISION,
+ADD COLUMN     "pixelCount" INTEGER,
+ADD COLUMN     "satellite" TEXT NOT NULL DEFAULT 'unknown',
+ADD COLUMN     "std" DOUBLE PRECISION;
+
+-- Existing readings become day-level so they line up with ingested ones
+UPDATE "public"."ndvi_readings" SET "date" = date_trunc('day', "date");
+
+-- Keep only the newest reading per field, day and satellite before adding the unique index
+DELETE FROM "public"."ndvi_readings" a
+USING "public"."ndvi_readings" b
+WHERE a."fieldId" = b."fieldId"
+  AND a."date" = b."date"
+  AND a."satellite" = b."satellite"
+  AND (a."createdAt", a."id") < (b."createdAt", b."id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ndvi_readings_fieldId_date_satellite_key" ON "public"."ndvi_readings"("fieldId", "date", "satellite");
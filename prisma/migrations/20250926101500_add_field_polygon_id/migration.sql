@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."fields" ADD COLUMN     "polygonId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fields_polygonId_key" ON "public"."fields"("polygonId");
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "public"."crop_seasons" (
+    "id" TEXT NOT NULL,
+    "cropName" TEXT NOT NULL,
+    "variety" TEXT,
+    "sowingDate" TIMESTAMP(3) NOT NULL,
+    "expectedHarvestDate" TIMESTAMP(3),
+    "actualHarvestDate" TIMESTAMP(3),
+    "yield" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "fieldId" TEXT NOT NULL,
+
+    CONSTRAINT "crop_seasons_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "crop_seasons_fieldId_sowingDate_idx" ON "public"."crop_seasons"("fieldId", "sowingDate");
+
+-- AddForeignKey
+ALTER TABLE "public"."crop_seasons" ADD CONSTRAINT "crop_seasons_fieldId_fkey" FOREIGN KEY ("fieldId") REFERENCES "public"."fields"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Give every existing field an active season from its farmer's profile crop and sowing date
+INSERT INTO "public"."crop_seasons" ("id", "cropName", "sowingDate", "createdAt", "updatedAt", "fieldId")
+SELECT md5(random()::text || clock_timestamp()::text || f."id"),
+       COALESCE(f."cropType", p."cropName"),
+       p."sowingDate",
+       CURRENT_TIMESTAMP,
+       CURRENT_TIMESTAMP,
+       f."id"
+FROM "public"."fields" f
+JOIN "public"."farms" fa ON fa."id" = f."farmId"
+JOIN "public"."farmer_profiles" p ON p."userId" = fa."userId";
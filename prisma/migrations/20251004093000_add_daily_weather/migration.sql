@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "public"."weather_data" ADD COLUMN     "fieldId" TEXT,
+ADD COLUMN     "tempMax" DOUBLE PRECISION,
+ADD COLUMN     "tempMin" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "weather_data_fieldId_date_source_key" ON "public"."weather_data"("fieldId", "date", "source");
+
+-- AddForeignKey
+ALTER TABLE "public"."weather_data" ADD CONSTRAINT "weather_data_fieldId_fkey" FOREIGN KEY ("fieldId") REFERENCES "public"."fields"("id") ON DELETE CASCADE ON UPDATE CASCADE;
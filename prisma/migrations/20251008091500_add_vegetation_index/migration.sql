@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."ndvi_readings" ADD COLUMN     "index" TEXT NOT NULL DEFAULT 'NDVI';
+
+-- DropIndex
+DROP INDEX "public"."ndvi_readings_fieldId_date_satellite_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ndvi_readings_fieldId_date_satellite_index_key" ON "public"."ndvi_readings"("fieldId", "date", "satellite", "index");
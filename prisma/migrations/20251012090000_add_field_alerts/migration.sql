@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN "alertChannels" TEXT[] DEFAULT ARRAY['telegram']::TEXT[];
+
+-- CreateTable
+CREATE TABLE "public"."field_alerts" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "metrics" JSONB,
+    "observedAt" TIMESTAMP(3) NOT NULL,
+    "notifiedAt" TIMESTAMP(3),
+    "acknowledgedAt" TIMESTAMP(3),
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "fieldId" TEXT NOT NULL,
+
+    CONSTRAINT "field_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "field_alerts_fieldId_status_idx" ON "public"."field_alerts"("fieldId", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."field_alerts" ADD CONSTRAINT "field_alerts_fieldId_fkey" FOREIGN KEY ("fieldId") REFERENCES "public"."fields"("id") ON DELETE CASCADE ON UPDATE CASCADE;
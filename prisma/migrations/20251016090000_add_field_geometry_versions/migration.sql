@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "public"."fields" ADD COLUMN "geometryVersion" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "public"."ndvi_readings" ADD COLUMN "geometryVersion" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "public"."field_geometry_versions" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "coordinates" TEXT NOT NULL,
+    "area" DOUBLE PRECISION,
+    "polygonId" TEXT,
+    "validFrom" TIMESTAMP(3) NOT NULL,
+    "validTo" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "fieldId" TEXT NOT NULL,
+
+    CONSTRAINT "field_geometry_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "field_geometry_versions_fieldId_version_key" ON "public"."field_geometry_versions"("fieldId", "version");
+
+-- AddForeignKey
+ALTER TABLE "public"."field_geometry_versions" ADD CONSTRAINT "field_geometry_versions_fieldId_fkey" FOREIGN KEY ("fieldId") REFERENCES "public"."fields"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."field_alerts" ADD COLUMN "category" TEXT NOT NULL DEFAULT 'crop_health',
+ADD COLUMN "startsAt" TIMESTAMP(3),
+ADD COLUMN "expiresAt" TIMESTAMP(3);
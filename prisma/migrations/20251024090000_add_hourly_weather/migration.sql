@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "public"."hourly_weather" (
+    "id" TEXT NOT NULL,
+    "time" TIMESTAMP(3) NOT NULL,
+    "temperature" DOUBLE PRECISION NOT NULL,
+    "humidity" DOUBLE PRECISION NOT NULL,
+    "rainfall" DOUBLE PRECISION NOT NULL,
+    "windSpeed" DOUBLE PRECISION NOT NULL,
+    "cloudCover" DOUBLE PRECISION,
+    "source" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "fieldId" TEXT NOT NULL,
+
+    CONSTRAINT "hourly_weather_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hourly_weather_fieldId_time_source_key" ON "public"."hourly_weather"("fieldId", "time", "source");
+
+-- AddForeignKey
+ALTER TABLE "public"."hourly_weather" ADD CONSTRAINT "hourly_weather_fieldId_fkey" FOREIGN KEY ("fieldId") REFERENCES "public"."fields"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."telegram_subscriptions" ADD COLUMN     "linkFailures" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "linkLockedUntil" TIMESTAMP(3);
@@ -0,0 +1,153 @@
+// KisanMitr service worker: keeps the app shell usable offline and sends writes queued in
+// IndexedDB (see lib/offline-store.ts) when the network returns. API data is not cached here;
+// the dashboard keeps its own last-known copies in IndexedDB so it can show when they were saved.
+
+const CACHE_NAME = 'kisanmitr-shell-v1'
+const SHELL = ['/', '/dashboard', '/manifest.webmanifest', '/icons/icon.svg']
+
+const DB_NAME = 'kisanmitr-offline'
+const DB_VERSION = 1
+const OUTBOX_SYNC_TAG = 'kisanmitr-outbox'
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll(SHELL))
+      .catch((error) => console.warn('[Service Worker] Could not precache the app shell:', error))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request
+  const url = new URL(request.url)
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request))
+  } else if (url.pathname.startsWith('/_next/static/')) {
+    // Build assets have content hashes in their names, so a cached copy is never out of date
+    event.respondWith(cacheFirst(request))
+  } else {
+    event.respondWith(staleWhileRevalidate(request))
+  }
+})
+
+async function networkFirst(request) {
+  const cache = await caches.open(CACHE_NAME)
+  try {
+    const response = await fetch(request)
+    if (response.ok) cache.put(request, response.clone())
+    return response
+  } catch (error) {
+    const cached = (await cache.match(request, { ignoreSearch: true })) || (await cache.match('/dashboard'))
+    if (cached) return cached
+    throw error
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME)
+  const cached = await cache.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (response.ok) cache.put(request, response.clone())
+  return response
+}
+
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(CACHE_NAME)
+  const cached = await cache.match(request)
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok) cache.put(request, response.clone())
+      return response
+    })
+    .catch(() => cached)
+  return cached || network
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(replayOutbox())
+  }
+})
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'flush-outbox') {
+    event.waitUntil(replayOutbox())
+  }
+})
+
+function openDatabase() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains('snapshots')) db.createObjectStore('snapshots', { keyPath: 'key' })
+      if (!db.objectStoreNames.contains('outbox')) db.createObjectStore('outbox', { keyPath: 'id', autoIncrement: true })
+      if (!db.objectStoreNames.contains('replies')) db.createObjectStore('replies', { keyPath: 'id' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function withStore(db, storeName, mode, run) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = run(transaction.objectStore(storeName))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+// Same rules as flushOutbox in lib/offline-store.ts: in order, stop at the first network or
+// server failure (the browser retries the sync later), drop what the server refuses
+async function replayOutbox() {
+  const db = await openDatabase()
+  const queued = await withStore(db, 'outbox', 'readonly', (store) => store.getAll())
+  let sent = 0
+
+  try {
+    for (const item of queued) {
+      const response = await fetch(item.url, {
+        method: item.method,
+        headers: { 'Content-Type': 'application/json' },
+        body: item.body,
+        credentials: 'same-origin'
+      })
+      if (response.status >= 500) {
+        throw new Error(`Server error ${response.status} for ${item.url}`)
+      }
+
+      const reply = {
+        id: item.id,
+        kind: item.kind,
+        label: item.label,
+        requestBody: item.body,
+        status: response.status,
+        response: await response.json().catch(() => null),
+        completedAt: Date.now()
+      }
+      await withStore(db, 'replies', 'readwrite', (store) => store.put(reply))
+      await withStore(db, 'outbox', 'readwrite', (store) => store.delete(item.id))
+      sent++
+    }
+  } finally {
+    if (sent > 0) {
+      const clients = await self.clients.matchAll({ type: 'window' })
+      clients.forEach((client) => client.postMessage({ type: 'outbox-flushed', sent }))
+    }
+  }
+}